@@ -0,0 +1,26 @@
+-- Add clock-in kiosk columns to attendance_records
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_PAYROLL_RUNS_TABLE.sql
+-- The kiosk stamps check-in and check-out times; late minutes and overtime hours are derived from
+-- them using the shift start and shift hours in the payroll rules.
+
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS check_in_time TIME;
+
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS check_out_time TIME;
+
+-- Actual overtime worked; NULL means the standard overtime hours per day from the payroll rules
+ALTER TABLE attendance_records
+ADD COLUMN IF NOT EXISTS overtime_hours DECIMAL(4, 2);
+
+-- The kiosk is its own section so a shared tablet can be signed in with nothing else
+INSERT INTO app_070c516bb6_role_permissions (role, section) VALUES
+    ('supervisor', 'kiosk'),
+    ('hr', 'kiosk')
+ON CONFLICT (role, section) DO NOTHING;
+
+-- The kiosk writes attendance and needs the shift rules and locked months to do it
+SELECT app_apply_section_policies('attendance_records', ARRAY['dashboard', 'attendance', 'kiosk'], ARRAY['attendance', 'kiosk']);
+SELECT app_apply_section_policies('app_070c516bb6_payroll_rule_sets',
+    ARRAY['dashboard', 'attendance', 'kiosk'], ARRAY['attendance'], true);
+SELECT app_apply_section_policies('app_070c516bb6_payroll_runs', ARRAY['dashboard', 'payroll', 'kiosk'], ARRAY['payroll']);
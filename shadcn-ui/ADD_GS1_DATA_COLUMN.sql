@@ -0,0 +1,12 @@
+-- Add gs1_data column to app_070c516bb6_qr_codes table if it doesn't exist
+-- This column holds the GS1 application identifiers encoded with a code:
+-- { gtin, sscc, batch, productionDate, bestBefore, netWeightKg }
+-- Rows without a value are plain codes without GS1 data
+
+ALTER TABLE app_070c516bb6_qr_codes
+ADD COLUMN IF NOT EXISTS gs1_data JSONB;
+
+-- Look up packages by GTIN, batch or SSCC (e.g. for recalls)
+CREATE INDEX IF NOT EXISTS idx_qr_codes_gs1_gtin ON app_070c516bb6_qr_codes ((gs1_data->>'gtin'));
+CREATE INDEX IF NOT EXISTS idx_qr_codes_gs1_batch ON app_070c516bb6_qr_codes ((gs1_data->>'batch'));
+CREATE INDEX IF NOT EXISTS idx_qr_codes_gs1_sscc ON app_070c516bb6_qr_codes ((gs1_data->>'sscc'));
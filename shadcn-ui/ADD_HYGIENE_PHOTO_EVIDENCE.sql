@@ -0,0 +1,93 @@
+-- Tamper-evident hygiene photo evidence
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_ROLE_BASED_ACCESS.sql
+-- The app hashes every photo it captures from the in-app camera: SHA-256 of the uploaded file
+-- (to prove the stored photo is unchanged) and a 64-bit perceptual hash (to spot the same photo
+-- being reused). The database, not the device, stamps when a record was captured, flags records
+-- entered on a day other than their date, and links photos that look like an earlier photo of
+-- the same area. Evidence columns can't be changed after the record is saved.
+
+ALTER TABLE app_f79f105891_hygiene_records
+ADD COLUMN IF NOT EXISTS captured_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS photo_sha256 CHAR(64), -- Hex SHA-256 of the uploaded photo file
+ADD COLUMN IF NOT EXISTS photo_phash CHAR(16), -- Hex 64-bit difference hash of the photo
+ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES app_f79f105891_hygiene_records(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS outside_date BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_hygiene_records_area_phash
+ON app_f79f105891_hygiene_records(area) WHERE photo_phash IS NOT NULL;
+
+-- Timezone the factory works in; record dates are local dates in this zone
+CREATE OR REPLACE FUNCTION app_factory_timezone()
+RETURNS TEXT AS $$
+    SELECT 'Asia/Kolkata'::text;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Photos this many bits apart or closer count as the same picture (keep in sync with hygiene-evidence.ts)
+CREATE OR REPLACE FUNCTION app_hygiene_phash_distance(p_a TEXT, p_b TEXT)
+RETURNS INTEGER AS $$
+    SELECT bit_count(('x' || p_a)::bit(64) # ('x' || p_b)::bit(64))::integer;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION app_stamp_hygiene_record()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Server time only: whatever the device sent is ignored
+    NEW.created_at := TIMEZONE('utc'::text, NOW());
+    NEW.captured_at := NOW();
+    NEW.outside_date := (NOW() AT TIME ZONE app_factory_timezone())::date <> NEW.date;
+    NEW.duplicate_of := NULL;
+
+    IF NEW.photo_sha256 IS NOT NULL OR NEW.photo_phash IS NOT NULL THEN
+        SELECT r.id INTO NEW.duplicate_of
+        FROM app_f79f105891_hygiene_records r
+        WHERE r.area = NEW.area
+          AND (
+              r.photo_sha256 = NEW.photo_sha256
+              OR (r.photo_phash IS NOT NULL AND NEW.photo_phash IS NOT NULL
+                  AND app_hygiene_phash_distance(r.photo_phash, NEW.photo_phash) <= 6)
+          )
+        ORDER BY r.created_at DESC
+        LIMIT 1;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION app_protect_hygiene_evidence()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.date IS DISTINCT FROM OLD.date
+        OR NEW.area IS DISTINCT FROM OLD.area
+        OR NEW.photo_url IS DISTINCT FROM OLD.photo_url
+        OR NEW.photo_sha256 IS DISTINCT FROM OLD.photo_sha256
+        OR NEW.photo_phash IS DISTINCT FROM OLD.photo_phash
+        OR NEW.captured_at IS DISTINCT FROM OLD.captured_at
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at
+        OR NEW.outside_date IS DISTINCT FROM OLD.outside_date THEN
+        RAISE EXCEPTION 'Hygiene photo evidence cannot be changed';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Existing records have no server capture time; flag the ones saved on another day than their date
+UPDATE app_f79f105891_hygiene_records
+SET outside_date = (created_at AT TIME ZONE app_factory_timezone())::date <> date
+WHERE captured_at IS NULL;
+
+DROP TRIGGER IF EXISTS app_stamp_hygiene_record ON app_f79f105891_hygiene_records;
+CREATE TRIGGER app_stamp_hygiene_record
+    BEFORE INSERT ON app_f79f105891_hygiene_records
+    FOR EACH ROW
+    EXECUTE FUNCTION app_stamp_hygiene_record();
+
+DROP TRIGGER IF EXISTS app_protect_hygiene_evidence ON app_f79f105891_hygiene_records;
+CREATE TRIGGER app_protect_hygiene_evidence
+    BEFORE UPDATE ON app_f79f105891_hygiene_records
+    FOR EACH ROW
+    EXECUTE FUNCTION app_protect_hygiene_evidence();
+
+-- Records are evidence: add new ones, never edit or delete them
+SELECT app_apply_section_policies('app_f79f105891_hygiene_records', ARRAY['hygiene'], ARRAY['hygiene'], true);
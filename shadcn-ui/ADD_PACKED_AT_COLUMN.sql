@@ -0,0 +1,6 @@
+-- Add packed_at column to app_070c516bb6_qr_codes table if it doesn't exist
+-- The pack scanner stamps this with the time a package was scanned as packed, next to the
+-- packer_name of whoever was running the scanning session
+
+ALTER TABLE app_070c516bb6_qr_codes
+ADD COLUMN IF NOT EXISTS packed_at TIMESTAMP WITH TIME ZONE;
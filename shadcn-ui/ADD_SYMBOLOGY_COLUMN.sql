@@ -0,0 +1,11 @@
+-- Add symbology column to app_070c516bb6_qr_codes table if it doesn't exist
+-- This column records which symbol is printed for a code: 'qr', 'code128', 'gs1-128' or 'ean13'
+-- Rows without a value are QR codes
+
+ALTER TABLE app_070c516bb6_qr_codes
+ADD COLUMN IF NOT EXISTS symbology VARCHAR(20) DEFAULT 'qr';
+
+-- Update existing codes to be QR codes if NULL (for safety)
+UPDATE app_070c516bb6_qr_codes
+SET symbology = 'qr'
+WHERE symbology IS NULL;
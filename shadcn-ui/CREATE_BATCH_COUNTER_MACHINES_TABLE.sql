@@ -0,0 +1,62 @@
+-- Machine credentials and idempotent ingest for the batch counter endpoint
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_BATCH_COUNTER_TABLE.sql
+-- Every batch counter gets its own API key (and optionally an HMAC secret). The receive-batch-data
+-- edge function rejects requests from unknown or disabled machines, and readings are deduplicated
+-- on (machine_id, idempotency_key) so a counter can safely retry or re-send its buffer.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS batch_counter_machines (
+    machine_id VARCHAR(100) PRIMARY KEY,
+    name VARCHAR(255),
+    api_key_hash TEXT NOT NULL, -- SHA-256 hex of the machine's API key; the key itself is never stored
+    hmac_secret TEXT, -- Optional shared secret for HMAC-SHA256 signed payloads
+    is_active BOOLEAN DEFAULT true NOT NULL,
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- Only the edge function (service role) reads credentials: RLS on, no policies
+ALTER TABLE batch_counter_machines ENABLE ROW LEVEL SECURITY;
+
+-- Idempotency: sequence number from the counter, or its reading timestamp when it has no sequence
+ALTER TABLE batch_counter_data
+ADD COLUMN IF NOT EXISTS sequence BIGINT;
+
+ALTER TABLE batch_counter_data
+ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(100);
+
+-- Existing rows get a key from their id so the unique index can be created
+UPDATE batch_counter_data
+SET idempotency_key = 'legacy:' || id::text
+WHERE idempotency_key IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batch_counter_machine_idempotency
+ON batch_counter_data(machine_id, idempotency_key);
+
+-- Register a machine (or rotate its credentials). Returns nothing; keep the API key you pass in.
+-- Example: SELECT register_batch_counter_machine('MACHINE-001', 'Line 1 counter', 'a-long-random-api-key', 'optional-hmac-secret');
+CREATE OR REPLACE FUNCTION register_batch_counter_machine(
+    p_machine_id TEXT,
+    p_name TEXT,
+    p_api_key TEXT,
+    p_hmac_secret TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    IF length(p_api_key) < 24 THEN
+        RAISE EXCEPTION 'API key must be at least 24 characters';
+    END IF;
+
+    INSERT INTO batch_counter_machines (machine_id, name, api_key_hash, hmac_secret, is_active)
+    VALUES (p_machine_id, p_name, encode(digest(p_api_key, 'sha256'), 'hex'), p_hmac_secret, true)
+    ON CONFLICT (machine_id) DO UPDATE
+        SET name = EXCLUDED.name,
+            api_key_hash = EXCLUDED.api_key_hash,
+            hmac_secret = EXCLUDED.hmac_secret,
+            is_active = true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run from the SQL editor only
+REVOKE EXECUTE ON FUNCTION register_batch_counter_machine(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,23 @@
+-- Create cleaning schedule table
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_ROLE_BASED_ACCESS.sql
+-- Each row is a cleaning task for a hygiene area: done daily or on one day a week, within a
+-- time window, by the assigned cleaners. A hygiene record for the area on that date completes it.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_cleaning_schedule (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    area VARCHAR(50) NOT NULL,
+    frequency VARCHAR(20) NOT NULL DEFAULT 'daily' CHECK (frequency IN ('daily', 'weekly')),
+    weekday INTEGER CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday ... 6 = Saturday, weekly tasks only
+    window_start TIME NOT NULL,
+    window_end TIME NOT NULL,
+    cleaner_ids TEXT[] NOT NULL DEFAULT '{}', -- Worker IDs of the cleaners responsible
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    CHECK (window_end > window_start),
+    CHECK (frequency = 'daily' OR weekday IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cleaning_schedule_area ON app_070c516bb6_cleaning_schedule(area);
+
+-- Managed from hygiene; the dashboard reads it alongside hygiene records
+SELECT app_apply_section_policies('app_070c516bb6_cleaning_schedule', ARRAY['hygiene', 'dashboard'], ARRAY['hygiene']);
@@ -0,0 +1,76 @@
+-- Create code_sequences table and next_code_serial() function
+-- IMPORTANT: Run this script in your Supabase SQL Editor
+-- Serial numbers for QR codes are allocated atomically here, per prefix and per period (e.g. day),
+-- so two tablets generating codes at the same time can never receive the same serial.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_code_sequences (
+    prefix VARCHAR(20) NOT NULL DEFAULT '',
+    period VARCHAR(20) NOT NULL DEFAULT '', -- Formatted date part of the code (e.g. '250115'), '' when the template has no date
+    last_value INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    PRIMARY KEY (prefix, period)
+);
+
+-- Enable Row Level Security
+ALTER TABLE app_070c516bb6_code_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Sequences are only changed through next_code_serial(); clients may read them
+DROP POLICY IF EXISTS "Allow public read access to code_sequences" ON app_070c516bb6_code_sequences;
+CREATE POLICY "Allow public read access to code_sequences" ON app_070c516bb6_code_sequences FOR SELECT USING (true);
+
+-- Reserve p_count serials for (p_prefix, p_period) and return the LAST serial of the reserved block.
+-- p_serial_width is the number of serial digits in the code template. The sequence never hands out
+-- a serial at or below the highest one already used by a code in app_070c516bb6_qr_codes (codes
+-- created before this table existed, or by the offline fallback), and refuses to go past the width.
+DROP FUNCTION IF EXISTS next_code_serial(TEXT, TEXT, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION next_code_serial(
+    p_prefix TEXT,
+    p_period TEXT,
+    p_count INTEGER,
+    p_serial_width INTEGER
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_prefix TEXT := COALESCE(p_prefix, '');
+    v_period TEXT := COALESCE(p_period, '');
+    v_head TEXT := COALESCE(p_prefix, '') || COALESCE(p_period, '');
+    v_floor INTEGER;
+    v_last INTEGER;
+BEGIN
+    IF p_count IS NULL OR p_count < 1 OR p_count > 1000 THEN
+        RAISE EXCEPTION 'p_count must be between 1 and 1000';
+    END IF;
+    IF p_serial_width IS NULL OR p_serial_width < 3 OR p_serial_width > 9 THEN
+        RAISE EXCEPTION 'p_serial_width must be between 3 and 9';
+    END IF;
+    IF v_head !~ '^[A-Za-z0-9]*$' THEN
+        RAISE EXCEPTION 'Prefix and period may only contain letters and digits';
+    END IF;
+
+    -- Codes of this prefix/period, with or without a check digit
+    SELECT COALESCE(MAX(substring(code FROM length(v_head) + 1 FOR p_serial_width)::INTEGER), 0)
+    INTO v_floor
+    FROM app_070c516bb6_qr_codes
+    WHERE code LIKE v_head || '%'
+      AND length(code) IN (length(v_head) + p_serial_width, length(v_head) + p_serial_width + 1)
+      AND substring(code FROM length(v_head) + 1 FOR p_serial_width) ~ '^[0-9]+$';
+
+    INSERT INTO app_070c516bb6_code_sequences (prefix, period, last_value)
+    VALUES (v_prefix, v_period, v_floor + p_count)
+    ON CONFLICT (prefix, period) DO UPDATE
+        SET last_value = GREATEST(app_070c516bb6_code_sequences.last_value, v_floor) + p_count,
+            updated_at = TIMEZONE('utc'::text, NOW())
+    RETURNING last_value INTO v_last;
+
+    -- Raising rolls the reservation back, so the sequence stays at its last usable value
+    IF v_last > power(10, p_serial_width) - 1 THEN
+        RAISE EXCEPTION 'Serial range exhausted for prefix "%" and period "%"', v_prefix, v_period
+            USING ERRCODE = '22003',
+                  HINT = 'Widen the serial in the code format or use another prefix';
+    END IF;
+
+    RETURN v_last;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION next_code_serial(TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,53 @@
+-- Create hygiene areas table
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_ROLE_BASED_ACCESS.sql
+-- Hygiene areas used to be fixed in the app. They are now managed from the hygiene section:
+-- name, zone, how often the area must be cleaned and the checklist of what cleaning covers.
+-- Hygiene records and cleaning schedules keep pointing at an area by its code, so the five
+-- original areas keep their codes (toilets, storage_area, ...) and no record has to change.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_hygiene_areas (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code VARCHAR(50) NOT NULL UNIQUE CHECK (code ~ '^[a-z0-9_]+$'), -- Never changes once created
+    name VARCHAR(100) NOT NULL UNIQUE,
+    zone VARCHAR(100),
+    required_frequency VARCHAR(20) NOT NULL DEFAULT 'daily' CHECK (required_frequency IN ('daily', 'weekly')),
+    checklist_items TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- The areas the app had built in
+INSERT INTO app_070c516bb6_hygiene_areas (code, name) VALUES
+    ('toilets', 'Toilets'),
+    ('storage_area', 'Storage Area'),
+    ('packaging_area', 'Packaging Area'),
+    ('processing_area', 'Processing Area'),
+    ('office_area', 'Office Area')
+ON CONFLICT (code) DO NOTHING;
+
+-- Any other area code already used by a record or schedule, so nothing is left without an area
+INSERT INTO app_070c516bb6_hygiene_areas (code, name, is_active)
+SELECT DISTINCT used.area, initcap(replace(used.area, '_', ' ')), false
+FROM (
+    SELECT area FROM app_f79f105891_hygiene_records
+    UNION
+    SELECT area FROM app_070c516bb6_cleaning_schedule
+) used
+WHERE used.area ~ '^[a-z0-9_]+$'
+ON CONFLICT DO NOTHING;
+
+-- Records and schedules may only use known areas; area codes never change
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'hygiene_records_area_fkey') THEN
+        ALTER TABLE app_f79f105891_hygiene_records
+        ADD CONSTRAINT hygiene_records_area_fkey FOREIGN KEY (area) REFERENCES app_070c516bb6_hygiene_areas(code);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'cleaning_schedule_area_fkey') THEN
+        ALTER TABLE app_070c516bb6_cleaning_schedule
+        ADD CONSTRAINT cleaning_schedule_area_fkey FOREIGN KEY (area) REFERENCES app_070c516bb6_hygiene_areas(code);
+    END IF;
+END $$;
+
+-- Managed from hygiene; the dashboard lists the areas in its hygiene progress
+SELECT app_apply_section_policies('app_070c516bb6_hygiene_areas', ARRAY['hygiene', 'dashboard'], ARRAY['hygiene']);
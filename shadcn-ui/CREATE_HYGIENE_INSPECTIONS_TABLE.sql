@@ -0,0 +1,71 @@
+-- Create hygiene inspection and corrective action tables
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_HYGIENE_AREAS_TABLE.sql
+-- An inspection is the checklist of an area filled in with its hygiene photo: each item is
+-- marked pass, fail or n/a and the inspection is scored as the share of applicable items passed.
+-- Every failed item raises a corrective action, due the day after the inspection, that stays
+-- open until someone records how it was fixed.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_hygiene_inspections (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    record_id UUID NOT NULL UNIQUE REFERENCES app_f79f105891_hygiene_records(id),
+    area VARCHAR(50) NOT NULL REFERENCES app_070c516bb6_hygiene_areas(code),
+    date DATE NOT NULL,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ item, result: pass | fail | na, comment }]
+    score NUMERIC(5, 2) CHECK (score BETWEEN 0 AND 100), -- NULL when no item applied
+    inspected_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_hygiene_inspections_date_area ON app_070c516bb6_hygiene_inspections(date, area);
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_corrective_actions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    inspection_id UUID NOT NULL REFERENCES app_070c516bb6_hygiene_inspections(id) ON DELETE CASCADE,
+    area VARCHAR(50) NOT NULL REFERENCES app_070c516bb6_hygiene_areas(code),
+    date DATE NOT NULL,
+    item TEXT NOT NULL,
+    description TEXT NOT NULL,
+    due_date DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    resolved_by VARCHAR(255),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolution_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    CHECK (status = 'open' OR resolution_note IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_corrective_actions_status ON app_070c516bb6_corrective_actions(status, due_date);
+
+-- Raise a corrective action for each failed item of a new inspection
+CREATE OR REPLACE FUNCTION app_raise_corrective_actions()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO app_070c516bb6_corrective_actions (inspection_id, area, date, item, description, due_date)
+    SELECT NEW.id, NEW.area, NEW.date, entry->>'item', COALESCE(NULLIF(entry->>'comment', ''), entry->>'item'), NEW.date + 1
+    FROM jsonb_array_elements(NEW.items) AS entry
+    WHERE entry->>'result' = 'fail';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS app_raise_corrective_actions ON app_070c516bb6_hygiene_inspections;
+CREATE TRIGGER app_raise_corrective_actions
+    AFTER INSERT ON app_070c516bb6_hygiene_inspections
+    FOR EACH ROW
+    EXECUTE FUNCTION app_raise_corrective_actions();
+
+-- Starting checklist for areas that don't have one yet
+UPDATE app_070c516bb6_hygiene_areas
+SET checklist_items = ARRAY[
+    'Floors clean and dry',
+    'Drains clear and covered',
+    'Hand-wash soap and towels stocked',
+    'Pest traps in place and checked',
+    'Waste bins emptied'
+]
+WHERE checklist_items = '{}';
+
+-- Inspections are evidence like the records they belong to; actions are closed from hygiene
+SELECT app_apply_section_policies('app_070c516bb6_hygiene_inspections', ARRAY['hygiene', 'dashboard'], ARRAY['hygiene'], true);
+SELECT app_apply_section_policies('app_070c516bb6_corrective_actions', ARRAY['hygiene', 'dashboard'], ARRAY['hygiene']);
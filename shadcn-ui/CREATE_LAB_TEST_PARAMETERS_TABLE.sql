@@ -0,0 +1,36 @@
+-- Create lab test parameters table and result columns on lab tests
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_ROLE_BASED_ACCESS.sql
+-- Lab reports used to be stored as files only. Each product/material now has the parameters its
+-- lab tests measure (Brix, TDS, pH...) with specification limits, and the values from a report are
+-- entered with it. Each result keeps a copy of the limits it was judged against, so editing a
+-- specification later doesn't change past pass/fail outcomes.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_lab_test_parameters (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    category VARCHAR(50) NOT NULL, -- Same values as app_f79f105891_lab_tests.category
+    name VARCHAR(100) NOT NULL,
+    unit VARCHAR(20),
+    min_value NUMERIC, -- No lower limit when null
+    max_value NUMERIC, -- No upper limit when null
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE (category, name),
+    CHECK (min_value IS NOT NULL OR max_value IS NOT NULL),
+    CHECK (min_value IS NULL OR max_value IS NULL OR min_value <= max_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lab_test_parameters_category ON app_070c516bb6_lab_test_parameters(category);
+
+-- Results entered with a report: [{parameterId, name, unit, minValue, maxValue, value, passed}]
+-- passed is true when every result is within spec, null when no results were entered
+ALTER TABLE app_f79f105891_lab_tests
+ADD COLUMN IF NOT EXISTS results JSONB,
+ADD COLUMN IF NOT EXISTS passed BOOLEAN;
+
+-- Drinking water limits from IS 10500 as a starting point; adjust from the lab tests section
+INSERT INTO app_070c516bb6_lab_test_parameters (category, name, unit, min_value, max_value) VALUES
+    ('water', 'TDS', 'ppm', NULL, 500),
+    ('water', 'pH', NULL, 6.5, 8.5)
+ON CONFLICT (category, name) DO NOTHING;
+
+SELECT app_apply_section_policies('app_070c516bb6_lab_test_parameters', ARRAY['lab-tests'], ARRAY['lab-tests']);
@@ -0,0 +1,140 @@
+-- Create leave management tables: leave types, leave requests, yearly entitlements and holidays
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_PAYROLL_RUNS_TABLE.sql
+-- Approved leave and public holidays change pay (see salary-calculator.ts), so only users with
+-- the payroll section (HR) can approve leave, edit leave types, allowances or holidays, and
+-- nothing that changes pay can be changed in a month whose payroll is locked.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_leave_types (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    paid BOOLEAN NOT NULL DEFAULT true,
+    counts_as_absence BOOLEAN NOT NULL DEFAULT false, -- Reduces the attendance bonus like an absence
+    annual_days DECIMAL(5, 1) CHECK (annual_days IS NULL OR annual_days >= 0), -- NULL = no limit
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_leave_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+    leave_type_id UUID NOT NULL REFERENCES app_070c516bb6_leave_types(id),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    days DECIMAL(5, 1) NOT NULL CHECK (days > 0), -- Working days taken from the balance
+    reason TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+    requested_by VARCHAR(255),
+    decided_by VARCHAR(255),
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    CHECK (end_date >= start_date),
+    CHECK (date_part('year', start_date) = date_part('year', end_date))
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_worker_id ON app_070c516bb6_leave_requests(worker_id);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_dates ON app_070c516bb6_leave_requests(start_date, end_date);
+
+-- Worker-specific allowance for a year, replacing the leave type's annual days
+CREATE TABLE IF NOT EXISTS app_070c516bb6_leave_entitlements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+    leave_type_id UUID NOT NULL REFERENCES app_070c516bb6_leave_types(id),
+    year INTEGER NOT NULL,
+    days DECIMAL(5, 1) NOT NULL CHECK (days >= 0),
+    UNIQUE(worker_id, leave_type_id, year)
+);
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_holidays (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    date DATE NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    paid BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- Standard leave types (edit them in the app)
+INSERT INTO app_070c516bb6_leave_types (name, paid, counts_as_absence, annual_days) VALUES
+    ('Casual Leave', true, false, 12),
+    ('Sick Leave', true, false, 7),
+    ('Unpaid Leave', false, true, NULL)
+ON CONFLICT (name) DO NOTHING;
+
+-- Whether any month from p_start to p_end has locked payroll
+CREATE OR REPLACE FUNCTION app_is_payroll_range_locked(p_start DATE, p_end DATE)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM app_070c516bb6_payroll_runs
+        WHERE status = 'locked'
+          AND month BETWEEN to_char(p_start, 'YYYY-MM') AND to_char(p_end, 'YYYY-MM')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Anyone with the attendance section can request leave or withdraw a pending request;
+-- approving, rejecting and changing approved leave needs the payroll section
+CREATE OR REPLACE FUNCTION app_protect_leave_request()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'pending' AND NOT app_has_any_section(ARRAY['payroll']) THEN
+            RAISE EXCEPTION 'Leave requests must be approved by HR';
+        END IF;
+    ELSIF TG_OP = 'UPDATE' THEN
+        IF (NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('approved', 'rejected'))
+           OR OLD.status = 'approved' THEN
+            IF NOT app_has_any_section(ARRAY['payroll']) THEN
+                RAISE EXCEPTION 'Only HR can approve, reject or change approved leave';
+            END IF;
+        END IF;
+    ELSIF OLD.status = 'approved' AND NOT app_has_any_section(ARRAY['payroll']) THEN
+        RAISE EXCEPTION 'Only HR can remove approved leave';
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'approved'
+       AND app_is_payroll_range_locked(OLD.start_date, OLD.end_date) THEN
+        RAISE EXCEPTION 'Payroll is locked for this leave; it can no longer be changed';
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'approved'
+       AND app_is_payroll_range_locked(NEW.start_date, NEW.end_date) THEN
+        RAISE EXCEPTION 'Payroll is locked for this leave; it can no longer be approved';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_leave_request ON app_070c516bb6_leave_requests;
+CREATE TRIGGER protect_leave_request
+    BEFORE INSERT OR UPDATE OR DELETE ON app_070c516bb6_leave_requests
+    FOR EACH ROW EXECUTE FUNCTION app_protect_leave_request();
+
+-- Holidays in a locked month are part of what was paid
+CREATE OR REPLACE FUNCTION app_protect_locked_holiday()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND app_is_payroll_month_locked(OLD.date) THEN
+        RAISE EXCEPTION 'Payroll for % is locked; holidays cannot be changed', to_char(OLD.date, 'YYYY-MM');
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') AND app_is_payroll_month_locked(NEW.date) THEN
+        RAISE EXCEPTION 'Payroll for % is locked; holidays cannot be changed', to_char(NEW.date, 'YYYY-MM');
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_locked_holiday ON app_070c516bb6_holidays;
+CREATE TRIGGER protect_locked_holiday
+    BEFORE INSERT OR UPDATE OR DELETE ON app_070c516bb6_holidays
+    FOR EACH ROW EXECUTE FUNCTION app_protect_locked_holiday();
+
+-- The dashboard and payroll calculate salaries with leave, so they read everything
+SELECT app_apply_section_policies('app_070c516bb6_leave_types', ARRAY['dashboard', 'attendance', 'payroll'], ARRAY['payroll']);
+SELECT app_apply_section_policies('app_070c516bb6_leave_requests', ARRAY['dashboard', 'attendance', 'payroll'], ARRAY['attendance', 'payroll']);
+SELECT app_apply_section_policies('app_070c516bb6_leave_entitlements', ARRAY['dashboard', 'attendance', 'payroll'], ARRAY['payroll']);
+SELECT app_apply_section_policies('app_070c516bb6_holidays', ARRAY['dashboard', 'attendance', 'payroll'], ARRAY['payroll']);
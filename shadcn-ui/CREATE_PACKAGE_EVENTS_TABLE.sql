@@ -0,0 +1,34 @@
+-- Create package_events table (chain of custody / audit trail for packages)
+-- IMPORTANT: Run this script in your Supabase SQL Editor to create the table
+-- Every create, status transition, delete and worker reassignment of a QR code is appended here.
+-- Rows are never updated or deleted by the app, so the history survives deletion of the QR code itself.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_package_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID DEFAULT '00000000-0000-0000-0000-000000000000'::uuid,
+    code VARCHAR(255) NOT NULL,
+    event_type VARCHAR(50) NOT NULL, -- 'created', 'status_changed', 'deleted', 'reassigned'
+    from_status VARCHAR(50),
+    to_status VARCHAR(50),
+    actor VARCHAR(255), -- Packer / worker name responsible for the change
+    device_id VARCHAR(100), -- Stable per-browser identifier of the device that made the change
+    details JSONB,
+    occurred_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL, -- When it happened on the device (offline scans keep their scan time)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_package_events_code ON app_070c516bb6_package_events(code);
+CREATE INDEX IF NOT EXISTS idx_package_events_occurred_at ON app_070c516bb6_package_events(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_package_events_code_occurred_at ON app_070c516bb6_package_events(code, occurred_at);
+
+-- Enable Row Level Security
+ALTER TABLE app_070c516bb6_package_events ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist
+DROP POLICY IF EXISTS "Allow public read access to package_events" ON app_070c516bb6_package_events;
+DROP POLICY IF EXISTS "Allow public insert to package_events" ON app_070c516bb6_package_events;
+
+-- Create RLS policies (append-only: no update or delete policies)
+CREATE POLICY "Allow public read access to package_events" ON app_070c516bb6_package_events FOR SELECT USING (true);
+CREATE POLICY "Allow public insert to package_events" ON app_070c516bb6_package_events FOR INSERT WITH CHECK (true);
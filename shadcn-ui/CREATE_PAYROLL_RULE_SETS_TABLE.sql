@@ -0,0 +1,27 @@
+-- Create payroll rule sets table
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_ROLE_BASED_ACCESS.sql
+-- Pay rules (weekly off day, shift hours, overtime, half days, attendance bonus tiers) are stored as
+-- versioned, effective-dated rule sets. Rows are never updated: every edit inserts a new version, and a
+-- month is paid with the latest version effective on or before its first day.
+-- Until a rule set is saved, the app uses the standard rules built into payroll-rules.ts.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_payroll_rule_sets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID DEFAULT '00000000-0000-0000-0000-000000000000'::uuid,
+    version BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    effective_from DATE NOT NULL CHECK (EXTRACT(DAY FROM effective_from) = 1),
+    weekly_off_day SMALLINT NOT NULL CHECK (weekly_off_day BETWEEN 0 AND 6), -- 0 = Sunday
+    categories JSONB NOT NULL, -- Rules per worker category: { "male": {...}, "female": {...} }
+    notes TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_rule_sets_effective
+ON app_070c516bb6_payroll_rule_sets(effective_from DESC, version DESC);
+
+-- Salaries are shown on the dashboard and in attendance; rules are edited from attendance (HR).
+-- Append-only: no update or delete policies, so past versions can't be changed.
+SELECT app_apply_section_policies('app_070c516bb6_payroll_rule_sets',
+    ARRAY['dashboard', 'attendance', 'kiosk'], ARRAY['attendance'], true);
@@ -0,0 +1,124 @@
+-- Create payroll runs and payslips tables
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_ROLE_BASED_ACCESS.sql
+-- A payroll run snapshots every worker's salary for a month (one payslip per worker, including
+-- advance deductions). Draft runs can be regenerated; approving a run locks it. Locked runs and their
+-- payslips can't be changed, and attendance in a locked month can't be inserted, updated or deleted.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_payroll_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID DEFAULT '00000000-0000-0000-0000-000000000000'::uuid,
+    month VARCHAR(7) NOT NULL UNIQUE, -- YYYY-MM format
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'locked')),
+    total_net_pay DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    created_by VARCHAR(255),
+    approved_by VARCHAR(255),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_payslips (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    run_id UUID REFERENCES app_070c516bb6_payroll_runs(id) ON DELETE CASCADE NOT NULL,
+    worker_id UUID NOT NULL, -- No foreign key: payslips outlive deleted workers
+    worker_name VARCHAR(255) NOT NULL,
+    employee_id VARCHAR(100) NOT NULL,
+    gender VARCHAR(10) NOT NULL,
+    salary_rate DECIMAL(10, 2) NOT NULL, -- Worker's base salary when the run was generated
+    rule_set_id VARCHAR(100) NOT NULL,
+    rule_set_version BIGINT NOT NULL,
+    base_salary DECIMAL(10, 2) NOT NULL,
+    bonus DECIMAL(10, 2) NOT NULL,
+    overtime_compensation DECIMAL(10, 2) NOT NULL,
+    late_minutes_deduction DECIMAL(10, 2) NOT NULL,
+    total_late_minutes INTEGER NOT NULL,
+    total_salary DECIMAL(10, 2) NOT NULL,
+    advance_current_month DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    advance_last_month DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    advance_deduction DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    net_pay DECIMAL(10, 2) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(run_id, worker_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payslips_worker_id ON app_070c516bb6_payslips(worker_id);
+
+-- Locked runs are final: no update, delete, or unlocking
+CREATE OR REPLACE FUNCTION app_protect_locked_payroll_run()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status = 'locked' THEN
+        RAISE EXCEPTION 'Payroll for % is locked', OLD.month;
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_locked_payroll_run ON app_070c516bb6_payroll_runs;
+CREATE TRIGGER protect_locked_payroll_run
+    BEFORE UPDATE OR DELETE ON app_070c516bb6_payroll_runs
+    FOR EACH ROW EXECUTE FUNCTION app_protect_locked_payroll_run();
+
+-- Payslips of a locked run can't be added, changed or removed
+CREATE OR REPLACE FUNCTION app_protect_locked_payslip()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_run_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.run_id ELSE NEW.run_id END;
+BEGIN
+    IF EXISTS (SELECT 1 FROM app_070c516bb6_payroll_runs WHERE id = v_run_id AND status = 'locked')
+       OR (TG_OP = 'UPDATE' AND EXISTS (SELECT 1 FROM app_070c516bb6_payroll_runs WHERE id = OLD.run_id AND status = 'locked')) THEN
+        RAISE EXCEPTION 'Payslips of a locked payroll run cannot be changed';
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_locked_payslip ON app_070c516bb6_payslips;
+CREATE TRIGGER protect_locked_payslip
+    BEFORE INSERT OR UPDATE OR DELETE ON app_070c516bb6_payslips
+    FOR EACH ROW EXECUTE FUNCTION app_protect_locked_payslip();
+
+-- Attendance in a locked month is frozen, whichever client writes it
+CREATE OR REPLACE FUNCTION app_is_payroll_month_locked(p_date DATE)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM app_070c516bb6_payroll_runs
+        WHERE month = to_char(p_date, 'YYYY-MM') AND status = 'locked'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION app_protect_locked_attendance()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') AND app_is_payroll_month_locked(OLD.date::date) THEN
+        RAISE EXCEPTION 'Payroll for % is locked; attendance cannot be changed', to_char(OLD.date::date, 'YYYY-MM');
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') AND app_is_payroll_month_locked(NEW.date::date) THEN
+        RAISE EXCEPTION 'Payroll for % is locked; attendance cannot be changed', to_char(NEW.date::date, 'YYYY-MM');
+    END IF;
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_locked_attendance ON attendance_records;
+CREATE TRIGGER protect_locked_attendance
+    BEFORE INSERT OR UPDATE OR DELETE ON attendance_records
+    FOR EACH ROW EXECUTE FUNCTION app_protect_locked_attendance();
+
+-- Payroll is its own section; HR gets it by default (admins always have every section)
+INSERT INTO app_070c516bb6_role_permissions (role, section) VALUES
+    ('hr', 'payroll')
+ON CONFLICT (role, section) DO NOTHING;
+
+-- The dashboard shows last month's approved salaries
+SELECT app_apply_section_policies('app_070c516bb6_payroll_runs', ARRAY['dashboard', 'payroll', 'kiosk'], ARRAY['payroll']);
+SELECT app_apply_section_policies('app_070c516bb6_payslips', ARRAY['dashboard', 'payroll'], ARRAY['payroll']);
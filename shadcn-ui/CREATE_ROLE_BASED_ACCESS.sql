@@ -0,0 +1,262 @@
+-- Role-based access control: user profiles with roles, per-role section permissions,
+-- and row level security policies enforcing them on every app table.
+-- IMPORTANT: Run this script in your Supabase SQL Editor, after the table scripts.
+-- It replaces the "Allow public ..." policies, so the app only works for signed-in users afterwards.
+--
+-- Roles: packer, supervisor, hr, qa, admin
+-- Sections: dashboard, generator, list, scanner, attendance, hygiene, lab-tests, users
+-- New accounts start without a role and can't open any section until an admin grants one.
+-- The first admin is granted explicitly at the end of section 2, never by sign-up order.
+
+-- ============================================================
+-- 1. PROFILES AND PERMISSIONS
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_user_profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email VARCHAR(255) NOT NULL,
+    full_name VARCHAR(255),
+    role VARCHAR(20) CHECK (role IN ('packer', 'supervisor', 'hr', 'qa', 'admin')), -- NULL until an admin grants a role
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_role_permissions (
+    role VARCHAR(20) NOT NULL,
+    section VARCHAR(50) NOT NULL,
+    PRIMARY KEY (role, section)
+);
+
+-- Profiles created by earlier versions of this script defaulted to packer
+ALTER TABLE app_070c516bb6_user_profiles ALTER COLUMN role DROP NOT NULL;
+ALTER TABLE app_070c516bb6_user_profiles ALTER COLUMN role DROP DEFAULT;
+
+-- Default permission matrix (same as DEFAULT_ROLE_PERMISSIONS in src/lib/access-control.ts)
+INSERT INTO app_070c516bb6_role_permissions (role, section) VALUES
+    ('packer', 'scanner'),
+    ('supervisor', 'dashboard'),
+    ('supervisor', 'generator'),
+    ('supervisor', 'list'),
+    ('supervisor', 'scanner'),
+    ('supervisor', 'attendance'),
+    ('supervisor', 'kiosk'),
+    ('hr', 'dashboard'),
+    ('hr', 'attendance'),
+    ('hr', 'kiosk'),
+    ('hr', 'payroll'),
+    ('qa', 'dashboard'),
+    ('qa', 'scanner'),
+    ('qa', 'hygiene'),
+    ('qa', 'lab-tests')
+ON CONFLICT (role, section) DO NOTHING;
+
+-- ============================================================
+-- 2. HELPER FUNCTIONS (SECURITY DEFINER so policies can read profiles without recursion)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION app_user_role()
+RETURNS TEXT AS $$
+    SELECT role FROM app_070c516bb6_user_profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- True when the signed-in user's role may use the section. Admins may use every section.
+CREATE OR REPLACE FUNCTION app_has_section(p_section TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM app_070c516bb6_user_profiles p
+        WHERE p.id = auth.uid()
+          AND (
+              p.role = 'admin'
+              OR EXISTS (
+                  SELECT 1 FROM app_070c516bb6_role_permissions rp
+                  WHERE rp.role = p.role AND rp.section = p_section
+              )
+          )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION app_has_any_section(p_sections TEXT[])
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM unnest(p_sections) s WHERE app_has_section(s));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION app_user_role() TO authenticated;
+GRANT EXECUTE ON FUNCTION app_has_section(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION app_has_any_section(TEXT[]) TO authenticated;
+
+-- Create a profile for every new auth user, without a role: anyone can sign up, so signing up
+-- alone must not give access to anything
+CREATE OR REPLACE FUNCTION app_handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO app_070c516bb6_user_profiles (id, email, full_name)
+    VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name')
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS app_on_auth_user_created ON auth.users;
+CREATE TRIGGER app_on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW
+    EXECUTE FUNCTION app_handle_new_user();
+
+-- Profiles for accounts that existed before this script, also without a role
+INSERT INTO app_070c516bb6_user_profiles (id, email, full_name)
+SELECT u.id, u.email, u.raw_user_meta_data->>'full_name'
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+-- Make an existing account admin. Only callable from the SQL Editor or with the service key.
+CREATE OR REPLACE FUNCTION app_grant_admin(p_email TEXT)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE app_070c516bb6_user_profiles
+    SET role = 'admin', updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE lower(email) = lower(trim(p_email));
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No account with email %. Sign up in the app first, then run this again.', p_email;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION app_grant_admin(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- FIRST ADMIN: sign up in the app with the owner's account, then run (with the real email):
+--     SELECT app_grant_admin('owner@example.com');
+-- Further roles are granted by that admin from Users & Roles.
+
+-- ============================================================
+-- 3. POLICIES ON PROFILES AND PERMISSIONS
+-- ============================================================
+
+ALTER TABLE app_070c516bb6_user_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE app_070c516bb6_role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read own profile, admins read all" ON app_070c516bb6_user_profiles;
+DROP POLICY IF EXISTS "Admins update profiles" ON app_070c516bb6_user_profiles;
+DROP POLICY IF EXISTS "Signed-in users read role permissions" ON app_070c516bb6_role_permissions;
+DROP POLICY IF EXISTS "Admins manage role permissions" ON app_070c516bb6_role_permissions;
+
+CREATE POLICY "Users read own profile, admins read all" ON app_070c516bb6_user_profiles
+    FOR SELECT TO authenticated USING (id = auth.uid() OR app_user_role() = 'admin');
+CREATE POLICY "Admins update profiles" ON app_070c516bb6_user_profiles
+    FOR UPDATE TO authenticated USING (app_user_role() = 'admin') WITH CHECK (app_user_role() = 'admin');
+
+CREATE POLICY "Signed-in users read role permissions" ON app_070c516bb6_role_permissions
+    FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins manage role permissions" ON app_070c516bb6_role_permissions
+    FOR ALL TO authenticated USING (app_user_role() = 'admin') WITH CHECK (app_user_role() = 'admin');
+
+-- ============================================================
+-- 4. SECTION POLICIES ON APP TABLES
+-- ============================================================
+
+-- Replace every existing policy on a table with section-based ones.
+-- NULL sections mean "any signed-in user" and an empty array means nobody (only the service role,
+-- which bypasses RLS); append_only tables get no update/delete policies.
+CREATE OR REPLACE FUNCTION app_apply_section_policies(
+    p_table TEXT,
+    p_read_sections TEXT[],
+    p_write_sections TEXT[],
+    p_append_only BOOLEAN DEFAULT false
+)
+RETURNS VOID AS $$
+DECLARE
+    v_policy RECORD;
+    v_read TEXT;
+    v_write TEXT;
+BEGIN
+    IF to_regclass(p_table) IS NULL THEN
+        RAISE NOTICE 'Skipping % (table does not exist)', p_table;
+        RETURN;
+    END IF;
+
+    EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', p_table);
+
+    FOR v_policy IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = p_table LOOP
+        EXECUTE format('DROP POLICY %I ON %I', v_policy.policyname, p_table);
+    END LOOP;
+
+    v_read := CASE WHEN p_read_sections IS NULL THEN 'true' ELSE format('app_has_any_section(%L)', p_read_sections) END;
+    v_write := CASE WHEN p_write_sections IS NULL THEN 'true' ELSE format('app_has_any_section(%L)', p_write_sections) END;
+
+    EXECUTE format('CREATE POLICY "Section read" ON %I FOR SELECT TO authenticated USING (%s)', p_table, v_read);
+    EXECUTE format('CREATE POLICY "Section insert" ON %I FOR INSERT TO authenticated WITH CHECK (%s)', p_table, v_write);
+    IF NOT p_append_only THEN
+        EXECUTE format('CREATE POLICY "Section update" ON %I FOR UPDATE TO authenticated USING (%s) WITH CHECK (%s)', p_table, v_write, v_write);
+        EXECUTE format('CREATE POLICY "Section delete" ON %I FOR DELETE TO authenticated USING (%s)', p_table, v_write);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Packages: created in the generator, updated by scans and from the package list
+SELECT app_apply_section_policies('app_070c516bb6_qr_codes',
+    ARRAY['dashboard', 'generator', 'list', 'scanner'], ARRAY['generator', 'list', 'scanner']);
+SELECT app_apply_section_policies('app_070c516bb6_barcode_assignments',
+    ARRAY['dashboard', 'generator', 'list', 'scanner'], ARRAY['generator', 'list', 'scanner']);
+SELECT app_apply_section_policies('app_070c516bb6_package_events',
+    ARRAY['dashboard', 'generator', 'list', 'scanner'], ARRAY['generator', 'list', 'scanner'], true);
+SELECT app_apply_section_policies('app_070c516bb6_code_sequences',
+    ARRAY['generator'], ARRAY['generator']);
+
+-- Workers hold salaries, so only attendance, payroll and the clock-in kiosk read the table; it is managed from attendance
+SELECT app_apply_section_policies('workers', ARRAY['attendance', 'payroll', 'kiosk'], ARRAY['attendance']);
+SELECT app_apply_section_policies('app_070c516bb6_workers', ARRAY['attendance', 'payroll', 'kiosk'], ARRAY['attendance']);
+SELECT app_apply_section_policies('app_f79f105891_workers', ARRAY['attendance', 'payroll', 'kiosk'], ARRAY['attendance']);
+
+-- Other sections list workers (packers, cleaners, names on packages) from this view, which leaves out pay.
+-- Views run as their owner, so it isn't limited by the table's policies; it checks for a role itself.
+CREATE OR REPLACE VIEW app_worker_directory AS
+SELECT id, employee_id, name, department, position, is_packer, is_cleaner, gender, is_active, inactive_date, created_at, updated_at
+FROM workers
+WHERE app_user_role() IS NOT NULL;
+
+REVOKE ALL ON app_worker_directory FROM PUBLIC, anon;
+GRANT SELECT ON app_worker_directory TO authenticated;
+SELECT app_apply_section_policies('attendance_records', ARRAY['dashboard', 'attendance', 'kiosk'], ARRAY['attendance', 'kiosk']);
+SELECT app_apply_section_policies('app_f79f105891_attendance', ARRAY['dashboard', 'attendance'], ARRAY['attendance']);
+
+SELECT app_apply_section_policies('app_f79f105891_hygiene_records', ARRAY['hygiene'], ARRAY['hygiene']);
+SELECT app_apply_section_policies('app_f79f105891_lab_tests', ARRAY['lab-tests'], ARRAY['lab-tests']);
+
+-- Settings (label templates, code format, OT defaults that feed payroll) are read by every section
+-- but only changed by admins
+SELECT app_apply_section_policies('app_070c516bb6_settings', NULL, ARRAY[]::TEXT[]);
+DROP POLICY IF EXISTS "Admins manage settings" ON app_070c516bb6_settings;
+CREATE POLICY "Admins manage settings" ON app_070c516bb6_settings
+    FOR ALL TO authenticated USING (app_user_role() = 'admin') WITH CHECK (app_user_role() = 'admin');
+
+-- Counter readings are only written by the receive-batch-data edge function (service role), after it
+-- has authenticated the machine; production sections read them
+SELECT app_apply_section_policies('batch_counter_data', ARRAY['dashboard', 'generator', 'list'], ARRAY[]::TEXT[], true);
+
+-- Serials are only handed out to signed-in users
+REVOKE EXECUTE ON FUNCTION next_code_serial(TEXT, TEXT, INTEGER, INTEGER) FROM anon;
+
+-- ============================================================
+-- 5. STORAGE BUCKETS
+-- ============================================================
+
+-- Buckets stay public for reading (records store public URLs); uploads need the section
+DROP POLICY IF EXISTS "Authenticated users can upload" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload Lab Tests" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can update Lab Tests" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can delete Lab Tests" ON storage.objects;
+DROP POLICY IF EXISTS "Hygiene section manages hygiene photos" ON storage.objects;
+DROP POLICY IF EXISTS "Lab tests section manages lab test files" ON storage.objects;
+
+CREATE POLICY "Hygiene section manages hygiene photos" ON storage.objects
+    FOR ALL TO authenticated
+    USING (bucket_id = 'hygiene-photos' AND app_has_section('hygiene'))
+    WITH CHECK (bucket_id = 'hygiene-photos' AND app_has_section('hygiene'));
+
+CREATE POLICY "Lab tests section manages lab test files" ON storage.objects
+    FOR ALL TO authenticated
+    USING (bucket_id = 'lab-tests' AND app_has_section('lab-tests'))
+    WITH CHECK (bucket_id = 'lab-tests' AND app_has_section('lab-tests'));
@@ -0,0 +1,33 @@
+-- Create shift and weekly roster tables
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_ROLE_BASED_ACCESS.sql
+-- A roster row puts a worker on a shift from its week on; later weeks keep that shift until
+-- the worker's next row. The clock-in kiosk counts late minutes from the rostered shift start,
+-- and workers on their shift's weekly off day aren't offered as packers.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_shifts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(100) NOT NULL UNIQUE,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL, -- Earlier than start_time for a shift that runs past midnight
+    break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (break_minutes >= 0),
+    weekly_off_day INTEGER NOT NULL CHECK (weekly_off_day BETWEEN 0 AND 6), -- 0 = Sunday ... 6 = Saturday
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    CHECK (end_time <> start_time)
+);
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_roster (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1), -- Monday of the week
+    shift_id UUID REFERENCES app_070c516bb6_shifts(id), -- NULL = not rostered from this week
+    updated_by VARCHAR(255),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(worker_id, week_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_roster_worker_week ON app_070c516bb6_roster(worker_id, week_start);
+
+-- Planned from attendance; read by the kiosk and by the scanner and generator when picking packers
+SELECT app_apply_section_policies('app_070c516bb6_shifts', ARRAY['attendance', 'kiosk', 'scanner', 'generator'], ARRAY['attendance']);
+SELECT app_apply_section_policies('app_070c516bb6_roster', ARRAY['attendance', 'kiosk', 'scanner', 'generator'], ARRAY['attendance']);
@@ -0,0 +1,62 @@
+-- Create worker advances ledger tables
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_PAYROLL_RUNS_TABLE.sql
+-- Replaces the hand-edited advance_current_month / advance_last_month / advance_deduction columns on
+-- workers with a ledger: each advance has an issue date, amount and monthly installment, and every
+-- installment recovered through an approved payroll run is recorded against it.
+
+CREATE TABLE IF NOT EXISTS app_070c516bb6_worker_advances (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID DEFAULT '00000000-0000-0000-0000-000000000000'::uuid,
+    worker_id UUID REFERENCES workers(id) ON DELETE CASCADE NOT NULL,
+    issue_date DATE NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    installment_amount DECIMAL(10, 2) NOT NULL CHECK (installment_amount > 0),
+    recovery_start_month VARCHAR(7) NOT NULL, -- YYYY-MM format
+    notes TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_worker_advances_worker_id ON app_070c516bb6_worker_advances(worker_id);
+
+-- Recovered installments are history: an advance with recoveries can't be deleted
+CREATE TABLE IF NOT EXISTS app_070c516bb6_advance_recoveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    advance_id UUID REFERENCES app_070c516bb6_worker_advances(id) ON DELETE RESTRICT NOT NULL,
+    worker_id UUID NOT NULL,
+    month VARCHAR(7) NOT NULL, -- YYYY-MM format
+    amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+    payroll_run_id UUID REFERENCES app_070c516bb6_payroll_runs(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    UNIQUE(advance_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_advance_recoveries_worker_id ON app_070c516bb6_advance_recoveries(worker_id);
+
+-- Payslips keep the balance still owed after the month's deduction
+ALTER TABLE app_070c516bb6_payslips
+ADD COLUMN IF NOT EXISTS advance_balance DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Carry over what the old columns held as an opening balance, recovered from this month at the
+-- old deduction rate. Only runs once: workers that already have advances are skipped.
+-- The old columns are left in place and are no longer read by the app.
+INSERT INTO app_070c516bb6_worker_advances (worker_id, issue_date, amount, installment_amount, recovery_start_month, notes, created_by)
+SELECT
+    w.id,
+    CURRENT_DATE,
+    COALESCE(w.advance_current_month, 0) + COALESCE(w.advance_last_month, 0),
+    CASE
+        WHEN COALESCE(w.advance_deduction, 0) > 0
+            THEN LEAST(w.advance_deduction, COALESCE(w.advance_current_month, 0) + COALESCE(w.advance_last_month, 0))
+        ELSE COALESCE(w.advance_current_month, 0) + COALESCE(w.advance_last_month, 0)
+    END,
+    to_char(CURRENT_DATE, 'YYYY-MM'),
+    'Opening balance migrated from the old advance fields',
+    'migration'
+FROM workers w
+WHERE COALESCE(w.advance_current_month, 0) + COALESCE(w.advance_last_month, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM app_070c516bb6_worker_advances a WHERE a.worker_id = w.id);
+
+-- HR records advances from attendance or payroll; recoveries are only written by payroll approval
+SELECT app_apply_section_policies('app_070c516bb6_worker_advances', ARRAY['dashboard', 'attendance', 'payroll'], ARRAY['attendance', 'payroll']);
+SELECT app_apply_section_policies('app_070c516bb6_advance_recoveries', ARRAY['dashboard', 'attendance', 'payroll'], ARRAY['payroll'], true);
@@ -0,0 +1,113 @@
+-- Signed worker ID badges
+-- IMPORTANT: Run this script in your Supabase SQL Editor after CREATE_ROLE_BASED_ACCESS.sql
+-- Each badge QR holds a token KWB1.<worker id>.<badge version>.<signature>. The signature is an
+-- HMAC-SHA256 made with a secret that never leaves the database, so a badge can't be forged by
+-- typing someone's employee ID into a QR generator. Reissuing a badge bumps the worker's badge
+-- version, which makes the old (lost) badge stop working.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Single-row table holding the signing secret: RLS on, no policies, so no client can read it
+CREATE TABLE IF NOT EXISTS app_070c516bb6_badge_signing_key (
+    id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    secret TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+ALTER TABLE app_070c516bb6_badge_signing_key ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO app_070c516bb6_badge_signing_key (id, secret)
+VALUES (1, encode(gen_random_bytes(32), 'hex'))
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE workers
+ADD COLUMN IF NOT EXISTS badge_version INTEGER NOT NULL DEFAULT 1;
+
+-- Signature part of a badge token (first 128 bits of the HMAC, hex)
+CREATE OR REPLACE FUNCTION app_worker_badge_signature(p_worker_id UUID, p_version INTEGER)
+RETURNS TEXT AS $$
+    SELECT substr(encode(hmac(p_worker_id::text || ':' || p_version::text, secret, 'sha256'), 'hex'), 1, 32)
+    FROM app_070c516bb6_badge_signing_key
+    WHERE id = 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION app_worker_badge_signature(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Badge tokens for the given workers. Only users who manage attendance can issue badges.
+CREATE OR REPLACE FUNCTION app_sign_worker_badges(p_worker_ids UUID[])
+RETURNS TABLE (worker_id UUID, token TEXT) AS $$
+BEGIN
+    IF NOT app_has_any_section(ARRAY['attendance']) THEN
+        RAISE EXCEPTION 'Not allowed to issue worker badges';
+    END IF;
+
+    RETURN QUERY
+    SELECT w.id, 'KWB1.' || w.id::text || '.' || w.badge_version::text || '.' || app_worker_badge_signature(w.id, w.badge_version)
+    FROM workers w
+    WHERE w.id = ANY(p_worker_ids);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Worker a scanned badge belongs to, or NULL when the token is forged, reissued or the worker has left
+CREATE OR REPLACE FUNCTION app_verify_worker_badge(p_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+    v_parts TEXT[] := string_to_array(p_token, '.');
+    v_worker_id UUID;
+    v_version INTEGER;
+BEGIN
+    IF NOT app_has_any_section(ARRAY['attendance', 'kiosk', 'scanner']) THEN
+        RAISE EXCEPTION 'Not allowed to verify worker badges';
+    END IF;
+
+    IF array_length(v_parts, 1) IS DISTINCT FROM 4 OR v_parts[1] <> 'KWB1' THEN
+        RETURN NULL;
+    END IF;
+
+    BEGIN
+        v_worker_id := v_parts[2]::UUID;
+        v_version := v_parts[3]::INTEGER;
+    EXCEPTION WHEN OTHERS THEN
+        RETURN NULL;
+    END;
+
+    IF v_parts[4] IS DISTINCT FROM app_worker_badge_signature(v_worker_id, v_version) THEN
+        RETURN NULL;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM workers
+        WHERE id = v_worker_id AND badge_version = v_version AND is_active IS DISTINCT FROM false
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN v_worker_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replace a lost badge: the worker's previous badges stop working. Returns the new badge version.
+CREATE OR REPLACE FUNCTION app_reissue_worker_badge(p_worker_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_version INTEGER;
+BEGIN
+    IF NOT app_has_any_section(ARRAY['attendance']) THEN
+        RAISE EXCEPTION 'Not allowed to reissue worker badges';
+    END IF;
+
+    UPDATE workers
+    SET badge_version = badge_version + 1
+    WHERE id = p_worker_id
+    RETURNING badge_version INTO v_version;
+
+    RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION app_sign_worker_badges(UUID[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION app_verify_worker_badge(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION app_reissue_worker_badge(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION app_sign_worker_badges(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION app_verify_worker_badge(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION app_reissue_worker_badge(UUID) TO authenticated;
@@ -3,6 +3,10 @@
  * - Fetches recent hygiene images from Supabase for each area
  * - Uses AI to edit images (adjust angle, remove objects)
  * - Creates hygiene records for last 20 days (excluding Tuesdays) at 10 AM
+ *
+ * Once ADD_HYGIENE_PHOTO_EVIDENCE.sql is applied, the database stamps records with the time they
+ * are really saved, so records made by this script are flagged as entered outside their date and
+ * carry no photo hash.
  */
 
 import { createClient } from '@supabase/supabase-js';
@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { BarcodeGenerator } from '@/components/barcode-generator'
 import { BarcodeList } from '@/components/barcode-list'
 import { DualStatusScanner } from '@/components/dual-status-scanner'
@@ -8,12 +8,22 @@ import { ScanOnlyDashboard } from '@/components/dashboard/ScanOnlyDashboard'
 import { ListsDashboard } from '@/components/dashboard/ListsDashboard'
 import { HygieneRecords } from '@/components/hygiene-records'
 import { LabTests } from '@/components/lab-tests'
-import { PasswordProtection } from '@/components/PasswordProtection'
+import { PayrollManagement } from '@/components/payroll-management'
+import { ClockInKiosk } from '@/components/clock-in-kiosk'
+import { UserManagement } from '@/components/user-management'
+import { AuthGuard } from '@/components/auth/AuthGuard'
+import { useAuth } from '@/contexts/AuthContext'
+import { ROLE_LABELS } from '@/lib/access-control'
+import { refreshKnownCodeFormats } from '@/lib/barcode-generator'
+import { syncPackageEvents } from '@/lib/package-events'
+import { AppSection } from '@/types'
 import { Toaster } from "@/components/ui/sonner"
-import { Package, QrCode, ScanLine, Users, BarChart3, Sparkles, TestTube } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Package, QrCode, ScanLine, Users, BarChart3, Sparkles, TestTube, Shield, LogOut, Wallet, Clock } from 'lucide-react'
 import {
   Sidebar,
   SidebarContent,
+  SidebarFooter,
   SidebarGroup,
   SidebarGroupContent,
   SidebarGroupLabel,
@@ -26,9 +36,43 @@ import {
   SidebarTrigger,
 } from "@/components/ui/sidebar"
 
+// Sidebar entries, shown only for sections the signed-in user's role can open
+const NAV_ITEMS = [
+  { section: AppSection.DASHBOARD, label: "Dashboard", icon: BarChart3 },
+  { section: AppSection.GENERATOR, label: "Generator", icon: QrCode },
+  { section: AppSection.LIST, label: "Package List", icon: Package },
+  { section: AppSection.SCANNER, label: "Scanner", icon: ScanLine },
+  { section: AppSection.ATTENDANCE, label: "Attendance", icon: Users },
+  { section: AppSection.KIOSK, label: "Clock In Kiosk", icon: Clock },
+  { section: AppSection.HYGIENE, label: "Hygiene Records", icon: Sparkles },
+  { section: AppSection.LAB_TESTS, label: "Lab Tests", icon: TestTube },
+  { section: AppSection.PAYROLL, label: "Payroll", icon: Wallet },
+  { section: AppSection.USERS, label: "Users & Roles", icon: Shield },
+]
+
 function App() {
+  const { profile, isAuthenticated, canAccess, logout } = useAuth()
   const [refreshTrigger, setRefreshTrigger] = useState(0)
-  const [activeTab, setActiveTab] = useState("scanner")
+  const [activeTab, setActiveTab] = useState<AppSection>(AppSection.SCANNER)
+
+  // Land on the first section the role can open when the current one isn't allowed
+  useEffect(() => {
+    if (profile && !canAccess(activeTab)) {
+      const firstAllowed = NAV_ITEMS.find(item => canAccess(item.section))
+      if (firstAllowed) {
+        setActiveTab(firstAllowed.section)
+      }
+    }
+  }, [profile, activeTab, canAccess])
+
+  // Scanners validate codes offline against the formats cached on this device
+  useEffect(() => {
+    if (profile) {
+      refreshKnownCodeFormats().catch(error => console.error('Error refreshing code formats:', error))
+      // Package history written on this device while Supabase was unavailable
+      syncPackageEvents()
+    }
+  }, [profile])
 
   const handleBarcodesUpdated = () => {
     setRefreshTrigger(prev => prev + 1)
@@ -41,24 +85,24 @@ function App() {
 
   const renderContent = () => {
     switch (activeTab) {
-      case "dashboard":
+      case AppSection.DASHBOARD:
         return (
-          <PasswordProtection sectionName="dashboard">
+          <AuthGuard section={AppSection.DASHBOARD}>
             <Dashboard key={refreshTrigger} />
-          </PasswordProtection>
+          </AuthGuard>
         )
-      case "generator":
+      case AppSection.GENERATOR:
         return (
-          <PasswordProtection sectionName="generator">
+          <AuthGuard section={AppSection.GENERATOR}>
             <BarcodeGenerator
               key={refreshTrigger}
               onBarcodesGenerated={handleBarcodesUpdated}
             />
-          </PasswordProtection>
+          </AuthGuard>
         )
-      case "list":
+      case AppSection.LIST:
         return (
-          <PasswordProtection sectionName="list">
+          <AuthGuard section={AppSection.LIST}>
             <div className="space-y-6">
               <ListsDashboard key={refreshTrigger} />
               <BarcodeList
@@ -66,37 +110,57 @@ function App() {
                 onBarcodeUpdated={handleBarcodesUpdated}
               />
             </div>
-          </PasswordProtection>
+          </AuthGuard>
         )
-      case "scanner":
+      case AppSection.SCANNER:
         return (
-          <div className="space-y-6">
-            <DualStatusScanner
-              key={refreshTrigger}
-              onBarcodesUpdated={handleBarcodesUpdated}
-            />
-            <ScanOnlyDashboard key={refreshTrigger} />
-          </div>
+          <AuthGuard section={AppSection.SCANNER}>
+            <div className="space-y-6">
+              <DualStatusScanner
+                key={refreshTrigger}
+                onBarcodesUpdated={handleBarcodesUpdated}
+              />
+              <ScanOnlyDashboard key={refreshTrigger} />
+            </div>
+          </AuthGuard>
         )
-      case "attendance":
+      case AppSection.ATTENDANCE:
         return (
-          <PasswordProtection sectionName="attendance">
+          <AuthGuard section={AppSection.ATTENDANCE}>
             <AttendanceManagement
               onAttendanceUpdate={handleAttendanceUpdated}
             />
-          </PasswordProtection>
+          </AuthGuard>
         )
-      case "hygiene":
+      case AppSection.KIOSK:
         return (
-          <PasswordProtection sectionName="hygiene">
+          <AuthGuard section={AppSection.KIOSK}>
+            <ClockInKiosk />
+          </AuthGuard>
+        )
+      case AppSection.HYGIENE:
+        return (
+          <AuthGuard section={AppSection.HYGIENE}>
             <HygieneRecords key={refreshTrigger} />
-          </PasswordProtection>
+          </AuthGuard>
         )
-      case "lab-tests":
+      case AppSection.LAB_TESTS:
         return (
-          <PasswordProtection sectionName="lab-tests">
+          <AuthGuard section={AppSection.LAB_TESTS}>
             <LabTests key={refreshTrigger} />
-          </PasswordProtection>
+          </AuthGuard>
+        )
+      case AppSection.PAYROLL:
+        return (
+          <AuthGuard section={AppSection.PAYROLL}>
+            <PayrollManagement key={refreshTrigger} />
+          </AuthGuard>
+        )
+      case AppSection.USERS:
+        return (
+          <AuthGuard section={AppSection.USERS} requireFullAccess>
+            <UserManagement />
+          </AuthGuard>
         )
       default:
         return null
@@ -123,93 +187,49 @@ function App() {
               <SidebarGroupLabel>Navigation</SidebarGroupLabel>
               <SidebarGroupContent>
                 <SidebarMenu>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => setActiveTab("dashboard")}
-                      isActive={activeTab === "dashboard"}
-                      tooltip="Dashboard"
-                    >
-                      <BarChart3 className="h-4 w-4" />
-                      <span>Dashboard</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => setActiveTab("generator")}
-                      isActive={activeTab === "generator"}
-                      tooltip="Generator"
-                    >
-                      <QrCode className="h-4 w-4" />
-                      <span>Generator</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => setActiveTab("list")}
-                      isActive={activeTab === "list"}
-                      tooltip="Package List"
-                    >
-                      <Package className="h-4 w-4" />
-                      <span>Package List</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => setActiveTab("scanner")}
-                      isActive={activeTab === "scanner"}
-                      tooltip="Scanner"
-                    >
-                      <ScanLine className="h-4 w-4" />
-                      <span>Scanner</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => setActiveTab("attendance")}
-                      isActive={activeTab === "attendance"}
-                      tooltip="Attendance"
-                    >
-                      <Users className="h-4 w-4" />
-                      <span>Attendance</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => setActiveTab("hygiene")}
-                      isActive={activeTab === "hygiene"}
-                      tooltip="Hygiene Records"
-                    >
-                      <Sparkles className="h-4 w-4" />
-                      <span>Hygiene Records</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      onClick={() => setActiveTab("lab-tests")}
-                      isActive={activeTab === "lab-tests"}
-                      tooltip="Lab Tests"
-                    >
-                      <TestTube className="h-4 w-4" />
-                      <span>Lab Tests</span>
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
+                  {NAV_ITEMS.filter(item => canAccess(item.section)).map(item => (
+                    <SidebarMenuItem key={item.section}>
+                      <SidebarMenuButton
+                        onClick={() => setActiveTab(item.section)}
+                        isActive={activeTab === item.section}
+                        tooltip={item.label}
+                      >
+                        <item.icon className="h-4 w-4" />
+                        <span>{item.label}</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
                 </SidebarMenu>
               </SidebarGroupContent>
             </SidebarGroup>
           </SidebarContent>
+          {isAuthenticated && (
+            <SidebarFooter className="border-t border-sidebar-border">
+              <div className="flex items-center gap-2 p-2">
+                <div className="flex-1 min-w-0 group-data-[collapsible=icon]:hidden">
+                  <p className="text-sm font-medium truncate">{profile?.fullName || profile?.email}</p>
+                  <p className="text-xs text-muted-foreground">{profile?.role ? ROLE_LABELS[profile.role] : "No role"}</p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={logout} title="Sign out">
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              </div>
+            </SidebarFooter>
+          )}
         </Sidebar>
         <SidebarInset>
           <header className="flex h-16 shrink-0 items-center gap-2 border-b px-4">
             <SidebarTrigger />
             <div className="flex-1">
               <h2 className="text-lg font-semibold">
-                {activeTab === "dashboard" && "Dashboard"}
-                {activeTab === "generator" && "QR Code Generator"}
-                {activeTab === "list" && "Package List"}
-                {activeTab === "scanner" && "Scanner"}
-                {activeTab === "attendance" && "Attendance Management"}
-                {activeTab === "hygiene" && "Hygiene Records"}
-                {activeTab === "lab-tests" && "Lab Tests"}
+                {activeTab === AppSection.DASHBOARD && "Dashboard"}
+                {activeTab === AppSection.GENERATOR && "QR Code Generator"}
+                {activeTab === AppSection.LIST && "Package List"}
+                {activeTab === AppSection.SCANNER && "Scanner"}
+                {activeTab === AppSection.ATTENDANCE && "Attendance Management"}
+                {activeTab === AppSection.HYGIENE && "Hygiene Records"}
+                {activeTab === AppSection.LAB_TESTS && "Lab Tests"}
+                {activeTab === AppSection.USERS && "Users & Roles"}
               </h2>
             </div>
           </header>
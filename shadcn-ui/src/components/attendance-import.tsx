@@ -0,0 +1,318 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AttendanceRecord, AttendanceStatus, PayrollRuleSet, Worker } from "@/types";
+import {
+  AttendanceImportBatch,
+  DeviceUserMap,
+  ImportDay,
+  PunchLog,
+  buildImportPreview,
+  commitAttendanceImport,
+  getDeviceUserMap,
+  getLastAttendanceImport,
+  parsePunchCsv,
+  saveDeviceUserMap,
+  undoAttendanceImport
+} from "@/lib/biometric-import";
+import { getPayrollRuleSets } from "@/lib/payroll-rules";
+import { getLockedPayrollMonths } from "@/lib/payroll-runs";
+import { getLeaveCalendar, LeaveCalendar, EMPTY_LEAVE_CALENDAR } from "@/lib/leave";
+import { getRosterSchedule, RosterSchedule, EMPTY_ROSTER_SCHEDULE } from "@/lib/roster";
+import { useAuth } from "@/contexts/AuthContext";
+import { AlertCircle, AlertTriangle, Lock, Undo2, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+interface AttendanceImportProps {
+  workers: Worker[];
+  attendanceRecords: AttendanceRecord[];
+  workerDefaultOvertime: Record<string, boolean>;
+  onImported?: () => void;
+}
+
+const STATUS_BADGE_VARIANTS: Record<AttendanceStatus, "default" | "secondary" | "destructive"> = {
+  [AttendanceStatus.PRESENT]: "default",
+  [AttendanceStatus.HALF_DAY]: "secondary",
+  [AttendanceStatus.ABSENT]: "destructive"
+};
+
+// Key of a worker-day in the preview
+function getDayKey(day: ImportDay): string {
+  return `${day.worker.id}|${day.date}`;
+}
+
+export function AttendanceImport({ workers, attendanceRecords, workerDefaultOvertime, onImported }: AttendanceImportProps) {
+  const { profile } = useAuth();
+
+  const [fileName, setFileName] = useState("");
+  const [punchLog, setPunchLog] = useState<PunchLog | null>(null);
+  const [deviceUsers, setDeviceUsers] = useState<DeviceUserMap>({});
+  const [markMissingAbsent, setMarkMissingAbsent] = useState(true);
+  const [selectedDays, setSelectedDays] = useState<Set<string>>(new Set());
+  const [ruleSets, setRuleSets] = useState<PayrollRuleSet[]>([]);
+  const [schedule, setSchedule] = useState<RosterSchedule>(EMPTY_ROSTER_SCHEDULE);
+  const [leaveCalendar, setLeaveCalendar] = useState<LeaveCalendar>(EMPTY_LEAVE_CALENDAR);
+  const [lockedMonths, setLockedMonths] = useState<Set<string>>(new Set());
+  const [lastImport, setLastImport] = useState<AttendanceImportBatch | null>(getLastAttendanceImport());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getPayrollRuleSets().then(setRuleSets);
+    getRosterSchedule().then(setSchedule);
+    getLeaveCalendar().then(setLeaveCalendar);
+    getLockedPayrollMonths(true).then(setLockedMonths);
+    getDeviceUserMap().then(setDeviceUsers);
+  }, []);
+
+  const activeWorkers = useMemo(
+    () => workers.filter(worker => worker.isActive !== false).sort((a, b) => a.name.localeCompare(b.name)),
+    [workers]
+  );
+
+  const preview = useMemo(() => punchLog && buildImportPreview(punchLog.punches, {
+    workers: activeWorkers,
+    deviceUsers,
+    existingRecords: attendanceRecords,
+    ruleSets,
+    schedule,
+    leaveCalendar,
+    lockedMonths,
+    defaultOvertime: workerDefaultOvertime,
+    markMissingAbsent
+  }), [punchLog, activeWorkers, deviceUsers, attendanceRecords, ruleSets, schedule, leaveCalendar, lockedMonths, workerDefaultOvertime, markMissingAbsent]);
+
+  // New days are imported by default; conflicts only when HR ticks them after checking
+  useEffect(() => {
+    setSelectedDays(new Set(
+      (preview?.days || []).filter(day => day.change === "new" && !day.locked).map(getDayKey)
+    ));
+  }, [preview]);
+
+  const importableDays = (preview?.days || []).filter(day => day.change !== "unchanged" && !day.locked);
+  const daysToImport = importableDays.filter(day => selectedDays.has(getDayKey(day)));
+  const conflicts = importableDays.filter(day => day.change === "conflict").length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const log = parsePunchCsv(await file.text());
+    setFileName(file.name);
+    setPunchLog(log);
+    if (log.punches.length === 0) {
+      toast.error(log.errors[0] || "No punches found in the file");
+    }
+  };
+
+  const mapDeviceUser = (deviceUserId: string, workerId: string) => {
+    setDeviceUsers(prev => ({ ...prev, [deviceUserId]: workerId }));
+  };
+
+  const toggleDay = (day: ImportDay, checked: boolean) => {
+    setSelectedDays(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(getDayKey(day));
+      } else {
+        next.delete(getDayKey(day));
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (daysToImport.length === 0) return;
+
+    setSaving(true);
+    try {
+      await saveDeviceUserMap(deviceUsers);
+      const { batch, failed, lockedMonths } = await commitAttendanceImport(daysToImport, profile?.email, fileName);
+      if (lockedMonths.length > 0) {
+        toast.error(`Payroll is locked for ${lockedMonths.join(", ")} - nothing was imported`);
+        return;
+      }
+      if (batch.entries.length > 0) {
+        setLastImport(batch);
+        toast.success(`Imported ${batch.entries.length} attendance record${batch.entries.length > 1 ? "s" : ""}${failed.length > 0 ? ` (${failed.length} failed)` : ""}`);
+      } else {
+        toast.error("Failed to import attendance");
+      }
+      setPunchLog(null);
+      setFileName("");
+      onImported?.();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastImport) return;
+
+    setSaving(true);
+    try {
+      const { restored, failed } = await undoAttendanceImport(lastImport);
+      setLastImport(getLastAttendanceImport());
+      if (failed > 0) {
+        toast.error(`Undid ${restored} record${restored === 1 ? "" : "s"}; ${failed} could not be undone (payroll may be locked)`);
+      } else {
+        toast.success(`Import undone (${restored} record${restored === 1 ? "" : "s"} restored)`);
+      }
+      onImported?.();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {lastImport && (
+        <Alert>
+          <Undo2 className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>
+              Last import{lastImport.fileName ? ` (${lastImport.fileName})` : ""}: {lastImport.entries.length} record
+              {lastImport.entries.length === 1 ? "" : "s"} on {new Date(lastImport.importedAt).toLocaleString()}
+              {lastImport.importedBy ? ` by ${lastImport.importedBy}` : ""}.
+            </span>
+            <Button variant="outline" size="sm" onClick={handleUndo} disabled={saving}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Undo Import
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4 border rounded-md p-3">
+        <div className="space-y-1">
+          <Label>Punch log (CSV)</Label>
+          <Input type="file" accept=".csv,.txt" onChange={(e) => handleFile(e.target.files?.[0])} className="w-72" />
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch checked={markMissingAbsent} onCheckedChange={setMarkMissingAbsent} />
+          <Label>Mark workers with no punches on a working day as absent</Label>
+        </div>
+      </div>
+
+      {punchLog && punchLog.errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {punchLog.errors.length} line{punchLog.errors.length > 1 ? "s" : ""} could not be read and will be skipped.
+            {punchLog.errors.slice(0, 5).map(error => <div key={error} className="text-xs">{error}</div>)}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {preview && preview.unmatchedUserIds.length > 0 && (
+        <div className="space-y-2 border rounded-md p-3">
+          <div className="text-sm font-medium">
+            Device users not matched to a worker ({preview.unmatchedUserIds.length}). Their punches are skipped until matched;
+            matches are remembered for the next import.
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {preview.unmatchedUserIds.map(deviceUserId => (
+              <div key={deviceUserId} className="flex items-center gap-2">
+                <span className="font-mono text-sm w-24 truncate">{deviceUserId}</span>
+                <Select value={deviceUsers[deviceUserId] || ""} onValueChange={(value) => mapDeviceUser(deviceUserId, value)}>
+                  <SelectTrigger><SelectValue placeholder="Select worker" /></SelectTrigger>
+                  <SelectContent>
+                    {activeWorkers.map(worker => (
+                      <SelectItem key={worker.id} value={worker.id}>{worker.name} ({worker.employeeId})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {preview && preview.days.length > 0 && (
+        <>
+          {conflicts > 0 && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {conflicts} day{conflicts > 1 ? "s" : ""} already {conflicts > 1 ? "have" : "has"} different attendance recorded.
+                Tick the ones the device should overwrite.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Date</TableHead>
+                  <TableHead>Worker</TableHead>
+                  <TableHead>Punches</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>In / Out</TableHead>
+                  <TableHead>Late</TableHead>
+                  <TableHead>Overtime</TableHead>
+                  <TableHead>Existing Attendance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.days.map(day => (
+                  <TableRow key={getDayKey(day)} className={day.change === "unchanged" || day.locked ? "opacity-50" : ""}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedDays.has(getDayKey(day))}
+                        onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                        disabled={day.change === "unchanged" || day.locked}
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{day.date}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {day.worker.name}
+                      <span className="ml-2 text-xs text-muted-foreground font-mono">{day.worker.employeeId}</span>
+                    </TableCell>
+                    <TableCell className="text-xs">{day.punches.join(", ") || "-"}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGE_VARIANTS[day.record.status]}>{day.record.status}</Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {day.record.checkInTime || "-"} / {day.record.checkOutTime || "-"}
+                    </TableCell>
+                    <TableCell>{day.record.lateMinutes ? `${day.record.lateMinutes} min` : "-"}</TableCell>
+                    <TableCell>{day.record.overtimeHours ? `${day.record.overtimeHours} h` : day.record.overtime === "yes" ? "Yes" : "-"}</TableCell>
+                    <TableCell className="text-xs">
+                      {day.locked ? (
+                        <span className="flex items-center gap-1"><Lock className="h-3 w-3" />Payroll locked</span>
+                      ) : day.change === "new" ? (
+                        <span className="text-muted-foreground">None</span>
+                      ) : day.change === "unchanged" ? (
+                        <span className="text-muted-foreground">Same as recorded</span>
+                      ) : (
+                        <div className="text-amber-600">
+                          {day.differences.map(difference => <div key={difference}>{difference}</div>)}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              {daysToImport.length} of {importableDays.length} day{importableDays.length === 1 ? "" : "s"} selected
+            </span>
+            <Button onClick={handleImport} disabled={saving || daysToImport.length === 0}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import {daysToImport.length} Record{daysToImport.length === 1 ? "" : "s"}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
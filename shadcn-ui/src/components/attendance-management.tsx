@@ -14,7 +14,19 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Worker, AttendanceRecord, AttendanceStatus, Gender } from "@/types";
 import { getAllWorkers, getAllAttendance, saveWorker, saveAttendance, toggleOvertimeForWorker, deleteWorker } from "@/lib/attendance-utils";
 import { getWorkerDefaultOvertimeSetting, saveWorkerDefaultOvertimeSetting, getAllWorkerDefaultOvertimeSettings } from "@/lib/supabase-service";
-import { Plus, Users, UserCheck, UserX, Clock, Download, AlertCircle, UserPlus, Package, Trash2, AlertTriangle, CheckCircle2, Lock, DollarSign, UserMinus, XCircle, CircleDot, Sparkles, Search } from "lucide-react";
+import { PayrollRulesEditor } from "./payroll-rules-editor";
+import { PayslipDownloads } from "./payslip-downloads";
+import { WorkerBadges } from "./worker-badges";
+import { WorkerAdvances } from "./worker-advances";
+import { LeaveManagement } from "./leave-management";
+import { RosterPlanner } from "./roster-planner";
+import { useAuth } from "@/contexts/AuthContext";
+import { AttendanceImport } from "./attendance-import";
+import { isPayrollLockedForDate } from "@/lib/payroll-runs";
+import { getAdvanceLedger, getWorkerOutstandingBalance, AdvanceLedger, EMPTY_ADVANCE_LEDGER } from "@/lib/advances";
+import { getLeaveCalendar, getHoliday, getLeaveDay, LeaveCalendar, EMPTY_LEAVE_CALENDAR } from "@/lib/leave";
+import { getRosterSchedule, getRosteredShift, isRosteredOff, RosterSchedule, EMPTY_ROSTER_SCHEDULE } from "@/lib/roster";
+import { Plus, Users, UserCheck, UserX, Clock, Download, AlertCircle, UserPlus, Package, Trash2, AlertTriangle, CheckCircle2, Lock, DollarSign, UserMinus, XCircle, CircleDot, Sparkles, Search, Settings2, FileText, IdCard, CalendarDays, CalendarClock, Fingerprint } from "lucide-react";
 import { toast } from "sonner";
 
 interface AttendanceManagementProps {
@@ -22,6 +34,7 @@ interface AttendanceManagementProps {
 }
 
 export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagementProps) {
+  const { hasFullAccess } = useAuth();
   const [workers, setWorkers] = useState<Worker[]>([]);
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
@@ -50,20 +63,11 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
     showDialog: false
   });
 
-  // Advance payment edit state
-  const [advanceEditState, setAdvanceEditState] = useState<{
-    workerId: string | null;
-    advanceCurrentMonth: string;
-    advanceLastMonth: string;
-    advanceDeduction: string;
-    showDialog: boolean;
-  }>({
-    workerId: null,
-    advanceCurrentMonth: "",
-    advanceLastMonth: "",
-    advanceDeduction: "",
-    showDialog: false
-  });
+  // Advances ledger and the worker whose advances are open
+  const [advanceLedger, setAdvanceLedger] = useState<AdvanceLedger>(EMPTY_ADVANCE_LEDGER);
+  const [advancesWorker, setAdvancesWorker] = useState<Worker | null>(null);
+  const [leaveCalendar, setLeaveCalendar] = useState<LeaveCalendar>(EMPTY_LEAVE_CALENDAR);
+  const [rosterSchedule, setRosterSchedule] = useState<RosterSchedule>(EMPTY_ROSTER_SCHEDULE);
 
   // Attendance form - bulk update with multi-select
   const [attendanceForm, setAttendanceForm] = useState({
@@ -101,6 +105,12 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
   // Dialog states
   const [workerDialogOpen, setWorkerDialogOpen] = useState(false);
   const [attendanceDialogOpen, setAttendanceDialogOpen] = useState(false);
+  const [payrollRulesDialogOpen, setPayrollRulesDialogOpen] = useState(false);
+  const [payslipsDialogOpen, setPayslipsDialogOpen] = useState(false);
+  const [badgesDialogOpen, setBadgesDialogOpen] = useState(false);
+  const [leaveDialogOpen, setLeaveDialogOpen] = useState(false);
+  const [rosterDialogOpen, setRosterDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   
   const [error, setError] = useState<string | null>(null);
   const [formLoading, setFormLoading] = useState(false);
@@ -108,10 +118,14 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
   // Individual worker default overtime settings - load from Supabase
   const [workerDefaultOvertime, setWorkerDefaultOvertime] = useState<Record<string, boolean>>({});
 
+  // Attendance can't change once the selected month's payroll is approved
+  const [payrollLocked, setPayrollLocked] = useState(false);
+
   // Load data when component mounts or date changes
   useEffect(() => {
     loadData();
     loadWorkerDefaultOvertimeSettings();
+    isPayrollLockedForDate(selectedDate).then(setPayrollLocked);
   }, [selectedDate]);
 
   // Load all worker default overtime settings from Supabase
@@ -127,13 +141,19 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
   const loadData = async () => {
     try {
       // Get all workers (including inactive) - we'll filter by date in the component
-      const [workersData, attendanceData] = await Promise.all([
+      const [workersData, attendanceData, ledgerData, leaveData, rosterData] = await Promise.all([
         getAllWorkers(true), // true = include inactive workers
-        getAllAttendance()
+        getAllAttendance(),
+        getAdvanceLedger(),
+        getLeaveCalendar(),
+        getRosterSchedule()
       ]);
       
       setWorkers(workersData);
       setAttendanceRecords(attendanceData);
+      setAdvanceLedger(ledgerData);
+      setLeaveCalendar(leaveData);
+      setRosterSchedule(rosterData);
     } catch (error) {
       console.error('Error loading attendance data:', error);
     } finally {
@@ -164,6 +184,10 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
 
     const autoSaveAttendance = async () => {
       try {
+        if (await isPayrollLockedForDate(selectedDate)) {
+          return;
+        }
+
         const dateRecords = attendanceRecords.filter(r => r.date === selectedDate);
         const workersWithoutRecords = workers.filter(worker => {
           return !dateRecords.some(record => record.workerId === worker.id);
@@ -344,6 +368,11 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
       let failCount = 0;
 
       for (const worker of getFilteredWorkers) {
+        // Workers on their rostered day off aren't expected in
+        if (isOffByRoster(worker.id)) {
+          continue;
+        }
+
         try {
           // Check if attendance already exists
       const existingRecord = attendanceRecords.find(
@@ -766,6 +795,12 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
     return AttendanceStatus.PRESENT; // Default present
   };
 
+  // Workers with no attendance on their rostered day off are off rather than present by default
+  const isOffByRoster = (workerId: string) => {
+    return !attendanceRecords.some(r => r.workerId === workerId && r.date === selectedDate) &&
+      isRosteredOff(rosterSchedule, workerId, selectedDate);
+  };
+
   // State to track overtime status for each worker
   const [overtimeStatus, setOvertimeStatus] = useState<Record<string, boolean>>({});
 
@@ -829,7 +864,8 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
     const total = workers.length;
     const absent = dateRecords.filter(r => r.status === AttendanceStatus.ABSENT).length;
     const halfDay = dateRecords.filter(r => r.status === AttendanceStatus.HALF_DAY).length;
-    const present = total - absent - halfDay; // Default present unless marked otherwise
+    const rosteredOff = workers.filter(w => isOffByRoster(w.id)).length;
+    const present = total - absent - halfDay - rosteredOff; // Default present unless marked otherwise or off by the roster
 
     // Count overtime: includes records with explicit overtime='yes' AND workers without records but with default OT enabled
     let overtime = 0;
@@ -841,8 +877,8 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
           overtime++;
         }
       } else {
-        // If no record exists, check if worker has default OT enabled
-        if (workerDefaultOvertime[worker.id]) {
+        // If no record exists, check if worker has default OT enabled (and isn't off by the roster)
+        if (workerDefaultOvertime[worker.id] && !isOffByRoster(worker.id)) {
           overtime++;
         }
       }
@@ -855,7 +891,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
       .filter(w => w.isPacker)
       .filter(w => {
         const record = dateRecords.find(r => r.workerId === w.id);
-        return !record || (record.status !== AttendanceStatus.ABSENT && record.status !== AttendanceStatus.HALF_DAY);
+        return record ? (record.status !== AttendanceStatus.ABSENT && record.status !== AttendanceStatus.HALF_DAY) : !isOffByRoster(w.id);
       }).length;
     
     // Get list of workers with default OT but explicitly marked "No Overtime"
@@ -894,6 +930,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
       present,
       absent,
       halfDay,
+      rosteredOff,
       overtime,
       packers,
       presentPackers: presentPackerIds,
@@ -914,7 +951,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
       "Employee ID,Name,Department,Position,Is Packer,Status,Overtime,Notes",
       ...workers.map(worker => {
         const record = attendanceRecords.find(r => r.workerId === worker.id && r.date === selectedDate);
-        const status = getWorkerStatus(worker.id);
+        const status = isOffByRoster(worker.id) ? 'off' : getWorkerStatus(worker.id);
         const overtime = checkHasOvertime(worker.id) ? 'Yes' : 'No';
         const isPacker = worker.isPacker ? 'Yes' : 'No';
         return `${worker.employeeId},${worker.name},${worker.department || ''},${worker.position || ''},${isPacker},${status},${overtime},${record?.notes || ''}`;
@@ -948,9 +985,130 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
       <div className="flex justify-between items-center">
         <div>
           <h2 className="text-2xl font-bold">Attendance Management</h2>
-          <p className="text-muted-foreground">Workers are present by default unless marked absent or half-day. Only packers can be assigned barcodes.</p>
+          <p className="text-muted-foreground">Workers are present by default unless marked absent or half-day, or on their rostered day off. Only packers can be assigned barcodes.</p>
         </div>
         <div className="flex gap-2">
+          <Dialog open={payrollRulesDialogOpen} onOpenChange={setPayrollRulesDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Settings2 className="h-4 w-4 mr-2" />
+                Payroll Rules
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Payroll Rules</DialogTitle>
+                <DialogDescription>
+                  Weekly off day, shift hours, overtime and attendance bonus by worker category.
+                  Changes are saved as a new version that applies from the chosen month.
+                </DialogDescription>
+              </DialogHeader>
+              <PayrollRulesEditor />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={payslipsDialogOpen} onOpenChange={setPayslipsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" disabled={workers.length === 0}>
+                <FileText className="h-4 w-4 mr-2" />
+                Payslips
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Payslips</DialogTitle>
+                <DialogDescription>
+                  Download PDF payslips for one worker or for everyone on the month's payroll.
+                </DialogDescription>
+              </DialogHeader>
+              <PayslipDownloads
+                workers={workers}
+                attendanceRecords={attendanceRecords}
+                workerDefaultOvertime={workerDefaultOvertime}
+              />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={badgesDialogOpen} onOpenChange={setBadgesDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" disabled={workers.length === 0}>
+                <IdCard className="h-4 w-4 mr-2" />
+                ID Badges
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Worker ID Badges</DialogTitle>
+                <DialogDescription>
+                  Print badges with a signed QR code for clocking in at the kiosk and for packing scans.
+                </DialogDescription>
+              </DialogHeader>
+              <WorkerBadges workers={workers} />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={leaveDialogOpen} onOpenChange={setLeaveDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" disabled={workers.length === 0}>
+                <CalendarDays className="h-4 w-4 mr-2" />
+                Leave
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Leave & Holidays</DialogTitle>
+                <DialogDescription>
+                  Leave requests, yearly balances and the holiday calendar. Approved leave and holidays
+                  are paid and counted for the attendance bonus as their leave type says.
+                </DialogDescription>
+              </DialogHeader>
+              <LeaveManagement
+                workers={workers}
+                onChanged={async () => setLeaveCalendar(await getLeaveCalendar())}
+              />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={rosterDialogOpen} onOpenChange={setRosterDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" disabled={workers.length === 0}>
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Roster
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Shifts & Roster</DialogTitle>
+                <DialogDescription>
+                  Shift times and weekly off days, and which shift each worker is on. Late minutes at the
+                  kiosk are counted from the rostered shift start.
+                </DialogDescription>
+              </DialogHeader>
+              <RosterPlanner
+                workers={workers}
+                onChanged={async () => setRosterSchedule(await getRosterSchedule())}
+              />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline" disabled={workers.length === 0}>
+                <Fingerprint className="h-4 w-4 mr-2" />
+                Import Punches
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Import Biometric Attendance</DialogTitle>
+                <DialogDescription>
+                  Upload the punch log exported from the fingerprint terminal. Each worker's first punch of the
+                  day is the check-in and the last is the check-out; check the preview before importing.
+                </DialogDescription>
+              </DialogHeader>
+              <AttendanceImport
+                workers={workers}
+                attendanceRecords={attendanceRecords}
+                workerDefaultOvertime={workerDefaultOvertime}
+                onImported={loadData}
+              />
+            </DialogContent>
+          </Dialog>
           <Button variant="outline" onClick={downloadReport} disabled={workers.length === 0}>
             <Download className="h-4 w-4 mr-2" />
             Download Report
@@ -958,6 +1116,25 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
         </div>
       </div>
 
+      {getHoliday(leaveCalendar, selectedDate) && (
+        <Alert>
+          <CalendarDays className="h-4 w-4" />
+          <AlertDescription>
+            {selectedDate} is a {getHoliday(leaveCalendar, selectedDate)?.paid ? "paid" : "unpaid"} holiday ({getHoliday(leaveCalendar, selectedDate)?.name}).
+            Workers marked present are paid as usual.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {payrollLocked && (
+        <Alert>
+          <Lock className="h-4 w-4" />
+          <AlertDescription>
+            Payroll for {selectedDate.substring(0, 7)} has been approved and locked. Attendance for this month can no longer be changed.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Date Selection and Summary */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
@@ -982,7 +1159,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
               <Button
                 type="button"
                 onClick={markAllPresent}
-                disabled={formLoading || workers.length === 0}
+                disabled={formLoading || workers.length === 0 || payrollLocked}
                 className="w-full"
                 variant="outline"
               >
@@ -1008,7 +1185,9 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-green-600">{summary.present}</div>
-                <div className="text-sm text-muted-foreground">Present</div>
+                <div className="text-sm text-muted-foreground">
+                  Present{summary.rosteredOff > 0 && ` (${summary.rosteredOff} off by roster)`}
+                </div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-purple-600">{summary.presentPackers}</div>
@@ -1216,9 +1395,9 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
         </Dialog>
 
         {/* Mark Attendance / Change Status */}
-        <Dialog open={attendanceDialogOpen} onOpenChange={setAttendanceDialogOpen}>
+        <Dialog open={attendanceDialogOpen} onOpenChange={(open) => setAttendanceDialogOpen(open && !payrollLocked)}>
           <DialogTrigger asChild>
-            <Card className="cursor-pointer hover:bg-accent/50 transition-colors">
+            <Card className={payrollLocked ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:bg-accent/50 transition-colors"}>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <UserCheck className="h-5 w-5" />
@@ -1293,7 +1472,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                       const isInactive = worker.isActive === false;
                       const today = new Date().toISOString().split('T')[0];
                       const isPastDate = selectedDate < today;
-                      const canEditAttendance = !isInactive || isPastDate;
+                      const canEditAttendance = (!isInactive || isPastDate) && !payrollLocked;
                       const record = attendanceRecords.find(
                         r => r.workerId === worker.id && r.date === selectedDate
                       );
@@ -1395,7 +1574,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                       const isInactive = worker.isActive === false;
                       const today = new Date().toISOString().split('T')[0];
                       const isPastDate = selectedDate < today;
-                      const canEditAttendance = !isInactive || isPastDate;
+                      const canEditAttendance = (!isInactive || isPastDate) && !payrollLocked;
                       const record = attendanceRecords.find(
                         r => r.workerId === worker.id && r.date === selectedDate
                       );
@@ -1497,7 +1676,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                       const isInactive = worker.isActive === false;
                       const today = new Date().toISOString().split('T')[0];
                       const isPastDate = selectedDate < today;
-                      const canEditAttendance = !isInactive || isPastDate;
+                      const canEditAttendance = (!isInactive || isPastDate) && !payrollLocked;
                       const record = attendanceRecords.find(
                         r => r.workerId === worker.id && r.date === selectedDate
                       );
@@ -1570,7 +1749,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                       const isInactive = worker.isActive === false;
                       const today = new Date().toISOString().split('T')[0];
                       const isPastDate = selectedDate < today;
-                      const canEditAttendance = !isInactive || isPastDate;
+                      const canEditAttendance = (!isInactive || isPastDate) && !payrollLocked;
 
                       // Only show for present workers
                       if (!isPresent) return null;
@@ -1817,135 +1996,25 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
         </DialogContent>
       </Dialog>
 
-      {/* Advance Payment Edit Dialog */}
-      <Dialog open={advanceEditState.showDialog} onOpenChange={(open) => {
-        if (!open) {
-          setAdvanceEditState({
-            workerId: null,
-            advanceCurrentMonth: "",
-            advanceLastMonth: "",
-            advanceDeduction: "",
-            showDialog: false
-          });
-        }
-      }}>
-        <DialogContent>
+      {/* Advances Ledger Dialog */}
+      <Dialog open={advancesWorker !== null} onOpenChange={(open) => !open && setAdvancesWorker(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <DollarSign className="h-5 w-5" />
-              Edit Advance Payments
+              Advances - {advancesWorker?.name}
             </DialogTitle>
             <DialogDescription>
-              Update advance payments for this worker.
+              Salary advances and loans for this worker, recovered from salary in monthly installments.
             </DialogDescription>
           </DialogHeader>
-
-          <div className="grid gap-4 py-4">
-            <div className="grid grid-cols-3 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="advance-current">Adv. This Mo *</Label>
-                <Input
-                  id="advance-current"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={advanceEditState.advanceCurrentMonth}
-                  onChange={(e) => setAdvanceEditState({ ...advanceEditState, advanceCurrentMonth: e.target.value })}
-                  placeholder="0"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="advance-last">Adv. Last Mo *</Label>
-                <Input
-                  id="advance-last"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={advanceEditState.advanceLastMonth}
-                  onChange={(e) => setAdvanceEditState({ ...advanceEditState, advanceLastMonth: e.target.value })}
-                  placeholder="0"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="advance-deduct">Adv. Deduct *</Label>
-                <Input
-                  id="advance-deduct"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  value={advanceEditState.advanceDeduction}
-                  onChange={(e) => setAdvanceEditState({ ...advanceEditState, advanceDeduction: e.target.value })}
-                  placeholder="0"
-                />
-              </div>
-            </div>
-            {error && (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
-          </div>
-
-          <DialogFooter>
-            <Button variant="outline" onClick={() => {
-              setAdvanceEditState({
-                workerId: null,
-                password: "",
-                advanceCurrentMonth: "",
-                advanceLastMonth: "",
-                advanceDeduction: "",
-                showDialog: false
-              });
-            }}>
-              Cancel
-            </Button>
-            <Button onClick={async () => {
-              if (!advanceEditState.workerId) {
-                setError("Worker not found");
-                return;
-              }
-
-              setFormLoading(true);
-              setError(null);
-              try {
-                const worker = workers.find(w => w.id === advanceEditState.workerId);
-                if (!worker) {
-                  setError("Worker not found");
-                  return;
-                }
-
-                const updatedWorker: Worker = {
-                  ...worker,
-                  advanceCurrentMonth: advanceEditState.advanceCurrentMonth ? parseFloat(advanceEditState.advanceCurrentMonth) : 0,
-                  advanceLastMonth: advanceEditState.advanceLastMonth ? parseFloat(advanceEditState.advanceLastMonth) : 0,
-                  advanceDeduction: advanceEditState.advanceDeduction ? parseFloat(advanceEditState.advanceDeduction) : 0
-                };
-
-                const success = await saveWorker(updatedWorker);
-                if (success) {
-                  await loadData();
-                  setAdvanceEditState({
-                    workerId: null,
-                    advanceCurrentMonth: "",
-                    advanceLastMonth: "",
-                    advanceDeduction: "",
-                    showDialog: false
-                  });
-                  toast.success("Advance payments updated successfully");
-                } else {
-                  setError("Failed to update advance payments");
-                }
-              } catch (error) {
-                console.error("Error updating advance payments:", error);
-                setError("Failed to update advance payments");
-              } finally {
-                setFormLoading(false);
-              }
-            }} disabled={formLoading}>
-              {formLoading ? "Saving..." : "Save Advance Payments"}
-            </Button>
-          </DialogFooter>
+          {advancesWorker && (
+            <WorkerAdvances
+              worker={advancesWorker}
+              ledger={advanceLedger}
+              onChanged={async () => setAdvanceLedger(await getAdvanceLedger())}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
@@ -1971,9 +2040,7 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                   <TableHead>Department</TableHead>
                   <TableHead>Position</TableHead>
                         <TableHead>Base Salary</TableHead>
-                        <TableHead>Adv. This Mo</TableHead>
-                        <TableHead>Adv. Last Mo</TableHead>
-                        <TableHead>Adv. Deduct</TableHead>
+                        <TableHead>Advances</TableHead>
                   <TableHead>Packer</TableHead>
                         <TableHead>Cleaner</TableHead>
                         <TableHead>Default OT</TableHead>
@@ -1990,7 +2057,11 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                         const isInactive = worker.isActive === false;
                         const today = new Date().toISOString().split('T')[0];
                         const isPastDate = selectedDate < today;
-                        const canEditAttendance = !isInactive || isPastDate; // Can edit if active OR (inactive AND past date)
+                        const canEditAttendance = (!isInactive || isPastDate) && !payrollLocked; // Can edit if active OR (inactive AND past date)
+                        const advanceBalance = getWorkerOutstandingBalance(advanceLedger, worker.id);
+                        const leaveDay = getLeaveDay(leaveCalendar, worker.id, selectedDate);
+                        const rosteredShift = getRosteredShift(rosterSchedule, worker.id, selectedDate);
+                        const offByRoster = isOffByRoster(worker.id);
                   
                   return (
                     <TableRow key={worker.id}>
@@ -2038,38 +2109,20 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                             </TableCell>
                             <TableCell>
                               <div className="flex items-center gap-2">
-                                <span className="font-medium text-sm">
-                                  {worker.advanceCurrentMonth ? `₹${worker.advanceCurrentMonth.toLocaleString()}` : '₹0'}
+                                <span className={`font-medium text-sm ${advanceBalance > 0 ? 'text-red-600' : ''}`}>
+                                  ₹{advanceBalance.toLocaleString()}
                                 </span>
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => {
-                                    setAdvanceEditState({
-                                      workerId: worker.id,
-                                      advanceCurrentMonth: worker.advanceCurrentMonth?.toString() || "",
-                                      advanceLastMonth: worker.advanceLastMonth?.toString() || "",
-                                      advanceDeduction: worker.advanceDeduction?.toString() || "",
-                                      showDialog: true
-                                    });
-                                  }}
+                                  onClick={() => setAdvancesWorker(worker)}
                                   className="h-6 w-6 p-0"
-                                  title="Edit advance payments"
+                                  title="View and add advances"
                                 >
-                                  <Lock className="h-3 w-3" />
+                                  <DollarSign className="h-3 w-3" />
                                 </Button>
                               </div>
                             </TableCell>
-                            <TableCell>
-                              <span className="font-medium text-sm">
-                                {worker.advanceLastMonth ? `₹${worker.advanceLastMonth.toLocaleString()}` : '₹0'}
-                              </span>
-                            </TableCell>
-                            <TableCell>
-                              <span className="font-medium text-sm text-red-600">
-                                {worker.advanceDeduction ? `₹${worker.advanceDeduction.toLocaleString()}` : '₹0'}
-                              </span>
-                            </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Switch
@@ -2096,9 +2149,15 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                             <TableCell>
                               <Switch
                                 checked={workerDefaultOvertime[worker.id] || false}
+                                // OT defaults are settings, which only admins may change
+                                disabled={!hasFullAccess}
+                                title={hasFullAccess ? undefined : "Only admins can change default overtime"}
                                 onCheckedChange={async (checked) => {
                                   try {
-                                    await saveWorkerDefaultOvertimeSetting(worker.id, checked);
+                                    if (!await saveWorkerDefaultOvertimeSetting(worker.id, checked)) {
+                                      toast.error('Failed to save default overtime setting');
+                                      return;
+                                    }
                                     setWorkerDefaultOvertime(prev => ({
                                       ...prev,
                                       [worker.id]: checked
@@ -2115,6 +2174,11 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                             </TableCell>
                             <TableCell>
                               <div className="flex items-center gap-1 flex-wrap">
+                                {offByRoster ? (
+                                  <Badge variant="outline" className="mr-1" title={`Weekly off on the ${rosteredShift?.name} shift`}>
+                                    off (roster)
+                                  </Badge>
+                                ) : (
                         <Badge 
                           variant={
                             status === AttendanceStatus.PRESENT ? "default" :
@@ -2124,10 +2188,21 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                         >
                           {status}
                         </Badge>
+                                )}
+                                {rosteredShift && !offByRoster && (
+                                  <Badge variant="outline" className="mr-1" title={`${rosteredShift.startTime}-${rosteredShift.endTime}`}>
+                                    {rosteredShift.name}
+                                  </Badge>
+                                )}
+                                {leaveDay?.kind === 'leave' && (
+                                  <Badge variant="outline" className="mr-1" title="Approved leave replaces attendance for pay">
+                                    {leaveDay.name}
+                                  </Badge>
+                                )}
                                 <div className="flex gap-1">
                                   <Button
                                     type="button"
-                                    variant={status === AttendanceStatus.PRESENT ? "default" : "outline"}
+                                    variant={status === AttendanceStatus.PRESENT && !offByRoster ? "default" : "outline"}
                                     size="sm"
                                     disabled={!canEditAttendance}
                                     onClick={async (e) => {
@@ -2324,12 +2399,22 @@ export function AttendanceManagement({ onAttendanceUpdate }: AttendanceManagemen
                                   r => r.workerId === worker.id && r.date === selectedDate
                                 );
                                 const lateMinutes = record?.lateMinutes || 0;
-                                return lateMinutes > 0 ? (
-                                  <Badge variant="outline" className="text-orange-600">
-                                    {lateMinutes} min
-                                  </Badge>
-                                ) : (
-                                  <span className="text-muted-foreground text-sm">-</span>
+                                return (
+                                  <div className="flex flex-col gap-1">
+                                    {lateMinutes > 0 ? (
+                                      <Badge variant="outline" className="text-orange-600 w-fit">
+                                        {lateMinutes} min
+                                      </Badge>
+                                    ) : (
+                                      <span className="text-muted-foreground text-sm">-</span>
+                                    )}
+                                    {record?.checkInTime && (
+                                      <span className="text-xs text-muted-foreground whitespace-nowrap" title="Clock-in kiosk">
+                                        In {record.checkInTime}{record.checkOutTime ? ` · Out ${record.checkOutTime}` : ''}
+                                        {record.overtimeHours ? ` · ${record.overtimeHours}h OT` : ''}
+                                      </span>
+                                    )}
+                                  </div>
                                 );
                               })()}
                             </TableCell>
@@ -2,21 +2,41 @@ import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
+import { LoginDialog } from '@/components/auth/LoginDialog';
+import { ROLE_LABELS, SECTION_LABELS } from '@/lib/access-control';
+import { AppSection } from '@/types';
+import { ShieldAlert } from 'lucide-react';
 
 interface AuthGuardProps {
   children: React.ReactNode;
-  requireFullAccess?: boolean;
+  section?: AppSection; // Section the children belong to; access is checked against the user's role
+  requireFullAccess?: boolean; // Admins only
   fallback?: React.ReactNode;
 }
 
-export const AuthGuard: React.FC<AuthGuardProps> = ({ 
-  children, 
+export const AuthGuard: React.FC<AuthGuardProps> = ({
+  children,
+  section,
   requireFullAccess = false,
-  fallback 
+  fallback
 }) => {
-  const { hasFullAccess, logout } = useAuth();
+  const { isAuthenticated, loading, profile, hasFullAccess, canAccess, logout } = useAuth();
 
-  if (requireFullAccess && !hasFullAccess) {
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8 text-muted-foreground">
+        Checking access...
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <LoginDialog open={true} />;
+  }
+
+  const allowed = requireFullAccess ? hasFullAccess : !section || canAccess(section);
+
+  if (!allowed) {
     if (fallback) {
       return <>{fallback}</>;
     }
@@ -24,16 +44,19 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({
     return (
       <div className="flex flex-col items-center justify-center p-8 space-y-4">
         <Alert>
+          <ShieldAlert className="h-4 w-4" />
           <AlertDescription>
-            This feature requires password authentication. Please login with the correct password to access this functionality.
+            {profile?.role
+              ? `Your role (${ROLE_LABELS[profile.role]}) does not have access to ${section ? SECTION_LABELS[section] : 'this feature'}. Ask an admin to change your role.`
+              : 'Your account has no role yet. Ask an admin to assign you a role.'}
           </AlertDescription>
         </Alert>
-        <Button onClick={() => window.location.reload()} variant="outline">
-          Go to Login
+        <Button onClick={logout} variant="outline">
+          Sign in as someone else
         </Button>
       </div>
     );
   }
 
   return <>{children}</>;
-};
\ No newline at end of file
+};
@@ -5,65 +5,116 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useAuth } from '@/contexts/AuthContext';
+import { Lock } from 'lucide-react';
 
 interface LoginDialogProps {
   open: boolean;
-  onOpenChange: (open: boolean) => void;
-  onScanOnlyAccess: () => void;
+  onOpenChange?: (open: boolean) => void; // Omit to make the dialog non-dismissable
 }
 
-export const LoginDialog: React.FC<LoginDialogProps> = ({ 
-  open, 
-  onOpenChange, 
-  onScanOnlyAccess 
+export const LoginDialog: React.FC<LoginDialogProps> = ({
+  open,
+  onOpenChange
 }) => {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [fullName, setFullName] = useState('');
   const [error, setError] = useState('');
-  const { login } = useAuth();
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { login, signUp } = useAuth();
 
-  const handleLogin = () => {
-    const success = login(password);
-    if (success) {
-      setError('');
-      setPassword('');
-      onOpenChange(false);
+  const canSubmit = email.trim() && password && (mode === 'login' || fullName.trim());
+
+  const handleSubmit = async () => {
+    if (!canSubmit || submitting) return;
+
+    setSubmitting(true);
+    setError('');
+    setMessage('');
+
+    if (mode === 'login') {
+      const loginError = await login(email, password);
+      if (loginError) {
+        setError(loginError);
+      } else {
+        setPassword('');
+        onOpenChange?.(false);
+      }
     } else {
-      setError('Invalid password. Please try again.');
+      const signUpError = await signUp(email, password, fullName);
+      if (signUpError) {
+        setError(signUpError);
+      } else {
+        setMessage('Account created. Confirm your email if asked, then sign in. An admin assigns your role.');
+        setMode('login');
+        setPassword('');
+      }
     }
-  };
 
-  const handleScanOnly = () => {
-    onScanOnlyAccess();
-    onOpenChange(false);
+    setSubmitting(false);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
-      handleLogin();
+      handleSubmit();
     }
   };
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={onOpenChange ?? (() => {})}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Access Dashboard</DialogTitle>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" />
+            {mode === 'login' ? 'Sign In' : 'Create Account'}
+          </DialogTitle>
           <DialogDescription>
-            Enter the password for full access or continue with scan-only mode.
+            {mode === 'login'
+              ? 'Sign in with your account. The sections you can open depend on your role.'
+              : 'New accounts have no access until an admin assigns a role.'}
           </DialogDescription>
         </DialogHeader>
         <div className="grid gap-4 py-4">
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="password" className="text-right">
-              Password
-            </Label>
+          {mode === 'signup' && (
+            <div className="space-y-2">
+              <Label htmlFor="login-name">Full Name</Label>
+              <Input
+                id="login-name"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                onKeyPress={handleKeyPress}
+                placeholder="Your name"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="login-email">Email</Label>
             <Input
-              id="password"
+              id="login-email"
+              type="email"
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                setError('');
+              }}
+              onKeyPress={handleKeyPress}
+              placeholder="name@company.com"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="login-password">Password</Label>
+            <Input
+              id="login-password"
               type="password"
               value={password}
-              onChange={(e) => setPassword(e.target.value)}
+              onChange={(e) => {
+                setPassword(e.target.value);
+                setError('');
+              }}
               onKeyPress={handleKeyPress}
-              className="col-span-3"
               placeholder="Enter password"
             />
           </div>
@@ -72,20 +123,29 @@ export const LoginDialog: React.FC<LoginDialogProps> = ({
               <AlertDescription>{error}</AlertDescription>
             </Alert>
           )}
+          {message && (
+            <Alert>
+              <AlertDescription>{message}</AlertDescription>
+            </Alert>
+          )}
           <div className="flex flex-col gap-2">
-            <Button onClick={handleLogin} className="w-full">
-              Login with Password
+            <Button onClick={handleSubmit} className="w-full" disabled={!canSubmit || submitting}>
+              {submitting ? 'Please wait...' : mode === 'login' ? 'Sign In' : 'Create Account'}
             </Button>
-            <Button 
-              variant="outline" 
-              onClick={handleScanOnly}
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setMode(mode === 'login' ? 'signup' : 'login');
+                setError('');
+                setMessage('');
+              }}
               className="w-full"
             >
-              Continue with Scan Only
+              {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
             </Button>
           </div>
         </div>
       </DialogContent>
     </Dialog>
   );
-};
\ No newline at end of file
+};
@@ -10,12 +10,16 @@ import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Barcode, PackingStatus } from "@/types";
+import { Barcode, BarcodeSymbology, Gs1Data, PackingStatus } from "@/types";
 import { saveBarcode, getAllBarcodes } from "@/lib/storage";
 import { getPresentPackersForDate } from "@/lib/attendance-utils";
 import { saveBarcodeAssignments } from "@/lib/supabase";
-import { QRCodeSVG } from "qrcode.react";
-import { Package, Download, Plus, AlertCircle, CheckCircle, Loader2, Users, Hash, Shuffle, UserCheck } from "lucide-react";
+import { CodeTemplate, CodeDateFormat, DEFAULT_CODE_TEMPLATE, generateBarcodeCode, generateBarcodeCodes, generateSsccs, getCodeTemplate, saveCodeTemplate, formatCode, getCodeSerialPart } from "@/lib/barcode-generator";
+import { LabelTemplateDesigner } from "@/components/label-template-designer";
+import { BarcodeSymbol } from "@/components/barcode-symbol";
+import { SYMBOLOGY_LABELS, generateBarcodeDataURL, getSymbologyError } from "@/lib/barcode-symbologies";
+import { hasGs1Data, validateGs1Data } from "@/lib/gs1";
+import { Package, Download, Plus, AlertCircle, CheckCircle, Loader2, Users, Hash, Shuffle, UserCheck, Settings, Save, Tag } from "lucide-react";
 import { toast } from "sonner";
 
 interface BarcodeGeneratorProps {
@@ -41,9 +45,21 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
     quantity: 10,
     baseDescription: "",
     assignmentMode: "equal", // "equal", "single", "random"
-    assignedWorker: ""
+    assignedWorker: "",
+    symbology: BarcodeSymbology.QR,
+    // GS1 application identifiers, all optional
+    gtin: "",
+    batch: "",
+    productionDate: "",
+    bestBefore: "",
+    netWeightKg: "",
+    ssccCompanyPrefix: ""
   });
 
+  // Code format settings
+  const [codeTemplate, setCodeTemplate] = useState<CodeTemplate>(DEFAULT_CODE_TEMPLATE);
+  const [savingTemplate, setSavingTemplate] = useState(false);
+
   const [error, setError] = useState<string | null>(null);
   const [bulkResults, setBulkResults] = useState<{
     success: number;
@@ -58,48 +74,57 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
 
   const loadData = async () => {
     try {
-      const [barcodesData, packersData] = await Promise.all([
+      const [barcodesData, packersData, templateData] = await Promise.all([
         getAllBarcodes(),
-        getPresentPackersForDate(new Date().toISOString().split('T')[0])
+        getPresentPackersForDate(new Date().toISOString().split('T')[0]),
+        getCodeTemplate()
       ]);
 
       setBarcodes(barcodesData);
       setPresentPackers(packersData);
+      setCodeTemplate(templateData);
     } catch (error) {
       console.error('Error loading data:', error);
     }
   };
 
-  // Generate unique barcode code based on date and sequential number
-  const generateBarcodeCode = async (): Promise<string> => {
-    // Get current date in YYMMDD format for serial numbering
-    const today = new Date();
-    const year = today.getFullYear().toString().slice(-2);
-    const month = (today.getMonth() + 1).toString().padStart(2, '0');
-    const day = today.getDate().toString().padStart(2, '0');
-    const dateStr = `${year}${month}${day}`;
-
-    // Get existing barcodes count for today to start serial numbering correctly
-    const existingBarcodes = await getAllBarcodes();
-    const todayBarcodes = existingBarcodes.filter(barcode =>
-      barcode.code.startsWith(dateStr)
-    );
-
-    // Find the highest serial number for today
-    let maxSerial = 0;
-    todayBarcodes.forEach(barcode => {
-      const serialPart = barcode.code.substring(6); // Get part after date (YYMMDD)
-      const serialNum = parseInt(serialPart, 10);
-      if (!isNaN(serialNum) && serialNum > maxSerial) {
-        maxSerial = serialNum;
+  // Save code format settings
+  const handleSaveTemplate = async () => {
+    setSavingTemplate(true);
+    try {
+      const saved = await saveCodeTemplate({ ...codeTemplate, prefix: codeTemplate.prefix.trim().toUpperCase() });
+      if (saved) {
+        toast.success("Code format saved");
+      } else {
+        toast.warning("Code format saved on this device only - could not reach the database");
       }
-    });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save code format");
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
 
-    // Increment for next barcode
-    const nextSerial = maxSerial + 1;
-    const serialStr = nextSerial.toString().padStart(5, '0');
+  // GS1 data entered in the bulk form, or undefined when none was entered
+  const getBulkGs1Data = (): Gs1Data | undefined => {
+    const netWeightKg = parseFloat(bulkForm.netWeightKg);
+    const gs1: Gs1Data = {
+      gtin: bulkForm.gtin.trim() || undefined,
+      batch: bulkForm.batch.trim() || undefined,
+      productionDate: bulkForm.productionDate || undefined,
+      bestBefore: bulkForm.bestBefore || undefined,
+      netWeightKg: bulkForm.netWeightKg ? netWeightKg : undefined
+    };
+    return hasGs1Data(gs1) ? gs1 : undefined;
+  };
 
-    return `${dateStr}${serialStr}`;
+  // Example code for the current template, shown as a preview
+  const getCodeExample = (template: CodeTemplate): string => {
+    try {
+      return formatCode({ ...template, prefix: template.prefix.trim().toUpperCase() }, new Date(), 1);
+    } catch {
+      return "-";
+    }
   };
 
   // Generate single barcode
@@ -157,7 +182,7 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
       }
     } catch (error) {
       console.error("Error generating barcode:", error);
-      setError("Failed to generate barcode");
+      setError(error instanceof Error ? error.message : "Failed to generate barcode");
     } finally {
       setLoading(false);
     }
@@ -202,6 +227,23 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
       return;
     }
 
+    // Check the code format can be encoded before reserving any serials
+    const symbologyError = getSymbologyError(getCodeExample(codeTemplate), bulkForm.symbology);
+    if (symbologyError) {
+      setError(symbologyError);
+      return;
+    }
+
+    const gs1 = getBulkGs1Data();
+    const gs1Errors = gs1 ? validateGs1Data(gs1) : [];
+    if (bulkForm.ssccCompanyPrefix && !/^\d{6,12}$/.test(bulkForm.ssccCompanyPrefix)) {
+      gs1Errors.push("GS1 company prefix must be 6 to 12 digits");
+    }
+    if (gs1Errors.length > 0) {
+      setError(gs1Errors.join(". "));
+      return;
+    }
+
     setBulkGenerating(true);
     setBulkProgress(0);
     setError(null);
@@ -223,30 +265,12 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
     });
 
     try {
-      // Get current date in YYMMDD format for serial numbering
-      const today = new Date();
-      const year = today.getFullYear().toString().slice(-2);
-      const month = (today.getMonth() + 1).toString().padStart(2, '0');
-      const day = today.getDate().toString().padStart(2, '0');
-      const dateStr = `${year}${month}${day}`;
-
-      // Get existing barcodes count for today to start serial numbering correctly
-      const existingBarcodes = await getAllBarcodes();
-      const todayBarcodes = existingBarcodes.filter(barcode =>
-        barcode.code.startsWith(dateStr)
-      );
-
-      // Find the highest serial number for today
-      let maxSerial = 0;
-      todayBarcodes.forEach(barcode => {
-        const serialPart = barcode.code.substring(6); // Get part after date (YYMMDD)
-        const serialNum = parseInt(serialPart, 10);
-        if (!isNaN(serialNum) && serialNum > maxSerial) {
-          maxSerial = serialNum;
-        }
-      });
-
-      let currentSerial = maxSerial;
+      // Reserve the whole block of serials up front so concurrent devices never collide
+      const template = await getCodeTemplate();
+      const codes = await generateBarcodeCodes(bulkForm.quantity, { template });
+      const ssccs = bulkForm.ssccCompanyPrefix
+        ? await generateSsccs(bulkForm.ssccCompanyPrefix, bulkForm.quantity)
+        : [];
 
       const batchSize = 10; // Process in batches to avoid blocking UI
       const totalBatches = Math.ceil(bulkForm.quantity / batchSize);
@@ -258,10 +282,8 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
         const batchPromises = [];
 
         for (let i = batchStart; i < batchEnd; i++) {
-          // Increment serial number for each barcode
-          currentSerial += 1;
-          const serialStr = currentSerial.toString().padStart(5, '0');
-          const code = `${dateStr}${serialStr}`;
+          const code = codes[i];
+          const serialStr = getCodeSerialPart(template, code);
 
           const description = bulkForm.baseDescription.trim()
             ? `${bulkForm.baseDescription.trim()} #${serialStr}`
@@ -275,7 +297,9 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
             description: description,
             status: PackingStatus.PENDING,
             assignedWorker: assignedWorker,
-            createdAt: new Date().toISOString()
+            createdAt: new Date().toISOString(),
+            symbology: bulkForm.symbology,
+            ...(gs1 || ssccs[i] ? { gs1: { ...gs1, ...(ssccs[i] ? { sscc: ssccs[i] } : {}) } } : {})
           };
 
           batchPromises.push(
@@ -321,8 +345,9 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
       await loadData(); // Refresh data
       setBulkResults(results);
 
-      // Reset form
+      // Reset form, keeping the symbology and GS1 product data for the next run
       setBulkForm({
+        ...bulkForm,
         prefix: "",
         quantity: 10,
         baseDescription: "",
@@ -337,7 +362,7 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
       }
     } catch (error) {
       console.error("Error in bulk generation:", error);
-      setError("Failed to complete bulk generation");
+      setError(error instanceof Error ? error.message : "Failed to complete bulk generation");
     } finally {
       setBulkGenerating(false);
       setBulkProgress(0);
@@ -345,27 +370,16 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
   };
 
   // Download barcode as image
-  const downloadBarcode = (barcode: Barcode) => {
-    const svg = document.getElementById(`qr-${barcode.id}`)?.querySelector('svg');
-    if (!svg) return;
-
-    const svgData = new XMLSerializer().serializeToString(svg);
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d");
-    const img = new Image();
-
-    img.onload = () => {
-      canvas.width = img.width;
-      canvas.height = img.height;
-      ctx?.drawImage(img, 0, 0);
-
+  const downloadBarcode = async (barcode: Barcode) => {
+    try {
       const link = document.createElement("a");
       link.download = `${barcode.code}.png`;
-      link.href = canvas.toDataURL();
+      link.href = await generateBarcodeDataURL(barcode.code, barcode.symbology, barcode.gs1);
       link.click();
-    };
-
-    img.src = "data:image/svg+xml;base64," + btoa(svgData);
+    } catch (error) {
+      console.error('Error downloading barcode:', error);
+      toast.error("Failed to download barcode");
+    }
   };
 
   // Download all barcodes as CSV
@@ -443,7 +457,7 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
 
       {/* Generator Tabs */}
       <Tabs defaultValue="single" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="single" className="flex items-center gap-2">
             <Package className="h-4 w-4" />
             Single Barcode
@@ -452,6 +466,14 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
             <Hash className="h-4 w-4" />
             Bulk Generation
           </TabsTrigger>
+          <TabsTrigger value="format" className="flex items-center gap-2">
+            <Settings className="h-4 w-4" />
+            Code Format
+          </TabsTrigger>
+          <TabsTrigger value="labels" className="flex items-center gap-2">
+            <Tag className="h-4 w-4" />
+            Labels
+          </TabsTrigger>
         </TabsList>
 
         {/* Single Barcode Generation */}
@@ -542,10 +564,10 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
                   <div className="p-3 bg-muted rounded-md">
                     <p className="text-sm font-medium">Date-based sequential codes</p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      Format: YYMMDD##### (e.g., {new Date().getFullYear().toString().slice(-2)}{(new Date().getMonth() + 1).toString().padStart(2, '0')}{new Date().getDate().toString().padStart(2, '0')}00001)
+                      Format: {codeTemplate.prefix}{codeTemplate.dateFormat === 'none' ? '' : codeTemplate.dateFormat}{'#'.repeat(codeTemplate.serialWidth)}{codeTemplate.checkDigit ? 'C' : ''} (e.g., {getCodeExample(codeTemplate)})
                     </p>
                     <p className="text-xs text-muted-foreground mt-1">
-                      Codes continue from last saved number for today
+                      Serials are reserved centrally, so codes never repeat across devices
                     </p>
                   </div>
                 </div>
@@ -567,6 +589,97 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="bulk-symbology">Symbology</Label>
+                <Select
+                  value={bulkForm.symbology}
+                  onValueChange={(value) => setBulkForm({ ...bulkForm, symbology: value as BarcodeSymbology })}
+                >
+                  <SelectTrigger id="bulk-symbology">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(BarcodeSymbology).map((symbology) => (
+                      <SelectItem key={symbology} value={symbology}>
+                        {SYMBOLOGY_LABELS[symbology]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Use Code 128, GS1-128 or EAN-13 for cartons going to retailers and distributors
+                </p>
+              </div>
+
+              {/* GS1 Application Identifiers */}
+              <div className="space-y-3 rounded-md border p-3">
+                <div>
+                  <Label>GS1 Data (Optional)</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Encoded in GS1-128 barcodes, and as a GS1 Digital Link in QR codes when a GTIN or SSCC is set
+                  </p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="bulk-gtin">GTIN (01)</Label>
+                    <Input
+                      id="bulk-gtin"
+                      value={bulkForm.gtin}
+                      onChange={(e) => setBulkForm({ ...bulkForm, gtin: e.target.value.replace(/\D/g, "") })}
+                      placeholder="8, 12, 13 or 14 digits"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="bulk-batch">Batch/Lot (10)</Label>
+                    <Input
+                      id="bulk-batch"
+                      value={bulkForm.batch}
+                      onChange={(e) => setBulkForm({ ...bulkForm, batch: e.target.value })}
+                      placeholder="e.g. L2501A"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="bulk-production-date">Production Date (11)</Label>
+                    <Input
+                      id="bulk-production-date"
+                      type="date"
+                      value={bulkForm.productionDate}
+                      onChange={(e) => setBulkForm({ ...bulkForm, productionDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="bulk-best-before">Best Before (15)</Label>
+                    <Input
+                      id="bulk-best-before"
+                      type="date"
+                      value={bulkForm.bestBefore}
+                      onChange={(e) => setBulkForm({ ...bulkForm, bestBefore: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="bulk-net-weight">Net Weight kg (3103)</Label>
+                    <Input
+                      id="bulk-net-weight"
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={bulkForm.netWeightKg}
+                      onChange={(e) => setBulkForm({ ...bulkForm, netWeightKg: e.target.value })}
+                      placeholder="e.g. 5.250"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="bulk-sscc-prefix">SSCC Company Prefix (00)</Label>
+                    <Input
+                      id="bulk-sscc-prefix"
+                      value={bulkForm.ssccCompanyPrefix}
+                      onChange={(e) => setBulkForm({ ...bulkForm, ssccCompanyPrefix: e.target.value.replace(/\D/g, "") })}
+                      placeholder="Assigns each package an SSCC"
+                    />
+                  </div>
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="bulk-description">Base Description (Optional)</Label>
                 <Input
@@ -697,6 +810,107 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Code Format Settings */}
+        <TabsContent value="format">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Code Format
+              </CardTitle>
+              <CardDescription>
+                Configure how new barcode codes are built. Existing codes are not changed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="code-prefix">Prefix</Label>
+                  <Input
+                    id="code-prefix"
+                    value={codeTemplate.prefix}
+                    maxLength={6}
+                    onChange={(e) => setCodeTemplate({ ...codeTemplate, prefix: e.target.value.replace(/[^A-Za-z0-9]/g, '').toUpperCase() })}
+                    placeholder="e.g. PKG (leave empty for none)"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="code-date-format">Date Part</Label>
+                  <Select
+                    value={codeTemplate.dateFormat}
+                    onValueChange={(value) => setCodeTemplate({ ...codeTemplate, dateFormat: value as CodeDateFormat })}
+                  >
+                    <SelectTrigger id="code-date-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="YYMMDD">YYMMDD (serial restarts daily)</SelectItem>
+                      <SelectItem value="YYYYMMDD">YYYYMMDD (serial restarts daily)</SelectItem>
+                      <SelectItem value="YYMM">YYMM (serial restarts monthly)</SelectItem>
+                      <SelectItem value="none">None (serial never restarts)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="code-serial-width">Serial Digits</Label>
+                  <Input
+                    id="code-serial-width"
+                    type="number"
+                    min="3"
+                    max="8"
+                    value={codeTemplate.serialWidth}
+                    onChange={(e) => setCodeTemplate({ ...codeTemplate, serialWidth: Math.min(8, Math.max(3, parseInt(e.target.value) || 5)) })}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Check Digit</Label>
+                  <RadioGroup
+                    value={codeTemplate.checkDigit ? "luhn" : "none"}
+                    onValueChange={(value) => setCodeTemplate({ ...codeTemplate, checkDigit: value === "luhn" })}
+                    className="flex gap-4 pt-2"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="none" id="check-digit-none" />
+                      <Label htmlFor="check-digit-none">None</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="luhn" id="check-digit-luhn" />
+                      <Label htmlFor="check-digit-luhn">Luhn (mod 10)</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+              </div>
+
+              <div className="p-3 bg-muted rounded-md">
+                <p className="text-sm font-medium">Preview</p>
+                <p className="font-mono text-lg mt-1">{getCodeExample(codeTemplate)}</p>
+              </div>
+
+              <Button onClick={handleSaveTemplate} disabled={savingTemplate} className="w-full">
+                {savingTemplate ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Code Format
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Label Template Designer */}
+        <TabsContent value="labels">
+          <LabelTemplateDesigner />
+        </TabsContent>
       </Tabs>
 
       {/* Recent Barcodes */}
@@ -730,12 +944,12 @@ export function BarcodeGenerator({ onBarcodeGenerated }: BarcodeGeneratorProps)
                     </div>
 
                     <div className="flex justify-center">
-                      <QRCodeSVG
+                      <BarcodeSymbol
                         id={`qr-${barcode.id}`}
                         value={barcode.code}
+                        symbology={barcode.symbology}
+                        gs1={barcode.gs1}
                         size={120}
-                        level="M"
-                        includeMargin={true}
                       />
                     </div>
 
@@ -11,7 +11,10 @@ import { getAllBarcodes, deleteBarcode, deleteMultipleBarcodes } from "@/lib/sto
 import { getAllWorkers } from "@/lib/attendance-utils";
 import { Worker } from "@/types";
 import { getWorkerForBarcode } from "@/lib/supabase";
-import { Search, Trash2, Printer, QrCode, CheckSquare, Trash, Users } from "lucide-react";
+import { PackageTimelineDialog } from "@/components/package-timeline";
+import { LabelPrintDialog } from "@/components/label-print-dialog";
+import { LabelData, barcodeToLabelData } from "@/lib/label-templates";
+import { Search, Trash2, Printer, QrCode, CheckSquare, Trash, Users, History } from "lucide-react";
 
 export function BarcodeList({ refreshTrigger }: { refreshTrigger: number }) {
   const [barcodes, setBarcodes] = useState<Barcode[]>([]);
@@ -20,10 +23,11 @@ export function BarcodeList({ refreshTrigger }: { refreshTrigger: number }) {
   const [workerFilter, setWorkerFilter] = useState<string>("all");
   const [selectedBarcodes, setSelectedBarcodes] = useState<string[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
-  const [isPrinting, setIsPrinting] = useState(false);
+  const [labelsToPrint, setLabelsToPrint] = useState<LabelData[]>([]);
   const [workers, setWorkers] = useState<Worker[]>([]);
   const [barcodeAssignments, setBarcodeAssignments] = useState<{ [key: string]: string }>({});
   const [isLoadingAssignments, setIsLoadingAssignments] = useState(false);
+  const [historyCode, setHistoryCode] = useState<string | null>(null);
 
   // Load barcodes, workers, and assignments
   useEffect(() => {
@@ -123,85 +127,7 @@ export function BarcodeList({ refreshTrigger }: { refreshTrigger: number }) {
   };
 
   const handlePrint = (barcode: Barcode) => {
-    // Create a new window for printing
-    const printWindow = window.open('', '_blank');
-
-    if (!printWindow) {
-      alert("Could not open print window. Please check if pop-ups are blocked.");
-      return;
-    }
-
-    // Create HTML content for printing
-    const printContent = `
-      <html>
-      <head>
-        <title>Print QR Code</title>
-        <style>
-          body {
-            font-family: Arial, sans-serif;
-            margin: 0;
-            padding: 10px;
-            display: flex;
-            justify-content: center;
-            align-items: center;
-            min-height: 100vh;
-          }
-          .qr-container {
-            padding: 15px;
-            border: 1px dashed #ccc;
-            text-align: center;
-          }
-          .qr-image {
-            max-width: 300px;
-            height: auto;
-          }
-          .qr-code {
-            margin-top: 10px;
-            font-size: 16px;
-            color: #333;
-          }
-          .qr-details {
-            margin-top: 5px;
-            font-size: 14px;
-            color: #666;
-          }
-          @media print {
-            .no-print {
-              display: none;
-            }
-            body {
-              padding: 0;
-            }
-            .qr-container {
-              border: none;
-            }
-          }
-        </style>
-      </head>
-      <body>
-        <div class="no-print" style="position: fixed; top: 10px; right: 10px;">
-          <button onclick="window.print();" style="padding: 10px 20px; font-size: 16px;">Print QR Code</button>
-        </div>
-        
-        <div class="qr-container">
-          <img class="qr-image" src="${barcode.qrCodeImage}" alt="QR Code: ${barcode.code}" />
-          <div class="qr-code">${barcode.code}</div>
-          ${barcode.description ? `<div class="qr-details">Description: ${barcode.description}</div>` : ''}
-          ${barcode.status ? `<div class="qr-details">Status: ${barcode.status}</div>` : ''}
-          ${barcode.packer ? `<div class="qr-details">Packer: ${barcode.packer}</div>` : ''}
-          ${barcode.weight ? `<div class="qr-details">Weight: ${barcode.weight}</div>` : ''}
-        </div>
-      </body>
-      </html>
-    `;
-
-    // Write to the print window
-    printWindow.document.open();
-    printWindow.document.write(printContent);
-    printWindow.document.close();
-
-    // Focus the window for printing
-    printWindow.focus();
+    setLabelsToPrint([barcodeToLabelData(barcode, { worker: barcodeAssignments[barcode.code] || barcode.packerName })]);
   };
 
   const handleSelectAll = () => {
@@ -253,105 +179,10 @@ export function BarcodeList({ refreshTrigger }: { refreshTrigger: number }) {
   const handleBulkPrint = () => {
     if (selectedBarcodes.length === 0) return;
 
-    setIsPrinting(true);
-
-    try {
-      const selectedBarcodeObjects = barcodes.filter(b => selectedBarcodes.includes(b.code));
-      const validBarcodes = selectedBarcodeObjects.filter(b => b.qrCodeImage);
-
-      if (validBarcodes.length === 0) {
-        alert("No valid QR codes found for printing");
-        setIsPrinting(false);
-        return;
-      }
-
-      // Create a new window for printing multiple QR codes
-      const printWindow = window.open('', '_blank');
-
-      if (!printWindow) {
-        alert("Could not open print window. Please check if pop-ups are blocked.");
-        setIsPrinting(false);
-        return;
-      }
-
-      let printContent = `
-        <html>
-        <head>
-          <title>Print QR Codes</title>
-          <style>
-            body {
-              font-family: Arial, sans-serif;
-              margin: 0;
-              padding: 10px;
-            }
-            .qr-container {
-              display: inline-block;
-              margin: 10px;
-              padding: 15px;
-              border: 1px dashed #ccc;
-              page-break-inside: avoid;
-              text-align: center;
-            }
-            .qr-image {
-              max-width: 200px;
-              height: auto;
-            }
-            .qr-code {
-              margin-top: 5px;
-              font-size: 12px;
-              color: #333;
-            }
-            .qr-details {
-              margin-top: 3px;
-              font-size: 10px;
-              color: #666;
-            }
-            @media print {
-              .no-print {
-                display: none;
-              }
-              body {
-                padding: 0;
-              }
-              .qr-container {
-                border: none;
-              }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="no-print" style="margin-bottom: 20px; text-align: center;">
-            <button onclick="window.print();" style="padding: 10px 20px; font-size: 16px;">Print ${validBarcodes.length} QR Codes</button>
-          </div>
-      `;
-
-      validBarcodes.forEach(barcode => {
-        printContent += `
-          <div class="qr-container">
-            <img class="qr-image" src="${barcode.qrCodeImage}" alt="QR Code: ${barcode.code}" />
-            <div class="qr-code">${barcode.code}</div>
-            ${barcode.packer ? `<div class="qr-details">Packer: ${barcode.packer}</div>` : ''}
-            ${barcode.status ? `<div class="qr-details">Status: ${barcode.status}</div>` : ''}
-          </div>
-        `;
-      });
-
-      printContent += `
-        </body>
-        </html>
-      `;
-
-      printWindow.document.open();
-      printWindow.document.write(printContent);
-      printWindow.document.close();
-      printWindow.focus();
-
-    } catch (error) {
-      console.error("Error printing barcodes:", error);
-      alert("Failed to print selected QR codes");
-    } finally {
-      setIsPrinting(false);
-    }
+    const selectedBarcodeObjects = barcodes.filter(b => selectedBarcodes.includes(b.code));
+    setLabelsToPrint(selectedBarcodeObjects.map(barcode =>
+      barcodeToLabelData(barcode, { worker: barcodeAssignments[barcode.code] || barcode.packerName })
+    ));
   };
 
   const getStatusBadgeVariant = (status: PackingStatus) => {
@@ -398,11 +229,10 @@ export function BarcodeList({ refreshTrigger }: { refreshTrigger: number }) {
                     variant="outline"
                     size="sm"
                     onClick={handleBulkPrint}
-                    disabled={isPrinting}
                     className="flex items-center gap-2"
                   >
                     <Printer className="w-4 h-4" />
-                    {isPrinting ? 'Printing...' : `Print ${selectedBarcodes.length}`}
+                    {`Print ${selectedBarcodes.length}`}
                   </Button>
 
                   <Button
@@ -532,6 +362,14 @@ export function BarcodeList({ refreshTrigger }: { refreshTrigger: number }) {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => setHistoryCode(barcode.code)}
+                            title="View History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="outline"
                             size="icon"
@@ -580,6 +418,16 @@ export function BarcodeList({ refreshTrigger }: { refreshTrigger: number }) {
           )}
         </div>
       </CardContent>
+
+      <PackageTimelineDialog
+        code={historyCode}
+        onOpenChange={(open) => !open && setHistoryCode(null)}
+      />
+
+      <LabelPrintDialog
+        labels={labelsToPrint}
+        onOpenChange={(open) => !open && setLabelsToPrint([])}
+      />
     </Card>
   );
 }
\ No newline at end of file
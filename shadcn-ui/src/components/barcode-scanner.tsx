@@ -8,6 +8,8 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Barcode, PackingStatus, ScanUpdateData } from "@/types";
 import { findBarcodeByCode, updateBarcodeStatus } from "@/lib/storage";
+import { validateScannedCode } from "@/lib/code-validator";
+import { playInvalidCodeSound } from "@/lib/scan-sounds";
 import { AlertCircle } from "lucide-react";
 import jsQR from "jsqr";
 
@@ -159,6 +161,15 @@ export function BarcodeScanner({
   };
   
   const handleCodeDetection = (code: string) => {
+    // Reject misreads and foreign QR codes before looking them up
+    const validation = validateScannedCode(code);
+    if (!validation.valid) {
+      playInvalidCodeSound();
+      setError(validation.message || `Invalid code: ${code}`);
+      setScanResult(null);
+      return;
+    }
+
     // Look up the detected code
     const barcode = findBarcodeByCode(code);
     
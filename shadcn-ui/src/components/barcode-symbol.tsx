@@ -0,0 +1,29 @@
+import { useEffect, useRef } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { BarcodeSymbology, Gs1Data } from "@/types";
+import { getQRCodeContent, renderLinearBarcodeToSVG } from "@/lib/barcode-symbologies";
+
+interface BarcodeSymbolProps {
+  id?: string;
+  value: string;
+  symbology?: BarcodeSymbology;
+  size?: number;
+  gs1?: Gs1Data;
+}
+
+// Renders a code as an SVG in its symbology: QR codes are square, 1D barcodes are half as tall
+export function BarcodeSymbol({ id, value, symbology = BarcodeSymbology.QR, size = 120, gs1 }: BarcodeSymbolProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (symbology !== BarcodeSymbology.QR && svgRef.current) {
+      renderLinearBarcodeToSVG(svgRef.current, value, symbology, Math.round(size / 2), gs1);
+    }
+  }, [value, symbology, size, gs1]);
+
+  if (symbology === BarcodeSymbology.QR) {
+    return <QRCodeSVG id={id} value={getQRCodeContent(value, gs1)} size={size} level="M" includeMargin={true} />;
+  }
+
+  return <svg id={id} ref={svgRef} className="max-w-full h-auto" />;
+}
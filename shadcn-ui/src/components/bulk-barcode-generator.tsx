@@ -5,8 +5,10 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
-import { generateBarcodeCode } from "@/lib/barcode-generator";
+import { generateBarcodeCodes } from "@/lib/barcode-generator";
 import { generateQRCodeDataURL } from "@/lib/qr-generator";
+import { LabelData } from "@/lib/label-templates";
+import { LabelPrintDialog } from "@/components/label-print-dialog";
 import { Barcode, PackingStatus, Worker, Gender } from "@/types";
 import { saveBarcodes, getAllBarcodes } from "@/lib/storage";
 import { getAllWorkers, saveWorker, deleteWorker } from "@/lib/attendance-utils";
@@ -31,6 +33,7 @@ export function BulkBarcodeGenerator({ onBarcodeCreated }: { onBarcodeCreated: (
   const [description, setDescription] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedCodes, setGeneratedCodes] = useState<PrintableQrCode[]>([]);
+  const [labelsToPrint, setLabelsToPrint] = useState<LabelData[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   // Worker management state
@@ -152,28 +155,8 @@ export function BulkBarcodeGenerator({ onBarcodeCreated }: { onBarcodeCreated: (
 
     try {
       console.log('[BulkBarcodeGenerator] Starting barcode generation process...');
-      // Get current date in YYMMDD format for serial numbering
-      const today = new Date();
-      const year = today.getFullYear().toString().slice(-2);
-      const month = (today.getMonth() + 1).toString().padStart(2, '0');
-      const day = today.getDate().toString().padStart(2, '0');
-      const dateStr = `${year}${month}${day}`;
-
-      // Get existing barcodes count for today to start serial numbering correctly
-      const existingBarcodes = await getAllBarcodes();
-      const todayBarcodes = existingBarcodes.filter(barcode =>
-        barcode.code.startsWith(dateStr)
-      );
-      let currentSerial = todayBarcodes.length;
-
-      // Generate codes with sequential serial numbers
-      const codes: string[] = [];
-      for (let i = 0; i < count; i++) {
-        currentSerial += 1;
-        const serialStr = currentSerial.toString().padStart(5, '0');
-        const code = `${dateStr}${serialStr}`;
-        codes.push(code);
-      }
+      // Reserve a block of sequential serials for this prefix
+      const codes = await generateBarcodeCodes(count, { prefix });
 
       // Assign codes to workers
       let codeIndex = 0;
@@ -283,7 +266,7 @@ export function BulkBarcodeGenerator({ onBarcodeCreated }: { onBarcodeCreated: (
       console.error('[BulkBarcodeGenerator] ===== ERROR IN handleGenerateBulk =====');
       console.error("Error generating bulk codes:", error);
       console.error("Error stack:", error instanceof Error ? error.stack : 'No stack trace');
-      setError("Failed to generate QR codes. Please try again.");
+      setError(error instanceof Error ? error.message : "Failed to generate QR codes. Please try again.");
     } finally {
       setIsGenerating(false);
       console.log('[BulkBarcodeGenerator] setIsGenerating(false) called');
@@ -303,84 +286,13 @@ export function BulkBarcodeGenerator({ onBarcodeCreated }: { onBarcodeCreated: (
   const handlePrint = () => {
     if (!generatedCodes.length) return;
 
-    // Create a new window for printing
-    const printWindow = window.open('', '_blank');
-
-    if (!printWindow) {
-      alert("Could not open print window. Please check if pop-ups are blocked.");
-      return;
-    }
-
-    // Create HTML content for printing
-    let printContent = `
-      <html>
-      <head>
-        <title>Print QR Codes</title>
-        <style>
-          body {
-            font-family: Arial, sans-serif;
-            margin: 0;
-            padding: 10px;
-          }
-          .qr-container {
-            display: inline-block;
-            margin: 10px;
-            padding: 15px;
-            border: 1px dashed #ccc;
-            page-break-inside: avoid;
-            text-align: center;
-          }
-          .qr-image {
-            max-width: 200px;
-            height: auto;
-          }
-          .qr-code {
-            margin-top: 5px;
-            font-size: 12px;
-            color: #333;
-          }
-          @media print {
-            .no-print {
-              display: none;
-            }
-            body {
-              padding: 0;
-            }
-            .qr-container {
-              border: none;
-            }
-          }
-        </style>
-      </head>
-      <body>
-        <div class="no-print" style="margin-bottom: 20px; text-align: center;">
-          <button onclick="window.print();" style="padding: 10px 20px; font-size: 16px;">Print QR Codes</button>
-        </div>
-    `;
-
-    // Add each QR code to the print content
-    generatedCodes.forEach(qrCode => {
-      printContent += `
-        <div class="qr-container">
-          <img class="qr-image" src="${qrCode.dataUrl}" alt="QR Code: ${qrCode.code}" />
-          <div class="qr-code">${qrCode.code}</div>
-        </div>
-      `;
-    });
-
-    // Close the HTML content
-    printContent += `
-      </body>
-      </html>
-    `;
-
-    // Write to the print window
-    printWindow.document.open();
-    printWindow.document.write(printContent);
-    printWindow.document.close();
-
-    // Focus the window for printing
-    printWindow.focus();
+    setLabelsToPrint(generatedCodes.map(qrCode => ({
+      code: qrCode.code,
+      qrCodeImage: qrCode.dataUrl,
+      description: description || `${prefix} Package`,
+      worker: qrCode.assignedWorker || undefined,
+      date: new Date().toLocaleDateString()
+    })));
   };
 
   const handleClear = () => {
@@ -673,6 +585,11 @@ export function BulkBarcodeGenerator({ onBarcodeCreated }: { onBarcodeCreated: (
           </>
         )}
       </CardFooter>
+
+      <LabelPrintDialog
+        labels={labelsToPrint}
+        onOpenChange={(open) => !open && setLabelsToPrint([])}
+      />
     </Card>
   );
-}
\ No newline at end of file
+}
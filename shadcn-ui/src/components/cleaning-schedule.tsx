@@ -0,0 +1,349 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CleaningFrequency, CleaningSchedule, HygieneArea, Worker } from "@/types";
+import { getHygieneAreaName } from "@/lib/hygiene-areas";
+import {
+    WeeklyCleaningCompliance,
+    getWeeklyCleaningCompliance,
+    saveCleaningSchedule,
+    validateCleaningSchedule
+} from "@/lib/cleaning-schedule";
+import { addDays, getWeekStart } from "@/lib/roster";
+import { WEEKDAY_LABELS } from "@/lib/payroll-rules";
+import { AlertCircle, ChevronLeft, ChevronRight, Pencil } from "lucide-react";
+import { toast } from "sonner";
+
+interface CleaningScheduleManagerProps {
+    areas: HygieneArea[];
+    cleaners: Worker[];
+    schedules: CleaningSchedule[];
+    onChanged?: () => void;
+}
+
+const EMPTY_SCHEDULE_FORM = {
+    id: "",
+    area: "",
+    frequency: CleaningFrequency.DAILY,
+    weekday: "1",
+    windowStart: "08:00",
+    windowEnd: "09:00",
+    cleanerIds: [] as string[],
+    isActive: true
+};
+
+export function CleaningScheduleManager({ areas, cleaners, schedules, onChanged }: CleaningScheduleManagerProps) {
+    const [form, setForm] = useState(EMPTY_SCHEDULE_FORM);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [weekStart, setWeekStart] = useState(getWeekStart(new Date().toISOString().split("T")[0]));
+    const [compliance, setCompliance] = useState<WeeklyCleaningCompliance | null>(null);
+
+    useEffect(() => {
+        setCompliance(null);
+        getWeeklyCleaningCompliance(schedules, weekStart).then(setCompliance);
+    }, [schedules, weekStart]);
+
+    const getAreaLabel = (area: string) => getHygieneAreaName(areas, area);
+    const getCleanerName = (workerId: string) => cleaners.find(w => w.id === workerId)?.name || "Unknown";
+    const describeFrequency = (schedule: CleaningSchedule) =>
+        schedule.frequency === CleaningFrequency.WEEKLY && schedule.weekday !== undefined
+            ? `Weekly (${WEEKDAY_LABELS[schedule.weekday]})`
+            : "Daily";
+
+    const toggleCleaner = (workerId: string, checked: boolean) => {
+        setForm(prev => ({
+            ...prev,
+            cleanerIds: checked ? [...prev.cleanerIds, workerId] : prev.cleanerIds.filter(id => id !== workerId)
+        }));
+    };
+
+    // A new entry starts with the frequency the area must be cleaned at
+    const selectArea = (code: string) => {
+        const area = areas.find(a => a.code === code);
+        setForm(prev => ({
+            ...prev,
+            area: code,
+            frequency: !prev.id && area ? area.requiredFrequency : prev.frequency
+        }));
+    };
+
+    const handleSave = async () => {
+        const schedule = {
+            id: form.id || undefined,
+            area: form.area,
+            frequency: form.frequency,
+            weekday: form.frequency === CleaningFrequency.WEEKLY ? parseInt(form.weekday) : undefined,
+            windowStart: form.windowStart,
+            windowEnd: form.windowEnd,
+            cleanerIds: form.cleanerIds,
+            isActive: form.isActive
+        };
+
+        const validationErrors = validateCleaningSchedule(schedule);
+        setErrors(validationErrors);
+        if (validationErrors.length > 0) return;
+
+        setSaving(true);
+        try {
+            const saved = await saveCleaningSchedule(schedule);
+            if (saved) {
+                toast.success(`Cleaning of ${getAreaLabel(saved.area)} scheduled`);
+                setForm(EMPTY_SCHEDULE_FORM);
+                onChanged?.();
+            } else {
+                toast.error("Failed to save cleaning schedule");
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const editSchedule = (schedule: CleaningSchedule) => {
+        setErrors([]);
+        setForm({
+            id: schedule.id,
+            area: schedule.area,
+            frequency: schedule.frequency,
+            weekday: String(schedule.weekday ?? 1),
+            windowStart: schedule.windowStart,
+            windowEnd: schedule.windowEnd,
+            cleanerIds: schedule.cleanerIds,
+            isActive: schedule.isActive
+        });
+    };
+
+    const missedSlots = compliance?.slots.filter(slot => slot.status === "missed") || [];
+
+    return (
+        <Tabs defaultValue="schedule" className="space-y-4" onValueChange={() => setErrors([])}>
+            <TabsList>
+                <TabsTrigger value="schedule">Schedule</TabsTrigger>
+                <TabsTrigger value="compliance">Weekly Compliance</TabsTrigger>
+            </TabsList>
+
+            {errors.length > 0 && (
+                <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                        {errors.map(error => <div key={error}>{error}</div>)}
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <TabsContent value="schedule" className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end border rounded-md p-3">
+                    <div className="space-y-1 col-span-2">
+                        <Label>Area</Label>
+                        <Select value={form.area} onValueChange={selectArea}>
+                            <SelectTrigger><SelectValue placeholder="Select an area" /></SelectTrigger>
+                            <SelectContent>
+                                {areas.filter(area => area.isActive || area.code === form.area).map(area => (
+                                    <SelectItem key={area.code} value={area.code}>{area.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label>Frequency</Label>
+                        <Select value={form.frequency} onValueChange={(value) => setForm({ ...form, frequency: value as CleaningFrequency })}>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={CleaningFrequency.DAILY}>Daily</SelectItem>
+                                <SelectItem value={CleaningFrequency.WEEKLY}>Weekly</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {form.frequency === CleaningFrequency.WEEKLY ? (
+                        <div className="space-y-1 col-span-2">
+                            <Label>Day</Label>
+                            <Select value={form.weekday} onValueChange={(value) => setForm({ ...form, weekday: value })}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {WEEKDAY_LABELS.map((label, day) => (
+                                        <SelectItem key={label} value={String(day)}>{label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    ) : (
+                        <div className="col-span-2 text-xs text-muted-foreground pb-2">
+                            Add one entry per window for areas cleaned more than once a day.
+                        </div>
+                    )}
+                    <div className="space-y-1">
+                        <Label>From</Label>
+                        <Input type="time" value={form.windowStart} onChange={(e) => setForm({ ...form, windowStart: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label>Until</Label>
+                        <Input type="time" value={form.windowEnd} onChange={(e) => setForm({ ...form, windowEnd: e.target.value })} />
+                    </div>
+                    <div className="space-y-1 col-span-2 md:col-span-3">
+                        <Label>Cleaners</Label>
+                        {cleaners.length === 0 ? (
+                            <div className="text-sm text-muted-foreground">No workers are marked as cleaners</div>
+                        ) : (
+                            <div className="flex flex-wrap gap-3">
+                                {cleaners.map(worker => (
+                                    <label key={worker.id} className="flex items-center gap-2 text-sm">
+                                        <Checkbox
+                                            checked={form.cleanerIds.includes(worker.id)}
+                                            onCheckedChange={(checked) => toggleCleaner(worker.id, checked === true)}
+                                        />
+                                        {worker.name}
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    {form.id && (
+                        <div className="flex items-center gap-2 col-span-2">
+                            <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                            <Label>Active</Label>
+                        </div>
+                    )}
+                    <div className="flex gap-2 justify-end col-start-2 md:col-start-5">
+                        {form.id && (
+                            <Button variant="outline" onClick={() => setForm(EMPTY_SCHEDULE_FORM)}>Cancel</Button>
+                        )}
+                        <Button onClick={handleSave} disabled={saving}>{form.id ? "Save" : "Add"}</Button>
+                    </div>
+                </div>
+
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Area</TableHead>
+                            <TableHead>Frequency</TableHead>
+                            <TableHead>Window</TableHead>
+                            <TableHead>Cleaners</TableHead>
+                            <TableHead className="w-12" />
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {schedules.length === 0 && (
+                            <TableRow>
+                                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                                    Nothing scheduled yet. Areas without a schedule only show whether they were cleaned.
+                                </TableCell>
+                            </TableRow>
+                        )}
+                        {schedules.map(schedule => (
+                            <TableRow key={schedule.id} className={schedule.isActive ? "" : "opacity-50"}>
+                                <TableCell>
+                                    {getAreaLabel(schedule.area)}
+                                    {!schedule.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                                </TableCell>
+                                <TableCell>{describeFrequency(schedule)}</TableCell>
+                                <TableCell>{schedule.windowStart}-{schedule.windowEnd}</TableCell>
+                                <TableCell>{schedule.cleanerIds.map(getCleanerName).join(", ")}</TableCell>
+                                <TableCell>
+                                    <Button variant="ghost" size="sm" onClick={() => editSchedule(schedule)} title="Edit schedule">
+                                        <Pencil className="h-4 w-4" />
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </TabsContent>
+
+            <TabsContent value="compliance" className="space-y-4">
+                <div className="flex items-center gap-2">
+                    <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))} title="Previous week">
+                        <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="font-medium">Week of {weekStart}</span>
+                    <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))} title="Next week">
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                </div>
+
+                {!compliance ? (
+                    <div className="text-center text-muted-foreground py-4">Loading...</div>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <div className="text-center border rounded-md p-3">
+                                <div className="text-2xl font-bold">
+                                    {compliance.total > 0 ? Math.round((compliance.done / compliance.total) * 100) : 100}%
+                                </div>
+                                <div className="text-sm text-muted-foreground">On time</div>
+                            </div>
+                            <div className="text-center border rounded-md p-3">
+                                <div className="text-2xl font-bold text-green-600">{compliance.done}</div>
+                                <div className="text-sm text-muted-foreground">Done</div>
+                            </div>
+                            <div className="text-center border rounded-md p-3">
+                                <div className="text-2xl font-bold text-amber-600">{compliance.late}</div>
+                                <div className="text-sm text-muted-foreground">Late</div>
+                            </div>
+                            <div className="text-center border rounded-md p-3">
+                                <div className="text-2xl font-bold text-red-600">{compliance.missed}</div>
+                                <div className="text-sm text-muted-foreground">Missed</div>
+                            </div>
+                        </div>
+
+                        {compliance.missed > 0 && (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <div className="text-sm font-semibold text-muted-foreground mb-2">Missed by area</div>
+                                    {Object.entries(compliance.missedByArea).map(([area, count]) => (
+                                        <div key={area} className="flex justify-between text-sm">
+                                            <span>{getAreaLabel(area)}</span>
+                                            <span className="text-red-600">{count}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div>
+                                    <div className="text-sm font-semibold text-muted-foreground mb-2">Missed by assigned cleaner</div>
+                                    {Object.entries(compliance.missedByCleaner).map(([workerId, count]) => (
+                                        <div key={workerId} className="flex justify-between text-sm">
+                                            <span>{getCleanerName(workerId)}</span>
+                                            <span className="text-red-600">{count}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Date</TableHead>
+                                    <TableHead>Area</TableHead>
+                                    <TableHead>Window</TableHead>
+                                    <TableHead>Cleaners</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {missedSlots.length === 0 && (
+                                    <TableRow>
+                                        <TableCell colSpan={4} className="text-center text-muted-foreground">No missed cleaning this week</TableCell>
+                                    </TableRow>
+                                )}
+                                {missedSlots.map(slot => (
+                                    <TableRow key={`${slot.date}-${slot.schedule.id}`}>
+                                        <TableCell>{slot.date}</TableCell>
+                                        <TableCell>{getAreaLabel(slot.schedule.area)}</TableCell>
+                                        <TableCell>{slot.schedule.windowStart}-{slot.schedule.windowEnd}</TableCell>
+                                        <TableCell>{slot.schedule.cleanerIds.map(getCleanerName).join(", ")}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </>
+                )}
+            </TabsContent>
+        </Tabs>
+    );
+}
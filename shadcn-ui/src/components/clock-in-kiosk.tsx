@@ -0,0 +1,237 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Html5QrcodeScanner, Html5QrcodeSupportedFormats } from "html5-qrcode";
+import { PayrollRuleSet, Worker } from "@/types";
+import { getAllWorkers } from "@/lib/attendance-utils";
+import { getPayrollRuleSets } from "@/lib/payroll-rules";
+import { findWorkerByBadge, recordClockScan, ClockScanResult } from "@/lib/clock-in";
+import { playInvalidCodeSound } from "@/lib/scan-sounds";
+import { AlertCircle, Camera, CameraOff, LogIn, LogOut, Clock } from "lucide-react";
+
+// The same badge seen again within this window is the camera re-reading it, not a new scan
+const REPEAT_SCAN_WINDOW_MS = 5000;
+
+export function ClockInKiosk() {
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [ruleSets, setRuleSets] = useState<PayrollRuleSet[]>([]);
+  const [scannerActive, setScannerActive] = useState(false);
+  const [manualCode, setManualCode] = useState("");
+  const [processing, setProcessing] = useState(false);
+  const [lastResult, setLastResult] = useState<ClockScanResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [recentScans, setRecentScans] = useState<(ClockScanResult & { scannedAt: string })[]>([]);
+  const [now, setNow] = useState(new Date());
+  const scannerRef = useRef<Html5QrcodeScanner | null>(null);
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  // The scanner callback is created once, so it reads the latest data through a ref
+  const handleScanRef = useRef<(code: string) => void>(() => {});
+
+  useEffect(() => {
+    getAllWorkers(false).then(setWorkers);
+    getPayrollRuleSets().then(setRuleSets);
+
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => {
+      clearInterval(timer);
+      scannerRef.current?.clear().catch(() => {});
+    };
+  }, []);
+
+  const handleScan = async (code: string, typed: boolean = false) => {
+    const lastScan = lastScanRef.current;
+    if (processing || (lastScan && lastScan.code === code && Date.now() - lastScan.at < REPEAT_SCAN_WINDOW_MS)) {
+      return;
+    }
+    lastScanRef.current = { code, at: Date.now() };
+
+    setError(null);
+    setProcessing(true);
+    try {
+      const worker = await findWorkerByBadge(code, workers, typed);
+      if (!worker) {
+        playInvalidCodeSound();
+        setLastResult(null);
+        setError(typed
+          ? `No active worker found with employee ID "${code}"`
+          : "This badge is not valid. It may have been replaced - please see HR.");
+        return;
+      }
+
+      const result = await recordClockScan(worker, ruleSets);
+      if (!result) {
+        playInvalidCodeSound();
+        setLastResult(null);
+        setError(`Could not record attendance for ${worker.name}. Payroll may be locked for this month - please inform HR.`);
+        return;
+      }
+
+      setLastResult(result);
+      if (result.action !== "ignored") {
+        setRecentScans(prev => [{ ...result, scannedAt: new Date().toISOString() }, ...prev].slice(0, 20));
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+  handleScanRef.current = handleScan;
+
+  const startScanner = () => {
+    const scanner = new Html5QrcodeScanner(
+      "clock-in-scanner",
+      { fps: 10, qrbox: { width: 250, height: 250 }, formatsToSupport: [Html5QrcodeSupportedFormats.QR_CODE] },
+      false
+    );
+
+    // Keep scanning: the kiosk serves one worker after another
+    scanner.render(
+      (decodedText) => handleScanRef.current(decodedText),
+      () => {}
+    );
+
+    scannerRef.current = scanner;
+    setScannerActive(true);
+  };
+
+  const stopScanner = async () => {
+    if (scannerRef.current) {
+      try {
+        await scannerRef.current.clear();
+      } catch (err) {
+        console.warn("Error stopping scanner:", err);
+      }
+      scannerRef.current = null;
+    }
+    setScannerActive(false);
+  };
+
+  const handleManualSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manualCode.trim()) return;
+    lastScanRef.current = null;
+    await handleScan(manualCode.trim(), true);
+    setManualCode("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Clock In / Clock Out
+              </CardTitle>
+              <CardDescription>
+                Scan your ID badge when you arrive and again when you leave.
+              </CardDescription>
+            </div>
+            <div className="text-right">
+              <div className="text-3xl font-bold tabular-nums">{now.toLocaleTimeString()}</div>
+              <div className="text-sm text-muted-foreground">{now.toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long" })}</div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            {scannerActive ? (
+              <Button variant="outline" onClick={stopScanner}>
+                <CameraOff className="h-4 w-4 mr-2" />
+                Stop Camera
+              </Button>
+            ) : (
+              <Button onClick={startScanner} disabled={workers.length === 0 || ruleSets.length === 0}>
+                <Camera className="h-4 w-4 mr-2" />
+                Start Camera
+              </Button>
+            )}
+            <form onSubmit={handleManualSubmit} className="flex gap-2 flex-1">
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder="Or type your employee ID"
+                disabled={processing}
+              />
+              <Button type="submit" variant="secondary" disabled={processing || !manualCode.trim()}>
+                Submit
+              </Button>
+            </form>
+          </div>
+
+          <div id="clock-in-scanner" className="max-w-md mx-auto" />
+
+          {lastResult && (
+            <div
+              className={`rounded-md border p-6 text-center ${
+                lastResult.action === "check-in"
+                  ? "border-green-500 bg-green-50 dark:bg-green-950"
+                  : lastResult.action === "check-out"
+                    ? "border-blue-500 bg-blue-50 dark:bg-blue-950"
+                    : "border-yellow-500 bg-yellow-50 dark:bg-yellow-950"
+              }`}
+            >
+              <div className="text-2xl font-bold">{lastResult.worker.name}</div>
+              <div className="text-sm text-muted-foreground font-mono">{lastResult.worker.employeeId}</div>
+              <div className="mt-2 text-lg">{lastResult.message}</div>
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {recentScans.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Scans</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Worker</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Check In</TableHead>
+                  <TableHead>Check Out</TableHead>
+                  <TableHead>Late</TableHead>
+                  <TableHead>Overtime</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentScans.map(scan => (
+                  <TableRow key={`${scan.worker.id}-${scan.scannedAt}`}>
+                    <TableCell>
+                      {scan.worker.name}
+                      <span className="ml-2 text-xs text-muted-foreground font-mono">{scan.worker.employeeId}</span>
+                    </TableCell>
+                    <TableCell>
+                      {scan.action === "check-in" ? (
+                        <Badge variant="default"><LogIn className="h-3 w-3 mr-1" />In</Badge>
+                      ) : (
+                        <Badge variant="secondary"><LogOut className="h-3 w-3 mr-1" />Out</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{scan.record.checkInTime || "-"}</TableCell>
+                    <TableCell>{scan.record.checkOutTime || "-"}</TableCell>
+                    <TableCell>{scan.record.lateMinutes ? `${scan.record.lateMinutes} min` : "-"}</TableCell>
+                    <TableCell>{scan.record.overtimeHours ? `${scan.record.overtimeHours} h` : "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { CorrectiveAction, HygieneArea } from "@/types";
+import { getHygieneAreaName } from "@/lib/hygiene-areas";
+import { resolveCorrectiveAction } from "@/lib/hygiene-inspections";
+import { CheckCircle2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface CorrectiveActionListProps {
+    areas: HygieneArea[];
+    actions: CorrectiveAction[]; // Open actions
+    resolvedBy?: string;
+    today: string; // YYYY-MM-DD, actions due before this are overdue
+    onResolved?: () => void;
+}
+
+export function CorrectiveActionList({ areas, actions, resolvedBy, today, onResolved }: CorrectiveActionListProps) {
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    const [resolving, setResolving] = useState<string | null>(null);
+
+    const handleResolve = async (action: CorrectiveAction) => {
+        const note = notes[action.id]?.trim();
+        if (!note) {
+            toast.error("Describe how the problem was fixed");
+            return;
+        }
+
+        setResolving(action.id);
+        try {
+            if (await resolveCorrectiveAction(action.id, note, resolvedBy)) {
+                toast.success("Corrective action closed");
+                setNotes(prev => ({ ...prev, [action.id]: "" }));
+                onResolved?.();
+            } else {
+                toast.error("Failed to close corrective action");
+            }
+        } finally {
+            setResolving(null);
+        }
+    };
+
+    if (actions.length === 0) {
+        return (
+            <div className="text-center text-muted-foreground py-4">No open corrective actions</div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {actions.map(action => (
+                <div key={action.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                        <div>
+                            <div className="font-medium">
+                                {getHygieneAreaName(areas, action.area)}: {action.item}
+                            </div>
+                            <div className="text-sm text-muted-foreground">{action.description}</div>
+                            <div className="text-xs text-muted-foreground">
+                                Found on {new Date(action.date).toLocaleDateString()} • Due {new Date(action.dueDate).toLocaleDateString()}
+                            </div>
+                        </div>
+                        {action.dueDate < today ? (
+                            <Badge variant="destructive">Overdue</Badge>
+                        ) : (
+                            <Badge variant="outline">Open</Badge>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <Input
+                            value={notes[action.id] || ""}
+                            onChange={(e) => setNotes(prev => ({ ...prev, [action.id]: e.target.value }))}
+                            placeholder="How was it fixed?"
+                        />
+                        <Button
+                            variant="outline"
+                            onClick={() => handleResolve(action)}
+                            disabled={resolving === action.id}
+                        >
+                            <CheckCircle2 className="h-4 w-4 mr-2" />
+                            Close
+                        </Button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
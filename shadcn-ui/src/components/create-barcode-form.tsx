@@ -34,7 +34,7 @@ export function CreateBarcodeForm({ onBarcodeCreated }: { onBarcodeCreated: () =
     
     try {
       // Generate unique barcode code
-      const code = await generateBarcodeCode("PKG");
+      const code = await generateBarcodeCode();
       
       // Generate QR code image
       const qrCodeImage = await generateQRCodeDataURL(code);
@@ -69,7 +69,7 @@ export function CreateBarcodeForm({ onBarcodeCreated }: { onBarcodeCreated: () =
       
     } catch (error) {
       console.error("Error creating QR code:", error);
-      setError("Failed to create QR code. Please try again.");
+      setError(error instanceof Error ? error.message : "Failed to create QR code. Please try again.");
     } finally {
       setGeneratingQR(false);
     }
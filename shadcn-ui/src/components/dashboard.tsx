@@ -5,15 +5,25 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { BarChart } from "./dashboard/BarChart";
+import { InspectionTrendChart } from "./dashboard/InspectionTrendChart";
 import { getAllWorkers, getAllAttendance } from "@/lib/attendance-utils";
 import { getAllBarcodes } from "@/lib/storage";
-import { getAllHygieneRecords, getHygieneRecordsByDate } from "@/lib/hygiene-storage";
+import { getHygieneRecordsByDateRange } from "@/lib/hygiene-storage";
+import { getAreaCompletion, getHygieneAreaName, getHygieneAreas } from "@/lib/hygiene-areas";
+import { getWeekStart, getRosterSchedule, RosterSchedule, EMPTY_ROSTER_SCHEDULE } from "@/lib/roster";
+import { getCorrectiveActions, getHygieneInspections } from "@/lib/hygiene-inspections";
 import { getAllWorkerDefaultOvertimeSettings } from "@/lib/supabase-service";
-import { Worker, AttendanceRecord, AttendanceStatus, Barcode, PackingStatus, HygieneRecord, HygieneArea } from "@/types";
+import { getPayrollRuleSets, DEFAULT_PAYROLL_RULE_SET } from "@/lib/payroll-rules";
+import { getPayrollRunForMonth, getPayrollMonthKey, payslipToSalaryResult } from "@/lib/payroll-runs";
+import { EMPTY_ADVANCE_LEDGER } from "@/lib/advances";
+import { getLeaveCalendar, LeaveCalendar, EMPTY_LEAVE_CALENDAR } from "@/lib/leave";
+import { Worker, AttendanceRecord, AttendanceStatus, Barcode, PackingStatus, HygieneRecord, HygieneArea, HygieneInspection, CorrectiveAction, CleaningFrequency, PayrollRuleSet, PayrollRun, PayrollRunStatus } from "@/types";
 import { calculateMonthlySalary, getCurrentMonthYear, type SalaryCalculationResult } from "@/lib/salary-calculator";
 import { TrendingDown, TrendingUp, DollarSign, Calendar, Sparkles, Package, Users, CheckCircle2, XCircle, Activity } from "lucide-react";
 import { BatchCounterWidget } from "./batch-counter-widget";
 
+const INSPECTION_TREND_DAYS = 30;
+
 interface WorkerAbsenteeStats {
   workerId: string;
   workerName: string;
@@ -31,7 +41,15 @@ export function Dashboard() {
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
   const [barcodes, setBarcodes] = useState<Barcode[]>([]);
   const [hygieneRecords, setHygieneRecords] = useState<HygieneRecord[]>([]);
+  const [hygieneWeekRecords, setHygieneWeekRecords] = useState<HygieneRecord[]>([]); // From the Monday of the selected date's week
+  const [hygieneAreas, setHygieneAreas] = useState<HygieneArea[]>([]);
+  const [hygieneInspections, setHygieneInspections] = useState<HygieneInspection[]>([]); // Last INSPECTION_TREND_DAYS up to the selected date
+  const [correctiveActions, setCorrectiveActions] = useState<CorrectiveAction[]>([]);
   const [workerDefaultOvertime, setWorkerDefaultOvertime] = useState<Record<string, boolean>>({});
+  const [payrollRuleSets, setPayrollRuleSets] = useState<PayrollRuleSet[]>([DEFAULT_PAYROLL_RULE_SET]);
+  const [lastMonthPayrollRun, setLastMonthPayrollRun] = useState<PayrollRun | null>(null);
+  const [leaveCalendar, setLeaveCalendar] = useState<LeaveCalendar>(EMPTY_LEAVE_CALENDAR);
+  const [rosterSchedule, setRosterSchedule] = useState<RosterSchedule>(EMPTY_ROSTER_SCHEDULE);
   const [loading, setLoading] = useState(true);
   const [currentMonth, setCurrentMonth] = useState<string>("");
   const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
@@ -52,17 +70,25 @@ export function Dashboard() {
     try {
       setLoading(true);
       // Load all workers including inactive (they'll be shown but with frozen salaries)
-      const [workersData, attendanceData, barcodesData, defaultOTSettings] = await Promise.all([
+      const [workersData, attendanceData, barcodesData, defaultOTSettings, ruleSets, lastMonthRun, leaveData, schedule] = await Promise.all([
         getAllWorkers(true), // Load all including inactive
         getAllAttendance(),
         getAllBarcodes(),
-        getAllWorkerDefaultOvertimeSettings()
+        getAllWorkerDefaultOvertimeSettings(),
+        getPayrollRuleSets(),
+        getPayrollRunForMonth(getLastMonthKey()),
+        getLeaveCalendar(),
+        getRosterSchedule()
       ]);
       // Show all workers (active and inactive) - inactive workers will have frozen salaries
       setWorkers(workersData);
       setAttendanceRecords(attendanceData);
       setBarcodes(barcodesData);
       setWorkerDefaultOvertime(defaultOTSettings);
+      setPayrollRuleSets(ruleSets);
+      setLastMonthPayrollRun(lastMonthRun);
+      setLeaveCalendar(leaveData);
+      setRosterSchedule(schedule);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -72,8 +98,17 @@ export function Dashboard() {
 
   const loadHygieneRecords = async () => {
     try {
-      const records = await getHygieneRecordsByDate(selectedDate);
-      setHygieneRecords(records);
+      const [records, areas, inspections, actions] = await Promise.all([
+        getHygieneRecordsByDateRange(getWeekStart(selectedDate), selectedDate),
+        getHygieneAreas(),
+        getHygieneInspections(selectedDate, INSPECTION_TREND_DAYS),
+        getCorrectiveActions()
+      ]);
+      setHygieneWeekRecords(records);
+      setHygieneRecords(records.filter(record => record.date === selectedDate));
+      setHygieneAreas(areas);
+      setHygieneInspections(inspections);
+      setCorrectiveActions(actions);
     } catch (error) {
       console.error('Error loading hygiene records:', error);
     }
@@ -89,6 +124,12 @@ export function Dashboard() {
     return { startDate, endDate };
   };
 
+  // Payroll month key (YYYY-MM) of last month
+  const getLastMonthKey = () => {
+    const { month, year } = getCurrentMonthYear();
+    return month === 0 ? getPayrollMonthKey(11, year - 1) : getPayrollMonthKey(month - 1, year);
+  };
+
   // Get last month date range
   const getLastMonthRange = () => {
     const now = new Date();
@@ -116,13 +157,21 @@ export function Dashboard() {
     // Filter to only active workers
     const activeWorkers = workers.filter(w => w.isActive !== false);
 
+    // Once last month's payroll is approved, show what was actually paid
+    const lockedPayslips = lastMonthPayrollRun?.status === PayrollRunStatus.LOCKED
+      ? new Map(lastMonthPayrollRun.payslips.map(p => [p.workerId, p]))
+      : null;
+
     // Calculate stats for each active worker only
     const statsMap = new Map<string, WorkerAbsenteeStats>();
 
     // Initialize only active workers with last month salary
     activeWorkers.forEach(worker => {
       const defaultOT = workerDefaultOvertime[worker.id] || false;
-      const salaryDetails = calculateMonthlySalary(worker, attendanceRecords, lastMonth, lastMonthYear, defaultOT);
+      const payslip = lockedPayslips?.get(worker.id);
+      const salaryDetails = payslip
+        ? payslipToSalaryResult(payslip)
+        : calculateMonthlySalary(worker, attendanceRecords, lastMonth, lastMonthYear, defaultOT, payrollRuleSets, EMPTY_ADVANCE_LEDGER, leaveCalendar, rosterSchedule);
 
       statsMap.set(worker.id, {
         workerId: worker.id,
@@ -174,7 +223,7 @@ export function Dashboard() {
       // Calculate salary for this worker (include default OT setting)
       // For inactive workers, salary calculation stops at inactive date
       const defaultOT = workerDefaultOvertime[worker.id] || false;
-      const salaryDetails = calculateMonthlySalary(worker, attendanceRecords, month, year, defaultOT);
+      const salaryDetails = calculateMonthlySalary(worker, attendanceRecords, month, year, defaultOT, payrollRuleSets, EMPTY_ADVANCE_LEDGER, leaveCalendar, rosterSchedule);
 
       statsMap.set(worker.id, {
         workerId: worker.id,
@@ -283,23 +332,17 @@ export function Dashboard() {
 
   // Calculate hygiene check status
   const getHygieneStatus = () => {
-    const areas = [
-      HygieneArea.TOILETS,
-      HygieneArea.STORAGE_AREA,
-      HygieneArea.PACKAGING_AREA,
-      HygieneArea.PROCESSING_AREA,
-      HygieneArea.OFFICE_AREA
-    ];
-
-    const completed = areas.filter(area =>
-      hygieneRecords.some(record => record.area === area)
-    ).length;
-
-    return { total: areas.length, completed, pending: areas.length - completed };
+    const areas = getAreaCompletion(hygieneAreas, hygieneWeekRecords, selectedDate);
+    const completed = areas.filter(area => area.completed).length;
+
+    return { areas, total: areas.length, completed, pending: areas.length - completed };
   };
 
   const barcodeStats = getBarcodeStats();
   const hygieneStatus = getHygieneStatus();
+  const getInspectionScoreForRecord = (recordId: string) =>
+    hygieneInspections.find(inspection => inspection.recordId === recordId)?.score;
+  const todayKey = new Date().toISOString().split('T')[0];
 
   return (
     <div className="space-y-6">
@@ -608,6 +651,7 @@ export function Dashboard() {
               </CardTitle>
               <CardDescription>
                 Individual worker salaries for the previous month
+                {lastMonthPayrollRun?.status === PayrollRunStatus.LOCKED && " (from the approved payroll run)"}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -714,24 +758,16 @@ export function Dashboard() {
                 <div className="w-full bg-gray-200 rounded-full h-2.5">
                   <div
                     className="bg-green-600 h-2.5 rounded-full transition-all"
-                    style={{ width: `${(hygieneStatus.completed / hygieneStatus.total) * 100}%` }}
+                    style={{ width: `${hygieneStatus.total > 0 ? (hygieneStatus.completed / hygieneStatus.total) * 100 : 0}%` }}
                   />
                 </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-6">
-                {[
-                  { value: HygieneArea.TOILETS, label: "Clean Toilets" },
-                  { value: HygieneArea.STORAGE_AREA, label: "Cleaned Storage Area" },
-                  { value: HygieneArea.PACKAGING_AREA, label: "Cleaned Packaging Area" },
-                  { value: HygieneArea.PROCESSING_AREA, label: "Cleaned Processing Area" },
-                  { value: HygieneArea.OFFICE_AREA, label: "Clean Office Area" },
-                ].map((area) => {
-                  const record = hygieneRecords.find(r => r.area === area.value);
-                  const completed = !!record;
+                {hygieneStatus.areas.map(({ area, completed, record }) => {
                   return (
                     <div
-                      key={area.value}
+                      key={area.code}
                       className={`p-4 border rounded-lg flex items-center justify-between ${completed ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
                         }`}
                     >
@@ -742,14 +778,22 @@ export function Dashboard() {
                           <XCircle className="h-5 w-5 text-gray-400" />
                         )}
                         <div>
-                          <div className="font-medium">{area.label}</div>
+                          <div className="font-medium">{area.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {[area.zone, area.requiredFrequency === CleaningFrequency.WEEKLY ? "Weekly" : null].filter(Boolean).join(" • ")}
+                          </div>
                           {record && (
                             <div className="text-xs text-muted-foreground">
-                              By {record.workerName}
+                              By {record.workerName}{record.date !== selectedDate && ` on ${new Date(record.date).toLocaleDateString()}`}
                             </div>
                           )}
                         </div>
                       </div>
+                      {record && getInspectionScoreForRecord(record.id) !== undefined && (
+                        <span className={`text-sm font-semibold ${getInspectionScoreForRecord(record.id) === 100 ? 'text-green-600' : 'text-red-600'}`}>
+                          {getInspectionScoreForRecord(record.id)}%
+                        </span>
+                      )}
                     </div>
                   );
                 })}
@@ -757,6 +801,39 @@ export function Dashboard() {
             </CardContent>
           </Card>
 
+          <InspectionTrendChart areas={hygieneAreas} inspections={hygieneInspections} days={INSPECTION_TREND_DAYS} />
+
+          {/* Open Corrective Actions */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Open Corrective Actions</CardTitle>
+              <CardDescription>
+                {correctiveActions.length === 0
+                  ? "No failed inspection checks waiting to be fixed"
+                  : `${correctiveActions.length} failed check(s) waiting to be fixed, ${correctiveActions.filter(action => action.dueDate < todayKey).length} overdue`}
+              </CardDescription>
+            </CardHeader>
+            {correctiveActions.length > 0 && (
+              <CardContent>
+                <div className="space-y-2">
+                  {correctiveActions.map(action => (
+                    <div key={action.id} className="flex items-start justify-between gap-4 border-b pb-2 last:border-0">
+                      <div>
+                        <div className="font-medium text-sm">
+                          {getHygieneAreaName(hygieneAreas, action.area)}: {action.item}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{action.description}</div>
+                      </div>
+                      <span className={`text-xs whitespace-nowrap ${action.dueDate < todayKey ? 'text-red-600 font-semibold' : 'text-muted-foreground'}`}>
+                        Due {new Date(action.dueDate).toLocaleDateString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            )}
+          </Card>
+
           {/* Recent Records */}
           {hygieneRecords.length > 0 && (
             <Card>
@@ -778,13 +855,7 @@ export function Dashboard() {
                         />
                         <div className="flex-1">
                           <h4 className="font-semibold">
-                            {[
-                              { value: HygieneArea.TOILETS, label: "Clean Toilets" },
-                              { value: HygieneArea.STORAGE_AREA, label: "Cleaned Storage Area" },
-                              { value: HygieneArea.PACKAGING_AREA, label: "Cleaned Packaging Area" },
-                              { value: HygieneArea.PROCESSING_AREA, label: "Cleaned Processing Area" },
-                              { value: HygieneArea.OFFICE_AREA, label: "Clean Office Area" },
-                            ].find(a => a.value === record.area)?.label || record.area}
+                            {getHygieneAreaName(hygieneAreas, record.area)}
                           </h4>
                           <p className="text-sm text-muted-foreground">
                             By {record.workerName} • {new Date(record.createdAt).toLocaleString()}
@@ -0,0 +1,57 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { getInspectionTrend } from '@/lib/hygiene-inspections';
+import { HygieneArea, HygieneInspection } from '@/types';
+
+const LINE_COLORS = ['#3b82f6', '#16a34a', '#f59e0b', '#dc2626', '#8b5cf6', '#0891b2', '#db2777', '#65a30d'];
+
+interface InspectionTrendChartProps {
+  areas: HygieneArea[];
+  inspections: HygieneInspection[];
+  days: number;
+}
+
+export function InspectionTrendChart({ areas, inspections, days }: InspectionTrendChartProps) {
+  const data = getInspectionTrend(inspections, areas).map(point => ({
+    ...point,
+    label: new Date(point.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+  }));
+  const inspectedAreas = areas.filter(area => data.some(point => point[area.code] !== undefined));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Inspection Score Trend</CardTitle>
+        <CardDescription>Average inspection score per area over the last {days} days</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">
+            No inspections in this period
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+              <YAxis domain={[0, 100]} tick={{ fontSize: 10 }} unit="%" />
+              <Tooltip />
+              <Legend />
+              {inspectedAreas.map((area, index) => (
+                <Line
+                  key={area.code}
+                  type="monotone"
+                  dataKey={area.code}
+                  name={area.name}
+                  stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                  strokeWidth={2}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
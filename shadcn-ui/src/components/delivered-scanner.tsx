@@ -6,6 +6,9 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Html5QrcodeScanner } from "html5-qrcode";
 import { Package, CheckCircle } from "lucide-react";
 import { findBarcodeByCode, updateBarcodeStatus } from "@/lib/storage";
+import { validateScannedCode } from "@/lib/code-validator";
+import { playInvalidCodeSound } from "@/lib/scan-sounds";
+import { SCAN_FORMATS } from "@/lib/barcode-symbologies";
 import { Barcode, PackingStatus } from "@/types";
 
 interface DeliveredScannerProps {
@@ -27,16 +30,26 @@ export function DeliveredScanner({ onBarcodeDetected, onBarcodeUpdated }: Delive
 
     const newScanner = new Html5QrcodeScanner(
       "delivered-scanner",
-      { fps: 10, qrbox: { width: 250, height: 250 } },
+      { fps: 10, qrbox: { width: 250, height: 250 }, formatsToSupport: SCAN_FORMATS },
       false
     );
 
     newScanner.render(
-      async (decodedText: string) => {
+      async (decodedText: string, decodedResult) => {
         try {
           setError("");
+          // Reject misreads and foreign codes before looking them up
+          const validation = validateScannedCode(decodedText, { format: decodedResult?.result?.format?.formatName });
+          if (!validation.valid) {
+            playInvalidCodeSound();
+            setError(validation.message || `Invalid code: ${decodedText}`);
+            setShowError(true);
+            return;
+          }
+          const code = validation.code;
+
           // Find existing barcode
-          const existingBarcode = await findBarcodeByCode(decodedText);
+          const existingBarcode = await findBarcodeByCode(code);
           if (existingBarcode) {
             console.log("Found barcode for delivery:", existingBarcode);
             console.log("Current status before delivery:", existingBarcode.status);
@@ -50,13 +63,13 @@ export function DeliveredScanner({ onBarcodeDetected, onBarcodeUpdated }: Delive
             try {
               // Update status to 'delivered'
               const updatedBarcode = await updateBarcodeStatus(
-                decodedText, 
+                code, 
                 PackingStatus.DELIVERED, 
                 {}
               );
               
               if (updatedBarcode) {
-                setScanResults(prev => [...prev, decodedText]);
+                setScanResults(prev => [...prev, code]);
                 onBarcodeDetected?.(updatedBarcode);
                 onBarcodeUpdated?.();
                 console.log("Successfully updated to DELIVERED status");
@@ -3,11 +3,29 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Barcode, PackingStatus } from "@/types";
-import { findBarcodeByCode, updateBarcodeStatus } from "@/lib/storage";
-import { AlertCircle, Package, Truck, CheckCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Barcode, PackingStatus, Worker } from "@/types";
+import { findQRCodeByCodeInSupabase, isQRCodeMissingInSupabase, updateQRCodeStatusInSupabase } from "@/lib/supabase-storage";
+import { getWorkerForBarcode } from "@/lib/supabase";
+import { getAllWorkers, getPresentPackersForDate } from "@/lib/attendance-utils";
+import { findWorkerByBadge } from "@/lib/clock-in";
+import { isWorkerBadgeToken } from "@/lib/worker-badges";
+import { CodeValidationResult, validateScannedCode } from "@/lib/code-validator";
+import { playInvalidCodeSound } from "@/lib/scan-sounds";
+import { SCAN_FORMATS } from "@/lib/barcode-symbologies";
+import {
+  QueuedScan,
+  enqueueScan,
+  getQueuedScans,
+  removeQueuedScan,
+  retryFailedScans,
+  subscribeToScanQueue,
+  syncScanQueue
+} from "@/lib/scan-queue";
+import { AlertCircle, AlertTriangle, Package, Truck, CheckCircle, WifiOff, RefreshCw, X } from "lucide-react";
 import { Html5QrcodeScanner } from "html5-qrcode";
 import { toast } from "sonner";
 
@@ -25,8 +43,8 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
   const packedScannerRef = useRef<Html5QrcodeScanner | null>(null);
   const shippedScannerRef = useRef<Html5QrcodeScanner | null>(null);
 
-  // Results tracking
-  const [recentPackedResults, setRecentPackedResults] = useState<Barcode[]>([]);
+  // Results tracking (packed results remember who the package was assigned to when someone else packed it)
+  const [recentPackedResults, setRecentPackedResults] = useState<(Barcode & { assignedTo?: string })[]>([]);
   const [recentShippedResults, setRecentShippedResults] = useState<Barcode[]>([]);
 
   // Location dialog - simplified to use only one state
@@ -37,6 +55,22 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
   // Use ref to store location immediately for reliable access
   const sessionLocationRef = useRef<string | null>(null);
 
+  // Packer dialog - every pack scan in the session is recorded against this packer
+  const [packerDialogOpen, setPackerDialogOpen] = useState(false);
+  const [presentPackers, setPresentPackers] = useState<Worker[]>([]);
+  const [selectedPackerId, setSelectedPackerId] = useState("");
+  const [currentSessionPacker, setCurrentSessionPacker] = useState<Worker | null>(null);
+
+  // Same as the location: the scanner callback reads the packer (and the workers badges are checked against) through refs
+  const sessionPackerRef = useRef<Worker | null>(null);
+  const badgeWorkersRef = useRef<Worker[]>([]);
+  const badgeCheckInProgressRef = useRef(false);
+
+  // Offline outbox
+  const [queuedScans, setQueuedScans] = useState<QueuedScan[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
   // Clean up scanners on unmount
   useEffect(() => {
     return () => {
@@ -45,11 +79,102 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
     };
   }, []);
 
+  // Keep the queue view current and replay queued scans when connectivity returns
+  useEffect(() => {
+    const refreshQueue = async () => {
+      setQueuedScans(await getQueuedScans());
+    };
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      runQueueSync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    const unsubscribe = subscribeToScanQueue(refreshQueue);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    refreshQueue();
+    if (navigator.onLine) {
+      runQueueSync();
+    }
+
+    // Periodic retry in case the browser reports online while the network is still flaky
+    const interval = setInterval(() => {
+      if (navigator.onLine) {
+        runQueueSync();
+      }
+    }, 30000);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      clearInterval(interval);
+    };
+  }, []);
+
+  const runQueueSync = async (retryFailed: boolean = false) => {
+    setIsSyncing(true);
+    try {
+      const result = retryFailed ? await retryFailedScans() : await syncScanQueue();
+
+      if (result.synced > 0) {
+        toast.success(`Synced ${result.synced} offline scan${result.synced !== 1 ? "s" : ""}`);
+        if (onBarcodesUpdated) {
+          onBarcodesUpdated();
+        }
+      }
+      if (result.conflicts > 0) {
+        toast.warning(`${result.conflicts} offline scan${result.conflicts !== 1 ? "s" : ""} conflicted with changes from another device`);
+      }
+    } catch (error) {
+      console.error("Error syncing scan queue:", error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Store a scan in the outbox instead of losing it
+  const queueScan = async (
+    code: string,
+    status: PackingStatus,
+    updateData?: { weight?: string; packerName?: string; shippingLocation?: string }
+  ) => {
+    try {
+      await enqueueScan(code, status, updateData);
+      toast.warning(`Scan saved on this device and will sync later: ${code}`);
+    } catch (error) {
+      console.error("Error queueing scan:", error);
+      toast.error("Error processing barcode");
+    }
+  };
+
   // Start packed scanner (for updating PENDING to PACKED)
   const startPackedScanner = async () => {
     try {
       setError(null);
 
+      // First show the packer dialog to get the packer for this session
+      const [packers, workers] = await Promise.all([
+        getPresentPackersForDate(new Date().toISOString().split('T')[0]),
+        getAllWorkers(false)
+      ]);
+      setPresentPackers(packers);
+      badgeWorkersRef.current = workers;
+      setSelectedPackerId("");
+      setPackerDialogOpen(true);
+
+    } catch (err) {
+      console.error("Error preparing packed scanner:", err);
+      setError("Failed to start scanner setup.");
+    }
+  };
+
+  // Initialize the packed scanner after the packer dialog
+  const initializePackedScanner = async () => {
+    try {
       // Clean up existing scanner
       if (packedScannerRef.current) {
         await packedScannerRef.current.clear();
@@ -63,6 +188,7 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
           fps: 10,
           qrbox: { width: 250, height: 250 },
           aspectRatio: 1.777778,
+          formatsToSupport: SCAN_FORMATS,
           disableFlip: false,
           videoConstraints: {
             facingMode: "environment"
@@ -75,9 +201,17 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
 
       // Configure scanner with continuous scanning
       scanner.render(
-        async (decodedText) => {
+        async (decodedText, decodedResult) => {
           console.log("Packed scanner detected:", decodedText);
-          await handlePackedScan(decodedText);
+          // A worker badge switches the packer instead of packing anything
+          if (isWorkerBadgeToken(decodedText)) {
+            await handlePackerBadgeScan(decodedText);
+            return;
+          }
+          const scan = getValidScan(decodedText, decodedResult?.result?.format?.formatName);
+          if (scan) {
+            await handlePackedScan(scan.code, scan.gs1?.netWeightKg);
+          }
           // Note: We don't stop scanner - it continues running
         },
         (error) => {
@@ -123,6 +257,7 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
           fps: 10,
           qrbox: { width: 250, height: 250 },
           aspectRatio: 1.777778,
+          formatsToSupport: SCAN_FORMATS,
           disableFlip: false,
           videoConstraints: {
             facingMode: "environment"
@@ -135,9 +270,12 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
 
       // Configure scanner with continuous scanning
       scanner.render(
-        async (decodedText) => {
+        async (decodedText, decodedResult) => {
           console.log("Shipped scanner detected:", decodedText);
-          await handleShippedScan(decodedText);
+          const scan = getValidScan(decodedText, decodedResult?.result?.format?.formatName);
+          if (scan) {
+            await handleShippedScan(scan.code);
+          }
           // Note: We don't stop scanner - it continues running
         },
         (error) => {
@@ -181,6 +319,56 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
     }, 100);
   };
 
+  // Handle packer dialog submit. Without a selection the scanner starts and waits for a badge scan.
+  const handlePackerSubmit = () => {
+    const packer = presentPackers.find(worker => worker.id === selectedPackerId) || null;
+
+    sessionPackerRef.current = packer;
+    setCurrentSessionPacker(packer);
+
+    setPackerDialogOpen(false);
+    setError(null);
+
+    if (!packer) {
+      toast.info("Scan your ID badge to start packing");
+    }
+
+    setTimeout(() => {
+      initializePackedScanner();
+    }, 100);
+  };
+
+  // Switch the session packer when a worker badge is scanned at the pack scanner
+  const handlePackerBadgeScan = async (token: string) => {
+    // The camera keeps re-reading a badge held in front of it
+    if (badgeCheckInProgressRef.current) {
+      return;
+    }
+    badgeCheckInProgressRef.current = true;
+
+    try {
+      const worker = await findWorkerByBadge(token, badgeWorkersRef.current);
+      if (!worker) {
+        playInvalidCodeSound();
+        toast.error("This badge is not valid or could not be checked. Pick the packer from the list instead.");
+        return;
+      }
+
+      if (sessionPackerRef.current?.id === worker.id) {
+        return;
+      }
+
+      sessionPackerRef.current = worker;
+      setCurrentSessionPacker(worker);
+      if (!presentPackers.some(packer => packer.id === worker.id)) {
+        toast.warning(`${worker.name} is not marked as a present packer today`);
+      }
+      toast.success(`Now packing: ${worker.name}`);
+    } finally {
+      badgeCheckInProgressRef.current = false;
+    }
+  };
+
   // Stop packed scanner
   const stopPackedScanner = async () => {
     if (packedScannerRef.current) {
@@ -188,6 +376,9 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
         await packedScannerRef.current.clear();
         packedScannerRef.current = null;
         setPackedScannerActive(false);
+        // Clear the session packer when stopping
+        setCurrentSessionPacker(null);
+        sessionPackerRef.current = null;
       } catch (err) {
         console.warn("Error stopping packed scanner:", err);
       }
@@ -210,13 +401,50 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
     }
   };
 
+  // Reject misreads and foreign codes before any lookup or queueing.
+  // Returns the package code (and any GS1 data) carried by the scan, or null if it was rejected.
+  const getValidScan = (decodedText: string, format?: string): CodeValidationResult | null => {
+    const validation = validateScannedCode(decodedText, { format });
+    if (validation.valid) {
+      return validation;
+    }
+    playInvalidCodeSound();
+    toast.error(validation.message || `Invalid code: ${decodedText}`);
+    return null;
+  };
+
   // Handle scan from packed scanner
-  const handlePackedScan = async (code: string) => {
+  const handlePackedScan = async (code: string, scannedWeightKg?: number) => {
+    // Use the net weight from GS1 labels, otherwise auto-generate weight
+    const weight = scannedWeightKg
+      ? `${scannedWeightKg}kg`
+      : `${(Math.random() * 9 + 1).toFixed(1)}kg`;
+
+    // Packages are credited to the packer running the session, not to whoever they were assigned to
+    const packer = sessionPackerRef.current || currentSessionPacker;
+    if (!packer) {
+      playInvalidCodeSound();
+      toast.error("No packer set. Scan your ID badge or restart the scanner and pick a packer.");
+      return;
+    }
+    const packerName = packer.name;
+
+    if (!navigator.onLine) {
+      await queueScan(code, PackingStatus.PACKED, { weight, packerName });
+      return;
+    }
+
     try {
-      const barcode = await findBarcodeByCode(code);
+      // Look the package up on the server only: a local copy may be stale
+      const barcode = await findQRCodeByCodeInSupabase(code);
 
       if (!barcode) {
-        toast.error(`QR code not found: ${code}`);
+        // The lookup also comes back empty when Supabase can't be reached
+        if (await isQRCodeMissingInSupabase(code)) {
+          toast.error(`QR code not found: ${code}`);
+        } else {
+          await queueScan(code, PackingStatus.PACKED, { weight, packerName });
+        }
         return;
       }
 
@@ -226,12 +454,11 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
         return;
       }
 
-      // Auto-generate weight and packer name (no dialog)
-      const weight = `${(Math.random() * 9 + 1).toFixed(1)}kg`;
-      const packerName = "Auto Scanner";
+      const assignedWorker = barcode.assignedWorker || await getWorkerForBarcode(code);
+      const packedBySomeoneElse = !!assignedWorker && assignedWorker.trim().toLowerCase() !== packerName.trim().toLowerCase();
 
       // Update status to PACKED
-      const updated = await updateBarcodeStatus(
+      const updated = await updateQRCodeStatusInSupabase(
         code,
         PackingStatus.PACKED,
         {
@@ -242,11 +469,14 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
 
       if (updated) {
         // Show temporary success notification
-        toast.success(`Package marked as packed: ${code}`);
+        toast.success(`Package marked as packed by ${packerName}: ${code}`);
+        if (packedBySomeoneElse) {
+          toast.warning(`${code} was assigned to ${assignedWorker} but packed by ${packerName}`);
+        }
 
         // Add to recent results (keeping only the 5 most recent)
         setRecentPackedResults(prev => {
-          const newResults = [updated, ...prev];
+          const newResults = [{ ...updated, assignedTo: packedBySomeoneElse ? assignedWorker : undefined }, ...prev];
           return newResults.slice(0, 5);
         });
 
@@ -255,22 +485,43 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
           onBarcodesUpdated();
         }
       } else {
-        toast.error("Failed to update package status");
+        // Update didn't reach the server - keep it for replay
+        await queueScan(code, PackingStatus.PACKED, { weight, packerName });
       }
 
     } catch (error) {
       console.error("Error in handlePackedScan:", error);
-      toast.error("Error processing barcode");
+      // Whatever went wrong, the server hasn't recorded the scan - keep it for replay
+      await queueScan(code, PackingStatus.PACKED, { weight, packerName });
     }
   };
 
   // Handle scan from shipped scanner
   const handleShippedScan = async (code: string) => {
+    if (!navigator.onLine) {
+      const queuedLocation = sessionLocationRef.current || currentSessionLocation;
+      if (!queuedLocation || queuedLocation.trim() === '') {
+        toast.error("No shipping location set. Please restart the scanner and set a location.");
+        return;
+      }
+      await queueScan(code, PackingStatus.DISPATCHED, { shippingLocation: queuedLocation.trim() });
+      return;
+    }
+
     try {
-      const barcode = await findBarcodeByCode(code);
+      // Look the package up on the server only: a local copy may be stale
+      const barcode = await findQRCodeByCodeInSupabase(code);
 
       if (!barcode) {
-        toast.error(`QR code not found: ${code}`);
+        // The lookup also comes back empty when Supabase can't be reached
+        const queuedLocation = sessionLocationRef.current || currentSessionLocation;
+        if (await isQRCodeMissingInSupabase(code)) {
+          toast.error(`QR code not found: ${code}`);
+        } else if (queuedLocation && queuedLocation.trim() !== '') {
+          await queueScan(code, PackingStatus.DISPATCHED, { shippingLocation: queuedLocation.trim() });
+        } else {
+          toast.error("No shipping location set. Please restart the scanner and set a location.");
+        }
         return;
       }
 
@@ -291,7 +542,7 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
       }
 
       // Update status to SHIPPED with current session location
-      const updated = await updateBarcodeStatus(
+      const updated = await updateQRCodeStatusInSupabase(
         code,
         PackingStatus.DISPATCHED,
         {
@@ -314,15 +565,25 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
           onBarcodesUpdated();
         }
       } else {
-        toast.error("Failed to update package status");
+        // Update didn't reach the server - keep it for replay
+        await queueScan(code, PackingStatus.DISPATCHED, { shippingLocation: locationToUse.trim() });
       }
 
     } catch (error) {
       console.error("[handleShippedScan] Error processing barcode:", error);
-      toast.error("Error processing barcode");
+      const queuedLocation = sessionLocationRef.current || currentSessionLocation;
+      // Whatever went wrong, the server hasn't recorded the scan - keep it for replay
+      if (queuedLocation && queuedLocation.trim() !== '') {
+        await queueScan(code, PackingStatus.DISPATCHED, { shippingLocation: queuedLocation.trim() });
+      } else {
+        toast.error("Error processing barcode");
+      }
     }
   };
 
+  const pendingScans = queuedScans.filter(scan => scan.state === 'pending');
+  const attentionScans = queuedScans.filter(scan => scan.state !== 'pending');
+
   return (
     <div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -360,6 +621,18 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
                   </Button>
                 )}
               </div>
+
+              {packedScannerActive && (
+                <div className="text-center text-sm">
+                  <span className="font-medium">Current Packer: </span>
+                  {currentSessionPacker ? (
+                    <span className="text-blue-600">{currentSessionPacker.name}</span>
+                  ) : (
+                    <span className="text-red-600">Scan your ID badge</span>
+                  )}
+                  <div className="text-xs text-muted-foreground">Scan another badge to switch packer</div>
+                </div>
+              )}
             </div>
 
             {/* Recent results */}
@@ -368,9 +641,13 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
                 <h4 className="text-sm font-medium mb-2">Recent Packed Items:</h4>
                 <div className="space-y-1 max-h-32 overflow-y-auto">
                   {recentPackedResults.map((barcode, index) => (
-                    <div key={`packed-${index}`} className="flex items-center gap-2 text-sm text-green-600">
-                      <CheckCircle className="h-4 w-4" />
+                    <div key={`packed-${index}`} className={`flex items-center gap-2 text-sm ${barcode.assignedTo ? "text-amber-600" : "text-green-600"}`}>
+                      {barcode.assignedTo ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
                       <span className="font-mono">{barcode.code}</span>
+                      <span className="text-muted-foreground">{barcode.packerName}</span>
+                      {barcode.assignedTo && (
+                        <span className="text-xs">(assigned to {barcode.assignedTo})</span>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -447,6 +724,117 @@ export function DualStatusScanner({ onBarcodesUpdated }: DualStatusScannerProps)
         </Alert>
       )}
 
+      {/* Offline Scan Queue */}
+      {(!isOnline || queuedScans.length > 0) && (
+        <Card className="mt-4">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <WifiOff className="h-5 w-5 text-amber-600" />
+              Offline Scan Queue
+            </CardTitle>
+            <CardDescription>
+              {isOnline
+                ? "Scans recorded while offline are synced automatically."
+                : "You are offline. Scans are saved on this device and will sync when the connection returns."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">Pending: {pendingScans.length}</Badge>
+              <Badge variant="destructive">
+                Failed: {queuedScans.filter(scan => scan.state === 'failed').length}
+              </Badge>
+              <Badge variant="outline">
+                Conflicts: {queuedScans.filter(scan => scan.state === 'conflict').length}
+              </Badge>
+              <Button
+                size="sm"
+                variant="outline"
+                className="ml-auto"
+                onClick={() => runQueueSync(true)}
+                disabled={!isOnline || isSyncing || queuedScans.every(scan => scan.state === 'conflict')}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? "animate-spin" : ""}`} />
+                {isSyncing ? "Syncing..." : "Retry"}
+              </Button>
+            </div>
+
+            {attentionScans.length > 0 && (
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {attentionScans.map(scan => (
+                  <div key={scan.id} className="flex items-start justify-between gap-2 border rounded p-2 text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono">{scan.code}</span>
+                        <Badge variant={scan.state === 'conflict' ? "outline" : "destructive"}>
+                          {scan.state === 'conflict' ? "Conflict" : "Failed"}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {scan.status === PackingStatus.PACKED ? "Pack" : "Ship"} scan at {new Date(scan.scannedAt).toLocaleString()}
+                        {scan.packerName && ` by ${scan.packerName}`}
+                        {scan.shippingLocation && ` → ${scan.shippingLocation}`}
+                      </div>
+                      {scan.lastError && (
+                        <div className="text-xs text-red-600">{scan.lastError}</div>
+                      )}
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => removeQueuedScan(scan.id)}
+                      title="Dismiss"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Packer Dialog */}
+      <Dialog open={packerDialogOpen} onOpenChange={setPackerDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Who is Packing?</DialogTitle>
+            <DialogDescription>
+              Every package scanned in this session is recorded as packed by this worker.
+              You can also scan an ID badge at the pack scanner to set or switch the packer.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="session-packer">Packer</Label>
+              <Select value={selectedPackerId} onValueChange={setSelectedPackerId}>
+                <SelectTrigger id="session-packer">
+                  <SelectValue placeholder={presentPackers.length > 0 ? "Select a packer" : "No packers present today"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {presentPackers.map(packer => (
+                    <SelectItem key={packer.id} value={packer.id}>
+                      {packer.name} ({packer.employeeId})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPackerDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePackerSubmit}>
+              {selectedPackerId ? "Start Scanning" : "Scan Badge Instead"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Location Dialog */}
       <Dialog open={locationDialogOpen} onOpenChange={setLocationDialogOpen}>
         <DialogContent>
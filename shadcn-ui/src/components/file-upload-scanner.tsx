@@ -7,6 +7,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, Upload } from "lucide-react";
 import { Barcode, PackingStatus, ScanUpdateData } from "@/types";
 import { findBarcodeByCode, updateBarcodeStatus } from "@/lib/storage";
+import { validateScannedCode } from "@/lib/code-validator";
+import { playInvalidCodeSound } from "@/lib/scan-sounds";
 import jsQR from "jsqr";
 
 export function FileUploadScanner({ 
@@ -90,6 +92,15 @@ export function FileUploadScanner({
   };
   
   const handleCodeDetection = (code: string) => {
+    // Reject misreads and foreign QR codes before looking them up
+    const validation = validateScannedCode(code);
+    if (!validation.valid) {
+      playInvalidCodeSound();
+      setError(validation.message || `Invalid code: ${code}`);
+      setScanResult(null);
+      return;
+    }
+
     // Look up the detected code
     const barcode = findBarcodeByCode(code);
     
@@ -8,6 +8,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Barcode, PackingStatus, ScanUpdateData } from "@/types";
 import { findBarcodeByCode, updateBarcodeStatus } from "@/lib/storage";
+import { validateScannedCode } from "@/lib/code-validator";
+import { playInvalidCodeSound } from "@/lib/scan-sounds";
+import { SCAN_FORMATS } from "@/lib/barcode-symbologies";
 import { AlertCircle } from "lucide-react";
 import { Html5QrcodeScanner, Html5Qrcode } from "html5-qrcode";
 
@@ -73,6 +76,7 @@ export function Html5QRScanner({
           fps: 10,
           qrbox: { width: 250, height: 250 },
           aspectRatio: 1.777778,
+          formatsToSupport: SCAN_FORMATS,
           disableFlip: false,
           videoConstraints: {
             facingMode: "environment"
@@ -84,9 +88,9 @@ export function Html5QRScanner({
       scannerRef.current = scanner;
       
       scanner.render(
-        (decodedText) => {
+        (decodedText, decodedResult) => {
           console.log("QR Code detected:", decodedText);
-          handleCodeDetection(decodedText);
+          handleCodeDetection(decodedText, decodedResult?.result?.format?.formatName);
           stopScanning();
         },
         (error) => {
@@ -123,19 +127,29 @@ export function Html5QRScanner({
       setError(null);
       
       if (!html5QrCodeRef.current) {
-        html5QrCodeRef.current = new Html5Qrcode("qr-reader-file");
+        html5QrCodeRef.current = new Html5Qrcode("qr-reader-file", { formatsToSupport: SCAN_FORMATS, verbose: false });
       }
       
-      const result = await html5QrCodeRef.current.scanFile(file, true);
-      console.log("QR Code detected from file:", result);
-      handleCodeDetection(result);
+      const result = await html5QrCodeRef.current.scanFileV2(file, true);
+      console.log("QR Code detected from file:", result.decodedText);
+      handleCodeDetection(result.decodedText, result.result?.format?.formatName);
     } catch (err) {
       console.error("Error scanning file:", err);
       setError("No QR code found in the uploaded image");
     }
   };
   
-  const handleCodeDetection = async (code: string) => {
+  const handleCodeDetection = async (scannedText: string, format?: string) => {
+    // Reject misreads and foreign codes before looking them up
+    const validation = validateScannedCode(scannedText, { format });
+    if (!validation.valid) {
+      playInvalidCodeSound();
+      setError(validation.message || `Invalid code: ${scannedText}`);
+      setScanResult(null);
+      return;
+    }
+    const code = validation.code;
+
     // Look up the detected code
     console.log("barcode_4", code);
     // Store the barcode code in the ref for use later regardless of state changes
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CleaningFrequency, HygieneArea } from "@/types";
+import { saveHygieneArea, toHygieneAreaCode, validateHygieneArea } from "@/lib/hygiene-areas";
+import { AlertCircle, Pencil } from "lucide-react";
+import { toast } from "sonner";
+
+interface HygieneAreaManagerProps {
+    areas: HygieneArea[];
+    onChanged?: () => void;
+}
+
+const EMPTY_AREA_FORM = {
+    id: "",
+    code: "",
+    name: "",
+    zone: "",
+    requiredFrequency: CleaningFrequency.DAILY,
+    checklist: "", // One checklist item per line
+    isActive: true
+};
+
+export function HygieneAreaManager({ areas, onChanged }: HygieneAreaManagerProps) {
+    const [form, setForm] = useState(EMPTY_AREA_FORM);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const handleSave = async () => {
+        const area = {
+            id: form.id || undefined,
+            // The code of an existing area never changes, so its records keep pointing at it
+            code: form.id ? form.code : toHygieneAreaCode(form.name),
+            name: form.name,
+            zone: form.zone || undefined,
+            requiredFrequency: form.requiredFrequency,
+            checklistItems: form.checklist.split("\n").filter(item => item.trim() !== ""),
+            isActive: form.isActive
+        };
+
+        const validationErrors = validateHygieneArea({ ...area, id: area.id || "" }, areas);
+        setErrors(validationErrors);
+        if (validationErrors.length > 0) return;
+
+        setSaving(true);
+        try {
+            const saved = await saveHygieneArea(area);
+            if (saved) {
+                toast.success(`Area "${saved.name}" saved`);
+                setForm(EMPTY_AREA_FORM);
+                onChanged?.();
+            } else {
+                toast.error("Failed to save area");
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const editArea = (area: HygieneArea) => {
+        setErrors([]);
+        setForm({
+            id: area.id,
+            code: area.code,
+            name: area.name,
+            zone: area.zone || "",
+            requiredFrequency: area.requiredFrequency,
+            checklist: area.checklistItems.join("\n"),
+            isActive: area.isActive
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            {errors.length > 0 && (
+                <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                        {errors.map(error => <div key={error}>{error}</div>)}
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end border rounded-md p-3">
+                <div className="space-y-1 col-span-2">
+                    <Label>Name</Label>
+                    <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. Cold Room" />
+                </div>
+                <div className="space-y-1">
+                    <Label>Zone</Label>
+                    <Input value={form.zone} onChange={(e) => setForm({ ...form, zone: e.target.value })} placeholder="e.g. Dispatch" />
+                </div>
+                <div className="space-y-1">
+                    <Label>Must be cleaned</Label>
+                    <Select
+                        value={form.requiredFrequency}
+                        onValueChange={(value) => setForm({ ...form, requiredFrequency: value as CleaningFrequency })}
+                    >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={CleaningFrequency.DAILY}>Daily</SelectItem>
+                            <SelectItem value={CleaningFrequency.WEEKLY}>Weekly</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-1 col-span-2 md:col-span-4">
+                    <Label>Inspection checklist (one check per line)</Label>
+                    <Textarea
+                        value={form.checklist}
+                        onChange={(e) => setForm({ ...form, checklist: e.target.value })}
+                        placeholder={"Floors clean and dry\nDrains clear and covered\nPest traps in place and checked"}
+                        rows={4}
+                    />
+                </div>
+                {form.id && (
+                    <div className="flex items-center gap-2 col-span-2">
+                        <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                        <Label>Active</Label>
+                    </div>
+                )}
+                <div className="flex gap-2 justify-end col-start-2 md:col-start-4">
+                    {form.id && (
+                        <Button variant="outline" onClick={() => setForm(EMPTY_AREA_FORM)}>Cancel</Button>
+                    )}
+                    <Button onClick={handleSave} disabled={saving}>{form.id ? "Save" : "Add"}</Button>
+                </div>
+            </div>
+
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Area</TableHead>
+                        <TableHead>Zone</TableHead>
+                        <TableHead>Frequency</TableHead>
+                        <TableHead>Checklist</TableHead>
+                        <TableHead className="w-12" />
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {areas.length === 0 && (
+                        <TableRow>
+                            <TableCell colSpan={5} className="text-center text-muted-foreground">No areas yet</TableCell>
+                        </TableRow>
+                    )}
+                    {areas.map(area => (
+                        <TableRow key={area.id} className={area.isActive ? "" : "opacity-50"}>
+                            <TableCell>
+                                <div className="font-medium">
+                                    {area.name}
+                                    {!area.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                                </div>
+                                <div className="text-xs text-muted-foreground">{area.code}</div>
+                            </TableCell>
+                            <TableCell>{area.zone || "-"}</TableCell>
+                            <TableCell>{area.requiredFrequency === CleaningFrequency.WEEKLY ? "Weekly" : "Daily"}</TableCell>
+                            <TableCell>
+                                {area.checklistItems.length > 0 ? `${area.checklistItems.length} item(s)` : "-"}
+                            </TableCell>
+                            <TableCell>
+                                <Button variant="ghost" size="sm" onClick={() => editArea(area)} title="Edit area">
+                                    <Pencil className="h-4 w-4" />
+                                </Button>
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
@@ -7,44 +7,95 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { getAllWorkers } from "@/lib/attendance-utils";
-import { getAllHygieneRecords, getHygieneRecordsByDate, saveHygieneRecord, uploadHygienePhoto } from "@/lib/hygiene-storage";
-import { Worker, HygieneRecord, HygieneArea } from "@/types";
-import { Camera, Upload, CheckCircle2, XCircle, Calendar, X } from "lucide-react";
+import { findDuplicateHygienePhoto, getHygieneRecordsByDateRange, saveHygieneRecord, uploadHygienePhoto } from "@/lib/hygiene-storage";
+import { getAreaCompletion, getHygieneAreaName, getHygieneAreas } from "@/lib/hygiene-areas";
+import { getWeekStart } from "@/lib/roster";
+import { getCorrectiveActions, getHygieneInspections, getInspectionScore, saveHygieneInspection, validateInspection } from "@/lib/hygiene-inspections";
+import { useAuth } from "@/contexts/AuthContext";
+import { captureHygienePhoto, verifyHygienePhoto, CapturedHygienePhoto, PhotoVerification } from "@/lib/hygiene-evidence";
+import { getCleaningChecklist, getCleaningSchedules, CleaningSlotStatus } from "@/lib/cleaning-schedule";
+import { CleaningScheduleManager } from "./cleaning-schedule";
+import { HygieneAreaManager } from "./hygiene-areas";
+import { CorrectiveActionList } from "./corrective-actions";
+import { Worker, HygieneRecord, HygieneArea, CleaningSchedule, CleaningFrequency, CorrectiveAction, HygieneInspection, InspectionResult } from "@/types";
+import { Camera, Upload, CheckCircle2, XCircle, Calendar, X, AlertTriangle, CalendarClock, Clock, ShieldCheck, ShieldAlert, Copy, MapPin } from "lucide-react";
 import { toast } from "sonner";
 
-const HYGIENE_AREAS = [
-    { value: HygieneArea.TOILETS, label: "Clean Toilets" },
-    { value: HygieneArea.STORAGE_AREA, label: "Cleaned Storage Area" },
-    { value: HygieneArea.PACKAGING_AREA, label: "Cleaned Packaging Area" },
-    { value: HygieneArea.PROCESSING_AREA, label: "Cleaned Processing Area" },
-    { value: HygieneArea.OFFICE_AREA, label: "Clean Office Area" },
+const SLOT_BADGES: Record<CleaningSlotStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+    done: { label: "Done", variant: "default" },
+    late: { label: "Done late", variant: "secondary" },
+    due: { label: "Due now", variant: "outline" },
+    upcoming: { label: "Upcoming", variant: "outline" },
+    missed: { label: "Missed", variant: "destructive" },
+};
+
+const INSPECTION_RESULTS = [
+    { value: InspectionResult.PASS, label: "Pass" },
+    { value: InspectionResult.FAIL, label: "Fail" },
+    { value: InspectionResult.NOT_APPLICABLE, label: "N/A" },
 ];
 
+const getLocalDate = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
 export function HygieneRecords() {
+    const { profile } = useAuth();
     const [workers, setWorkers] = useState<Worker[]>([]);
     const [selectedWorker, setSelectedWorker] = useState<string>("");
-    const [selectedArea, setSelectedArea] = useState<HygieneArea | "">("");
+    const [selectedArea, setSelectedArea] = useState<string>("");
     const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
-    const [photoFile, setPhotoFile] = useState<File | null>(null);
-    const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+    const [capturedPhoto, setCapturedPhoto] = useState<CapturedHygienePhoto | null>(null);
+    const [duplicateOf, setDuplicateOf] = useState<HygieneRecord | null>(null);
+    const [verifications, setVerifications] = useState<Record<string, PhotoVerification>>({});
     const [notes, setNotes] = useState<string>("");
     const [isUploading, setIsUploading] = useState(false);
     const [records, setRecords] = useState<HygieneRecord[]>([]);
+    const [weekRecords, setWeekRecords] = useState<HygieneRecord[]>([]); // From the Monday of the selected date's week
+    const [areas, setAreas] = useState<HygieneArea[]>([]);
+    const [areasDialogOpen, setAreasDialogOpen] = useState(false);
+    const [inspection, setInspection] = useState<Record<string, { result?: InspectionResult; comment: string }>>({}); // By checklist item
+    const [inspections, setInspections] = useState<HygieneInspection[]>([]);
+    const [correctiveActions, setCorrectiveActions] = useState<CorrectiveAction[]>([]);
     const [loading, setLoading] = useState(true);
     const [stream, setStream] = useState<MediaStream | null>(null);
     const [isCameraOpen, setIsCameraOpen] = useState(false);
     const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+    const [schedules, setSchedules] = useState<CleaningSchedule[]>([]);
+    const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+    const [now, setNow] = useState(new Date());
 
     useEffect(() => {
         loadWorkers();
         loadRecords();
+        loadAreas();
+        loadSchedules();
+        loadCorrectiveActions();
+
+        // Keep due and missed cleaning up to date while the page is open
+        const timer = setInterval(() => setNow(new Date()), 60000);
+        return () => clearInterval(timer);
     }, []);
 
     useEffect(() => {
         loadRecords();
     }, [selectedDate]);
 
+    // Every area has its own checklist, so a new area starts a new inspection
+    useEffect(() => {
+        setInspection({});
+    }, [selectedArea]);
+
+    // Warn before saving a photo that looks like an earlier one of the same area
+    useEffect(() => {
+        setDuplicateOf(null);
+        if (capturedPhoto && selectedArea) {
+            findDuplicateHygienePhoto(selectedArea, capturedPhoto).then(setDuplicateOf);
+        }
+    }, [capturedPhoto, selectedArea]);
+
     // Cleanup camera stream on unmount
     useEffect(() => {
         return () => {
@@ -69,11 +120,29 @@ export function HygieneRecords() {
         }
     };
 
+    const loadAreas = async () => {
+        setAreas(await getHygieneAreas());
+    };
+
+    const loadCorrectiveActions = async () => {
+        setCorrectiveActions(await getCorrectiveActions());
+    };
+
+    const loadSchedules = async () => {
+        setSchedules(await getCleaningSchedules());
+    };
+
     const loadRecords = async () => {
         try {
             setLoading(true);
-            const recordsData = await getHygieneRecordsByDate(selectedDate);
-            setRecords(recordsData);
+            const weekStart = getWeekStart(selectedDate);
+            const [recordsData, inspectionsData] = await Promise.all([
+                getHygieneRecordsByDateRange(weekStart, selectedDate),
+                getHygieneInspections(selectedDate, 7)
+            ]);
+            setWeekRecords(recordsData);
+            setInspections(inspectionsData);
+            setRecords(recordsData.filter(record => record.date === selectedDate));
         } catch (error) {
             console.error('Error loading hygiene records:', error);
             toast.error('Failed to load hygiene records');
@@ -112,43 +181,41 @@ export function HygieneRecords() {
         }
     };
 
-    const capturePhoto = () => {
+    const capturePhoto = async () => {
         if (!videoElement) {
             toast.error('Camera not ready');
             return;
         }
 
-        const canvas = document.createElement('canvas');
-        canvas.width = videoElement.videoWidth;
-        canvas.height = videoElement.videoHeight;
-        const ctx = canvas.getContext('2d');
-
-        if (ctx) {
-            ctx.drawImage(videoElement, 0, 0);
-            canvas.toBlob((blob) => {
-                if (blob) {
-                    // Convert blob to File
-                    const file = new File([blob], `hygiene-photo-${Date.now()}.jpg`, { type: 'image/jpeg' });
-                    setPhotoFile(file);
-                    setPhotoPreview(canvas.toDataURL('image/jpeg'));
-                    stopCamera();
-                    toast.success('Photo captured successfully');
-                } else {
-                    toast.error('Failed to capture photo');
-                }
-            }, 'image/jpeg', 0.9);
+        try {
+            const photo = await captureHygienePhoto(videoElement);
+            setCapturedPhoto(photo);
+            stopCamera();
+            toast.success('Photo captured successfully');
+        } catch (error) {
+            console.error('Error capturing photo:', error);
+            toast.error('Failed to capture photo');
         }
     };
 
     const clearPhoto = () => {
-        setPhotoFile(null);
-        setPhotoPreview(null);
+        setCapturedPhoto(null);
+    };
+
+    const handleVerify = async (record: HygieneRecord) => {
+        const result = await verifyHygienePhoto(record);
+        setVerifications(prev => ({ ...prev, [record.id]: result }));
+        if (result === 'mismatch') {
+            toast.error('The stored photo does not match the one captured for this record');
+        } else if (result === 'unavailable') {
+            toast.error('Could not check this photo');
+        }
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
-        if (!selectedWorker || !selectedArea || !photoFile) {
+        if (!selectedWorker || !selectedArea || !capturedPhoto) {
             toast.error('Please fill in all required fields');
             return;
         }
@@ -159,11 +226,22 @@ export function HygieneRecords() {
             return;
         }
 
+        // The inspection is optional, but once started every check must be marked
+        const inspectionItems = inspectionChecklist.map(item => ({ item, ...inspection[item] }));
+        const inspected = inspectionItems.some(item => item.result);
+        if (inspected) {
+            const inspectionErrors = validateInspection(inspectionItems, inspectionChecklist);
+            if (inspectionErrors.length > 0) {
+                inspectionErrors.forEach(error => toast.error(error));
+                return;
+            }
+        }
+
         setIsUploading(true);
 
         try {
             // Upload photo
-            const photoUrl = await uploadHygienePhoto(photoFile, selectedWorker, selectedArea, selectedDate);
+            const photoUrl = await uploadHygienePhoto(capturedPhoto, selectedWorker, selectedArea, selectedDate);
 
             if (!photoUrl) {
                 toast.error('Failed to upload photo');
@@ -178,18 +256,44 @@ export function HygieneRecords() {
                 date: selectedDate,
                 area: selectedArea,
                 photoUrl: photoUrl,
+                photoSha256: capturedPhoto.sha256,
+                photoPhash: capturedPhoto.phash,
                 notes: notes || undefined
             });
 
             if (record) {
-                toast.success('Hygiene record saved successfully');
+                if (inspected) {
+                    const saved = await saveHygieneInspection({
+                        recordId: record.id,
+                        area: record.area,
+                        date: record.date,
+                        items: inspectionItems.map(item => ({
+                            item: item.item,
+                            result: item.result as InspectionResult,
+                            comment: item.comment || undefined
+                        })),
+                        inspectedBy: profile?.email
+                    });
+                    if (!saved) {
+                        toast.error('Hygiene record saved, but the inspection could not be saved');
+                    } else if (inspectionItems.some(item => item.result === InspectionResult.FAIL)) {
+                        toast.warning('Failed checks were added to the corrective actions');
+                    }
+                }
+
+                if (record.outsideDate || record.duplicateOf) {
+                    toast.warning('Hygiene record saved and flagged for review');
+                } else {
+                    toast.success('Hygiene record saved successfully');
+                }
                 // Reset form
-                setPhotoFile(null);
-                setPhotoPreview(null);
+                setCapturedPhoto(null);
                 setNotes("");
                 setSelectedArea("");
+                setInspection({});
                 // Reload records
                 loadRecords();
+                loadCorrectiveActions();
             } else {
                 toast.error('Failed to save hygiene record');
             }
@@ -201,24 +305,99 @@ export function HygieneRecords() {
         }
     };
 
-    const getAreaStatus = (area: HygieneArea): { completed: boolean; record?: HygieneRecord } => {
-        const record = records.find(r => r.area === area);
-        return { completed: !!record, record };
+    const getAreaLabel = (area: string): string => {
+        return getHygieneAreaName(areas, area);
+    };
+
+    const getCleanerNames = (cleanerIds: string[]): string => {
+        return cleanerIds.map(id => workers.find(w => w.id === id)?.name || "Unknown").join(", ");
     };
 
-    const getAreaLabel = (area: HygieneArea): string => {
-        return HYGIENE_AREAS.find(a => a.value === area)?.label || area;
+    const areaCompletion = getAreaCompletion(areas, weekRecords, selectedDate);
+    const activeAreas = areas.filter(area => area.isActive);
+    const selectedAreaDetails = areas.find(area => area.code === selectedArea);
+    const inspectionChecklist = selectedAreaDetails?.checklistItems || [];
+    const inspectionScore = getInspectionScore(
+        inspectionChecklist
+            .filter(item => inspection[item]?.result)
+            .map(item => ({ item, result: inspection[item].result as InspectionResult }))
+    );
+    const getRecordScore = (recordId: string) => inspections.find(i => i.recordId === recordId)?.score;
+
+    const setInspectionItem = (item: string, change: { result?: InspectionResult; comment?: string }) => {
+        setInspection(prev => ({ ...prev, [item]: { comment: "", ...prev[item], ...change } }));
     };
+    const checklist = getCleaningChecklist(schedules, records, selectedDate, now);
+    const missedSlots = checklist.filter(slot => slot.status === "missed");
 
     return (
         <div className="space-y-6">
-            <div>
-                <h2 className="text-3xl font-bold tracking-tight">Hygiene Records</h2>
-                <p className="text-muted-foreground mt-2">
-                    Upload photos of cleaned areas daily
-                </p>
+            <div className="flex justify-between items-start">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Hygiene Records</h2>
+                    <p className="text-muted-foreground mt-2">
+                        Upload photos of cleaned areas daily
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Dialog open={areasDialogOpen} onOpenChange={setAreasDialogOpen}>
+                        <DialogTrigger asChild>
+                            <Button variant="outline">
+                                <MapPin className="h-4 w-4 mr-2" />
+                                Areas
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                            <DialogHeader>
+                                <DialogTitle>Hygiene Areas</DialogTitle>
+                                <DialogDescription>
+                                    Areas cleaners keep records for, how often each must be cleaned and what the cleaning covers.
+                                </DialogDescription>
+                            </DialogHeader>
+                            <HygieneAreaManager areas={areas} onChanged={loadAreas} />
+                        </DialogContent>
+                    </Dialog>
+                    <Dialog open={scheduleDialogOpen} onOpenChange={setScheduleDialogOpen}>
+                        <DialogTrigger asChild>
+                            <Button variant="outline">
+                                <CalendarClock className="h-4 w-4 mr-2" />
+                                Cleaning Schedule
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                            <DialogHeader>
+                                <DialogTitle>Cleaning Schedule</DialogTitle>
+                                <DialogDescription>
+                                    When each area must be cleaned and by whom, and the cleaning missed each week.
+                                </DialogDescription>
+                            </DialogHeader>
+                            <CleaningScheduleManager
+                                areas={areas}
+                                cleaners={workers}
+                                schedules={schedules}
+                                onChanged={loadSchedules}
+                            />
+                        </DialogContent>
+                    </Dialog>
+                </div>
             </div>
 
+            {!loading && missedSlots.length > 0 && (
+                <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                        <div className="font-medium">
+                            {missedSlots.length} cleaning task{missedSlots.length > 1 ? "s" : ""} missed on {new Date(selectedDate).toLocaleDateString()}:
+                        </div>
+                        {missedSlots.map(slot => (
+                            <div key={slot.schedule.id} className="text-sm">
+                                {getAreaLabel(slot.schedule.area)} ({slot.schedule.windowStart}-{slot.schedule.windowEnd}) - {getCleanerNames(slot.schedule.cleanerIds)}
+                            </div>
+                        ))}
+                    </AlertDescription>
+                </Alert>
+            )}
+
             {/* Date Selector */}
             <Card>
                 <CardHeader>
@@ -250,11 +429,49 @@ export function HygieneRecords() {
                         <div className="text-center text-muted-foreground py-4">Loading...</div>
                     ) : (
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                            {HYGIENE_AREAS.map((area) => {
-                                const { completed, record } = getAreaStatus(area.value);
+                            {areaCompletion.map(({ area, completed, record }) => {
+                                const slots = checklist.filter(slot => slot.schedule.area === area.code);
+                                if (slots.length > 0) {
+                                    const allDone = slots.every(slot => slot.status === "done" || slot.status === "late");
+                                    const anyMissed = slots.some(slot => slot.status === "missed");
+                                    return (
+                                        <div
+                                            key={area.code}
+                                            className={`p-4 border rounded-lg space-y-2 ${anyMissed ? 'bg-red-50 border-red-200' : allDone ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'}`}
+                                        >
+                                            <div className="flex items-center gap-3">
+                                                {anyMissed ? (
+                                                    <AlertTriangle className="h-5 w-5 text-red-600" />
+                                                ) : allDone ? (
+                                                    <CheckCircle2 className="h-5 w-5 text-green-600" />
+                                                ) : (
+                                                    <Clock className="h-5 w-5 text-gray-400" />
+                                                )}
+                                                <div>
+                                                    <div className="font-medium">{area.name}</div>
+                                                    {area.zone && <div className="text-xs text-muted-foreground">{area.zone}</div>}
+                                                </div>
+                                            </div>
+                                            {slots.map(slot => (
+                                                <div key={slot.schedule.id} className="flex items-center justify-between gap-2 text-sm">
+                                                    <div>
+                                                        <div>{slot.schedule.windowStart}-{slot.schedule.windowEnd}</div>
+                                                        <div className="text-xs text-muted-foreground">
+                                                            {slot.record ? `By ${slot.record.workerName}` : getCleanerNames(slot.schedule.cleanerIds)}
+                                                            {slot.record?.outsideDate && " (entered outside its date)"}
+                                                        </div>
+                                                    </div>
+                                                    <Badge variant={SLOT_BADGES[slot.status].variant}>{SLOT_BADGES[slot.status].label}</Badge>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    );
+                                }
+
+                                const weekly = area.requiredFrequency === CleaningFrequency.WEEKLY;
                                 return (
                                     <div
-                                        key={area.value}
+                                        key={area.code}
                                         className={`p-4 border rounded-lg flex items-center justify-between ${completed ? 'bg-green-50 border-green-200' : 'bg-gray-50 border-gray-200'
                                             }`}
                                     >
@@ -265,16 +482,18 @@ export function HygieneRecords() {
                                                 <XCircle className="h-5 w-5 text-gray-400" />
                                             )}
                                             <div>
-                                                <div className="font-medium">{area.label}</div>
+                                                <div className="font-medium">{area.name}</div>
+                                                {area.zone && <div className="text-xs text-muted-foreground">{area.zone}</div>}
                                                 {record && (
                                                     <div className="text-xs text-muted-foreground">
-                                                        By {record.workerName}
+                                                        By {record.workerName}{record.date !== selectedDate && ` on ${new Date(record.date).toLocaleDateString()}`}
+                                                        {getRecordScore(record.id) !== undefined && ` • Score ${getRecordScore(record.id)}%`}
                                                     </div>
                                                 )}
                                             </div>
                                         </div>
                                         <Badge variant={completed ? "default" : "secondary"}>
-                                            {completed ? "Done" : "Pending"}
+                                            {completed ? "Done" : weekly ? "Due this week" : "Pending"}
                                         </Badge>
                                     </div>
                                 );
@@ -312,23 +531,67 @@ export function HygieneRecords() {
 
                         <div className="space-y-2">
                             <Label htmlFor="area">Area *</Label>
-                            <Select value={selectedArea} onValueChange={(value) => setSelectedArea(value as HygieneArea)}>
+                            <Select value={selectedArea} onValueChange={setSelectedArea}>
                                 <SelectTrigger id="area">
                                     <SelectValue placeholder="Select an area" />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    {HYGIENE_AREAS.map((area) => (
-                                        <SelectItem key={area.value} value={area.value}>
-                                            {area.label}
+                                    {activeAreas.map((area) => (
+                                        <SelectItem key={area.code} value={area.code}>
+                                            {area.zone ? `${area.name} (${area.zone})` : area.name}
                                         </SelectItem>
                                     ))}
                                 </SelectContent>
                             </Select>
                         </div>
 
+                        {inspectionChecklist.length > 0 && (
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <Label>Inspection (Optional)</Label>
+                                    {inspectionScore !== undefined && (
+                                        <Badge variant={inspectionScore === 100 ? "default" : "destructive"}>
+                                            Score {inspectionScore}%
+                                        </Badge>
+                                    )}
+                                </div>
+                                <div className="rounded-md border divide-y">
+                                    {inspectionChecklist.map(item => (
+                                        <div key={item} className="p-3 space-y-2">
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="text-sm">{item}</span>
+                                                <div className="flex gap-1">
+                                                    {INSPECTION_RESULTS.map(option => (
+                                                        <Button
+                                                            key={option.value}
+                                                            type="button"
+                                                            size="sm"
+                                                            variant={inspection[item]?.result === option.value
+                                                                ? (option.value === InspectionResult.FAIL ? "destructive" : "default")
+                                                                : "outline"}
+                                                            onClick={() => setInspectionItem(item, { result: option.value })}
+                                                        >
+                                                            {option.label}
+                                                        </Button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                            {inspection[item]?.result === InspectionResult.FAIL && (
+                                                <Input
+                                                    value={inspection[item]?.comment || ""}
+                                                    onChange={(e) => setInspectionItem(item, { comment: e.target.value })}
+                                                    placeholder="What is wrong? This becomes a corrective action."
+                                                />
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="space-y-2">
                             <Label>Photo *</Label>
-                            {!isCameraOpen && !photoPreview && (
+                            {!isCameraOpen && !capturedPhoto && (
                                 <div className="space-y-2">
                                     <Button
                                         type="button"
@@ -340,7 +603,7 @@ export function HygieneRecords() {
                                         Open Camera
                                     </Button>
                                     <p className="text-xs text-muted-foreground">
-                                        Click to open camera and capture a photo
+                                        Click to open camera and capture a photo. Photos can only be taken live, not picked from the gallery.
                                     </p>
                                 </div>
                             )}
@@ -384,11 +647,11 @@ export function HygieneRecords() {
                                 </div>
                             )}
 
-                            {photoPreview && !isCameraOpen && (
+                            {capturedPhoto && !isCameraOpen && (
                                 <div className="space-y-2">
                                     <div className="relative inline-block">
                                         <img
-                                            src={photoPreview}
+                                            src={capturedPhoto.previewUrl}
                                             alt="Captured photo"
                                             className="w-full max-w-md rounded-lg border"
                                         />
@@ -425,7 +688,25 @@ export function HygieneRecords() {
                             />
                         </div>
 
-                        <Button type="submit" disabled={isUploading || !photoFile || !selectedWorker || !selectedArea}>
+                        {selectedDate !== getLocalDate(now) && (
+                            <Alert>
+                                <AlertTriangle className="h-4 w-4" />
+                                <AlertDescription>
+                                    This record is for {new Date(selectedDate).toLocaleDateString()}, not today. It will be flagged as entered outside its date.
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
+                        {duplicateOf && (
+                            <Alert variant="destructive">
+                                <Copy className="h-4 w-4" />
+                                <AlertDescription>
+                                    This photo looks the same as the {getAreaLabel(duplicateOf.area)} photo from {new Date(duplicateOf.date).toLocaleDateString()} by {duplicateOf.workerName}. Retake it unless the area really looks identical.
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
+                        <Button type="submit" disabled={isUploading || !capturedPhoto || !selectedWorker || !selectedArea}>
                             {isUploading ? (
                                 <>
                                     <Upload className="h-4 w-4 mr-2 animate-spin" />
@@ -442,6 +723,25 @@ export function HygieneRecords() {
                 </CardContent>
             </Card>
 
+            {/* Corrective Actions */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Corrective Actions</CardTitle>
+                    <CardDescription>
+                        Failed inspection checks waiting to be fixed
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <CorrectiveActionList
+                        areas={areas}
+                        actions={correctiveActions}
+                        resolvedBy={profile?.email}
+                        today={getLocalDate(now)}
+                        onResolved={loadCorrectiveActions}
+                    />
+                </CardContent>
+            </Card>
+
             {/* Recent Records */}
             <Card>
                 <CardHeader>
@@ -475,13 +775,46 @@ export function HygieneRecords() {
                                                         By {record.workerName}
                                                     </p>
                                                 </div>
-                                                <Badge variant="default">Completed</Badge>
+                                                <div className="flex gap-2">
+                                                    {getRecordScore(record.id) !== undefined && (
+                                                        <Badge variant={getRecordScore(record.id) === 100 ? "secondary" : "destructive"}>
+                                                            Score {getRecordScore(record.id)}%
+                                                        </Badge>
+                                                    )}
+                                                    <Badge variant="default">Completed</Badge>
+                                                </div>
+                                            </div>
+                                            <div className="flex flex-wrap gap-2">
+                                                {record.outsideDate && (
+                                                    <Badge variant="destructive">Entered outside its date</Badge>
+                                                )}
+                                                {record.duplicateOf && (
+                                                    <Badge variant="destructive">Possible duplicate photo</Badge>
+                                                )}
+                                                {!record.photoSha256 ? (
+                                                    <Badge variant="outline">No photo hash</Badge>
+                                                ) : verifications[record.id] === 'verified' ? (
+                                                    <Badge variant="secondary">
+                                                        <ShieldCheck className="h-3 w-3 mr-1" />
+                                                        Photo verified
+                                                    </Badge>
+                                                ) : verifications[record.id] === 'mismatch' ? (
+                                                    <Badge variant="destructive">
+                                                        <ShieldAlert className="h-3 w-3 mr-1" />
+                                                        Photo changed
+                                                    </Badge>
+                                                ) : (
+                                                    <Button type="button" variant="outline" size="sm" className="h-6 text-xs" onClick={() => handleVerify(record)}>
+                                                        <ShieldCheck className="h-3 w-3 mr-1" />
+                                                        Verify photo
+                                                    </Button>
+                                                )}
                                             </div>
                                             {record.notes && (
                                                 <p className="text-sm text-muted-foreground mt-2">{record.notes}</p>
                                             )}
                                             <p className="text-xs text-muted-foreground mt-2">
-                                                {new Date(record.createdAt).toLocaleString()}
+                                                {record.capturedAt ? `Captured ${new Date(record.capturedAt).toLocaleString()}` : new Date(record.createdAt).toLocaleString()}
                                             </p>
                                         </div>
                                     </div>
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { LabTestCategory, LabTestParameter } from "@/types";
+import { formatSpec, saveLabTestParameter, validateLabTestParameter } from "@/lib/lab-test-parameters";
+import { AlertCircle, Pencil } from "lucide-react";
+import { toast } from "sonner";
+
+interface LabTestParameterManagerProps {
+    categories: { value: LabTestCategory; label: string }[];
+    parameters: LabTestParameter[];
+    onChanged?: () => void;
+}
+
+const EMPTY_PARAMETER_FORM = {
+    id: "",
+    category: "" as LabTestCategory | "",
+    name: "",
+    unit: "",
+    minValue: "",
+    maxValue: "",
+    isActive: true
+};
+
+export function LabTestParameterManager({ categories, parameters, onChanged }: LabTestParameterManagerProps) {
+    const [form, setForm] = useState(EMPTY_PARAMETER_FORM);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const getCategoryLabel = (category: LabTestCategory) => categories.find(c => c.value === category)?.label || category;
+
+    const handleSave = async () => {
+        const parameter = {
+            id: form.id || undefined,
+            category: form.category as LabTestCategory,
+            name: form.name,
+            unit: form.unit || undefined,
+            minValue: form.minValue.trim() === "" ? undefined : parseFloat(form.minValue),
+            maxValue: form.maxValue.trim() === "" ? undefined : parseFloat(form.maxValue),
+            isActive: form.isActive
+        };
+
+        const validationErrors = validateLabTestParameter({ ...parameter, id: parameter.id || "" }, parameters);
+        setErrors(validationErrors);
+        if (validationErrors.length > 0) return;
+
+        setSaving(true);
+        try {
+            const saved = await saveLabTestParameter(parameter);
+            if (saved) {
+                toast.success(`${saved.name} specification saved`);
+                setForm(EMPTY_PARAMETER_FORM);
+                onChanged?.();
+            } else {
+                toast.error("Failed to save parameter");
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const editParameter = (parameter: LabTestParameter) => {
+        setErrors([]);
+        setForm({
+            id: parameter.id,
+            category: parameter.category,
+            name: parameter.name,
+            unit: parameter.unit || "",
+            minValue: parameter.minValue === undefined ? "" : String(parameter.minValue),
+            maxValue: parameter.maxValue === undefined ? "" : String(parameter.maxValue),
+            isActive: parameter.isActive
+        });
+    };
+
+    return (
+        <div className="space-y-4">
+            {errors.length > 0 && (
+                <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                        {errors.map(error => <div key={error}>{error}</div>)}
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end border rounded-md p-3">
+                <div className="space-y-1 col-span-2">
+                    <Label>Product/Material</Label>
+                    <Select value={form.category} onValueChange={(value) => setForm({ ...form, category: value as LabTestCategory })}>
+                        <SelectTrigger><SelectValue placeholder="Select product/material" /></SelectTrigger>
+                        <SelectContent>
+                            {categories.map(category => (
+                                <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-1">
+                    <Label>Parameter</Label>
+                    <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="e.g. TDS" />
+                </div>
+                <div className="space-y-1">
+                    <Label>Unit</Label>
+                    <Input value={form.unit} onChange={(e) => setForm({ ...form, unit: e.target.value })} placeholder="e.g. ppm" />
+                </div>
+                <div className="space-y-1">
+                    <Label>Min</Label>
+                    <Input type="number" step="any" value={form.minValue} onChange={(e) => setForm({ ...form, minValue: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                    <Label>Max</Label>
+                    <Input type="number" step="any" value={form.maxValue} onChange={(e) => setForm({ ...form, maxValue: e.target.value })} />
+                </div>
+                {form.id && (
+                    <div className="flex items-center gap-2 col-span-2">
+                        <Switch checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                        <Label>Active</Label>
+                    </div>
+                )}
+                <div className="flex gap-2 justify-end col-start-2 md:col-start-6">
+                    {form.id && (
+                        <Button variant="outline" onClick={() => setForm(EMPTY_PARAMETER_FORM)}>Cancel</Button>
+                    )}
+                    <Button onClick={handleSave} disabled={saving}>{form.id ? "Save" : "Add"}</Button>
+                </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+                Changing a specification only affects results entered afterwards; past results keep the limits they were judged against.
+            </p>
+
+            <Table>
+                <TableHeader>
+                    <TableRow>
+                        <TableHead>Product/Material</TableHead>
+                        <TableHead>Parameter</TableHead>
+                        <TableHead>Specification</TableHead>
+                        <TableHead className="w-12" />
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {parameters.length === 0 && (
+                        <TableRow>
+                            <TableCell colSpan={4} className="text-center text-muted-foreground">No parameters yet</TableCell>
+                        </TableRow>
+                    )}
+                    {parameters.map(parameter => (
+                        <TableRow key={parameter.id} className={parameter.isActive ? "" : "opacity-50"}>
+                            <TableCell>{getCategoryLabel(parameter.category)}</TableCell>
+                            <TableCell>
+                                {parameter.name}
+                                {!parameter.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                            </TableCell>
+                            <TableCell>{formatSpec(parameter)}</TableCell>
+                            <TableCell>
+                                <Button variant="ghost" size="sm" onClick={() => editParameter(parameter)} title="Edit parameter">
+                                    <Pencil className="h-4 w-4" />
+                                </Button>
+                            </TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </div>
+    );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { LabTestCategory, LabTestParameter, LabTestRecord } from "@/types";
+import { formatSpec, getLabTestTrend } from "@/lib/lab-test-parameters";
+import { TrendingUp } from "lucide-react";
+
+interface LabTestTrendsProps {
+    categories: { value: LabTestCategory; label: string }[];
+    parameters: LabTestParameter[];
+    records: LabTestRecord[]; // Reports of all months
+}
+
+interface TrendDotProps {
+    cx?: number;
+    cy?: number;
+    payload?: { passed: boolean };
+}
+
+// Out-of-spec months are drawn in red
+function TrendDot({ cx, cy, payload }: TrendDotProps) {
+    if (cx === undefined || cy === undefined) return null;
+    const color = payload?.passed ? "#16a34a" : "#dc2626";
+    return <circle cx={cx} cy={cy} r={4} fill={color} stroke={color} />;
+}
+
+export function LabTestTrends({ categories, parameters, records }: LabTestTrendsProps) {
+    const [category, setCategory] = useState<LabTestCategory | "">("");
+    const [parameterId, setParameterId] = useState<string>("");
+
+    const categoryParameters = parameters.filter(p => p.category === category);
+    const parameter = parameters.find(p => p.id === parameterId);
+    const trend = parameter
+        ? getLabTestTrend(records.filter(r => r.category === parameter.category), parameter.id).map(point => ({
+            ...point,
+            label: new Date(`${point.month}-01`).toLocaleDateString("en-US", { month: "short", year: "2-digit" })
+        }))
+        : [];
+    const outOfSpec = trend.filter(point => !point.passed).length;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="h-5 w-5" />
+                    Result Trends
+                </CardTitle>
+                <CardDescription>
+                    Monthly results of a parameter against its specification
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label>Product/Material</Label>
+                        <Select value={category} onValueChange={(value) => {
+                            setCategory(value as LabTestCategory);
+                            setParameterId("");
+                        }}>
+                            <SelectTrigger><SelectValue placeholder="Select product/material" /></SelectTrigger>
+                            <SelectContent>
+                                {categories.map(c => (
+                                    <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Parameter</Label>
+                        <Select value={parameterId} onValueChange={setParameterId} disabled={categoryParameters.length === 0}>
+                            <SelectTrigger>
+                                <SelectValue placeholder={category && categoryParameters.length === 0 ? "No parameters defined" : "Select parameter"} />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {categoryParameters.map(p => (
+                                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+
+                {!parameter ? (
+                    <div className="text-center text-muted-foreground py-8">
+                        Select a product/material and parameter to see its results over the months
+                    </div>
+                ) : trend.length === 0 ? (
+                    <div className="text-center text-muted-foreground py-8">
+                        No {parameter.name} results entered yet
+                    </div>
+                ) : (
+                    <>
+                        <div className="text-sm text-muted-foreground">
+                            Current specification: {formatSpec(parameter)}
+                            {outOfSpec > 0 && (
+                                <span className="text-red-600 font-medium"> • {outOfSpec} of {trend.length} month(s) out of spec</span>
+                            )}
+                        </div>
+                        <ResponsiveContainer width="100%" height={260}>
+                            <LineChart data={trend}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                                <YAxis tick={{ fontSize: 10 }} domain={["auto", "auto"]} />
+                                <Tooltip formatter={(value: number) => [`${value}${parameter.unit ? ` ${parameter.unit}` : ""}`, parameter.name]} />
+                                {parameter.minValue !== undefined && (
+                                    <ReferenceLine y={parameter.minValue} stroke="#dc2626" strokeDasharray="4 4" label={{ value: "Min", fontSize: 10 }} />
+                                )}
+                                {parameter.maxValue !== undefined && (
+                                    <ReferenceLine y={parameter.maxValue} stroke="#dc2626" strokeDasharray="4 4" label={{ value: "Max", fontSize: 10 }} />
+                                )}
+                                <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={2} dot={<TrendDot />} name={parameter.name} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
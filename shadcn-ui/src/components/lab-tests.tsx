@@ -7,9 +7,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LabTestParameterManager } from "@/components/lab-test-parameters";
+import { LabTestTrends } from "@/components/lab-test-trends";
 import { getAllLabTestRecords, getLabTestRecordsByMonth, saveLabTestRecord, uploadLabTestFile, deleteLabTestRecord } from "@/lib/lab-tests-storage";
-import { LabTestRecord, LabTestType, LabTestCategory } from "@/types";
-import { FileText, Upload, Calendar, Trash2, Download, TestTube } from "lucide-react";
+import { evaluateLabResult, formatSpec, getLabTestOutcome, getLabTestParameters, isWithinSpec } from "@/lib/lab-test-parameters";
+import { LabTestRecord, LabTestType, LabTestCategory, LabTestParameter, LabTestResult } from "@/types";
+import { FileText, Upload, Calendar, Trash2, Download, TestTube, SlidersHorizontal } from "lucide-react";
 import { toast } from "sonner";
 
 const FINISHED_GOODS = [
@@ -36,11 +41,28 @@ export function LabTests() {
     const [isUploading, setIsUploading] = useState(false);
     const [records, setRecords] = useState<LabTestRecord[]>([]);
     const [loading, setLoading] = useState(true);
+    const [parameters, setParameters] = useState<LabTestParameter[]>([]);
+    const [resultValues, setResultValues] = useState<Record<string, string>>({}); // By parameter id
+    const [allRecords, setAllRecords] = useState<LabTestRecord[]>([]); // For the trends
+    const [specificationsDialogOpen, setSpecificationsDialogOpen] = useState(false);
 
     useEffect(() => {
         loadRecords();
     }, [selectedMonth]);
 
+    useEffect(() => {
+        loadParameters();
+        loadAllRecords();
+    }, []);
+
+    const loadParameters = async () => {
+        setParameters(await getLabTestParameters());
+    };
+
+    const loadAllRecords = async () => {
+        setAllRecords(await getAllLabTestRecords());
+    };
+
     const loadRecords = async () => {
         try {
             setLoading(true);
@@ -54,6 +76,13 @@ export function LabTests() {
         }
     };
 
+    const categoryParameters = parameters.filter(p => p.category === category && p.isActive);
+
+    const getResultValue = (parameterId: string): number | undefined => {
+        const value = resultValues[parameterId]?.trim();
+        return value ? parseFloat(value) : undefined;
+    };
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
         if (selectedFile) {
@@ -75,6 +104,18 @@ export function LabTests() {
 
         const productName = [...FINISHED_GOODS, ...RAW_MATERIALS].find(p => p.value === category)?.label || category;
 
+        // Results are optional; only the parameters a value was entered for are recorded
+        const results: LabTestResult[] = [];
+        for (const parameter of categoryParameters) {
+            const value = getResultValue(parameter.id);
+            if (value === undefined) continue;
+            if (isNaN(value)) {
+                toast.error(`${parameter.name} must be a number`);
+                return;
+            }
+            results.push(evaluateLabResult(parameter, value));
+        }
+
         setIsUploading(true);
 
         try {
@@ -96,14 +137,21 @@ export function LabTests() {
                 productName: productName,
                 month: selectedMonth,
                 fileUrl: fileUrl,
+                results: results,
+                passed: getLabTestOutcome(results),
                 notes: notes || undefined
             });
 
             if (record) {
-                toast.success('Lab test record saved successfully');
+                if (record.passed === false) {
+                    toast.warning('Lab test record saved. Some results are out of specification');
+                } else {
+                    toast.success('Lab test record saved successfully');
+                }
                 // Reset form
                 setFile(null);
                 setNotes("");
+                setResultValues({});
                 setCategory("");
                 setTestType("");
                 // Reset file input
@@ -111,6 +159,7 @@ export function LabTests() {
                 if (fileInput) fileInput.value = '';
                 // Reload records
                 loadRecords();
+                loadAllRecords();
             } else {
                 toast.error('Failed to save lab test record. Please check browser console for details.');
             }
@@ -132,6 +181,7 @@ export function LabTests() {
             if (success) {
                 toast.success('Lab test record deleted successfully');
                 loadRecords();
+                loadAllRecords();
             } else {
                 toast.error('Failed to delete lab test record');
             }
@@ -154,13 +204,46 @@ export function LabTests() {
         return { completed: !!record, record };
     };
 
+    // Outcome of the month's latest report of a category; nothing when it has no results
+    const renderOutcomeBadge = (record?: LabTestRecord) => {
+        if (record?.passed === undefined) return null;
+        return record.passed ? (
+            <Badge variant="outline" className="border-green-600 text-green-700">Passed</Badge>
+        ) : (
+            <Badge variant="destructive">Out of spec</Badge>
+        );
+    };
+
     return (
         <div className="space-y-6">
-            <div>
-                <h2 className="text-3xl font-bold tracking-tight">Lab Tests</h2>
-                <p className="text-muted-foreground mt-2">
-                    Upload lab test reports for finished goods and raw materials
-                </p>
+            <div className="flex justify-between items-start">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Lab Tests</h2>
+                    <p className="text-muted-foreground mt-2">
+                        Upload lab test reports for finished goods and raw materials
+                    </p>
+                </div>
+                <Dialog open={specificationsDialogOpen} onOpenChange={setSpecificationsDialogOpen}>
+                    <DialogTrigger asChild>
+                        <Button variant="outline">
+                            <SlidersHorizontal className="h-4 w-4 mr-2" />
+                            Specifications
+                        </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                        <DialogHeader>
+                            <DialogTitle>Test Specifications</DialogTitle>
+                            <DialogDescription>
+                                Parameters measured for each product or material and the limits a result must fall within.
+                            </DialogDescription>
+                        </DialogHeader>
+                        <LabTestParameterManager
+                            categories={[...FINISHED_GOODS, ...RAW_MATERIALS]}
+                            parameters={parameters}
+                            onChanged={loadParameters}
+                        />
+                    </DialogContent>
+                </Dialog>
             </div>
 
             {/* Month Selector */}
@@ -220,9 +303,12 @@ export function LabTests() {
                                                 )}
                                             </div>
                                         </div>
-                                        <Badge variant={completed ? "default" : "secondary"}>
-                                            {completed ? "Uploaded" : product.required ? "Pending" : "Optional"}
-                                        </Badge>
+                                        <div className="flex items-center gap-2">
+                                            {renderOutcomeBadge(record)}
+                                            <Badge variant={completed ? "default" : "secondary"}>
+                                                {completed ? "Uploaded" : product.required ? "Pending" : "Optional"}
+                                            </Badge>
+                                        </div>
                                     </div>
                                 );
                             })}
@@ -263,9 +349,12 @@ export function LabTests() {
                                                 )}
                                             </div>
                                         </div>
-                                        <Badge variant={completed ? "default" : "secondary"}>
-                                            {completed ? "Uploaded" : "Pending"}
-                                        </Badge>
+                                        <div className="flex items-center gap-2">
+                                            {renderOutcomeBadge(record)}
+                                            <Badge variant={completed ? "default" : "secondary"}>
+                                                {completed ? "Uploaded" : "Pending"}
+                                            </Badge>
+                                        </div>
                                     </div>
                                 );
                             })}
@@ -304,7 +393,10 @@ export function LabTests() {
                             <Label htmlFor="category">Product/Material *</Label>
                             <Select
                                 value={category}
-                                onValueChange={(value) => setCategory(value as LabTestCategory)}
+                                onValueChange={(value) => {
+                                    setCategory(value as LabTestCategory);
+                                    setResultValues({});
+                                }}
                                 disabled={!testType}
                             >
                                 <SelectTrigger id="category">
@@ -325,6 +417,41 @@ export function LabTests() {
                             </Select>
                         </div>
 
+                        {categoryParameters.length > 0 && (
+                            <div className="space-y-2">
+                                <Label>Results (Optional)</Label>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    {categoryParameters.map((parameter) => {
+                                        const value = getResultValue(parameter.id);
+                                        const outOfSpec = value !== undefined && !isNaN(value)
+                                            && !isWithinSpec(value, parameter.minValue, parameter.maxValue);
+                                        return (
+                                            <div key={parameter.id} className="space-y-1">
+                                                <div className="flex items-center justify-between text-sm">
+                                                    <span>{parameter.name}{parameter.unit && ` (${parameter.unit})`}</span>
+                                                    <span className="text-xs text-muted-foreground">Spec: {formatSpec(parameter)}</span>
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    <Input
+                                                        type="number"
+                                                        step="any"
+                                                        value={resultValues[parameter.id] || ""}
+                                                        onChange={(e) => setResultValues({ ...resultValues, [parameter.id]: e.target.value })}
+                                                        className={outOfSpec ? "border-red-500 focus-visible:ring-red-500" : ""}
+                                                    />
+                                                    {value !== undefined && !isNaN(value) && (
+                                                        <Badge variant={outOfSpec ? "destructive" : "outline"}>
+                                                            {outOfSpec ? "Fail" : "Pass"}
+                                                        </Badge>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
                         <div className="space-y-2">
                             <Label htmlFor="lab-test-file">Test Report File *</Label>
                             <Input
@@ -397,10 +524,36 @@ export function LabTests() {
                                                     {getTestTypeLabel(record.testType)}
                                                 </Badge>
                                                 <h3 className="font-semibold">{record.productName}</h3>
+                                                {renderOutcomeBadge(record)}
                                             </div>
                                             {record.notes && (
                                                 <p className="text-sm text-muted-foreground mb-2">{record.notes}</p>
                                             )}
+                                            {record.results && record.results.length > 0 && (
+                                                <Table className="mb-2">
+                                                    <TableHeader>
+                                                        <TableRow>
+                                                            <TableHead>Parameter</TableHead>
+                                                            <TableHead>Result</TableHead>
+                                                            <TableHead>Specification</TableHead>
+                                                        </TableRow>
+                                                    </TableHeader>
+                                                    <TableBody>
+                                                        {record.results.map((result) => (
+                                                            <TableRow
+                                                                key={result.parameterId}
+                                                                className={result.passed ? "" : "bg-red-50 text-red-600"}
+                                                            >
+                                                                <TableCell>{result.name}</TableCell>
+                                                                <TableCell className="font-medium">
+                                                                    {result.value}{result.unit && ` ${result.unit}`}
+                                                                </TableCell>
+                                                                <TableCell>{formatSpec(result)}</TableCell>
+                                                            </TableRow>
+                                                        ))}
+                                                    </TableBody>
+                                                </Table>
+                                            )}
                                             <p className="text-xs text-muted-foreground">
                                                 Uploaded: {new Date(record.createdAt).toLocaleString()}
                                             </p>
@@ -429,6 +582,12 @@ export function LabTests() {
                     )}
                 </CardContent>
             </Card>
+
+            <LabTestTrends
+                categories={[...FINISHED_GOODS, ...RAW_MATERIALS]}
+                parameters={parameters}
+                records={allRecords}
+            />
         </div>
     );
 }
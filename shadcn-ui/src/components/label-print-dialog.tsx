@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LabelTemplate } from "@/types";
+import { LabelData, findTemplateForProduct, getLabelTemplates, printLabels } from "@/lib/label-templates";
+import {
+  DEFAULT_THERMAL_PRINTER_SETTINGS,
+  PRINTER_LANGUAGE_LABELS,
+  PrinterLanguage,
+  ThermalPrinterSettings,
+  downloadPrinterCommands,
+  getThermalPrinterSettings,
+  renderPrinterCommands,
+  saveThermalPrinterSettings,
+  sendToPrintAgent
+} from "@/lib/thermal-printer";
+import { Download, Loader2, Printer, Send } from "lucide-react";
+import { toast } from "sonner";
+
+interface LabelPrintDialogProps {
+  labels: LabelData[]; // Dialog is open while there are labels to print
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LabelPrintDialog({ labels, onOpenChange }: LabelPrintDialogProps) {
+  const [templates, setTemplates] = useState<LabelTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [product, setProduct] = useState("");
+  const [batch, setBatch] = useState("");
+  const [printing, setPrinting] = useState(false);
+  // "browser" prints through a print window; the other options emit native printer commands
+  const [output, setOutput] = useState<"browser" | PrinterLanguage>("browser");
+  const [printerSettings, setPrinterSettings] = useState<ThermalPrinterSettings>(DEFAULT_THERMAL_PRINTER_SETTINGS);
+
+  const open = labels.length > 0;
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadTemplates = async () => {
+      const [data, settings] = await Promise.all([
+        getLabelTemplates(),
+        getThermalPrinterSettings()
+      ]);
+      setTemplates(data);
+      setTemplateId(prev => (data.some(t => t.id === prev) ? prev : data[0]?.id || ""));
+      setPrinterSettings(settings);
+    };
+
+    loadTemplates();
+  }, [open]);
+
+  // Products that have their own template
+  const products = Array.from(new Set(templates.map(t => (t.product || "").trim()).filter(Boolean)));
+
+  const handleProductChange = (value: string) => {
+    setProduct(value);
+    const template = findTemplateForProduct(templates, value);
+    if (template && (template.product || "").trim().toLowerCase() === value.trim().toLowerCase()) {
+      setTemplateId(template.id);
+    }
+  };
+
+  const getLabelsToPrint = (): LabelData[] => {
+    const printBatch = batch.trim();
+    return labels.map(label => ({
+      ...label,
+      product: product.trim() || label.product,
+      batch: printBatch || label.batch,
+      // The batch is also encoded as GS1 AI (10); drop the stored symbol so it is drawn again with it
+      gs1: printBatch ? { ...label.gs1, batch: printBatch } : label.gs1,
+      qrCodeImage: printBatch ? undefined : label.qrCodeImage
+    }));
+  };
+
+  const handlePrint = async () => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) {
+      toast.error("Select a label template");
+      return;
+    }
+
+    setPrinting(true);
+    try {
+      const printed = await printLabels(template, getLabelsToPrint());
+      if (printed) {
+        onOpenChange(false);
+      }
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  // Render native printer commands, then download them or send them to the print agent
+  const handlePrinterOutput = async (mode: "download" | "send") => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template || output === "browser") {
+      toast.error("Select a label template");
+      return;
+    }
+
+    const settings = { ...printerSettings, language: output };
+    const commands = renderPrinterCommands(output, template, getLabelsToPrint(), settings.dpi);
+    saveThermalPrinterSettings(settings);
+
+    if (mode === "download") {
+      downloadPrinterCommands(output, commands, labels.length === 1 ? labels[0].code : `labels-${labels.length}`);
+      return;
+    }
+
+    if (!settings.agentUrl.trim()) {
+      toast.error("Enter the print agent URL");
+      return;
+    }
+
+    setPrinting(true);
+    try {
+      const sent = await sendToPrintAgent(settings.agentUrl.trim(), output, commands);
+      if (sent) {
+        toast.success(`Sent ${labels.length} label${labels.length === 1 ? "" : "s"} to the printer`);
+        onOpenChange(false);
+      } else {
+        toast.error("Could not reach the print agent. Download the file instead or check the agent URL.");
+      }
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+          <DialogDescription>
+            Print {labels.length} label{labels.length === 1 ? "" : "s"} using a saved label template
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="print-product">Product</Label>
+            <Input
+              id="print-product"
+              list="print-product-options"
+              value={product}
+              onChange={(e) => handleProductChange(e.target.value)}
+              placeholder="Optional - selects the product's template"
+            />
+            <datalist id="print-product-options">
+              {products.map((p) => (
+                <option key={p} value={p} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="print-batch">Batch</Label>
+            <Input
+              id="print-batch"
+              value={batch}
+              onChange={(e) => setBatch(e.target.value)}
+              placeholder="Optional batch number"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="print-template">Label Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger id="print-template">
+                <SelectValue placeholder="Select a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}{t.product ? ` (${t.product})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="print-output">Output</Label>
+            <Select value={output} onValueChange={(value) => setOutput(value as "browser" | PrinterLanguage)}>
+              <SelectTrigger id="print-output">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="browser">Browser print</SelectItem>
+                {(Object.keys(PRINTER_LANGUAGE_LABELS) as PrinterLanguage[]).map((language) => (
+                  <SelectItem key={language} value={language}>
+                    {PRINTER_LANGUAGE_LABELS[language]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {output !== "browser" && (
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="print-dpi">DPI</Label>
+                <Select
+                  value={printerSettings.dpi.toString()}
+                  onValueChange={(value) => setPrinterSettings({ ...printerSettings, dpi: parseInt(value, 10) })}
+                >
+                  <SelectTrigger id="print-dpi">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="203">203</SelectItem>
+                    <SelectItem value="300">300</SelectItem>
+                    <SelectItem value="600">600</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="print-agent-url">Print Agent URL</Label>
+                <Input
+                  id="print-agent-url"
+                  value={printerSettings.agentUrl}
+                  onChange={(e) => setPrinterSettings({ ...printerSettings, agentUrl: e.target.value })}
+                  placeholder="http://localhost:9100/print"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          {output === "browser" ? (
+            <Button onClick={handlePrint} disabled={printing || !templateId}>
+              {printing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Printer className="h-4 w-4 mr-2" />
+              )}
+              Print
+            </Button>
+          ) : (
+            <>
+              <Button variant="secondary" onClick={() => handlePrinterOutput("download")} disabled={printing || !templateId}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+              <Button onClick={() => handlePrinterOutput("send")} disabled={printing || !templateId}>
+                {printing ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4 mr-2" />
+                )}
+                Send to Printer
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { LabelField, LabelTemplate } from "@/types";
+import { DEFAULT_LABEL_TEMPLATES, LABEL_FIELD_LABELS, LabelData, getLabelTemplates, renderLabelSheetHtml, saveLabelTemplates } from "@/lib/label-templates";
+import { generateQRCodeDataURL } from "@/lib/qr-generator";
+import { Copy, Loader2, Plus, Save, Tag, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const FONT_OPTIONS = [
+  { value: "Arial, sans-serif", label: "Arial" },
+  { value: "'Helvetica Neue', Helvetica, sans-serif", label: "Helvetica" },
+  { value: "Verdana, sans-serif", label: "Verdana" },
+  { value: "'Times New Roman', serif", label: "Times New Roman" },
+  { value: "'Courier New', monospace", label: "Courier New" }
+];
+
+const SAMPLE_LABEL: LabelData = {
+  code: "25011500001",
+  description: "Sample package",
+  weight: "2.5kg",
+  worker: "Worker Name",
+  date: new Date().toLocaleDateString(),
+  product: "Product",
+  batch: "B-001"
+};
+
+// Numeric layout settings shown as inputs, in display order
+const DIMENSION_FIELDS: { key: keyof LabelTemplate; label: string; step?: string }[] = [
+  { key: "pageWidthMm", label: "Page width (mm)" },
+  { key: "pageHeightMm", label: "Page height (mm)" },
+  { key: "labelWidthMm", label: "Label width (mm)", step: "0.1" },
+  { key: "labelHeightMm", label: "Label height (mm)", step: "0.1" },
+  { key: "columns", label: "Columns" },
+  { key: "rows", label: "Rows" },
+  { key: "marginTopMm", label: "Top margin (mm)", step: "0.1" },
+  { key: "marginLeftMm", label: "Left margin (mm)", step: "0.1" },
+  { key: "gapXMm", label: "Column gap (mm)", step: "0.1" },
+  { key: "gapYMm", label: "Row gap (mm)", step: "0.1" },
+  { key: "qrSizeMm", label: "QR size (mm)", step: "0.5" },
+  { key: "fontSizePt", label: "Font size (pt)", step: "0.5" }
+];
+
+export function LabelTemplateDesigner() {
+  const [templates, setTemplates] = useState<LabelTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [sampleQrImage, setSampleQrImage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      const data = await getLabelTemplates();
+      setTemplates(data);
+      setSelectedId(data[0]?.id || "");
+    };
+
+    loadTemplates();
+    generateQRCodeDataURL(SAMPLE_LABEL.code)
+      .then(setSampleQrImage)
+      .catch(error => console.error('Error generating sample QR code:', error));
+  }, []);
+
+  const selected = templates.find(t => t.id === selectedId);
+
+  const updateSelected = (changes: Partial<LabelTemplate>) => {
+    setTemplates(prev => prev.map(t => (t.id === selectedId ? { ...t, ...changes } : t)));
+  };
+
+  const toggleField = (field: LabelField, checked: boolean) => {
+    if (!selected) return;
+    // Keep fields in their canonical order so the preview matches the checkbox list
+    const fields = Object.values(LabelField).filter(f =>
+      f === field ? checked : selected.fields.includes(f)
+    );
+    updateSelected({ fields });
+  };
+
+  const addTemplate = (base?: LabelTemplate) => {
+    const template: LabelTemplate = {
+      ...(base || DEFAULT_LABEL_TEMPLATES[0]),
+      id: `label-${Date.now()}`,
+      name: base ? `${base.name} (copy)` : "New template",
+      product: base?.product
+    };
+    setTemplates(prev => [...prev, template]);
+    setSelectedId(template.id);
+  };
+
+  const removeSelected = () => {
+    if (!selected) return;
+    if (templates.length === 1) {
+      toast.error("At least one label template is required");
+      return;
+    }
+    if (!window.confirm(`Delete label template "${selected.name}"?`)) return;
+
+    const remaining = templates.filter(t => t.id !== selectedId);
+    setTemplates(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  const handleSave = async () => {
+    if (templates.some(t => !t.name.trim())) {
+      toast.error("Every template needs a name");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const stamped = templates.map(t => ({ ...t, name: t.name.trim(), updatedAt: new Date().toISOString() }));
+      const saved = await saveLabelTemplates(stamped);
+      setTemplates(stamped);
+      if (saved) {
+        toast.success("Label templates saved");
+      } else {
+        toast.warning("Label templates saved on this device only - could not reach the database");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Enough sample labels to fill one page
+  const previewHtml = selected
+    ? renderLabelSheetHtml(
+      selected,
+      Array.from({ length: Math.max(1, selected.columns * selected.rows) }, () => ({ ...SAMPLE_LABEL, qrCodeImage: sampleQrImage || undefined })),
+      false
+    )
+    : "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="h-5 w-5" />
+          Label Templates
+        </CardTitle>
+        <CardDescription>
+          Design print layouts for thermal rolls and label sheets. Assign a product to make a template its default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-2 flex-1 min-w-[200px]">
+            <Label htmlFor="label-template-select">Template</Label>
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger id="label-template-select">
+                <SelectValue placeholder="Select a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}{t.product ? ` (${t.product})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={() => addTemplate()}>
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </Button>
+          <Button variant="outline" onClick={() => selected && addTemplate(selected)} disabled={!selected}>
+            <Copy className="h-4 w-4 mr-1" />
+            Duplicate
+          </Button>
+          <Button variant="outline" onClick={removeSelected} disabled={!selected}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
+        </div>
+
+        {selected && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="label-name">Name *</Label>
+                  <Input
+                    id="label-name"
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="label-product">Product</Label>
+                  <Input
+                    id="label-product"
+                    value={selected.product || ""}
+                    onChange={(e) => updateSelected({ product: e.target.value })}
+                    placeholder="Any product"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {DIMENSION_FIELDS.map(({ key, label, step }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`label-${key}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`label-${key}`}
+                      type="number"
+                      min="0"
+                      step={step || "1"}
+                      value={selected[key] as number}
+                      onChange={(e) => updateSelected({ [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="label-font">Font</Label>
+                <Select value={selected.fontFamily} onValueChange={(value) => updateSelected({ fontFamily: value })}>
+                  <SelectTrigger id="label-font">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FONT_OPTIONS.map((font) => (
+                      <SelectItem key={font.value} value={font.value}>
+                        {font.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Fields</Label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {Object.values(LabelField).map((field) => (
+                    <div key={field} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`label-field-${field}`}
+                        checked={selected.fields.includes(field)}
+                        onCheckedChange={(checked) => toggleField(field, checked === true)}
+                      />
+                      <Label htmlFor={`label-field-${field}`} className="text-sm font-normal">
+                        {LABEL_FIELD_LABELS[field]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="label-border"
+                  checked={selected.showBorder}
+                  onCheckedChange={(checked) => updateSelected({ showBorder: checked })}
+                />
+                <Label htmlFor="label-border">Print label borders</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Live Preview</Label>
+              <iframe
+                title="Label preview"
+                srcDoc={previewHtml}
+                className="w-full h-[480px] rounded-md border bg-muted"
+              />
+              <p className="text-xs text-muted-foreground">
+                {selected.columns * selected.rows} label(s) per {selected.pageWidthMm}x{selected.pageHeightMm}mm page
+              </p>
+            </div>
+          </div>
+        )}
+
+        <Button onClick={handleSave} disabled={saving} className="w-full">
+          {saving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save Label Templates
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,662 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AppSection, LeaveRequest, LeaveRequestStatus, LeaveType, PayrollRuleSet, Worker } from "@/types";
+import {
+  LeaveCalendar,
+  EMPTY_LEAVE_CALENDAR,
+  countLeaveDays,
+  decideLeaveRequest,
+  deleteHoliday,
+  getLeaveBalance,
+  getLeaveCalendar,
+  saveHoliday,
+  saveLeaveEntitlement,
+  saveLeaveRequest,
+  saveLeaveType,
+  validateLeaveRequest,
+  validateLeaveType
+} from "@/lib/leave";
+import { getPayrollRuleSets } from "@/lib/payroll-rules";
+import { getLockedPayrollMonths } from "@/lib/payroll-runs";
+import { useAuth } from "@/contexts/AuthContext";
+import { AlertCircle, Check, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+
+interface LeaveManagementProps {
+  workers: Worker[];
+  onChanged?: () => void;
+}
+
+function getToday(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// Months (YYYY-MM) a date range touches
+function getMonthsInRange(startDate: string, endDate: string): string[] {
+  const months: string[] = [];
+  let [year, month] = startDate.split("-").map(Number);
+  const [endYear, endMonth] = endDate.split("-").map(Number);
+  while (year < endYear || (year === endYear && month <= endMonth)) {
+    months.push(`${year}-${String(month).padStart(2, "0")}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+const STATUS_BADGE_VARIANTS: Record<LeaveRequestStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  [LeaveRequestStatus.PENDING]: "secondary",
+  [LeaveRequestStatus.APPROVED]: "default",
+  [LeaveRequestStatus.REJECTED]: "destructive",
+  [LeaveRequestStatus.CANCELLED]: "outline"
+};
+
+const EMPTY_REQUEST_FORM = { workerId: "", leaveTypeId: "", startDate: getToday(), endDate: getToday(), reason: "" };
+const EMPTY_TYPE_FORM = { id: "", name: "", paid: true, countsAsAbsence: false, annualDays: "", isActive: true };
+const EMPTY_HOLIDAY_FORM = { date: getToday(), name: "", paid: true };
+
+export function LeaveManagement({ workers, onChanged }: LeaveManagementProps) {
+  const { profile, canAccess } = useAuth();
+  // Deciding on leave, holidays and allowances changes pay, so it belongs to payroll (HR)
+  const canManage = canAccess(AppSection.PAYROLL);
+
+  const [calendar, setCalendar] = useState<LeaveCalendar>(EMPTY_LEAVE_CALENDAR);
+  const [ruleSets, setRuleSets] = useState<PayrollRuleSet[]>([]);
+  const [statusFilter, setStatusFilter] = useState<LeaveRequestStatus | "all">(LeaveRequestStatus.PENDING);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [requestForm, setRequestForm] = useState(EMPTY_REQUEST_FORM);
+  const [typeForm, setTypeForm] = useState(EMPTY_TYPE_FORM);
+  const [holidayForm, setHolidayForm] = useState(EMPTY_HOLIDAY_FORM);
+  const [entitlementForm, setEntitlementForm] = useState({ workerId: "", leaveTypeId: "", days: "" });
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadCalendar = async () => {
+    setCalendar(await getLeaveCalendar());
+  };
+
+  useEffect(() => {
+    loadCalendar();
+    getPayrollRuleSets().then(setRuleSets);
+  }, []);
+
+  const activeWorkers = useMemo(
+    () => workers.filter(worker => worker.isActive !== false).sort((a, b) => a.name.localeCompare(b.name)),
+    [workers]
+  );
+  const activeLeaveTypes = calendar.leaveTypes.filter(type => type.isActive);
+  const workerNames = useMemo(() => new Map(workers.map(worker => [worker.id, worker.name])), [workers]);
+  const leaveTypeNames = new Map(calendar.leaveTypes.map(type => [type.id, type.name]));
+
+  const requestDays = requestForm.startDate && requestForm.endDate && requestForm.endDate >= requestForm.startDate
+    ? countLeaveDays(calendar, requestForm.startDate, requestForm.endDate, ruleSets)
+    : 0;
+  const requestLeaveType = calendar.leaveTypes.find(type => type.id === requestForm.leaveTypeId);
+  const requestBalance = requestLeaveType && requestForm.workerId
+    ? getLeaveBalance(calendar, requestForm.workerId, requestLeaveType, Number(requestForm.startDate.substring(0, 4)))
+    : null;
+
+  const visibleRequests = calendar.requests.filter(r => statusFilter === "all" || r.status === statusFilter);
+  const yearHolidays = calendar.holidays.filter(holiday => holiday.date.startsWith(`${year}-`));
+
+  const afterChange = async () => {
+    await loadCalendar();
+    onChanged?.();
+  };
+
+  // Approved leave in a month with locked payroll is part of what was paid
+  const findLockedMonth = async (startDate: string, endDate: string): Promise<string | undefined> => {
+    const lockedMonths = await getLockedPayrollMonths(true);
+    return getMonthsInRange(startDate, endDate).find(month => lockedMonths.has(month));
+  };
+
+  const handleSubmitRequest = async () => {
+    const request = {
+      workerId: requestForm.workerId,
+      leaveTypeId: requestForm.leaveTypeId,
+      startDate: requestForm.startDate,
+      endDate: requestForm.endDate,
+      days: requestDays,
+      reason: requestForm.reason.trim() || undefined,
+      requestedBy: profile?.email
+    };
+
+    const validationErrors = validateLeaveRequest(calendar, request);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveLeaveRequest(request);
+      if (saved) {
+        toast.success(`Leave requested for ${workerNames.get(saved.workerId) || "worker"}`);
+        setRequestForm(EMPTY_REQUEST_FORM);
+        await afterChange();
+      } else {
+        toast.error("Failed to save leave request");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDecision = async (
+    request: LeaveRequest,
+    status: LeaveRequestStatus.APPROVED | LeaveRequestStatus.REJECTED | LeaveRequestStatus.CANCELLED
+  ) => {
+    if (status === LeaveRequestStatus.APPROVED) {
+      const validationErrors = validateLeaveRequest(calendar, request);
+      if (validationErrors.length > 0) {
+        toast.error(validationErrors[0]);
+        return;
+      }
+    }
+    if (status === LeaveRequestStatus.APPROVED || request.status === LeaveRequestStatus.APPROVED) {
+      const lockedMonth = await findLockedMonth(request.startDate, request.endDate);
+      if (lockedMonth) {
+        toast.error(`Payroll for ${lockedMonth} is locked; this leave can no longer be changed`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    try {
+      const success = await decideLeaveRequest(request.id, status, profile?.email);
+      if (success) {
+        toast.success(`Leave ${status}`);
+        await afterChange();
+      } else {
+        toast.error("Failed to update leave request");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveType = async () => {
+    const leaveType = {
+      id: typeForm.id || undefined,
+      name: typeForm.name,
+      paid: typeForm.paid,
+      countsAsAbsence: typeForm.countsAsAbsence,
+      annualDays: typeForm.annualDays.trim() === "" ? undefined : parseFloat(typeForm.annualDays),
+      isActive: typeForm.isActive
+    };
+
+    const validationErrors = validateLeaveType(leaveType);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveLeaveType(leaveType);
+      if (saved) {
+        toast.success(`Leave type "${saved.name}" saved`);
+        setTypeForm(EMPTY_TYPE_FORM);
+        await afterChange();
+      } else {
+        toast.error("Failed to save leave type");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editType = (leaveType: LeaveType) => {
+    setErrors([]);
+    setTypeForm({
+      id: leaveType.id,
+      name: leaveType.name,
+      paid: leaveType.paid,
+      countsAsAbsence: leaveType.countsAsAbsence,
+      annualDays: leaveType.annualDays === undefined ? "" : String(leaveType.annualDays),
+      isActive: leaveType.isActive
+    });
+  };
+
+  const handleAddHoliday = async () => {
+    if (!holidayForm.date || !holidayForm.name.trim()) {
+      setErrors(["Date and name are required"]);
+      return;
+    }
+    if (calendar.holidays.some(holiday => holiday.date === holidayForm.date)) {
+      setErrors([`${holidayForm.date} is already a holiday`]);
+      return;
+    }
+    if (await findLockedMonth(holidayForm.date, holidayForm.date)) {
+      setErrors([`Payroll for ${holidayForm.date.substring(0, 7)} is locked`]);
+      return;
+    }
+    setErrors([]);
+
+    setSaving(true);
+    try {
+      const saved = await saveHoliday(holidayForm);
+      if (saved) {
+        toast.success(`Holiday "${saved.name}" added`);
+        setHolidayForm(EMPTY_HOLIDAY_FORM);
+        await afterChange();
+      } else {
+        toast.error("Failed to add holiday");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteHoliday = async (holidayId: string, date: string) => {
+    if (await findLockedMonth(date, date)) {
+      toast.error(`Payroll for ${date.substring(0, 7)} is locked`);
+      return;
+    }
+    const success = await deleteHoliday(holidayId);
+    if (success) {
+      toast.success("Holiday removed");
+      await afterChange();
+    } else {
+      toast.error("Failed to remove holiday");
+    }
+  };
+
+  const handleSaveEntitlement = async () => {
+    const days = parseFloat(entitlementForm.days);
+    if (!entitlementForm.workerId || !entitlementForm.leaveTypeId || !(days >= 0)) {
+      setErrors(["Worker, leave type and days are required"]);
+      return;
+    }
+    setErrors([]);
+
+    setSaving(true);
+    try {
+      const success = await saveLeaveEntitlement(entitlementForm.workerId, entitlementForm.leaveTypeId, year, days);
+      if (success) {
+        toast.success("Leave allowance saved");
+        setEntitlementForm({ workerId: "", leaveTypeId: "", days: "" });
+        await afterChange();
+      } else {
+        toast.error("Failed to save leave allowance");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Tabs defaultValue="requests" className="space-y-4" onValueChange={() => setErrors([])}>
+      <TabsList>
+        <TabsTrigger value="requests">Requests</TabsTrigger>
+        <TabsTrigger value="balances">Balances</TabsTrigger>
+        <TabsTrigger value="holidays">Holidays</TabsTrigger>
+        <TabsTrigger value="types">Leave Types</TabsTrigger>
+      </TabsList>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {errors.map(error => <div key={error}>{error}</div>)}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <TabsContent value="requests" className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 border rounded-md p-3">
+          <div className="space-y-1">
+            <Label>Worker</Label>
+            <Select value={requestForm.workerId} onValueChange={(value) => setRequestForm({ ...requestForm, workerId: value })}>
+              <SelectTrigger><SelectValue placeholder="Select worker" /></SelectTrigger>
+              <SelectContent>
+                {activeWorkers.map(worker => (
+                  <SelectItem key={worker.id} value={worker.id}>{worker.name} ({worker.employeeId})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Leave Type</Label>
+            <Select value={requestForm.leaveTypeId} onValueChange={(value) => setRequestForm({ ...requestForm, leaveTypeId: value })}>
+              <SelectTrigger><SelectValue placeholder="Select leave type" /></SelectTrigger>
+              <SelectContent>
+                {activeLeaveTypes.map(type => (
+                  <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Reason</Label>
+            <Input value={requestForm.reason} onChange={(e) => setRequestForm({ ...requestForm, reason: e.target.value })} placeholder="Optional" />
+          </div>
+          <div className="space-y-1">
+            <Label>From</Label>
+            <Input type="date" value={requestForm.startDate} onChange={(e) => setRequestForm({ ...requestForm, startDate: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>To</Label>
+            <Input type="date" value={requestForm.endDate} onChange={(e) => setRequestForm({ ...requestForm, endDate: e.target.value })} />
+          </div>
+          <div className="flex items-end gap-3">
+            <div className="text-sm text-muted-foreground flex-1">
+              {requestDays} working day{requestDays === 1 ? "" : "s"}
+              {requestBalance?.remaining !== undefined && (
+                <div className="text-xs">{requestBalance.remaining} left this year</div>
+              )}
+            </div>
+            <Button onClick={handleSubmitRequest} disabled={saving}>
+              <Plus className="h-4 w-4 mr-2" />
+              Request
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label>Show</Label>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as LeaveRequestStatus | "all")}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All requests</SelectItem>
+              {Object.values(LeaveRequestStatus).map(status => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!canManage && (
+            <span className="text-xs text-muted-foreground ml-auto">Requests are approved by HR</span>
+          )}
+        </div>
+
+        <div className="max-h-[40vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Worker</TableHead>
+                <TableHead>Leave</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Days</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-28" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRequests.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">No leave requests</TableCell>
+                </TableRow>
+              )}
+              {visibleRequests.map(request => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    {workerNames.get(request.workerId) || "Unknown worker"}
+                    {request.requestedBy && <div className="text-xs text-muted-foreground">by {request.requestedBy}</div>}
+                  </TableCell>
+                  <TableCell>
+                    {leaveTypeNames.get(request.leaveTypeId) || "-"}
+                    {request.reason && <div className="text-xs text-muted-foreground">{request.reason}</div>}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {request.startDate === request.endDate ? request.startDate : `${request.startDate} → ${request.endDate}`}
+                  </TableCell>
+                  <TableCell>{request.days}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGE_VARIANTS[request.status]} className="capitalize">{request.status}</Badge>
+                    {request.decidedBy && <div className="text-xs text-muted-foreground">by {request.decidedBy}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      {canManage && request.status === LeaveRequestStatus.PENDING && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => handleDecision(request, LeaveRequestStatus.APPROVED)} disabled={saving} title="Approve">
+                            <Check className="h-4 w-4 text-green-600" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDecision(request, LeaveRequestStatus.REJECTED)} disabled={saving} title="Reject">
+                            <X className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </>
+                      )}
+                      {(request.status === LeaveRequestStatus.PENDING || (canManage && request.status === LeaveRequestStatus.APPROVED)) && (
+                        <Button variant="ghost" size="sm" onClick={() => handleDecision(request, LeaveRequestStatus.CANCELLED)} disabled={saving} title="Cancel leave">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="balances" className="space-y-4">
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label>Year</Label>
+            <Input type="number" className="w-28" value={year} onChange={(e) => setYear(parseInt(e.target.value) || new Date().getFullYear())} />
+          </div>
+          {canManage && (
+            <>
+              <div className="space-y-1 flex-1">
+                <Label>Worker</Label>
+                <Select value={entitlementForm.workerId} onValueChange={(value) => setEntitlementForm({ ...entitlementForm, workerId: value })}>
+                  <SelectTrigger><SelectValue placeholder="Select worker" /></SelectTrigger>
+                  <SelectContent>
+                    {activeWorkers.map(worker => (
+                      <SelectItem key={worker.id} value={worker.id}>{worker.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 flex-1">
+                <Label>Leave Type</Label>
+                <Select value={entitlementForm.leaveTypeId} onValueChange={(value) => setEntitlementForm({ ...entitlementForm, leaveTypeId: value })}>
+                  <SelectTrigger><SelectValue placeholder="Select leave type" /></SelectTrigger>
+                  <SelectContent>
+                    {activeLeaveTypes.map(type => (
+                      <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Days</Label>
+                <Input type="number" min="0" className="w-20" value={entitlementForm.days} onChange={(e) => setEntitlementForm({ ...entitlementForm, days: e.target.value })} />
+              </div>
+              <Button variant="outline" onClick={handleSaveEntitlement} disabled={saving}>Set Allowance</Button>
+            </>
+          )}
+        </div>
+
+        <div className="max-h-[45vh] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Worker</TableHead>
+                {activeLeaveTypes.map(type => (
+                  <TableHead key={type.id}>{type.name}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activeWorkers.map(worker => (
+                <TableRow key={worker.id}>
+                  <TableCell>
+                    {worker.name}
+                    <span className="ml-2 text-xs text-muted-foreground font-mono">{worker.employeeId}</span>
+                  </TableCell>
+                  {activeLeaveTypes.map(type => {
+                    const balance = getLeaveBalance(calendar, worker.id, type, year);
+                    return (
+                      <TableCell key={type.id}>
+                        {balance.entitlement === undefined ? (
+                          <span>{balance.used} taken</span>
+                        ) : (
+                          <span className={balance.remaining !== undefined && balance.remaining <= 0 ? "text-red-600" : ""}>
+                            {balance.remaining} / {balance.entitlement} left
+                          </span>
+                        )}
+                        {balance.pending > 0 && <div className="text-xs text-muted-foreground">{balance.pending} pending</div>}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="holidays" className="space-y-4">
+        <div className="flex items-end gap-3">
+          <div className="space-y-1">
+            <Label>Year</Label>
+            <Input type="number" className="w-28" value={year} onChange={(e) => setYear(parseInt(e.target.value) || new Date().getFullYear())} />
+          </div>
+          {canManage && (
+            <>
+              <div className="space-y-1">
+                <Label>Date</Label>
+                <Input type="date" value={holidayForm.date} onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })} />
+              </div>
+              <div className="space-y-1 flex-1">
+                <Label>Name</Label>
+                <Input value={holidayForm.name} onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })} placeholder="e.g. Diwali" />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch checked={holidayForm.paid} onCheckedChange={(checked) => setHolidayForm({ ...holidayForm, paid: checked })} />
+                <Label>Paid</Label>
+              </div>
+              <Button onClick={handleAddHoliday} disabled={saving}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </>
+          )}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Holiday</TableHead>
+              <TableHead>Pay</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {yearHolidays.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">No holidays in {year}</TableCell>
+              </TableRow>
+            )}
+            {yearHolidays.map(holiday => (
+              <TableRow key={holiday.id}>
+                <TableCell>
+                  {holiday.date}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {new Date(`${holiday.date}T00:00:00`).toLocaleDateString(undefined, { weekday: "short" })}
+                  </span>
+                </TableCell>
+                <TableCell>{holiday.name}</TableCell>
+                <TableCell>
+                  <Badge variant={holiday.paid ? "default" : "outline"}>{holiday.paid ? "Paid" : "Unpaid"}</Badge>
+                </TableCell>
+                <TableCell>
+                  {canManage && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteHoliday(holiday.id, holiday.date)} title="Remove holiday">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TabsContent>
+
+      <TabsContent value="types" className="space-y-4">
+        {canManage && (
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end border rounded-md p-3">
+            <div className="space-y-1 col-span-2">
+              <Label>Name</Label>
+              <Input value={typeForm.name} onChange={(e) => setTypeForm({ ...typeForm, name: e.target.value })} placeholder="e.g. Sick Leave" />
+            </div>
+            <div className="space-y-1">
+              <Label>Days / Year</Label>
+              <Input type="number" min="0" value={typeForm.annualDays} onChange={(e) => setTypeForm({ ...typeForm, annualDays: e.target.value })} placeholder="No limit" />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch checked={typeForm.paid} onCheckedChange={(checked) => setTypeForm({ ...typeForm, paid: checked })} />
+              <Label>Paid</Label>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch checked={typeForm.countsAsAbsence} onCheckedChange={(checked) => setTypeForm({ ...typeForm, countsAsAbsence: checked })} />
+              <Label>Reduces bonus</Label>
+            </div>
+            <div className="flex gap-2">
+              {typeForm.id && (
+                <Button variant="outline" onClick={() => setTypeForm(EMPTY_TYPE_FORM)}>Cancel</Button>
+              )}
+              <Button onClick={handleSaveType} disabled={saving}>{typeForm.id ? "Save" : "Add"}</Button>
+            </div>
+            {typeForm.id && (
+              <div className="flex items-center gap-2 col-span-2">
+                <Switch checked={typeForm.isActive} onCheckedChange={(checked) => setTypeForm({ ...typeForm, isActive: checked })} />
+                <Label>Active (inactive types can't be requested)</Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Leave Type</TableHead>
+              <TableHead>Pay</TableHead>
+              <TableHead>Attendance Bonus</TableHead>
+              <TableHead>Days / Year</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {calendar.leaveTypes.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">
+                  No leave types. Run CREATE_LEAVE_MANAGEMENT_TABLES.sql to add the standard ones.
+                </TableCell>
+              </TableRow>
+            )}
+            {calendar.leaveTypes.map(type => (
+              <TableRow key={type.id} className={type.isActive ? "" : "opacity-50"}>
+                <TableCell>
+                  {type.name}
+                  {!type.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                </TableCell>
+                <TableCell>{type.paid ? "Paid" : "Unpaid"}</TableCell>
+                <TableCell>{type.countsAsAbsence ? "Counts as absence" : "Not affected"}</TableCell>
+                <TableCell>{type.annualDays === undefined ? "No limit" : type.annualDays}</TableCell>
+                <TableCell>
+                  {canManage && (
+                    <Button variant="ghost" size="sm" onClick={() => editType(type)} title="Edit leave type">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TabsContent>
+    </Tabs>
+  );
+}
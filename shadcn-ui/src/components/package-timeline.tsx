@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { PackageEvent, PackageEventType } from "@/types";
+import { getPackageEvents } from "@/lib/package-events";
+import { Loader2, PlusCircle, ArrowRight, Trash2, UserCog, Smartphone, User } from "lucide-react";
+
+interface PackageTimelineDialogProps {
+  code: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EVENT_LABELS: Record<PackageEventType, string> = {
+  [PackageEventType.CREATED]: "Created",
+  [PackageEventType.STATUS_CHANGED]: "Status changed",
+  [PackageEventType.DELETED]: "Deleted",
+  [PackageEventType.REASSIGNED]: "Assigned"
+};
+
+function EventIcon({ type }: { type: PackageEventType }) {
+  switch (type) {
+    case PackageEventType.CREATED:
+      return <PlusCircle className="h-4 w-4 text-green-600" />;
+    case PackageEventType.DELETED:
+      return <Trash2 className="h-4 w-4 text-red-600" />;
+    case PackageEventType.REASSIGNED:
+      return <UserCog className="h-4 w-4 text-purple-600" />;
+    default:
+      return <ArrowRight className="h-4 w-4 text-blue-600" />;
+  }
+}
+
+export function PackageTimelineDialog({ code, onOpenChange }: PackageTimelineDialogProps) {
+  const [events, setEvents] = useState<PackageEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!code) {
+      setEvents([]);
+      return;
+    }
+
+    const loadEvents = async () => {
+      setLoading(true);
+      try {
+        setEvents(await getPackageEvents(code));
+      } catch (error) {
+        console.error('Error loading package history:', error);
+        setEvents([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEvents();
+  }, [code]);
+
+  return (
+    <Dialog open={code !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Package History</DialogTitle>
+          <DialogDescription>
+            Chain of custody for <span className="font-mono">{code}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            No history recorded for this package yet.
+          </div>
+        ) : (
+          <ol className="relative max-h-96 overflow-y-auto border-l ml-2 space-y-4 pr-2">
+            {events.map((event) => (
+              <li key={event.id} className="ml-4">
+                <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-background">
+                  <EventIcon type={event.eventType} />
+                </span>
+                <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+                  {EVENT_LABELS[event.eventType] || event.eventType}
+                  {event.fromStatus && <Badge variant="outline">{event.fromStatus}</Badge>}
+                  {event.fromStatus && event.toStatus && <ArrowRight className="h-3 w-3" />}
+                  {event.toStatus && <Badge variant="secondary">{event.toStatus}</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(event.occurredAt).toLocaleString()}
+                </div>
+                <div className="mt-1 flex flex-wrap gap-3 text-xs text-muted-foreground">
+                  {event.actor && (
+                    <span className="flex items-center gap-1">
+                      <User className="h-3 w-3" />
+                      {event.actor}
+                    </span>
+                  )}
+                  {event.deviceId && (
+                    <span className="flex items-center gap-1">
+                      <Smartphone className="h-3 w-3" />
+                      {event.deviceId}
+                    </span>
+                  )}
+                  {typeof event.details?.shippingLocation === "string" && event.details.shippingLocation && (
+                    <span>Location: {event.details.shippingLocation}</span>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
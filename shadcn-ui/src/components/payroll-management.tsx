@@ -0,0 +1,383 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AttendanceRecord, PayrollRuleSet, PayrollRun, PayrollRunStatus, Worker } from "@/types";
+import { getAllWorkers, getAllAttendance } from "@/lib/attendance-utils";
+import { getAllWorkerDefaultOvertimeSettings } from "@/lib/supabase-service";
+import { getPayrollRuleSets } from "@/lib/payroll-rules";
+import { getAdvanceLedger, AdvanceLedger, EMPTY_ADVANCE_LEDGER } from "@/lib/advances";
+import { getLeaveCalendar, LeaveCalendar, EMPTY_LEAVE_CALENDAR } from "@/lib/leave";
+import { getRosterSchedule, RosterSchedule, EMPTY_ROSTER_SCHEDULE } from "@/lib/roster";
+import {
+  getPayrollRuns,
+  savePayrollRunDraft,
+  approvePayrollRun,
+  recordPayrollRunAdvanceRecoveries,
+  buildPayslips,
+  getPayrollMonthKey,
+  formatPayrollMonth
+} from "@/lib/payroll-runs";
+import { getCurrentMonthYear } from "@/lib/salary-calculator";
+import { useAuth } from "@/contexts/AuthContext";
+import { AlertTriangle, Calculator, CheckCircle2, Lock, RefreshCw, Wallet } from "lucide-react";
+import { toast } from "sonner";
+
+function formatAmount(amount: number): string {
+  return `₹${amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+function getLastMonthKey(): string {
+  const { month, year } = getCurrentMonthYear();
+  return month === 0 ? getPayrollMonthKey(11, year - 1) : getPayrollMonthKey(month - 1, year);
+}
+
+export function PayrollManagement() {
+  const { profile } = useAuth();
+  const [selectedMonth, setSelectedMonth] = useState(getLastMonthKey());
+  const [runs, setRuns] = useState<PayrollRun[]>([]);
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
+  const [workerDefaultOvertime, setWorkerDefaultOvertime] = useState<Record<string, boolean>>({});
+  const [ruleSets, setRuleSets] = useState<PayrollRuleSet[]>([]);
+  const [advanceLedger, setAdvanceLedger] = useState<AdvanceLedger>(EMPTY_ADVANCE_LEDGER);
+  const [leaveCalendar, setLeaveCalendar] = useState<LeaveCalendar>(EMPTY_LEAVE_CALENDAR);
+  const [rosterSchedule, setRosterSchedule] = useState<RosterSchedule>(EMPTY_ROSTER_SCHEDULE);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [approveDialogOpen, setApproveDialogOpen] = useState(false);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [runsData, workersData, attendanceData, defaultOTSettings, ruleSetsData, ledger, leaveData, schedule] = await Promise.all([
+        getPayrollRuns(),
+        getAllWorkers(true),
+        getAllAttendance(),
+        getAllWorkerDefaultOvertimeSettings(),
+        getPayrollRuleSets(),
+        getAdvanceLedger(),
+        getLeaveCalendar(),
+        getRosterSchedule()
+      ]);
+      setRuns(runsData);
+      setWorkers(workersData);
+      setAttendanceRecords(attendanceData);
+      setWorkerDefaultOvertime(defaultOTSettings);
+      setRuleSets(ruleSetsData);
+      setAdvanceLedger(ledger);
+      setLeaveCalendar(leaveData);
+      setRosterSchedule(schedule);
+    } catch (error) {
+      console.error("Error loading payroll data:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const run = runs.find(r => r.month === selectedMonth) || null;
+  const isLocked = run?.status === PayrollRunStatus.LOCKED;
+  const { month: currentMonth, year: currentYear } = getCurrentMonthYear();
+  const isFutureMonth = selectedMonth > getPayrollMonthKey(currentMonth, currentYear);
+
+  // Salaries as they would be calculated now - compared with the snapshot to flag later changes
+  const livePayslips = useMemo(() => {
+    if (workers.length === 0 || ruleSets.length === 0) return [];
+    const [year, month] = selectedMonth.split("-").map(Number);
+    return buildPayslips(workers, attendanceRecords, month - 1, year, workerDefaultOvertime, ruleSets, advanceLedger, leaveCalendar, rosterSchedule);
+  }, [workers, attendanceRecords, workerDefaultOvertime, ruleSets, advanceLedger, leaveCalendar, rosterSchedule, selectedMonth]);
+
+  const liveByWorker = useMemo(
+    () => new Map(livePayslips.map(p => [p.workerId, p])),
+    [livePayslips]
+  );
+
+  const changedWorkerIds = useMemo(() => {
+    if (!run) return new Set<string>();
+    return new Set(
+      run.payslips
+        .filter(p => {
+          const live = liveByWorker.get(p.workerId);
+          return !live || live.netPay !== p.netPay;
+        })
+        .map(p => p.workerId)
+    );
+  }, [run, liveByWorker]);
+
+  // Approval records advance installments as recovered; flag a locked run where that didn't happen
+  const hasUnrecordedRecoveries = isLocked && !!run && run.payslips.some(p =>
+    p.advanceDeduction > 0 &&
+    !advanceLedger.recoveries.some(r => r.workerId === p.workerId && r.month === run.month)
+  );
+
+  const handleRecordRecoveries = async () => {
+    if (!run) return;
+
+    setSaving(true);
+    const recorded = await recordPayrollRunAdvanceRecoveries(run);
+    setSaving(false);
+
+    if (recorded) {
+      toast.success("Advance recoveries recorded");
+      setAdvanceLedger(await getAdvanceLedger());
+    } else {
+      toast.error("Failed to record advance recoveries");
+    }
+  };
+
+  const handleGenerate = async () => {
+    setSaving(true);
+    const saved = await savePayrollRunDraft(selectedMonth, livePayslips, profile?.email);
+    setSaving(false);
+
+    if (saved) {
+      setRuns(prev => [...prev.filter(r => r.month !== saved.month), saved].sort((a, b) => b.month.localeCompare(a.month)));
+      toast.success(`Draft payroll for ${formatPayrollMonth(selectedMonth)} generated`);
+    } else {
+      toast.error("Failed to generate payroll");
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!run) return;
+
+    setSaving(true);
+    const approved = await approvePayrollRun(run.id, profile?.email);
+    setSaving(false);
+    setApproveDialogOpen(false);
+
+    if (approved) {
+      toast.success(`Payroll for ${formatPayrollMonth(run.month)} approved and locked`);
+      await loadData();
+    } else {
+      toast.error("Failed to approve payroll");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">Payroll</h2>
+          <p className="text-muted-foreground">
+            Generate a month's payslips, check them, then approve to lock the month. Approved payslips never change
+            and attendance in a locked month can't be edited.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadData} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                {formatPayrollMonth(selectedMonth)}
+                {run && (
+                  <Badge variant={isLocked ? "default" : "secondary"}>
+                    {isLocked ? "Locked" : "Draft"}
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {!run && "No payroll generated for this month yet"}
+                {run && !isLocked && `Draft generated ${new Date(run.updatedAt).toLocaleString()}${run.createdBy ? ` by ${run.createdBy}` : ""}`}
+                {run && isLocked && `Approved ${run.approvedAt ? new Date(run.approvedAt).toLocaleString() : ""}${run.approvedBy ? ` by ${run.approvedBy}` : ""}`}
+              </CardDescription>
+            </div>
+            <div className="flex items-end gap-2">
+              <div>
+                <Label htmlFor="payroll-month">Month</Label>
+                <Input
+                  id="payroll-month"
+                  type="month"
+                  value={selectedMonth}
+                  onChange={(e) => e.target.value && setSelectedMonth(e.target.value)}
+                />
+              </div>
+              {!isLocked && (
+                <Button onClick={handleGenerate} disabled={saving || loading || isFutureMonth} variant="outline">
+                  <Calculator className="h-4 w-4 mr-2" />
+                  {run ? "Regenerate Draft" : "Generate Draft"}
+                </Button>
+              )}
+              {run && !isLocked && (
+                <Button onClick={() => setApproveDialogOpen(true)} disabled={saving || run.payslips.length === 0}>
+                  <Lock className="h-4 w-4 mr-2" />
+                  Approve & Lock
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {run && changedWorkerIds.size > 0 && (
+            <Alert variant={isLocked ? "destructive" : "default"}>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {isLocked
+                  ? `${changedWorkerIds.size} payslip${changedWorkerIds.size > 1 ? "s" : ""} no longer match current attendance, advances or worker records. Locked payslips are kept as approved; settle differences in a later month.`
+                  : `${changedWorkerIds.size} payslip${changedWorkerIds.size > 1 ? "s have" : " has"} changed since this draft was generated. Regenerate the draft before approving.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {hasUnrecordedRecoveries && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="flex items-center justify-between gap-4">
+                <span>Advance installments deducted in this payroll haven't been recorded in the advances ledger.</span>
+                <Button size="sm" variant="outline" onClick={handleRecordRecoveries} disabled={saving}>
+                  Record Now
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {!run ? (
+            <p className="text-sm text-muted-foreground">
+              {isFutureMonth ? "Payroll can't be generated for a future month." : "Generate a draft to see this month's payslips."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employee ID</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">Base</TableHead>
+                    <TableHead className="text-right">Overtime</TableHead>
+                    <TableHead className="text-right">Late Deduction</TableHead>
+                    <TableHead className="text-right">Bonus</TableHead>
+                    <TableHead className="text-right">Total Salary</TableHead>
+                    <TableHead className="text-right">Adv. Deduct</TableHead>
+                    <TableHead className="text-right">Adv. Balance</TableHead>
+                    <TableHead className="text-right">Net Pay</TableHead>
+                    <TableHead>Rules</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {run.payslips.map(payslip => (
+                    <TableRow key={payslip.id}>
+                      <TableCell className="font-mono">{payslip.employeeId}</TableCell>
+                      <TableCell>
+                        {payslip.workerName}
+                        {changedWorkerIds.has(payslip.workerId) && (
+                          <Badge variant="outline" className="ml-2 text-xs text-orange-600 border-orange-300">
+                            Changed
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(payslip.baseSalary)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(payslip.overtimeCompensation)}</TableCell>
+                      <TableCell className="text-right text-red-600">
+                        {payslip.lateMinutesDeduction > 0 ? `-${formatAmount(payslip.lateMinutesDeduction)}` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatAmount(payslip.bonus)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(payslip.totalSalary)}</TableCell>
+                      <TableCell className="text-right text-red-600">
+                        {payslip.advanceDeduction > 0 ? `-${formatAmount(payslip.advanceDeduction)}` : "-"}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {payslip.advanceBalance > 0 ? formatAmount(payslip.advanceBalance) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">{formatAmount(payslip.netPay)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">v{payslip.ruleSetVersion}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-right font-semibold">Total Net Pay</TableCell>
+                    <TableCell className="text-right font-bold">{formatAmount(run.totalNetPay)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payroll Runs</CardTitle>
+          <CardDescription>Every generated month. Select one to view its payslips.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{loading ? "Loading payroll runs..." : "No payroll runs yet"}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Payslips</TableHead>
+                  <TableHead className="text-right">Total Net Pay</TableHead>
+                  <TableHead>Approved By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(r => (
+                  <TableRow
+                    key={r.id}
+                    className={`cursor-pointer ${r.month === selectedMonth ? "bg-muted/50" : ""}`}
+                    onClick={() => setSelectedMonth(r.month)}
+                  >
+                    <TableCell>{formatPayrollMonth(r.month)}</TableCell>
+                    <TableCell>
+                      {r.status === PayrollRunStatus.LOCKED ? (
+                        <span className="flex items-center gap-1 text-green-700">
+                          <CheckCircle2 className="h-4 w-4" />
+                          Locked
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">Draft</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{r.payslips.length}</TableCell>
+                    <TableCell className="text-right">{formatAmount(r.totalNetPay)}</TableCell>
+                    <TableCell>{r.approvedBy || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={approveDialogOpen} onOpenChange={setApproveDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve payroll for {formatPayrollMonth(selectedMonth)}?</DialogTitle>
+            <DialogDescription>
+              {run?.payslips.length} payslips totalling {formatAmount(run?.totalNetPay || 0)} will be locked.
+              Payslips can't be regenerated and attendance for this month can't be changed afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApproveDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleApprove} disabled={saving}>
+              <Lock className="h-4 w-4 mr-2" />
+              {saving ? "Approving..." : "Approve & Lock"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
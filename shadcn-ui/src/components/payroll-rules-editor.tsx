@@ -0,0 +1,399 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Gender, PayrollCategoryRules, PayrollRuleSet } from "@/types";
+import {
+  getPayrollRuleSets,
+  savePayrollRuleSet,
+  validatePayrollRuleSet,
+  getRuleSetForMonth,
+  WEEKDAY_LABELS,
+  WORKER_CATEGORY_LABELS
+} from "@/lib/payroll-rules";
+import { getCurrentMonthYear } from "@/lib/salary-calculator";
+import { useAuth } from "@/contexts/AuthContext";
+import { AlertCircle, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface PayrollRulesEditorProps {
+  onSaved?: (ruleSet: PayrollRuleSet) => void;
+}
+
+interface RuleSetDraft {
+  name: string;
+  effectiveMonth: string; // YYYY-MM
+  weeklyOffDay: number;
+  categories: Record<Gender, PayrollCategoryRules>;
+  notes: string;
+}
+
+function getNextMonth(): string {
+  const { month, year } = getCurrentMonthYear();
+  const next = new Date(year, month + 1, 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, "0")}`;
+}
+
+// Start a new version from the rules currently in force
+function createDraft(ruleSets: PayrollRuleSet[]): RuleSetDraft {
+  const { month, year } = getCurrentMonthYear();
+  const current = getRuleSetForMonth(ruleSets, month, year);
+  return {
+    name: current.name,
+    effectiveMonth: getNextMonth(),
+    weeklyOffDay: current.weeklyOffDay,
+    categories: JSON.parse(JSON.stringify(current.categories)),
+    notes: ""
+  };
+}
+
+export function PayrollRulesEditor({ onSaved }: PayrollRulesEditorProps) {
+  const { profile } = useAuth();
+  const [ruleSets, setRuleSets] = useState<PayrollRuleSet[]>([]);
+  const [draft, setDraft] = useState<RuleSetDraft | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadRuleSets = async () => {
+    const loaded = await getPayrollRuleSets();
+    setRuleSets(loaded);
+    setDraft(createDraft(loaded));
+  };
+
+  useEffect(() => {
+    loadRuleSets();
+  }, []);
+
+  const { month, year } = getCurrentMonthYear();
+  const inForce = ruleSets.length > 0 ? getRuleSetForMonth(ruleSets, month, year) : null;
+
+  const updateCategory = (category: Gender, changes: Partial<PayrollCategoryRules>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      categories: {
+        ...prev.categories,
+        [category]: { ...prev.categories[category], ...changes }
+      }
+    });
+  };
+
+  const updateTier = (category: Gender, index: number, field: "maxAbsences" | "amount", value: string) => {
+    if (!draft) return;
+    const tiers = draft.categories[category].bonusTiers.map((tier, i) =>
+      i === index ? { ...tier, [field]: parseFloat(value) } : tier
+    );
+    updateCategory(category, { bonusTiers: tiers });
+  };
+
+  const addTier = (category: Gender) => {
+    if (!draft) return;
+    const tiers = draft.categories[category].bonusTiers;
+    const nextAbsences = tiers.length > 0 ? Math.max(...tiers.map(t => t.maxAbsences)) + 1 : 0;
+    updateCategory(category, { bonusTiers: [...tiers, { maxAbsences: nextAbsences, amount: 0 }] });
+  };
+
+  const removeTier = (category: Gender, index: number) => {
+    if (!draft) return;
+    updateCategory(category, {
+      bonusTiers: draft.categories[category].bonusTiers.filter((_, i) => i !== index)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const ruleSet = {
+      name: draft.name,
+      effectiveFrom: `${draft.effectiveMonth}-01`,
+      weeklyOffDay: draft.weeklyOffDay,
+      categories: draft.categories,
+      notes: draft.notes.trim() || undefined,
+      createdBy: profile?.email
+    };
+
+    const validationErrors = validatePayrollRuleSet(ruleSet);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) {
+      return;
+    }
+
+    setSaving(true);
+    const saved = await savePayrollRuleSet(ruleSet);
+    setSaving(false);
+
+    if (saved) {
+      toast.success(`Payroll rules version ${saved.version} saved, effective ${saved.effectiveFrom}`);
+      await loadRuleSets();
+      onSaved?.(saved);
+    } else {
+      toast.error("Failed to save payroll rules");
+    }
+  };
+
+  if (!draft) {
+    return <p className="text-sm text-muted-foreground">Loading payroll rules...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="rules-name">Name</Label>
+          <Input
+            id="rules-name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="rules-effective">Effective From (month)</Label>
+          <Input
+            id="rules-effective"
+            type="month"
+            value={draft.effectiveMonth}
+            onChange={(e) => setDraft({ ...draft, effectiveMonth: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label>Weekly Off Day</Label>
+          <Select
+            value={String(draft.weeklyOffDay)}
+            onValueChange={(value) => setDraft({ ...draft, weeklyOffDay: parseInt(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <SelectItem key={day} value={String(day)}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {Object.values(Gender).map(category => {
+          const rules = draft.categories[category];
+          return (
+            <div key={category} className="space-y-3 rounded-md border p-4">
+              <h4 className="font-semibold">{WORKER_CATEGORY_LABELS[category]}</h4>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Pay Basis</Label>
+                  <Select
+                    value={rules.payBasis}
+                    onValueChange={(value) => updateCategory(category, { payBasis: value as PayrollCategoryRules["payBasis"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="monthly">Monthly salary</SelectItem>
+                      <SelectItem value="daily">Daily wage</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Shift Hours</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="24"
+                    step="0.5"
+                    value={rules.shiftHours}
+                    onChange={(e) => updateCategory(category, { shiftHours: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label>Shift Start</Label>
+                  <Input
+                    type="time"
+                    value={rules.shiftStartTime}
+                    onChange={(e) => updateCategory(category, { shiftStartTime: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Late Grace (minutes)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={rules.lateGraceMinutes}
+                    onChange={(e) => updateCategory(category, { lateGraceMinutes: parseInt(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label>Overtime Hours / Day</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="24"
+                    step="0.5"
+                    value={rules.overtimeHoursPerDay}
+                    onChange={(e) => updateCategory(category, { overtimeHoursPerDay: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label>Overtime Multiplier</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="0.25"
+                    value={rules.overtimeMultiplier}
+                    onChange={(e) => updateCategory(category, { overtimeMultiplier: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label>Half Day Pay (fraction of a day)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={rules.halfDayPayFraction}
+                    onChange={(e) => updateCategory(category, { halfDayPayFraction: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label>Half Days per Absence</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={rules.halfDaysPerAbsence}
+                    onChange={(e) => updateCategory(category, { halfDaysPerAbsence: parseInt(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`paid-off-${category}`}>Weekly off day is paid</Label>
+                <Switch
+                  id={`paid-off-${category}`}
+                  checked={rules.paidWeeklyOff}
+                  onCheckedChange={(checked) => updateCategory(category, { paidWeeklyOff: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`ot-off-${category}`}>Overtime allowed on weekly off day</Label>
+                <Switch
+                  id={`ot-off-${category}`}
+                  checked={rules.overtimeOnWeeklyOff}
+                  onCheckedChange={(checked) => updateCategory(category, { overtimeOnWeeklyOff: checked })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Attendance Bonus Tiers</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={() => addTier(category)}>
+                    <Plus className="h-3 w-3 mr-1" />
+                    Tier
+                  </Button>
+                </div>
+                {rules.bonusTiers.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No attendance bonus</p>
+                )}
+                {rules.bonusTiers.map((tier, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">Up to</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className="w-20"
+                      value={tier.maxAbsences}
+                      onChange={(e) => updateTier(category, index, "maxAbsences", e.target.value)}
+                    />
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">absences: Rs.</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-28"
+                      value={tier.amount}
+                      onChange={(e) => updateTier(category, index, "amount", e.target.value)}
+                    />
+                    <Button type="button" variant="ghost" size="sm" onClick={() => removeTier(category, index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div>
+        <Label htmlFor="rules-notes">Notes (optional)</Label>
+        <Textarea
+          id="rules-notes"
+          value={draft.notes}
+          onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          placeholder="Reason for the change"
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? "Saving..." : "Save as New Version"}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-semibold">History</h4>
+        <p className="text-xs text-muted-foreground">
+          Versions are never changed. Each month is paid with the latest version effective on or before its first day.
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Effective From</TableHead>
+              <TableHead>Weekly Off</TableHead>
+              <TableHead>Saved By</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ruleSets.map(ruleSet => (
+              <TableRow key={ruleSet.id}>
+                <TableCell>
+                  v{ruleSet.version}
+                  {inForce?.id === ruleSet.id && <Badge variant="secondary" className="ml-2">In force</Badge>}
+                </TableCell>
+                <TableCell>
+                  {ruleSet.name}
+                  {ruleSet.notes && <p className="text-xs text-muted-foreground">{ruleSet.notes}</p>}
+                </TableCell>
+                <TableCell>{ruleSet.effectiveFrom}</TableCell>
+                <TableCell>{WEEKDAY_LABELS[ruleSet.weeklyOffDay]}</TableCell>
+                <TableCell>{ruleSet.createdBy || "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
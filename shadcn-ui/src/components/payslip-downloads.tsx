@@ -0,0 +1,163 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AttendanceRecord, PayrollRuleSet, PayrollRun, PayrollRunStatus, Worker } from "@/types";
+import { getPayrollRuleSets } from "@/lib/payroll-rules";
+import { getAdvanceLedger, AdvanceLedger, EMPTY_ADVANCE_LEDGER } from "@/lib/advances";
+import { getLeaveCalendar, LeaveCalendar, EMPTY_LEAVE_CALENDAR } from "@/lib/leave";
+import { getRosterSchedule, RosterSchedule, EMPTY_ROSTER_SCHEDULE } from "@/lib/roster";
+import { getPayrollRunForMonth, getPayrollMonthKey, isWorkerInPayrollMonth } from "@/lib/payroll-runs";
+import { buildPayslipDocument, downloadPayslipPdf, downloadBulkPayslipPdf } from "@/lib/payslip-pdf";
+import { getCurrentMonthYear } from "@/lib/salary-calculator";
+import { Download, FileText } from "lucide-react";
+import { toast } from "sonner";
+
+interface PayslipDownloadsProps {
+  workers: Worker[];
+  attendanceRecords: AttendanceRecord[];
+  workerDefaultOvertime: Record<string, boolean>;
+}
+
+function getLastMonthKey(): string {
+  const { month, year } = getCurrentMonthYear();
+  return month === 0 ? getPayrollMonthKey(11, year - 1) : getPayrollMonthKey(month - 1, year);
+}
+
+export function PayslipDownloads({ workers, attendanceRecords, workerDefaultOvertime }: PayslipDownloadsProps) {
+  const [selectedMonth, setSelectedMonth] = useState(getLastMonthKey());
+  const [ruleSets, setRuleSets] = useState<PayrollRuleSet[]>([]);
+  const [advanceLedger, setAdvanceLedger] = useState<AdvanceLedger>(EMPTY_ADVANCE_LEDGER);
+  const [leaveCalendar, setLeaveCalendar] = useState<LeaveCalendar>(EMPTY_LEAVE_CALENDAR);
+  const [rosterSchedule, setRosterSchedule] = useState<RosterSchedule>(EMPTY_ROSTER_SCHEDULE);
+  const [payrollRun, setPayrollRun] = useState<PayrollRun | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getPayrollRuleSets().then(setRuleSets);
+    getAdvanceLedger().then(setAdvanceLedger);
+    getLeaveCalendar().then(setLeaveCalendar);
+    getRosterSchedule().then(setRosterSchedule);
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    getPayrollRunForMonth(selectedMonth)
+      .then(setPayrollRun)
+      .finally(() => setLoading(false));
+  }, [selectedMonth]);
+
+  const [year, monthNumber] = selectedMonth.split("-").map(Number);
+  const month = monthNumber - 1;
+  const isLocked = payrollRun?.status === PayrollRunStatus.LOCKED;
+
+  const payrollWorkers = useMemo(
+    () => workers
+      .filter(worker => isWorkerInPayrollMonth(worker, month, year))
+      .sort((a, b) => a.employeeId.localeCompare(b.employeeId)),
+    [workers, month, year]
+  );
+
+  // Approved months print the locked figures, other months are calculated now
+  const buildDocument = (worker: Worker) => {
+    const lockedPayslip = isLocked ? payrollRun?.payslips.find(p => p.workerId === worker.id) : undefined;
+    return buildPayslipDocument(
+      worker,
+      attendanceRecords,
+      month,
+      year,
+      workerDefaultOvertime[worker.id] || false,
+      ruleSets,
+      advanceLedger,
+      leaveCalendar,
+      rosterSchedule,
+      lockedPayslip
+    );
+  };
+
+  const handleDownload = (worker: Worker) => {
+    try {
+      downloadPayslipPdf(buildDocument(worker));
+    } catch (error) {
+      console.error("Error creating payslip:", error);
+      toast.error(`Failed to create payslip for ${worker.name}`);
+    }
+  };
+
+  const handleDownloadAll = () => {
+    if (payrollWorkers.length === 0) {
+      toast.error("No workers on the payroll for this month");
+      return;
+    }
+
+    try {
+      downloadBulkPayslipPdf(payrollWorkers.map(buildDocument), selectedMonth);
+      toast.success(`Downloaded ${payrollWorkers.length} payslips`);
+    } catch (error) {
+      console.error("Error creating payslips:", error);
+      toast.error("Failed to create payslips");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <Label htmlFor="payslip-month">Month</Label>
+          <Input
+            id="payslip-month"
+            type="month"
+            value={selectedMonth}
+            onChange={(e) => e.target.value && setSelectedMonth(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleDownloadAll} disabled={loading || ruleSets.length === 0 || payrollWorkers.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Download All ({payrollWorkers.length})
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {isLocked
+          ? "Payroll for this month is approved - payslips show the locked figures."
+          : "Payroll for this month isn't approved yet - payslips are calculated from current attendance."}
+      </p>
+
+      <div className="max-h-[50vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee ID</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payrollWorkers.map(worker => (
+              <TableRow key={worker.id}>
+                <TableCell className="font-mono">{worker.employeeId}</TableCell>
+                <TableCell>
+                  {worker.name}
+                  {worker.isActive === false && <Badge variant="outline" className="ml-2 text-xs">Inactive</Badge>}
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDownload(worker)}
+                    disabled={loading || ruleSets.length === 0}
+                    title="Download payslip"
+                  >
+                    <FileText className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
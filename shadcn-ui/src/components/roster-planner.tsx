@@ -0,0 +1,368 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Shift, Worker } from "@/types";
+import {
+  RosterSchedule,
+  EMPTY_ROSTER_SCHEDULE,
+  addDays,
+  getRosterAssignment,
+  getRosterSchedule,
+  getShiftWorkingHours,
+  getWeekStart,
+  saveRosterAssignments,
+  saveShift,
+  validateShift
+} from "@/lib/roster";
+import { WEEKDAY_LABELS } from "@/lib/payroll-rules";
+import { useAuth } from "@/contexts/AuthContext";
+import { AlertCircle, ChevronLeft, ChevronRight, Pencil } from "lucide-react";
+import { toast } from "sonner";
+
+interface RosterPlannerProps {
+  workers: Worker[];
+  onChanged?: () => void;
+}
+
+// Select value for "not on the roster" (Select items can't have an empty value)
+const NO_SHIFT = "none";
+
+const EMPTY_SHIFT_FORM = { id: "", name: "", startTime: "09:00", endTime: "18:00", breakMinutes: "60", weeklyOffDay: "0", isActive: true };
+
+export function RosterPlanner({ workers, onChanged }: RosterPlannerProps) {
+  const { profile } = useAuth();
+
+  const [schedule, setSchedule] = useState<RosterSchedule>(EMPTY_ROSTER_SCHEDULE);
+  const [weekStart, setWeekStart] = useState(getWeekStart(new Date().toISOString().split("T")[0]));
+  const [selectedWorkers, setSelectedWorkers] = useState<string[]>([]);
+  const [bulkShiftId, setBulkShiftId] = useState("");
+  const [shiftForm, setShiftForm] = useState(EMPTY_SHIFT_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadSchedule = async () => {
+    setSchedule(await getRosterSchedule());
+  };
+
+  useEffect(() => {
+    loadSchedule();
+  }, []);
+
+  const activeWorkers = useMemo(
+    () => workers.filter(worker => worker.isActive !== false).sort((a, b) => a.name.localeCompare(b.name)),
+    [workers]
+  );
+  const activeShifts = schedule.shifts.filter(shift => shift.isActive);
+  const weekDates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  const afterChange = async () => {
+    await loadSchedule();
+    onChanged?.();
+  };
+
+  const assignShift = async (workerIds: string[], shiftId: string | undefined) => {
+    setSaving(true);
+    try {
+      const success = await saveRosterAssignments(workerIds, weekStart, shiftId, profile?.email);
+      if (success) {
+        const shiftName = schedule.shifts.find(shift => shift.id === shiftId)?.name;
+        toast.success(
+          `${workerIds.length} worker${workerIds.length > 1 ? "s" : ""} ${shiftName ? `rostered on ${shiftName}` : "taken off the roster"} from ${weekStart}`
+        );
+        setSelectedWorkers([]);
+        await afterChange();
+      } else {
+        toast.error("Failed to save roster");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveShift = async () => {
+    const shift = {
+      id: shiftForm.id || undefined,
+      name: shiftForm.name,
+      startTime: shiftForm.startTime,
+      endTime: shiftForm.endTime,
+      breakMinutes: parseInt(shiftForm.breakMinutes) || 0,
+      weeklyOffDay: parseInt(shiftForm.weeklyOffDay),
+      isActive: shiftForm.isActive
+    };
+
+    const validationErrors = validateShift(shift);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveShift(shift);
+      if (saved) {
+        toast.success(`Shift "${saved.name}" saved`);
+        setShiftForm(EMPTY_SHIFT_FORM);
+        await afterChange();
+      } else {
+        toast.error("Failed to save shift");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editShift = (shift: Shift) => {
+    setErrors([]);
+    setShiftForm({
+      id: shift.id,
+      name: shift.name,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      breakMinutes: String(shift.breakMinutes),
+      weeklyOffDay: String(shift.weeklyOffDay),
+      isActive: shift.isActive
+    });
+  };
+
+  return (
+    <Tabs defaultValue="roster" className="space-y-4" onValueChange={() => setErrors([])}>
+      <TabsList>
+        <TabsTrigger value="roster">Weekly Roster</TabsTrigger>
+        <TabsTrigger value="shifts">Shifts</TabsTrigger>
+      </TabsList>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {errors.map(error => <div key={error}>{error}</div>)}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <TabsContent value="roster" className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="flex items-end gap-1">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))} title="Previous week">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="space-y-1">
+              <Label>Week of</Label>
+              <Input
+                type="date"
+                value={weekStart}
+                onChange={(e) => e.target.value && setWeekStart(getWeekStart(e.target.value))}
+                className="w-40"
+              />
+            </div>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))} title="Next week">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-end gap-2 ml-auto">
+            <div className="space-y-1">
+              <Label>Roster {selectedWorkers.length} selected on</Label>
+              <Select value={bulkShiftId} onValueChange={setBulkShiftId}>
+                <SelectTrigger className="w-48"><SelectValue placeholder="Select shift" /></SelectTrigger>
+                <SelectContent>
+                  {activeShifts.map(shift => (
+                    <SelectItem key={shift.id} value={shift.id}>{shift.name} ({shift.startTime}-{shift.endTime})</SelectItem>
+                  ))}
+                  <SelectItem value={NO_SHIFT}>Not rostered</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={() => assignShift(selectedWorkers, bulkShiftId === NO_SHIFT ? undefined : bulkShiftId)}
+              disabled={saving || selectedWorkers.length === 0 || !bulkShiftId}
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          A worker stays on their shift in the following weeks until they are rostered again.
+          On their shift's weekly off day they aren't expected in and aren't offered for packing.
+        </p>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={activeWorkers.length > 0 && selectedWorkers.length === activeWorkers.length}
+                    onCheckedChange={(checked) => setSelectedWorkers(checked === true ? activeWorkers.map(worker => worker.id) : [])}
+                    aria-label="Select all workers"
+                  />
+                </TableHead>
+                <TableHead>Worker</TableHead>
+                <TableHead>Shift</TableHead>
+                {weekDates.map(date => (
+                  <TableHead key={date} className="text-center whitespace-nowrap">
+                    {WEEKDAY_LABELS[new Date(`${date}T00:00:00Z`).getUTCDay()].substring(0, 3)}
+                    <div className="text-xs font-normal">{date.substring(5)}</div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activeWorkers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground">No active workers</TableCell>
+                </TableRow>
+              )}
+              {activeWorkers.map(worker => {
+                const assignment = getRosterAssignment(schedule, worker.id, weekStart);
+                const shift = assignment?.shiftId ? schedule.shifts.find(s => s.id === assignment.shiftId) : undefined;
+                const carriedOver = assignment && assignment.weekStart !== weekStart;
+
+                return (
+                  <TableRow key={worker.id}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedWorkers.includes(worker.id)}
+                        onCheckedChange={(checked) => setSelectedWorkers(prev =>
+                          checked === true ? [...prev, worker.id] : prev.filter(id => id !== worker.id)
+                        )}
+                        aria-label={`Select ${worker.name}`}
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {worker.name}
+                      <span className="ml-2 text-xs text-muted-foreground font-mono">{worker.employeeId}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={shift?.id || NO_SHIFT}
+                        onValueChange={(value) => assignShift([worker.id], value === NO_SHIFT ? undefined : value)}
+                        disabled={saving}
+                      >
+                        <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {schedule.shifts
+                            .filter(s => s.isActive || s.id === shift?.id)
+                            .map(s => (
+                              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                            ))}
+                          <SelectItem value={NO_SHIFT}>Not rostered</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {carriedOver && (
+                        <div className="text-xs text-muted-foreground mt-1">Since week of {assignment.weekStart}</div>
+                      )}
+                    </TableCell>
+                    {weekDates.map(date => {
+                      const isOff = !!shift && new Date(`${date}T00:00:00Z`).getUTCDay() === shift.weeklyOffDay;
+                      return (
+                        <TableCell key={date} className="text-center whitespace-nowrap text-xs">
+                          {!shift ? (
+                            <span className="text-muted-foreground">-</span>
+                          ) : isOff ? (
+                            <Badge variant="outline">Off</Badge>
+                          ) : (
+                            `${shift.startTime}-${shift.endTime}`
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="shifts" className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end border rounded-md p-3">
+          <div className="space-y-1 col-span-2">
+            <Label>Name</Label>
+            <Input value={shiftForm.name} onChange={(e) => setShiftForm({ ...shiftForm, name: e.target.value })} placeholder="e.g. Morning" />
+          </div>
+          <div className="space-y-1">
+            <Label>Start</Label>
+            <Input type="time" value={shiftForm.startTime} onChange={(e) => setShiftForm({ ...shiftForm, startTime: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>End</Label>
+            <Input type="time" value={shiftForm.endTime} onChange={(e) => setShiftForm({ ...shiftForm, endTime: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>Break (min)</Label>
+            <Input type="number" min="0" value={shiftForm.breakMinutes} onChange={(e) => setShiftForm({ ...shiftForm, breakMinutes: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label>Weekly Off</Label>
+            <Select value={shiftForm.weeklyOffDay} onValueChange={(value) => setShiftForm({ ...shiftForm, weeklyOffDay: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <SelectItem key={label} value={String(day)}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {shiftForm.id && (
+            <div className="flex items-center gap-2 col-span-2">
+              <Switch checked={shiftForm.isActive} onCheckedChange={(checked) => setShiftForm({ ...shiftForm, isActive: checked })} />
+              <Label>Active (inactive shifts can't be rostered)</Label>
+            </div>
+          )}
+          <div className="flex gap-2 col-start-2 md:col-start-6 justify-end">
+            {shiftForm.id && (
+              <Button variant="outline" onClick={() => setShiftForm(EMPTY_SHIFT_FORM)}>Cancel</Button>
+            )}
+            <Button onClick={handleSaveShift} disabled={saving}>{shiftForm.id ? "Save" : "Add"}</Button>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Shift</TableHead>
+              <TableHead>Hours</TableHead>
+              <TableHead>Break</TableHead>
+              <TableHead>Working Hours</TableHead>
+              <TableHead>Weekly Off</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.shifts.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No shifts yet. Workers not on the roster use the shift start in the payroll rules.
+                </TableCell>
+              </TableRow>
+            )}
+            {schedule.shifts.map(shift => (
+              <TableRow key={shift.id} className={shift.isActive ? "" : "opacity-50"}>
+                <TableCell>
+                  {shift.name}
+                  {!shift.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                </TableCell>
+                <TableCell>{shift.startTime}-{shift.endTime}</TableCell>
+                <TableCell>{shift.breakMinutes} min</TableCell>
+                <TableCell>{getShiftWorkingHours(shift)} h</TableCell>
+                <TableCell>{WEEKDAY_LABELS[shift.weeklyOffDay]}</TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" onClick={() => editShift(shift)} title="Edit shift">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AppSection, UserProfile, UserRole } from "@/types";
+import {
+  getUserProfiles,
+  updateUserRole,
+  saveRoleSections,
+  RolePermissions,
+  ROLE_LABELS,
+  SECTION_LABELS
+} from "@/lib/access-control";
+import { useAuth } from "@/contexts/AuthContext";
+import { RefreshCw, Save, Shield, Users } from "lucide-react";
+import { toast } from "sonner";
+
+// Roles whose sections can be edited - admins always have every section
+const EDITABLE_ROLES = Object.values(UserRole).filter(role => role !== UserRole.ADMIN);
+
+export function UserManagement() {
+  const { user, permissions, refreshPermissions } = useAuth();
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draftPermissions, setDraftPermissions] = useState<RolePermissions>(permissions);
+  const [savingPermissions, setSavingPermissions] = useState(false);
+
+  const loadProfiles = async () => {
+    setLoading(true);
+    setProfiles(await getUserProfiles());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  useEffect(() => {
+    setDraftPermissions(permissions);
+  }, [permissions]);
+
+  const handleRoleChange = async (profile: UserProfile, role: UserRole) => {
+    if (profile.id === user?.id && role !== UserRole.ADMIN) {
+      toast.error("You can't remove your own admin role");
+      return;
+    }
+
+    if (await updateUserRole(profile.id, role)) {
+      setProfiles(prev => prev.map(p => (p.id === profile.id ? { ...p, role } : p)));
+      toast.success(`${profile.fullName || profile.email} is now ${ROLE_LABELS[role]}`);
+    } else {
+      toast.error("Failed to change role");
+    }
+  };
+
+  const toggleSection = (role: UserRole, section: AppSection, checked: boolean) => {
+    setDraftPermissions(prev => ({
+      ...prev,
+      [role]: checked
+        ? [...prev[role], section]
+        : prev[role].filter(s => s !== section)
+    }));
+  };
+
+  const handleSavePermissions = async () => {
+    setSavingPermissions(true);
+    const results = await Promise.all(
+      EDITABLE_ROLES.map(role => saveRoleSections(role, draftPermissions[role]))
+    );
+    await refreshPermissions();
+    setSavingPermissions(false);
+
+    if (results.every(Boolean)) {
+      toast.success("Role permissions saved");
+    } else {
+      toast.error("Some role permissions could not be saved");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Users
+              </CardTitle>
+              <CardDescription>
+                Everyone who has signed up. New accounts start as packers.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={loadProfiles} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {profiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {loading ? "Loading users..." : "No users found"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead className="w-48">Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map(profile => (
+                  <TableRow key={profile.id}>
+                    <TableCell>
+                      {profile.fullName || "-"}
+                      {profile.id === user?.id && <Badge variant="secondary" className="ml-2">You</Badge>}
+                      {!profile.role && <Badge variant="outline" className="ml-2">Awaiting role</Badge>}
+                    </TableCell>
+                    <TableCell>{profile.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={profile.role || ""}
+                        onValueChange={(value) => handleRoleChange(profile, value as UserRole)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="No role (no access)" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.values(UserRole).map(role => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="h-5 w-5" />
+            Section Permissions
+          </CardTitle>
+          <CardDescription>
+            Sections each role can open. The database enforces the same permissions, so a role
+            without a section can't read or change its data either. Admins always have every section.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Section</TableHead>
+                {EDITABLE_ROLES.map(role => (
+                  <TableHead key={role} className="text-center">{ROLE_LABELS[role]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.values(AppSection)
+                .filter(section => section !== AppSection.USERS)
+                .map(section => (
+                  <TableRow key={section}>
+                    <TableCell>{SECTION_LABELS[section]}</TableCell>
+                    {EDITABLE_ROLES.map(role => (
+                      <TableCell key={role} className="text-center">
+                        <Checkbox
+                          checked={draftPermissions[role]?.includes(section) || false}
+                          onCheckedChange={(checked) => toggleSection(role, section, checked === true)}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end">
+            <Button onClick={handleSavePermissions} disabled={savingPermissions}>
+              <Save className="h-4 w-4 mr-2" />
+              {savingPermissions ? "Saving..." : "Save Permissions"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
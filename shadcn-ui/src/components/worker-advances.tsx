@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Worker } from "@/types";
+import {
+  AdvanceLedger,
+  getAdvanceOutstanding,
+  getWorkerOutstandingBalance,
+  saveAdvance,
+  deleteAdvance,
+  validateAdvance
+} from "@/lib/advances";
+import { formatPayrollMonth } from "@/lib/payroll-runs";
+import { useAuth } from "@/contexts/AuthContext";
+import { AlertCircle, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface WorkerAdvancesProps {
+  worker: Worker;
+  ledger: AdvanceLedger;
+  onChanged?: () => void;
+}
+
+function getToday(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// Recovery starts with next month's salary by default
+function getNextMonthKey(date: string): string {
+  const [year, month] = date.split("-").map(Number);
+  const next = new Date(year, month, 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, "0")}`;
+}
+
+const EMPTY_FORM = {
+  issueDate: getToday(),
+  amount: "",
+  installmentAmount: "",
+  recoveryStartMonth: getNextMonthKey(getToday()),
+  notes: ""
+};
+
+export function WorkerAdvances({ worker, ledger, onChanged }: WorkerAdvancesProps) {
+  const { profile } = useAuth();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const advances = ledger.advances
+    .filter(advance => advance.workerId === worker.id)
+    .sort((a, b) => b.issueDate.localeCompare(a.issueDate));
+  const outstanding = getWorkerOutstandingBalance(ledger, worker.id);
+
+  const handleAdd = async () => {
+    const advance = {
+      workerId: worker.id,
+      issueDate: form.issueDate,
+      amount: parseFloat(form.amount),
+      installmentAmount: parseFloat(form.installmentAmount),
+      recoveryStartMonth: form.recoveryStartMonth,
+      notes: form.notes.trim() || undefined,
+      createdBy: profile?.email
+    };
+
+    const validationErrors = validateAdvance(advance);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveAdvance(advance);
+      if (saved) {
+        toast.success(`Advance of ₹${saved.amount.toLocaleString()} recorded for ${worker.name}`);
+        setForm(EMPTY_FORM);
+        onChanged?.();
+      } else {
+        toast.error("Failed to record advance");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (advanceId: string) => {
+    const success = await deleteAdvance(advanceId);
+    if (success) {
+      toast.success("Advance deleted");
+      onChanged?.();
+    } else {
+      toast.error("Failed to delete advance");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          Installments are deducted from salary automatically and recorded when payroll is approved.
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-muted-foreground">Outstanding</div>
+          <div className={`text-lg font-semibold ${outstanding > 0 ? "text-red-600" : ""}`}>
+            ₹{outstanding.toLocaleString()}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-h-[35vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Issued</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Installment</TableHead>
+              <TableHead>Recovery From</TableHead>
+              <TableHead>Recovered</TableHead>
+              <TableHead>Outstanding</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {advances.map(advance => {
+              const recoveries = ledger.recoveries.filter(r => r.advanceId === advance.id);
+              const advanceOutstanding = getAdvanceOutstanding(ledger, advance);
+
+              return (
+                <TableRow key={advance.id}>
+                  <TableCell>
+                    {advance.issueDate}
+                    {advance.notes && <div className="text-xs text-muted-foreground">{advance.notes}</div>}
+                  </TableCell>
+                  <TableCell>₹{advance.amount.toLocaleString()}</TableCell>
+                  <TableCell>₹{advance.installmentAmount.toLocaleString()}/month</TableCell>
+                  <TableCell>{formatPayrollMonth(advance.recoveryStartMonth)}</TableCell>
+                  <TableCell>
+                    <span title={recoveries.map(r => `${formatPayrollMonth(r.month)}: ₹${r.amount.toLocaleString()}`).join("\n")}>
+                      {recoveries.length} installment{recoveries.length === 1 ? "" : "s"}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {advanceOutstanding > 0
+                      ? <span className="font-medium text-red-600">₹{advanceOutstanding.toLocaleString()}</span>
+                      : <Badge variant="secondary">Recovered</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {recoveries.length === 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(advance.id)}
+                        title="Delete advance entered by mistake"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {advances.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No advances given to {worker.name}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="border rounded-md p-4 space-y-4">
+        <div className="font-medium">New Advance</div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="advance-issue-date">Issue Date *</Label>
+            <Input
+              id="advance-issue-date"
+              type="date"
+              value={form.issueDate}
+              onChange={(e) => setForm({
+                ...form,
+                issueDate: e.target.value,
+                recoveryStartMonth: e.target.value ? getNextMonthKey(e.target.value) : form.recoveryStartMonth
+              })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="advance-recovery-start">Recover From *</Label>
+            <Input
+              id="advance-recovery-start"
+              type="month"
+              value={form.recoveryStartMonth}
+              onChange={(e) => setForm({ ...form, recoveryStartMonth: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="advance-amount">Amount (₹) *</Label>
+            <Input
+              id="advance-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.amount}
+              onChange={(e) => setForm({ ...form, amount: e.target.value })}
+              placeholder="0"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="advance-installment">Monthly Installment (₹) *</Label>
+            <Input
+              id="advance-installment"
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.installmentAmount}
+              onChange={(e) => setForm({ ...form, installmentAmount: e.target.value })}
+              placeholder={form.amount || "0"}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="advance-notes">Notes</Label>
+          <Input
+            id="advance-notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder="e.g. Medical emergency"
+          />
+        </div>
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleAdd} disabled={saving}>
+            <Plus className="h-4 w-4 mr-2" />
+            {saving ? "Saving..." : "Add Advance"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Worker } from "@/types";
+import { getWorkerBadgeTokens, reissueWorkerBadge } from "@/lib/worker-badges";
+import { downloadWorkerBadgesPdf } from "@/lib/worker-badge-pdf";
+import { Printer, RefreshCw, Search } from "lucide-react";
+import { toast } from "sonner";
+
+interface WorkerBadgesProps {
+  workers: Worker[];
+}
+
+export function WorkerBadges({ workers }: WorkerBadgesProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const [printing, setPrinting] = useState(false);
+  const [reissueWorker, setReissueWorker] = useState<Worker | null>(null);
+
+  // Workers who left don't get badges (their badges stop working too)
+  const activeWorkers = useMemo(
+    () => workers
+      .filter(worker => worker.isActive !== false)
+      .sort((a, b) => a.employeeId.localeCompare(b.employeeId)),
+    [workers]
+  );
+
+  const visibleWorkers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return activeWorkers;
+    return activeWorkers.filter(worker =>
+      worker.name.toLowerCase().includes(term) ||
+      worker.employeeId.toLowerCase().includes(term) ||
+      (worker.department || "").toLowerCase().includes(term)
+    );
+  }, [activeWorkers, search]);
+
+  const allVisibleSelected = visibleWorkers.length > 0 && visibleWorkers.every(worker => selectedIds.includes(worker.id));
+
+  const toggleAllVisible = (checked: boolean) => {
+    const visibleIds = visibleWorkers.map(worker => worker.id);
+    setSelectedIds(prev => checked
+      ? Array.from(new Set([...prev, ...visibleIds]))
+      : prev.filter(id => !visibleIds.includes(id)));
+  };
+
+  const printBadges = async (badgeWorkers: Worker[]) => {
+    setPrinting(true);
+    try {
+      const tokens = await getWorkerBadgeTokens(badgeWorkers.map(worker => worker.id));
+      const badges = badgeWorkers
+        .filter(worker => tokens[worker.id])
+        .map(worker => ({ worker, token: tokens[worker.id] }));
+
+      if (badges.length === 0) {
+        toast.error("Could not issue badges. Check that CREATE_WORKER_BADGES.sql has been run.");
+        return;
+      }
+
+      await downloadWorkerBadgesPdf(badges);
+      if (badges.length < badgeWorkers.length) {
+        toast.warning(`${badgeWorkers.length - badges.length} worker(s) are not saved in the database and were skipped`);
+      } else {
+        toast.success(`Created ${badges.length} badge${badges.length === 1 ? "" : "s"}`);
+      }
+    } catch (error) {
+      console.error("Error creating badges:", error);
+      toast.error("Failed to create badges");
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const handleReissue = async () => {
+    if (!reissueWorker) return;
+
+    const success = await reissueWorkerBadge(reissueWorker.id);
+    if (success) {
+      toast.success(`Old badges of ${reissueWorker.name} no longer work`);
+      await printBadges([reissueWorker]);
+    } else {
+      toast.error("Failed to reissue badge");
+    }
+    setReissueWorker(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, ID or department"
+            className="pl-8"
+          />
+        </div>
+        <Button
+          onClick={() => printBadges(activeWorkers.filter(worker => selectedIds.includes(worker.id)))}
+          disabled={printing || selectedIds.length === 0}
+        >
+          <Printer className="h-4 w-4 mr-2" />
+          {printing ? "Creating..." : `Print Selected (${selectedIds.length})`}
+        </Button>
+      </div>
+
+      <div className="max-h-[50vh] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox checked={allVisibleSelected} onCheckedChange={(checked) => toggleAllVisible(checked === true)} />
+              </TableHead>
+              <TableHead>Employee ID</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleWorkers.map(worker => (
+              <TableRow key={worker.id}>
+                <TableCell>
+                  <Checkbox
+                    checked={selectedIds.includes(worker.id)}
+                    onCheckedChange={(checked) => setSelectedIds(prev => checked === true
+                      ? [...prev, worker.id]
+                      : prev.filter(id => id !== worker.id))}
+                  />
+                </TableCell>
+                <TableCell className="font-mono">{worker.employeeId}</TableCell>
+                <TableCell>{worker.name}</TableCell>
+                <TableCell>{worker.department || "-"}</TableCell>
+                <TableCell>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => printBadges([worker])} disabled={printing} title="Print badge">
+                      <Printer className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setReissueWorker(worker)} disabled={printing} title="Replace a lost badge">
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={reissueWorker !== null} onOpenChange={(open) => !open && setReissueWorker(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Replace badge for {reissueWorker?.name}?</DialogTitle>
+            <DialogDescription>
+              A new badge will be created and every badge printed before it will stop working.
+              Use this when a badge is lost or stolen.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReissueWorker(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleReissue} disabled={printing}>Replace Badge</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
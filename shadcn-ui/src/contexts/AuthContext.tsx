@@ -1,51 +1,105 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import {
+  canAccessSection,
+  DEFAULT_ROLE_PERMISSIONS,
+  getRolePermissions,
+  getUserProfile,
+  RolePermissions
+} from '@/lib/access-control';
+import { AppSection, UserProfile, UserRole } from '@/types';
 
 interface AuthContextType {
+  user: User | null;
+  profile: UserProfile | null;
+  loading: boolean;
   isAuthenticated: boolean;
-  login: (password: string) => boolean;
-  logout: () => void;
-  hasFullAccess: boolean;
+  hasFullAccess: boolean; // Admin role
+  permissions: RolePermissions;
+  canAccess: (section: AppSection) => boolean;
+  login: (email: string, password: string) => Promise<string | null>;
+  signUp: (email: string, password: string, fullName: string) => Promise<string | null>;
+  logout: () => Promise<void>;
+  refreshPermissions: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// You can change this password as needed
-const ADMIN_PASSWORD = 'admin123';
-
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
-  const [hasFullAccess, setHasFullAccess] = useState<boolean>(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [permissions, setPermissions] = useState<RolePermissions>(DEFAULT_ROLE_PERMISSIONS);
+  const [loading, setLoading] = useState<boolean>(true);
 
-  useEffect(() => {
-    // Check if user was previously authenticated (stored in sessionStorage)
-    const authStatus = sessionStorage.getItem('auth-status');
-    if (authStatus === 'full-access') {
-      setIsAuthenticated(true);
-      setHasFullAccess(true);
+  const loadAccess = useCallback(async (sessionUser: User | null) => {
+    setUser(sessionUser);
+    if (!sessionUser) {
+      setProfile(null);
+      setLoading(false);
+      return;
     }
+
+    const [userProfile, rolePermissions] = await Promise.all([
+      getUserProfile(sessionUser.id),
+      getRolePermissions()
+    ]);
+    setProfile(userProfile);
+    setPermissions(rolePermissions);
+    setLoading(false);
   }, []);
 
-  const login = (password: string): boolean => {
-    if (password === ADMIN_PASSWORD) {
-      setIsAuthenticated(true);
-      setHasFullAccess(true);
-      sessionStorage.setItem('auth-status', 'full-access');
-      return true;
-    }
-    return false;
+  useEffect(() => {
+    // Restore the session persisted by Supabase Auth, then follow sign-in/sign-out
+    supabase.auth.getSession().then(({ data }) => loadAccess(data.session?.user ?? null));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+        // Defer so Supabase queries don't run inside the auth callback
+        setTimeout(() => loadAccess(session?.user ?? null), 0);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [loadAccess]);
+
+  const login = async (email: string, password: string): Promise<string | null> => {
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    return error ? error.message : null;
+  };
+
+  const signUp = async (email: string, password: string, fullName: string): Promise<string | null> => {
+    // New accounts get a profile without a role, so they can't open anything until an admin grants one
+    const { error } = await supabase.auth.signUp({
+      email: email.trim(),
+      password,
+      options: { data: { full_name: fullName.trim() } }
+    });
+    return error ? error.message : null;
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
-    setHasFullAccess(false);
-    sessionStorage.removeItem('auth-status');
+  const logout = async () => {
+    await supabase.auth.signOut();
   };
 
+  const refreshPermissions = async () => {
+    setPermissions(await getRolePermissions());
+  };
+
+  const canAccess = (section: AppSection) => canAccessSection(permissions, profile?.role, section);
+
   const value = {
-    isAuthenticated,
+    user,
+    profile,
+    loading,
+    isAuthenticated: !!user,
+    hasFullAccess: profile?.role === UserRole.ADMIN,
+    permissions,
+    canAccess,
     login,
+    signUp,
     logout,
-    hasFullAccess,
+    refreshPermissions,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -57,4 +111,4 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within an AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
@@ -0,0 +1,215 @@
+import { supabase } from './supabase'
+import { AppSection, UserRole } from '@/types'
+import type { UserProfile } from '@/types'
+
+const PROFILES_TABLE = 'app_070c516bb6_user_profiles'
+const ROLE_PERMISSIONS_TABLE = 'app_070c516bb6_role_permissions'
+
+export type RolePermissions = Record<UserRole, AppSection[]>
+
+export interface SupabaseUserProfile {
+  id: string
+  email: string
+  full_name?: string | null
+  role?: string | null
+  created_at: string
+  updated_at?: string
+}
+
+export interface SupabaseRolePermission {
+  role: string
+  section: string
+}
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.PACKER]: 'Packer',
+  [UserRole.SUPERVISOR]: 'Supervisor',
+  [UserRole.HR]: 'HR',
+  [UserRole.QA]: 'QA',
+  [UserRole.ADMIN]: 'Admin'
+}
+
+export const SECTION_LABELS: Record<AppSection, string> = {
+  [AppSection.DASHBOARD]: 'Dashboard',
+  [AppSection.GENERATOR]: 'Generator',
+  [AppSection.LIST]: 'Package List',
+  [AppSection.SCANNER]: 'Scanner',
+  [AppSection.ATTENDANCE]: 'Attendance',
+  [AppSection.KIOSK]: 'Clock In Kiosk',
+  [AppSection.HYGIENE]: 'Hygiene Records',
+  [AppSection.LAB_TESTS]: 'Lab Tests',
+  [AppSection.PAYROLL]: 'Payroll',
+  [AppSection.USERS]: 'Users & Roles'
+}
+
+// Same matrix as seeded by CREATE_ROLE_BASED_ACCESS.sql - used until the table is readable
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  [UserRole.PACKER]: [AppSection.SCANNER],
+  [UserRole.SUPERVISOR]: [AppSection.DASHBOARD, AppSection.GENERATOR, AppSection.LIST, AppSection.SCANNER, AppSection.ATTENDANCE, AppSection.KIOSK],
+  [UserRole.HR]: [AppSection.DASHBOARD, AppSection.ATTENDANCE, AppSection.KIOSK, AppSection.PAYROLL],
+  [UserRole.QA]: [AppSection.DASHBOARD, AppSection.SCANNER, AppSection.HYGIENE, AppSection.LAB_TESTS],
+  [UserRole.ADMIN]: Object.values(AppSection)
+}
+
+// Convert Supabase profile row to UserProfile type
+function convertToUserProfile(row: SupabaseUserProfile): UserProfile {
+  return {
+    id: row.id,
+    email: row.email,
+    fullName: row.full_name || undefined,
+    role: (row.role as UserRole) || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+/**
+ * Check whether a role may open a section. Admins can always open every section,
+ * so a bad permission edit can't lock everyone out.
+ */
+export function canAccessSection(permissions: RolePermissions, role: UserRole | undefined, section: AppSection): boolean {
+  if (!role) {
+    return false
+  }
+  if (role === UserRole.ADMIN) {
+    return true
+  }
+  return (permissions[role] || []).includes(section)
+}
+
+/**
+ * Get the profile (and so the role) of a signed-in user
+ */
+export async function getUserProfile(userId: string): Promise<UserProfile | null> {
+  try {
+    const { data, error } = await supabase
+      .from(PROFILES_TABLE)
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('❌ Error fetching user profile:', error)
+      return null
+    }
+
+    return data ? convertToUserProfile(data) : null
+  } catch (error) {
+    console.error('❌ Error in getUserProfile:', error)
+    return null
+  }
+}
+
+/**
+ * Get all user profiles (admins only - RLS returns just the caller's own profile to everyone else)
+ */
+export async function getUserProfiles(): Promise<UserProfile[]> {
+  try {
+    const { data, error } = await supabase
+      .from(PROFILES_TABLE)
+      .select('*')
+      .order('email')
+
+    if (error) {
+      console.error('❌ Error fetching user profiles:', error)
+      return []
+    }
+
+    return (data || []).map(convertToUserProfile)
+  } catch (error) {
+    console.error('❌ Error in getUserProfiles:', error)
+    return []
+  }
+}
+
+/**
+ * Change a user's role (admins only)
+ */
+export async function updateUserRole(userId: string, role: UserRole): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(PROFILES_TABLE)
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+
+    if (error) {
+      console.error('❌ Error updating user role:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in updateUserRole:', error)
+    return false
+  }
+}
+
+/**
+ * Get the section permissions of every role, falling back to the defaults
+ */
+export async function getRolePermissions(): Promise<RolePermissions> {
+  try {
+    const { data, error } = await supabase
+      .from(ROLE_PERMISSIONS_TABLE)
+      .select('role, section')
+
+    if (error || !data || data.length === 0) {
+      if (error) {
+        console.warn('⚠️ Could not load role permissions, using defaults:', error.message)
+      }
+      return DEFAULT_ROLE_PERMISSIONS
+    }
+
+    const permissions = Object.values(UserRole).reduce((acc, role) => {
+      acc[role] = []
+      return acc
+    }, {} as RolePermissions)
+
+    for (const row of data as SupabaseRolePermission[]) {
+      const role = row.role as UserRole
+      if (permissions[role]) {
+        permissions[role].push(row.section as AppSection)
+      }
+    }
+
+    return permissions
+  } catch (error) {
+    console.error('❌ Error in getRolePermissions:', error)
+    return DEFAULT_ROLE_PERMISSIONS
+  }
+}
+
+/**
+ * Replace the section permissions of a role (admins only)
+ */
+export async function saveRoleSections(role: UserRole, sections: AppSection[]): Promise<boolean> {
+  try {
+    const { error: deleteError } = await supabase
+      .from(ROLE_PERMISSIONS_TABLE)
+      .delete()
+      .eq('role', role)
+
+    if (deleteError) {
+      console.error('❌ Error clearing role permissions:', deleteError)
+      return false
+    }
+
+    if (sections.length === 0) {
+      return true
+    }
+
+    const { error } = await supabase
+      .from(ROLE_PERMISSIONS_TABLE)
+      .insert(sections.map(section => ({ role, section })))
+
+    if (error) {
+      console.error('❌ Error saving role permissions:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in saveRoleSections:', error)
+    return false
+  }
+}
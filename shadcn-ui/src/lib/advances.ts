@@ -0,0 +1,325 @@
+/**
+ * Advances ledger: salary advances and loans given to workers, each recovered from salary in
+ * monthly installments. Installments due for a month are deducted by the salary calculator;
+ * when the month's payroll is approved the recovered installments are recorded against each advance.
+ */
+import { supabase } from './supabase'
+import type { AdvanceRecovery, WorkerAdvance } from '@/types'
+
+const ADVANCES_TABLE = 'app_070c516bb6_worker_advances'
+const RECOVERIES_TABLE = 'app_070c516bb6_advance_recoveries'
+
+export interface SupabaseWorkerAdvance {
+  id: string
+  worker_id: string
+  issue_date: string
+  amount: number
+  installment_amount: number
+  recovery_start_month: string
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export interface SupabaseAdvanceRecovery {
+  id: string
+  advance_id: string
+  worker_id: string
+  month: string
+  amount: number
+  payroll_run_id?: string | null
+  created_at: string
+}
+
+export interface AdvanceLedger {
+  advances: WorkerAdvance[]
+  recoveries: AdvanceRecovery[]
+}
+
+export interface AdvanceDeduction {
+  advanceId: string
+  amount: number
+}
+
+export interface WorkerAdvanceSummary {
+  issuedThisMonth: number
+  issuedLastMonth: number
+  deduction: number // Installments due (or recovered) this month
+  balanceAfterDeduction: number // Outstanding at the end of the month
+}
+
+export const EMPTY_ADVANCE_LEDGER: AdvanceLedger = { advances: [], recoveries: [] }
+
+// Convert Supabase row to WorkerAdvance type (numeric columns can come back as strings)
+function convertToAdvance(row: SupabaseWorkerAdvance): WorkerAdvance {
+  return {
+    id: row.id,
+    workerId: row.worker_id,
+    issueDate: row.issue_date,
+    amount: Number(row.amount),
+    installmentAmount: Number(row.installment_amount),
+    recoveryStartMonth: row.recovery_start_month,
+    notes: row.notes || undefined,
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at
+  }
+}
+
+// Convert Supabase row to AdvanceRecovery type
+function convertToRecovery(row: SupabaseAdvanceRecovery): AdvanceRecovery {
+  return {
+    id: row.id,
+    advanceId: row.advance_id,
+    workerId: row.worker_id,
+    month: row.month,
+    amount: Number(row.amount),
+    payrollRunId: row.payroll_run_id || undefined,
+    createdAt: row.created_at
+  }
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function getPreviousMonthKey(monthKey: string): string {
+  const [year, month] = monthKey.split('-').map(Number)
+  const previous = new Date(year, month - 2, 1)
+  return `${previous.getFullYear()}-${String(previous.getMonth() + 1).padStart(2, '0')}`
+}
+
+// A worker's advances, oldest first - installments are recovered in this order
+function getWorkerAdvances(ledger: AdvanceLedger, workerId: string): WorkerAdvance[] {
+  return ledger.advances
+    .filter(advance => advance.workerId === workerId)
+    .sort((a, b) => a.issueDate.localeCompare(b.issueDate) || a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Outstanding amount of an advance. With `beforeMonth` (YYYY-MM) only installments recovered
+ * in earlier months are counted.
+ */
+export function getAdvanceOutstanding(ledger: AdvanceLedger, advance: WorkerAdvance, beforeMonth?: string): number {
+  const recovered = ledger.recoveries
+    .filter(r => r.advanceId === advance.id && (!beforeMonth || r.month < beforeMonth))
+    .reduce((sum, r) => sum + r.amount, 0)
+  return roundAmount(Math.max(0, advance.amount - recovered))
+}
+
+/**
+ * Total a worker still owes across all advances
+ */
+export function getWorkerOutstandingBalance(ledger: AdvanceLedger, workerId: string): number {
+  return roundAmount(
+    getWorkerAdvances(ledger, workerId).reduce((sum, advance) => sum + getAdvanceOutstanding(ledger, advance), 0)
+  )
+}
+
+/**
+ * Installments to deduct from a worker's salary for a month (YYYY-MM).
+ * If the month's recoveries were already recorded (payroll approved) those are returned.
+ * Otherwise every advance whose recovery has started contributes its installment, capped by
+ * what is still outstanding, oldest advance first, and the total is capped at `maxAmount`
+ * (the salary earned) so pay never goes negative. The rest is recovered in later months.
+ */
+export function getAdvanceDeductionsForMonth(
+  ledger: AdvanceLedger,
+  workerId: string,
+  monthKey: string,
+  maxAmount: number = Infinity
+): AdvanceDeduction[] {
+  const recorded = ledger.recoveries.filter(r => r.workerId === workerId && r.month === monthKey)
+  if (recorded.length > 0) {
+    return recorded.map(r => ({ advanceId: r.advanceId, amount: r.amount }))
+  }
+
+  const deductions: AdvanceDeduction[] = []
+  let remaining = Math.max(0, maxAmount)
+
+  for (const advance of getWorkerAdvances(ledger, workerId)) {
+    if (advance.recoveryStartMonth > monthKey || remaining <= 0) continue
+
+    const due = roundAmount(Math.min(advance.installmentAmount, getAdvanceOutstanding(ledger, advance, monthKey), remaining))
+    if (due > 0) {
+      deductions.push({ advanceId: advance.id, amount: due })
+      remaining -= due
+    }
+  }
+
+  return deductions
+}
+
+/**
+ * Advance figures for a worker's payslip in a month (YYYY-MM)
+ */
+export function getWorkerAdvanceSummary(
+  ledger: AdvanceLedger,
+  workerId: string,
+  monthKey: string,
+  maxDeduction: number = Infinity
+): WorkerAdvanceSummary {
+  const advances = getWorkerAdvances(ledger, workerId)
+  const lastMonthKey = getPreviousMonthKey(monthKey)
+  const deduction = roundAmount(
+    getAdvanceDeductionsForMonth(ledger, workerId, monthKey, maxDeduction).reduce((sum, d) => sum + d.amount, 0)
+  )
+  const outstandingBefore = advances
+    .filter(advance => advance.issueDate.substring(0, 7) <= monthKey)
+    .reduce((sum, advance) => sum + getAdvanceOutstanding(ledger, advance, monthKey), 0)
+
+  return {
+    issuedThisMonth: roundAmount(advances.filter(a => a.issueDate.startsWith(monthKey)).reduce((sum, a) => sum + a.amount, 0)),
+    issuedLastMonth: roundAmount(advances.filter(a => a.issueDate.startsWith(lastMonthKey)).reduce((sum, a) => sum + a.amount, 0)),
+    deduction,
+    balanceAfterDeduction: roundAmount(Math.max(0, outstandingBefore - deduction))
+  }
+}
+
+/**
+ * Check an advance before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validateAdvance(advance: Pick<WorkerAdvance, 'issueDate' | 'amount' | 'installmentAmount' | 'recoveryStartMonth'>): string[] {
+  const errors: string[] = []
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(advance.issueDate)) {
+    errors.push('Issue date is required')
+  }
+  if (!(advance.amount > 0)) {
+    errors.push('Amount must be greater than 0')
+  }
+  if (!(advance.installmentAmount > 0)) {
+    errors.push('Monthly installment must be greater than 0')
+  } else if (advance.installmentAmount > advance.amount) {
+    errors.push('Monthly installment cannot be more than the amount')
+  }
+  if (!/^\d{4}-\d{2}$/.test(advance.recoveryStartMonth)) {
+    errors.push('Recovery start month is required')
+  } else if (advance.recoveryStartMonth < advance.issueDate.substring(0, 7)) {
+    errors.push('Recovery cannot start before the advance is issued')
+  }
+
+  return errors
+}
+
+/**
+ * Get all advances and recovered installments
+ */
+export async function getAdvanceLedger(): Promise<AdvanceLedger> {
+  try {
+    const [advancesResult, recoveriesResult] = await Promise.all([
+      supabase.from(ADVANCES_TABLE).select('*').order('issue_date', { ascending: true }),
+      supabase.from(RECOVERIES_TABLE).select('*').order('month', { ascending: true })
+    ])
+
+    if (advancesResult.error) {
+      console.error('❌ Error fetching advances:', advancesResult.error)
+    }
+    if (recoveriesResult.error) {
+      console.error('❌ Error fetching advance recoveries:', recoveriesResult.error)
+    }
+
+    return {
+      advances: (advancesResult.data || []).map(convertToAdvance),
+      recoveries: (recoveriesResult.data || []).map(convertToRecovery)
+    }
+  } catch (error) {
+    console.error('❌ Error in getAdvanceLedger:', error)
+    return EMPTY_ADVANCE_LEDGER
+  }
+}
+
+/**
+ * Record a new advance
+ */
+export async function saveAdvance(advance: Omit<WorkerAdvance, 'id' | 'createdAt'>): Promise<WorkerAdvance | null> {
+  try {
+    const { data, error } = await supabase
+      .from(ADVANCES_TABLE)
+      .insert({
+        worker_id: advance.workerId,
+        issue_date: advance.issueDate,
+        amount: advance.amount,
+        installment_amount: advance.installmentAmount,
+        recovery_start_month: advance.recoveryStartMonth,
+        notes: advance.notes || null,
+        created_by: advance.createdBy || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('❌ Error saving advance:', error)
+      return null
+    }
+
+    return convertToAdvance(data)
+  } catch (error) {
+    console.error('❌ Error in saveAdvance:', error)
+    return null
+  }
+}
+
+/**
+ * Delete an advance entered by mistake. Advances with recovered installments can't be deleted.
+ */
+export async function deleteAdvance(advanceId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(ADVANCES_TABLE)
+      .delete()
+      .eq('id', advanceId)
+
+    if (error) {
+      console.error('❌ Error deleting advance:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in deleteAdvance:', error)
+    return false
+  }
+}
+
+/**
+ * Record the installments recovered by an approved payroll run. Each payslip's advance
+ * deduction is split across the worker's advances the same way it was calculated.
+ */
+export async function recordAdvanceRecoveries(
+  payrollRunId: string,
+  monthKey: string,
+  payslips: { workerId: string; advanceDeduction: number }[]
+): Promise<boolean> {
+  try {
+    const ledger = await getAdvanceLedger()
+    const rows = payslips
+      .filter(p => p.advanceDeduction > 0)
+      .flatMap(p =>
+        getAdvanceDeductionsForMonth(ledger, p.workerId, monthKey, p.advanceDeduction).map(d => ({
+          advance_id: d.advanceId,
+          worker_id: p.workerId,
+          month: monthKey,
+          amount: d.amount,
+          payroll_run_id: payrollRunId
+        }))
+      )
+
+    if (rows.length === 0) {
+      return true
+    }
+
+    const { error } = await supabase
+      .from(RECOVERIES_TABLE)
+      .upsert(rows, { onConflict: 'advance_id,month', ignoreDuplicates: true })
+
+    if (error) {
+      console.error('❌ Error recording advance recoveries:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in recordAdvanceRecoveries:', error)
+    return false
+  }
+}
@@ -6,12 +6,15 @@ import {
   getWorkerByIdFromSupabase,
   getAllAttendanceFromSupabase,
   saveAttendanceToSupabase,
+  deleteAttendanceFromSupabase,
   getAttendanceByDateFromSupabase,
   getPresentPackersFromSupabase,
   updateAttendanceInSupabase,
   toggleOvertimeInSupabase,
   hasOvertimeForDateInSupabase
 } from './supabase-service';
+import { isPayrollLockedForDate } from './payroll-runs';
+import { getRosterSchedule, isRosteredOff } from './roster';
 
 const WORKERS_STORAGE_KEY = 'workers';
 const ATTENDANCE_STORAGE_KEY = 'attendance';
@@ -165,6 +168,12 @@ export async function saveWorker(worker: Worker): Promise<boolean> {
  * Save attendance record to Supabase and localStorage
  */
 export async function saveAttendance(attendance: AttendanceRecord): Promise<boolean> {
+  // Attendance in a month with locked payroll is frozen (also enforced by the database)
+  if (await isPayrollLockedForDate(attendance.date)) {
+    console.warn('⚠️ Payroll is locked for', attendance.date.substring(0, 7), '- attendance not saved');
+    return false;
+  }
+
   try {
     // Try to save to Supabase first
     const supabaseSuccess = await saveAttendanceToSupabase(attendance);
@@ -226,6 +235,29 @@ export async function saveAttendance(attendance: AttendanceRecord): Promise<bool
   }
 }
 
+/**
+ * Delete a worker's attendance record for a date from Supabase and localStorage.
+ * The worker is then present by default again.
+ */
+export async function deleteAttendance(workerId: string, date: string): Promise<boolean> {
+  if (await isPayrollLockedForDate(date)) {
+    console.warn('⚠️ Payroll is locked for', date.substring(0, 7), '- attendance not deleted');
+    return false;
+  }
+
+  const supabaseSuccess = await deleteAttendanceFromSupabase(workerId, date);
+
+  try {
+    const attendanceRecords = await getAllAttendance();
+    const newAttendance = attendanceRecords.filter(a => !(a.workerId === workerId && a.date === date));
+    localStorage.setItem(ATTENDANCE_STORAGE_KEY, JSON.stringify(newAttendance));
+    return supabaseSuccess || newAttendance.length < attendanceRecords.length;
+  } catch (error) {
+    console.error('Error deleting attendance from localStorage:', error);
+    return supabaseSuccess;
+  }
+}
+
 /**
  * Delete a worker from Supabase and localStorage
  */
@@ -294,14 +326,22 @@ export async function getAttendanceByDate(date: string): Promise<AttendanceRecor
 }
 
 /**
- * Get present packers for a specific date from Supabase with localStorage fallback
+ * Get present packers for a specific date from Supabase with localStorage fallback.
+ * Packers on their rostered day off are left out unless their attendance was recorded for the day.
  */
 export async function getPresentPackersForDate(date: string): Promise<Worker[]> {
+  const [schedule, attendance] = await Promise.all([
+    getRosterSchedule(),
+    getAttendanceByDate(date)
+  ]);
+  const isOnShift = (worker: Worker) =>
+    attendance.some(a => a.workerId === worker.id) || !isRosteredOff(schedule, worker.id, date);
+
   try {
     // Try to get from Supabase first
     const supabasePackers = await getPresentPackersFromSupabase(date);
     if (supabasePackers.length > 0) {
-      return supabasePackers;
+      return supabasePackers.filter(isOnShift);
     }
   } catch (error) {
     console.error('Error retrieving present packers from Supabase:', error);
@@ -309,10 +349,7 @@ export async function getPresentPackersForDate(date: string): Promise<Worker[]>
 
   // Fallback to localStorage
   try {
-    const [workers, attendance] = await Promise.all([
-      getAllWorkers(),
-      getAttendanceByDate(date)
-    ]);
+    const workers = await getAllWorkers();
 
     // Filter workers who are packers and present on the given date
     const presentPackers = workers.filter(worker => {
@@ -323,7 +360,7 @@ export async function getPresentPackersForDate(date: string): Promise<Worker[]>
       return !workerAttendance || workerAttendance.status === AttendanceStatus.PRESENT;
     });
 
-    return presentPackers;
+    return presentPackers.filter(isOnShift);
   } catch (error) {
     console.error('Error retrieving present packers from localStorage:', error);
     return [];
@@ -334,6 +371,10 @@ export async function getPresentPackersForDate(date: string): Promise<Worker[]>
  * Toggle overtime for a worker on a specific date
  */
 export async function toggleOvertimeForWorker(workerId: string, date: string): Promise<void> {
+  if (await isPayrollLockedForDate(date)) {
+    throw new Error(`Payroll is locked for ${date.substring(0, 7)}`);
+  }
+
   try {
     console.log('🔄 toggleOvertimeForWorker called with workerId:', workerId, 'date:', date);
 
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Barcode, PackingStatus } from '@/types';
+import {
+  CodeTemplate,
+  formatCode,
+  generateBarcodeCodes,
+  getCachedCodePrefixes,
+  getCachedCodeTemplateHistory,
+  saveCodeTemplate
+} from './barcode-generator';
+import { getAllBarcodes } from './storage';
+import { allocateCodeSerialsInSupabase } from './supabase-storage';
+
+vi.mock('./storage', () => ({ getAllBarcodes: vi.fn() }));
+vi.mock('./supabase-storage', () => ({ allocateCodeSerialsInSupabase: vi.fn() }));
+vi.mock('./supabase-service', () => ({
+  getSettingFromSupabase: vi.fn(),
+  saveSettingToSupabase: vi.fn()
+}));
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const TEMPLATE: CodeTemplate = { prefix: 'PKG', dateFormat: 'YYMM', serialWidth: 3, checkDigit: false };
+const DATE = new Date(2025, 0, 15);
+
+function barcode(code: string): Barcode {
+  return { id: code, code, description: '', qrCodeImage: '', createdAt: DATE.toISOString(), status: PackingStatus.PENDING };
+}
+
+describe('generateBarcodeCodes', () => {
+  beforeEach(() => {
+    vi.mocked(getAllBarcodes).mockResolvedValue([]);
+    vi.mocked(allocateCodeSerialsInSupabase).mockReset();
+
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value)
+    });
+  });
+
+  it('formats the block reserved on the server, sending the serial width rather than a floor', async () => {
+    vi.mocked(allocateCodeSerialsInSupabase).mockResolvedValue(12);
+
+    const codes = await generateBarcodeCodes(3, { template: TEMPLATE, date: DATE });
+
+    expect(allocateCodeSerialsInSupabase).toHaveBeenCalledWith('PKG', '2501', 3, 3);
+    expect(codes).toEqual(['PKG2501010', 'PKG2501011', 'PKG2501012']);
+  });
+
+  it('remembers the prefixes codes were generated with, for the scanners', async () => {
+    vi.mocked(allocateCodeSerialsInSupabase).mockResolvedValue(1);
+
+    await generateBarcodeCodes(1, { template: TEMPLATE, prefix: ' bulk ', date: DATE });
+
+    expect(getCachedCodePrefixes()).toEqual(['BULK']);
+  });
+
+  it('passes on the server refusing an exhausted range', async () => {
+    vi.mocked(allocateCodeSerialsInSupabase).mockRejectedValue(new Error('Serial range exhausted for prefix "PKG" and period "2501"'));
+
+    await expect(generateBarcodeCodes(1, { template: TEMPLATE, date: DATE })).rejects.toThrow('Serial range exhausted');
+  });
+
+  it('keeps the offline sequence above the codes visible on this device', async () => {
+    vi.mocked(allocateCodeSerialsInSupabase).mockResolvedValue(null);
+    vi.mocked(getAllBarcodes).mockResolvedValue([barcode(formatCode(TEMPLATE, DATE, 41))]);
+
+    expect(await generateBarcodeCodes(2, { template: TEMPLATE, date: DATE })).toEqual(['PKG2501042', 'PKG2501043']);
+  });
+
+  it('refuses offline serials that no longer fit the serial width', async () => {
+    vi.mocked(allocateCodeSerialsInSupabase).mockResolvedValue(null);
+    vi.mocked(getAllBarcodes).mockResolvedValue([barcode(formatCode(TEMPLATE, DATE, 998))]);
+
+    await expect(generateBarcodeCodes(2, { template: TEMPLATE, date: DATE }))
+      .rejects.toThrow('Serial range exhausted for prefix "PKG" and period "2501"');
+    expect(await generateBarcodeCodes(1, { template: TEMPLATE, date: DATE })).toEqual(['PKG2501999']);
+  });
+});
+
+describe('saveCodeTemplate', () => {
+  it('keeps the template it replaces in the history', async () => {
+    const store = new Map<string, string>([['barcode-code-template', JSON.stringify(TEMPLATE)]]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value)
+    });
+    const changed = { ...TEMPLATE, prefix: 'PK', serialWidth: 5 };
+
+    await saveCodeTemplate(changed);
+    await saveCodeTemplate(TEMPLATE);
+
+    expect(getCachedCodeTemplateHistory()).toEqual([changed]);
+  });
+});
@@ -1,116 +1,348 @@
 /**
- * Generate a unique barcode code with a specified prefix
+ * Generate unique barcode codes from the configured code template.
+ * Serials are allocated atomically per prefix and per period through Supabase,
+ * with a local sequence as stand-in when the database cannot be reached.
  */
 import { getAllBarcodes } from './storage';
+import { allocateCodeSerialsInSupabase, getCodeSequencePrefixesFromSupabase } from './supabase-storage';
+import { getSettingFromSupabase, saveSettingToSupabase } from './supabase-service';
+import { DEFAULT_LABEL_TEMPLATES, printLabels } from './label-templates';
+import { LabelTemplate } from '@/types';
+import { buildSscc } from './gs1';
 
-export async function generateBarcodeCode(prefix: string = "PKG"): Promise<string> {
-  // Get current date in YYMMDD format
-  const today = new Date();
-  const year = today.getFullYear().toString().slice(-2); // Last 2 digits of year
-  const month = (today.getMonth() + 1).toString().padStart(2, '0');
-  const day = today.getDate().toString().padStart(2, '0');
-  const dateStr = `${year}${month}${day}`;
-  
+export type CodeDateFormat = 'YYMMDD' | 'YYYYMMDD' | 'YYMM' | 'none';
+
+export interface CodeTemplate {
+  prefix: string; // Letters/digits placed before the date, e.g. "PKG"
+  dateFormat: CodeDateFormat;
+  serialWidth: number; // Serial is zero-padded to this many digits
+  checkDigit: boolean; // Append a Luhn check digit
+}
+
+// The historical YYMMDD##### format, plus a check digit so scanners can catch misreads
+export const DEFAULT_CODE_TEMPLATE: CodeTemplate = {
+  prefix: '',
+  dateFormat: 'YYMMDD',
+  serialWidth: 5,
+  checkDigit: true
+};
+
+const CODE_TEMPLATE_SETTING_KEY = 'barcode_code_template';
+const CODE_TEMPLATE_STORAGE_KEY = 'barcode-code-template';
+const CODE_TEMPLATE_HISTORY_SETTING_KEY = 'barcode_code_template_history';
+const CODE_TEMPLATE_HISTORY_STORAGE_KEY = 'barcode-code-template-history';
+const CODE_PREFIXES_STORAGE_KEY = 'barcode-code-prefixes';
+const LOCAL_SEQUENCE_KEY_PREFIX = 'code-sequence';
+
+/**
+ * Format the date part of a code
+ */
+export function formatCodeDate(date: Date, dateFormat: CodeDateFormat): string {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+
+  switch (dateFormat) {
+    case 'YYYYMMDD':
+      return `${year}${month}${day}`;
+    case 'YYMM':
+      return `${year.slice(-2)}${month}`;
+    case 'none':
+      return '';
+    case 'YYMMDD':
+    default:
+      return `${year.slice(-2)}${month}${day}`;
+  }
+}
+
+/**
+ * Compute a Luhn (mod 10) check digit. Letters are expanded to their
+ * base-36 value first (A=10 ... Z=35), the same way ISIN check digits work.
+ */
+export function computeCheckDigit(body: string): string {
+  const digits = body
+    .toUpperCase()
+    .split('')
+    .map(char => (/[0-9]/.test(char) ? char : (/[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : '')))
+    .join('');
+
+  let sum = 0;
+  // Double every second digit starting from the rightmost one
+  for (let i = 0; i < digits.length; i++) {
+    let value = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 0) {
+      value *= 2;
+      if (value > 9) value -= 9;
+    }
+    sum += value;
+  }
+
+  return ((10 - (sum % 10)) % 10).toString();
+}
+
+/**
+ * Build a code from a template, date and serial number
+ */
+export function formatCode(template: CodeTemplate, date: Date, serial: number): string {
+  const maxSerial = Math.pow(10, template.serialWidth) - 1;
+  if (serial < 1 || serial > maxSerial) {
+    throw new Error(`Serial ${serial} does not fit in ${template.serialWidth} digits`);
+  }
+
+  const body = `${template.prefix}${formatCodeDate(date, template.dateFormat)}${serial.toString().padStart(template.serialWidth, '0')}`;
+  return template.checkDigit ? `${body}${computeCheckDigit(body)}` : body;
+}
+
+/**
+ * Get the zero-padded serial part of a code built from the given template
+ */
+export function getCodeSerialPart(template: CodeTemplate, code: string): string {
+  const end = code.length - (template.checkDigit ? 1 : 0);
+  return code.substring(end - template.serialWidth, end);
+}
+
+/**
+ * Extract the serial from a code generated with the same template and period.
+ * Returns null when the code doesn't belong to that prefix/period.
+ */
+function parseSerial(template: CodeTemplate, period: string, code: string): number | null {
+  const head = `${template.prefix}${period}`;
+  const expectedLength = head.length + template.serialWidth + (template.checkDigit ? 1 : 0);
+
+  if (!code.startsWith(head) || code.length !== expectedLength) {
+    return null;
+  }
+
+  const serial = parseInt(code.substr(head.length, template.serialWidth), 10);
+  return isNaN(serial) ? null : serial;
+}
+
+/**
+ * Get the last known code template without a network round trip (for scanners)
+ */
+export function getCachedCodeTemplate(): CodeTemplate {
+  try {
+    const storedData = localStorage.getItem(CODE_TEMPLATE_STORAGE_KEY);
+    return storedData ? { ...DEFAULT_CODE_TEMPLATE, ...JSON.parse(storedData) } : DEFAULT_CODE_TEMPLATE;
+  } catch (error) {
+    console.error('Error reading code template from local storage:', error);
+    return DEFAULT_CODE_TEMPLATE;
+  }
+}
+
+/**
+ * Get the code template, from Supabase settings with localStorage fallback
+ */
+export async function getCodeTemplate(): Promise<CodeTemplate> {
+  const saved = await getSettingFromSupabase<Partial<CodeTemplate>>(CODE_TEMPLATE_SETTING_KEY);
+  if (saved) {
+    const template = { ...DEFAULT_CODE_TEMPLATE, ...saved };
+    localStorage.setItem(CODE_TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+    return template;
+  }
+
+  return getCachedCodeTemplate();
+}
+
+function readCachedList<T>(key: string): T[] {
+  try {
+    const storedData = localStorage.getItem(key);
+    const list = storedData ? JSON.parse(storedData) : [];
+    return Array.isArray(list) ? list : [];
+  } catch (error) {
+    console.error(`Error reading ${key} from local storage:`, error);
+    return [];
+  }
+}
+
+/**
+ * Templates in use before the current one, newest first, without a network round trip (for scanners).
+ * Labels printed with them are still in circulation.
+ */
+export function getCachedCodeTemplateHistory(): CodeTemplate[] {
+  return readCachedList<Partial<CodeTemplate>>(CODE_TEMPLATE_HISTORY_STORAGE_KEY)
+    .map(template => ({ ...DEFAULT_CODE_TEMPLATE, ...template }));
+}
+
+/**
+ * Prefixes codes have been generated with, including prefixes typed in the bulk generator,
+ * without a network round trip (for scanners)
+ */
+export function getCachedCodePrefixes(): string[] {
+  return readCachedList<string>(CODE_PREFIXES_STORAGE_KEY);
+}
+
+function rememberCodePrefixes(prefixes: string[]): void {
+  const known = new Set(getCachedCodePrefixes());
+  if (prefixes.every(prefix => known.has(prefix))) {
+    return;
+  }
+  prefixes.forEach(prefix => known.add(prefix));
+  localStorage.setItem(CODE_PREFIXES_STORAGE_KEY, JSON.stringify(Array.from(known).sort()));
+}
+
+/**
+ * Refresh the cached code template, template history and generated prefixes, so scanners on this
+ * device recognise every code in circulation even when offline later
+ */
+export async function refreshKnownCodeFormats(): Promise<void> {
+  const [, history, prefixes] = await Promise.all([
+    getCodeTemplate(),
+    getSettingFromSupabase<CodeTemplate[]>(CODE_TEMPLATE_HISTORY_SETTING_KEY),
+    getCodeSequencePrefixesFromSupabase()
+  ]);
+
+  if (history) {
+    localStorage.setItem(CODE_TEMPLATE_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  }
+  if (prefixes) {
+    rememberCodePrefixes(prefixes);
+  }
+}
+
+/**
+ * Save the code template to Supabase settings and localStorage.
+ * The template it replaces is kept in the template history.
+ */
+export async function saveCodeTemplate(template: CodeTemplate): Promise<boolean> {
+  if (!/^[A-Za-z0-9]*$/.test(template.prefix)) {
+    throw new Error('Prefix may only contain letters and digits');
+  }
+  if (template.serialWidth < 3 || template.serialWidth > 8) {
+    throw new Error('Serial width must be between 3 and 8 digits');
+  }
+
+  const [previous, savedHistory] = await Promise.all([
+    getCodeTemplate(),
+    getSettingFromSupabase<CodeTemplate[]>(CODE_TEMPLATE_HISTORY_SETTING_KEY)
+  ]);
+  const sameTemplate = (a: CodeTemplate, b: CodeTemplate) => JSON.stringify(a) === JSON.stringify(b);
+  const history = [previous, ...(savedHistory || getCachedCodeTemplateHistory())]
+    .filter((entry, index, all) => !sameTemplate(entry, template) && all.findIndex(other => sameTemplate(other, entry)) === index);
+
+  localStorage.setItem(CODE_TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+  localStorage.setItem(CODE_TEMPLATE_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  const [templateSaved, historySaved] = await Promise.all([
+    saveSettingToSupabase(CODE_TEMPLATE_SETTING_KEY, template),
+    saveSettingToSupabase(CODE_TEMPLATE_HISTORY_SETTING_KEY, history)
+  ]);
+  return templateSaved && historySaved;
+}
+
+/**
+ * Reserve serials from the per-device local sequence (used only when Supabase is unreachable)
+ */
+function allocateLocalSerials(prefix: string, period: string, count: number, serialWidth: number, floor: number): number {
+  const key = `${LOCAL_SEQUENCE_KEY_PREFIX}:${prefix}:${period}`;
+  const stored = parseInt(localStorage.getItem(key) || '0', 10) || 0;
+  const last = Math.max(stored, floor) + count;
+  if (last > Math.pow(10, serialWidth) - 1) {
+    throw new Error(`Serial range exhausted for prefix "${prefix}" and period "${period}"`);
+  }
+  localStorage.setItem(key, last.toString());
+  return last;
+}
+
+/**
+ * Reserve `count` serials from the Supabase sequence, falling back to the local one only when Supabase
+ * can't be reached. Returns the last serial.
+ * `floor` is the highest serial visible on this device; the server works out its own from the codes table.
+ * Throws when the serials of the prefix/period would no longer fit in `serialWidth` digits.
+ */
+async function allocateSerials(prefix: string, period: string, count: number, serialWidth: number, floor: number): Promise<number> {
+  const lastSerial = await allocateCodeSerialsInSupabase(prefix, period, count, serialWidth);
+  if (lastSerial === null) {
+    console.warn('Using local code sequence - codes are only unique on this device until Supabase is reachable');
+    return allocateLocalSerials(prefix, period, count, serialWidth, floor);
+  }
+  return lastSerial;
+}
+
+/**
+ * Generate `count` unique, consecutive codes.
+ * `prefix` overrides the template prefix when provided.
+ * Throws when the serial range of the prefix/period is exhausted.
+ */
+export async function generateBarcodeCodes(
+  count: number,
+  options: { prefix?: string; template?: CodeTemplate; date?: Date } = {}
+): Promise<string[]> {
+  if (count < 1) {
+    return [];
+  }
+
+  const baseTemplate = options.template || await getCodeTemplate();
+  const template: CodeTemplate = {
+    ...baseTemplate,
+    prefix: (options.prefix ?? baseTemplate.prefix).trim().toUpperCase()
+  };
+  const date = options.date || new Date();
+  const period = formatCodeDate(date, template.dateFormat);
+
+  // Highest serial already visible locally - keeps the offline sequence ahead of codes created elsewhere
+  let floor = 0;
   try {
-    // Get existing barcodes for today to determine next serial number
     const existingBarcodes = await getAllBarcodes();
-    const todayBarcodes = existingBarcodes.filter((barcode: { code: string }) => 
-      barcode.code.startsWith(dateStr)
-    );
-    
-    // Calculate next serial number (starting from 1)
-    const nextSerial = todayBarcodes.length + 1;
-    const serialStr = nextSerial.toString().padStart(5, '0');
-    
-    return `${dateStr}${serialStr}`;
+    existingBarcodes.forEach(barcode => {
+      const serial = parseSerial(template, period, barcode.code);
+      if (serial !== null && serial > floor) {
+        floor = serial;
+      }
+    });
   } catch (error) {
-    console.error('Error generating barcode code:', error);
-    // Fallback: generate with timestamp if database fails
-    const timestamp = Date.now().toString().slice(-5);
-    return `${dateStr}${timestamp}`;
+    console.error('Error reading existing codes for serial floor:', error);
   }
+
+  const lastSerial = await allocateSerials(template.prefix, period, count, template.serialWidth, floor);
+  rememberCodePrefixes([template.prefix]);
+  const firstSerial = lastSerial - count + 1;
+  const codes: string[] = [];
+  for (let serial = firstSerial; serial <= lastSerial; serial++) {
+    codes.push(formatCode(template, date, serial));
+  }
+  return codes;
 }
 
 /**
- * Print a barcode
+ * Generate a single unique barcode code.
+ * `prefix` overrides the template prefix when provided.
+ */
+export async function generateBarcodeCode(prefix?: string): Promise<string> {
+  const [code] = await generateBarcodeCodes(1, { prefix });
+  return code;
+}
+
+/**
+ * Generate `count` unique SSCCs (GS1 AI 00) for a GS1 company prefix.
+ * The serial references share the code sequence machinery under their own, never-resetting key.
+ */
+export async function generateSsccs(companyPrefix: string, count: number): Promise<string[]> {
+  if (count < 1) {
+    return [];
+  }
+
+  // The sequence is an INTEGER, so long serial references are capped at 9 digits
+  const serialWidth = Math.min(16 - companyPrefix.length, 9);
+  const lastSerial = await allocateSerials(`SSCC${companyPrefix}`, 'all', count, serialWidth, 0);
+  const ssccs: string[] = [];
+  for (let serial = lastSerial - count + 1; serial <= lastSerial; serial++) {
+    ssccs.push(buildSscc(companyPrefix, serial));
+  }
+  return ssccs;
+}
+
+/**
+ * Print a barcode label
  * @param barcodeImage The barcode image URL or data URL
  * @param barcodeText The text of the barcode
+ * @param description Optional description printed on the label
+ * @param template Label template to lay the label out with (defaults to the 50x25mm thermal label)
  */
-export function printBarcode(barcodeImage: string, barcodeText: string, description?: string): void {
-  // Create a new window for printing
-  const printWindow = window.open('', '_blank');
-  
-  if (!printWindow) {
-    alert("Could not open print window. Please check if pop-ups are blocked.");
-    return;
-  }
-  
-  // Create HTML content for printing
-  const printContent = `
-    <html>
-    <head>
-      <title>Print Barcode</title>
-      <style>
-        body {
-          font-family: Arial, sans-serif;
-          margin: 0;
-          padding: 10px;
-          display: flex;
-          justify-content: center;
-          align-items: center;
-          min-height: 100vh;
-        }
-        .barcode-container {
-          padding: 15px;
-          border: 1px dashed #ccc;
-          text-align: center;
-        }
-        .barcode-image {
-          max-width: 300px;
-          height: auto;
-        }
-        .barcode-text {
-          margin-top: 10px;
-          font-size: 16px;
-          color: #333;
-        }
-        .barcode-description {
-          margin-top: 5px;
-          font-size: 14px;
-          color: #666;
-        }
-        @media print {
-          .no-print {
-            display: none;
-          }
-          body {
-            padding: 0;
-          }
-          .barcode-container {
-            border: none;
-          }
-        }
-      </style>
-    </head>
-    <body>
-      <div class="no-print" style="position: fixed; top: 10px; right: 10px;">
-        <button onclick="window.print();" style="padding: 10px 20px; font-size: 16px;">Print Barcode</button>
-      </div>
-      
-      <div class="barcode-container">
-        <img class="barcode-image" src="${barcodeImage}" alt="Barcode: ${barcodeText}" />
-        <div class="barcode-text">${barcodeText}</div>
-        ${description ? `<div class="barcode-description">${description}</div>` : ''}
-      </div>
-    </body>
-    </html>
-  `;
-  
-  // Write to the print window
-  printWindow.document.open();
-  printWindow.document.write(printContent);
-  printWindow.document.close();
-  
-  // Focus the window for printing
-  printWindow.focus();
-}
\ No newline at end of file
+export function printBarcode(
+  barcodeImage: string,
+  barcodeText: string,
+  description?: string,
+  template: LabelTemplate = DEFAULT_LABEL_TEMPLATES[0]
+): Promise<boolean> {
+  return printLabels(template, [{ code: barcodeText, qrCodeImage: barcodeImage, description }]);
+}
@@ -0,0 +1,211 @@
+import JsBarcode from 'jsbarcode';
+import { Html5QrcodeSupportedFormats } from 'html5-qrcode';
+import { BarcodeSymbology, Gs1Data } from '@/types';
+import { generateQRCodeDataURL, generateQRCodeSVG } from './qr-generator';
+import {
+  buildGs1DigitalLink,
+  formatGs1ElementString,
+  formatGs1HumanReadable,
+  getGs1Elements,
+  GS1_GROUP_SEPARATOR,
+  parseGs1,
+  ParsedGs1
+} from './gs1';
+
+export const SYMBOLOGY_LABELS: Record<BarcodeSymbology, string> = {
+  [BarcodeSymbology.QR]: 'QR Code',
+  [BarcodeSymbology.CODE128]: 'Code 128',
+  [BarcodeSymbology.GS1_128]: 'GS1-128',
+  [BarcodeSymbology.EAN13]: 'EAN-13'
+};
+
+// Formats the camera scanners decode: QR plus the 1D symbologies we print
+export const SCAN_FORMATS: Html5QrcodeSupportedFormats[] = [
+  Html5QrcodeSupportedFormats.QR_CODE,
+  Html5QrcodeSupportedFormats.CODE_128,
+  Html5QrcodeSupportedFormats.EAN_13
+];
+
+// JsBarcode's FNC1 character, separating variable-length GS1 fields inside the symbol
+const JSBARCODE_FNC1 = String.fromCharCode(207);
+
+const LINEAR_OPTIONS = {
+  width: 2,
+  height: 80,
+  margin: 10,
+  fontSize: 16,
+  displayValue: true,
+  background: '#FFFFFF',
+  lineColor: '#000000'
+};
+
+/**
+ * Check whether a code can be encoded in a symbology. Returns an error message, or null if it can.
+ */
+export function getSymbologyError(code: string, symbology: BarcodeSymbology): string | null {
+  switch (symbology) {
+    case BarcodeSymbology.EAN13:
+      return /^\d{12}$/.test(code)
+        ? null
+        : 'EAN-13 needs a 12 digit numeric code (the 13th digit is added by EAN-13). Use a template without prefix, with a YYMMDD date, 5 digit serial and check digit.';
+    case BarcodeSymbology.GS1_128:
+      return /^[A-Za-z0-9]{1,20}$/.test(code) ? null : 'GS1-128 serial numbers are limited to 20 letters or digits';
+    case BarcodeSymbology.CODE128:
+      return /^[\x20-\x7E]+$/.test(code) ? null : 'Code 128 only supports printable ASCII characters';
+    default:
+      return null;
+  }
+}
+
+// JsBarcode arguments for a 1D symbology. GS1-128 carries the package code as serial (AI 21) after any other GS1 data.
+function getLinearOptions(code: string, symbology: BarcodeSymbology, gs1: Gs1Data = {}): { data: string; options: JsBarcode.Options } {
+  switch (symbology) {
+    case BarcodeSymbology.EAN13:
+      return { data: code, options: { ...LINEAR_OPTIONS, format: 'EAN13' } };
+    case BarcodeSymbology.GS1_128: {
+      const elements = getGs1Elements(gs1, code);
+      return {
+        data: formatGs1ElementString(elements, JSBARCODE_FNC1),
+        options: { ...LINEAR_OPTIONS, format: 'CODE128', ean128: true, text: formatGs1HumanReadable(elements) }
+      };
+    }
+    case BarcodeSymbology.CODE128:
+    default:
+      return { data: code, options: { ...LINEAR_OPTIONS, format: 'CODE128' } };
+  }
+}
+
+/**
+ * Generates a 1D barcode PNG data URL for a given text
+ *
+ * @param text The text to encode
+ * @param symbology The 1D symbology to use
+ * @param gs1 GS1 data encoded ahead of the code in GS1-128
+ * @returns A promise that resolves to the data URL of the barcode
+ */
+export async function generateLinearBarcodeDataURL(text: string, symbology: BarcodeSymbology, gs1?: Gs1Data): Promise<string> {
+  const error = getSymbologyError(text, symbology);
+  if (error) {
+    throw new Error(error);
+  }
+
+  try {
+    const canvas = document.createElement('canvas');
+    const { data, options } = getLinearOptions(text, symbology, gs1);
+    JsBarcode(canvas, data, options);
+    return canvas.toDataURL('image/png');
+  } catch (error) {
+    console.error('Error generating barcode:', error);
+    throw new Error('Failed to generate barcode');
+  }
+}
+
+/**
+ * Generates a 1D barcode SVG string for a given text
+ *
+ * @param text The text to encode
+ * @param symbology The 1D symbology to use
+ * @param gs1 GS1 data encoded ahead of the code in GS1-128
+ * @returns A promise that resolves to the SVG string of the barcode
+ */
+export async function generateLinearBarcodeSVG(text: string, symbology: BarcodeSymbology, gs1?: Gs1Data): Promise<string> {
+  const error = getSymbologyError(text, symbology);
+  if (error) {
+    throw new Error(error);
+  }
+
+  try {
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    const { data, options } = getLinearOptions(text, symbology, gs1);
+    JsBarcode(svg, data, options);
+    return new XMLSerializer().serializeToString(svg);
+  } catch (error) {
+    console.error('Error generating barcode SVG:', error);
+    throw new Error('Failed to generate barcode SVG');
+  }
+}
+
+/**
+ * Draw a 1D barcode into an existing SVG element (for rendering in React components)
+ */
+export function renderLinearBarcodeToSVG(
+  svg: SVGSVGElement,
+  text: string,
+  symbology: BarcodeSymbology,
+  height: number = LINEAR_OPTIONS.height,
+  gs1?: Gs1Data
+): boolean {
+  if (getSymbologyError(text, symbology)) {
+    return false;
+  }
+
+  try {
+    const { data, options } = getLinearOptions(text, symbology, gs1);
+    JsBarcode(svg, data, { ...options, height });
+    return true;
+  } catch (error) {
+    console.error('Error rendering barcode:', error);
+    return false;
+  }
+}
+
+/**
+ * Text encoded in a QR code: a GS1 Digital Link when the package has a GTIN or SSCC, otherwise the plain code
+ */
+export function getQRCodeContent(text: string, gs1?: Gs1Data): string {
+  return (gs1 && buildGs1DigitalLink(gs1, text)) || text;
+}
+
+/**
+ * Generates a PNG data URL in any supported symbology
+ */
+export async function generateBarcodeDataURL(text: string, symbology: BarcodeSymbology = BarcodeSymbology.QR, gs1?: Gs1Data): Promise<string> {
+  return symbology === BarcodeSymbology.QR
+    ? generateQRCodeDataURL(getQRCodeContent(text, gs1))
+    : generateLinearBarcodeDataURL(text, symbology, gs1);
+}
+
+/**
+ * Generates an SVG string in any supported symbology
+ */
+export async function generateBarcodeSVG(text: string, symbology: BarcodeSymbology = BarcodeSymbology.QR, gs1?: Gs1Data): Promise<string> {
+  return symbology === BarcodeSymbology.QR
+    ? generateQRCodeSVG(getQRCodeContent(text, gs1))
+    : generateLinearBarcodeSVG(text, symbology, gs1);
+}
+
+/**
+ * GS1 data in scanned text, if any. Code 128 scans are read as GS1 element strings because
+ * decoders drop the leading FNC1 that marks GS1-128.
+ */
+export function parseScannedGs1(text: string, formatName?: string): ParsedGs1 | null {
+  const trimmed = text.trim();
+  const parsed = parseGs1(trimmed);
+  if (parsed || formatName !== 'CODE_128' || !/^\d{2}/.test(trimmed)) {
+    return parsed;
+  }
+  return parseGs1(`]C1${trimmed}`);
+}
+
+/**
+ * Possible package codes contained in scanned text, most likely first.
+ * EAN-13 scans carry an extra EAN check digit and GS1 scans carry the code as serial number (AI 21).
+ */
+export function getScannedCodeCandidates(text: string, formatName?: string): string[] {
+  // Strip the GS1 symbology identifier and FNC1 separators some scanners pass through
+  const cleaned = text.trim().replace(/^\][A-Za-z]\d/, '').split(GS1_GROUP_SEPARATOR).join('');
+  const candidates: string[] = [];
+
+  const serial = parseScannedGs1(text, formatName)?.serial;
+  if (serial) {
+    candidates.push(serial);
+  }
+
+  if (formatName === 'EAN_13' && /^\d{13}$/.test(cleaned)) {
+    candidates.push(cleaned.slice(0, 12));
+  }
+
+  candidates.push(cleaned);
+
+  return candidates;
+}
@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AttendanceStatus, Gender } from '@/types'
+import type { AttendanceRecord, Shift, Worker } from '@/types'
+import { buildImportPreview, commitAttendanceImport, undoAttendanceImport } from './biometric-import'
+import type { AttendanceImportBatch, ImportContext, ImportDay } from './biometric-import'
+import { DEFAULT_PAYROLL_RULE_SET } from './payroll-rules'
+import { EMPTY_LEAVE_CALENDAR } from './leave'
+import { deleteAttendance, saveAttendance } from './attendance-utils'
+import { getLockedPayrollMonths } from './payroll-runs'
+
+vi.mock('./supabase', () => ({ supabase: {} }))
+vi.mock('./attendance-utils', () => ({ deleteAttendance: vi.fn(), saveAttendance: vi.fn() }))
+vi.mock('./payroll-runs', () => ({ getLockedPayrollMonths: vi.fn() }))
+vi.mock('./supabase-service', () => ({ getSettingFromSupabase: vi.fn(), saveSettingToSupabase: vi.fn() }))
+
+const WORKER: Worker = {
+  id: 'w1',
+  name: 'Ravi',
+  employeeId: 'E001',
+  isPacker: true,
+  gender: Gender.MALE,
+  createdAt: '2025-01-01T00:00:00.000Z'
+}
+
+function attendance(date: string, extra: Partial<AttendanceRecord> = {}): AttendanceRecord {
+  return {
+    id: `${WORKER.id}-${date}`,
+    workerId: WORKER.id,
+    workerName: WORKER.name,
+    date,
+    status: AttendanceStatus.PRESENT,
+    overtime: 'no',
+    createdAt: `${date}T09:00:00.000Z`,
+    ...extra
+  }
+}
+
+function importDay(date: string, existing?: AttendanceRecord): ImportDay {
+  return {
+    worker: WORKER,
+    date,
+    punches: ['09:00', '18:00'],
+    record: attendance(date, { checkInTime: '09:00', checkOutTime: '18:00' }),
+    existing,
+    change: existing ? 'conflict' : 'new',
+    differences: [],
+    locked: false
+  }
+}
+
+describe('biometric import', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+      removeItem: (key: string) => store.delete(key)
+    })
+    vi.mocked(saveAttendance).mockReset().mockResolvedValue(true)
+    vi.mocked(deleteAttendance).mockReset().mockResolvedValue(true)
+    vi.mocked(getLockedPayrollMonths).mockResolvedValue(new Set())
+  })
+
+  it('saves nothing when any day falls in a month with locked payroll', async () => {
+    vi.mocked(getLockedPayrollMonths).mockResolvedValue(new Set(['2025-02']))
+
+    const days = [importDay('2025-02-28'), importDay('2025-03-01')]
+    const result = await commitAttendanceImport(days)
+
+    expect(getLockedPayrollMonths).toHaveBeenCalledWith(true)
+    expect(result.lockedMonths).toEqual(['2025-02'])
+    expect(result.batch.entries).toEqual([])
+    expect(saveAttendance).not.toHaveBeenCalled()
+  })
+
+  it('writes the replaced record back in place and deletes only new records on undo', async () => {
+    const manual = attendance('2025-03-01', { status: AttendanceStatus.HALF_DAY })
+    const { batch } = await commitAttendanceImport([importDay('2025-03-01', manual), importDay('2025-03-02')])
+    vi.mocked(saveAttendance).mockClear()
+
+    expect(await undoAttendanceImport(batch)).toEqual({ restored: 2, failed: 0 })
+    expect(saveAttendance).toHaveBeenCalledWith({ ...manual, checkInTime: '' })
+    expect(deleteAttendance).toHaveBeenCalledTimes(1)
+    expect(deleteAttendance).toHaveBeenCalledWith(WORKER.id, '2025-03-02')
+  })
+
+  it('keeps the imported record and the undo entry when the replaced record cannot be saved', async () => {
+    const manual = attendance('2025-03-01', { checkInTime: '08:55' })
+    const batch: AttendanceImportBatch = {
+      importedAt: '2025-03-02T10:00:00.000Z',
+      entries: [{ workerId: WORKER.id, workerName: WORKER.name, date: '2025-03-01', previous: manual }]
+    }
+    vi.mocked(saveAttendance).mockResolvedValue(false)
+
+    expect(await undoAttendanceImport(batch)).toEqual({ restored: 0, failed: 1 })
+    expect(saveAttendance).toHaveBeenCalledWith(manual)
+    expect(deleteAttendance).not.toHaveBeenCalled()
+  })
+})
+
+describe('buildImportPreview on a night shift', () => {
+  const NIGHT_SHIFT: Shift = {
+    id: 'night',
+    name: 'Night',
+    startTime: '22:00',
+    endTime: '06:00',
+    breakMinutes: 30,
+    weeklyOffDay: 0,
+    isActive: true,
+    createdAt: '2025-01-01T00:00:00.000Z'
+  }
+
+  // Rostered on the night shift from Monday 2025-03-03
+  const context: ImportContext = {
+    workers: [WORKER],
+    deviceUsers: {},
+    existingRecords: [],
+    ruleSets: [DEFAULT_PAYROLL_RULE_SET],
+    schedule: {
+      shifts: [NIGHT_SHIFT],
+      assignments: [{ id: 'a1', workerId: WORKER.id, weekStart: '2025-03-03', shiftId: NIGHT_SHIFT.id, updatedAt: '' }]
+    },
+    leaveCalendar: EMPTY_LEAVE_CALENDAR,
+    lockedMonths: new Set(),
+    defaultOvertime: {},
+    markMissingAbsent: false
+  }
+
+  it('books punches after midnight on the day the shift started', () => {
+    const punches = [
+      { deviceUserId: 'E001', date: '2025-03-05', time: '07:00' },
+      { deviceUserId: 'E001', date: '2025-03-04', time: '22:00' },
+      { deviceUserId: 'E001', date: '2025-03-05', time: '21:55' },
+      { deviceUserId: 'E001', date: '2025-03-07', time: '00:30' }
+    ]
+
+    const { days } = buildImportPreview(punches, context)
+
+    expect(days.map(day => [day.date, day.punches])).toEqual([
+      ['2025-03-04', ['22:00', '07:00']],
+      ['2025-03-05', ['21:55']],
+      ['2025-03-06', ['00:30']]
+    ])
+    expect(days[0].record).toMatchObject({ checkInTime: '22:00', checkOutTime: '07:00', overtimeHours: 1 })
+    expect(days[2].record).toMatchObject({ checkInTime: '00:30', lateMinutes: 150 })
+  })
+})
@@ -0,0 +1,484 @@
+/**
+ * Import of punch logs exported from the fingerprint terminal as CSV. Device user IDs are
+ * matched to workers, each worker's punches for a day become one attendance record (first
+ * punch = check-in, last punch = check-out), and the result is previewed against attendance
+ * already recorded before it is saved. As at the clock-in kiosk, punches after midnight on a
+ * night shift belong to the day the shift started. The last import can be undone.
+ */
+import { AttendanceStatus } from '@/types'
+import type { AttendanceRecord, PayrollRuleSet, Worker } from '@/types'
+import { deleteAttendance, saveAttendance } from './attendance-utils'
+import { getSettingFromSupabase, saveSettingToSupabase } from './supabase-service'
+import { calculateLateMinutes, calculateOvertimeHours, isPreviousNightShiftScan } from './clock-in'
+import { getRuleSetForMonth } from './payroll-rules'
+import { getLockedPayrollMonths } from './payroll-runs'
+import { getLeaveDay } from './leave'
+import type { LeaveCalendar } from './leave'
+import { addDays, getRosteredShift, getShiftRules, getShiftWorkingHours, isRosteredOff } from './roster'
+import type { RosterSchedule } from './roster'
+
+const DEVICE_USERS_SETTING_KEY = 'biometric-device-users'
+const DEVICE_USERS_STORAGE_KEY = 'biometric-device-users'
+const LAST_IMPORT_STORAGE_KEY = 'attendance-last-import'
+
+// User ID column names used by terminal exports (lower case, letters only), most specific first
+const USER_ID_HEADERS = [
+  'userid', 'enrollno', 'enrollnumber', 'enrollid', 'acno', 'empcode', 'empid', 'employeeid',
+  'employeecode', 'badgenumber', 'pin', 'user', 'id'
+]
+
+// Punches this close to the first one are the same finger read twice, not a check-out
+const MIN_MINUTES_BEFORE_CHECK_OUT = 5
+
+export interface DevicePunch {
+  deviceUserId: string
+  date: string // YYYY-MM-DD
+  time: string // HH:MM
+}
+
+export interface PunchLog {
+  punches: DevicePunch[]
+  errors: string[] // Lines that couldn't be read
+}
+
+// Device user ID -> worker ID, for device IDs that don't match an employee ID
+export type DeviceUserMap = Record<string, string>
+
+export type ImportChange = 'new' | 'conflict' | 'unchanged'
+
+// One worker-day of the import, with the record it would save
+export interface ImportDay {
+  worker: Worker
+  date: string
+  punches: string[] // HH:MM, in order
+  record: AttendanceRecord
+  existing?: AttendanceRecord
+  change: ImportChange
+  differences: string[] // What the import would change in the existing record
+  locked: boolean // Payroll for the month is locked, so it can't be imported
+}
+
+export interface ImportPreview {
+  days: ImportDay[]
+  unmatchedUserIds: string[] // Device user IDs with no worker
+}
+
+export interface ImportContext {
+  workers: Worker[]
+  deviceUsers: DeviceUserMap
+  existingRecords: AttendanceRecord[]
+  ruleSets: PayrollRuleSet[]
+  schedule: RosterSchedule
+  leaveCalendar: LeaveCalendar
+  lockedMonths: Set<string>
+  defaultOvertime: Record<string, boolean>
+  markMissingAbsent: boolean // Matched workers with no punches on a working day are absent
+}
+
+// What an import changed, kept so it can be undone
+export interface AttendanceImportBatch {
+  importedAt: string
+  importedBy?: string
+  fileName?: string
+  entries: { workerId: string; workerName: string; date: string; previous?: AttendanceRecord }[]
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Split a CSV line, honouring double-quoted fields
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      fields.push(field.trim())
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field.trim())
+
+  return fields
+}
+
+/**
+ * Read a date and time from a terminal timestamp. Dates are YYYY-MM-DD or day first
+ * (DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY); times are 24-hour or with AM/PM, seconds optional.
+ */
+export function parsePunchTimestamp(value: string): { date: string; time: string } | null {
+  const match = value.trim().match(
+    /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})[T\s]+(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/
+  )
+  if (!match) {
+    return null
+  }
+
+  const [, first, month, last, hourText, minutes, meridiem] = match
+  const [year, day] = first.length === 4 ? [first, last] : [last, first]
+  let hours = Number(hourText)
+  if (meridiem) {
+    hours = (hours % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0)
+  }
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  const parsed = new Date(`${date}T00:00:00Z`)
+  if (year.length !== 4 || isNaN(parsed.getTime()) || parsed.toISOString().split('T')[0] !== date || hours > 23) {
+    return null
+  }
+
+  return { date, time: `${String(hours).padStart(2, '0')}:${minutes}` }
+}
+
+/**
+ * Read the punches from a terminal CSV export. The header row must have a user ID column
+ * (User ID, Enroll No, AC-No, Emp Code...) and either a date-time column or separate Date
+ * and Time columns. Punch direction columns are ignored: the first punch of the day is
+ * taken as the check-in and the last as the check-out.
+ */
+export function parsePunchCsv(text: string): PunchLog {
+  const lines = text.split(/\r?\n/).filter(line => line.trim())
+  if (lines.length === 0) {
+    return { punches: [], errors: ['The file is empty'] }
+  }
+
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best
+  )
+  const headers = splitCsvLine(lines[0], delimiter).map(header => header.toLowerCase().replace(/[^a-z]/g, ''))
+
+  const userColumn = USER_ID_HEADERS
+    .map(name => headers.indexOf(name))
+    .find(column => column >= 0) ?? -1
+  const dateTimeColumn = headers.findIndex(header =>
+    /^(datetime|timestamp|punchtime|checktime|logtime|attendancetime|time)$/.test(header)
+  )
+  const dateColumn = headers.findIndex(header => /^(date|punchdate|logdate)$/.test(header))
+  const timeColumn = headers.findIndex(header => /^(time|punchtime|logtime)$/.test(header))
+
+  if (userColumn < 0 || (dateTimeColumn < 0 && (dateColumn < 0 || timeColumn < 0))) {
+    return { punches: [], errors: ['No user ID and date/time columns found in the header row'] }
+  }
+
+  const punches: DevicePunch[] = []
+  const errors: string[] = []
+
+  lines.slice(1).forEach((line, index) => {
+    const fields = splitCsvLine(line, delimiter)
+    const deviceUserId = fields[userColumn] || ''
+    const stamp = dateColumn >= 0 && timeColumn >= 0 && dateColumn !== timeColumn
+      ? `${fields[dateColumn] || ''} ${fields[timeColumn] || ''}`
+      : fields[dateTimeColumn] || ''
+    const parsed = parsePunchTimestamp(stamp)
+
+    if (!deviceUserId || !parsed) {
+      errors.push(`Line ${index + 2}: could not read "${line.trim()}"`)
+      return
+    }
+    punches.push({ deviceUserId, ...parsed })
+  })
+
+  return { punches, errors }
+}
+
+/**
+ * The worker a device user ID belongs to: a saved mapping first, then a worker whose employee ID
+ * is the same, or has the same number (device "12" is employee "EMP012")
+ */
+export function findWorkerForDeviceUser(deviceUserId: string, workers: Worker[], deviceUsers: DeviceUserMap): Worker | undefined {
+  const mappedId = deviceUsers[deviceUserId]
+  if (mappedId) {
+    return workers.find(worker => worker.id === mappedId)
+  }
+
+  const value = deviceUserId.trim().toLowerCase()
+  const exact = workers.find(worker => worker.employeeId.trim().toLowerCase() === value)
+  if (exact) {
+    return exact
+  }
+
+  const number = value.replace(/\D/g, '').replace(/^0+/, '')
+  if (!number) {
+    return undefined
+  }
+  const sameNumber = workers.filter(worker => worker.employeeId.replace(/\D/g, '').replace(/^0+/, '') === number)
+  return sameNumber.length === 1 ? sameNumber[0] : undefined
+}
+
+// What importing a record would change in the existing one
+function getDifferences(existing: AttendanceRecord, record: AttendanceRecord): string[] {
+  const differences: string[] = []
+
+  if (existing.status !== record.status) {
+    differences.push(`Status ${existing.status} → ${record.status}`)
+  }
+  if ((existing.checkInTime || '') !== (record.checkInTime || '')) {
+    differences.push(`Check-in ${existing.checkInTime || '-'} → ${record.checkInTime || '-'}`)
+  }
+  if ((existing.checkOutTime || '') !== (record.checkOutTime || '')) {
+    differences.push(`Check-out ${existing.checkOutTime || '-'} → ${record.checkOutTime || '-'}`)
+  }
+  if ((existing.lateMinutes || 0) !== (record.lateMinutes || 0)) {
+    differences.push(`Late ${existing.lateMinutes || 0} → ${record.lateMinutes || 0} min`)
+  }
+  if (existing.overtime !== record.overtime) {
+    differences.push(`Overtime ${existing.overtime} → ${record.overtime}`)
+  }
+
+  return differences
+}
+
+// Attendance record for a worker's punches on a day, timed against their rostered shift
+function buildPunchRecord(worker: Worker, date: string, punches: string[], existing: AttendanceRecord | undefined, context: ImportContext): AttendanceRecord {
+  const [year, month] = date.split('-').map(Number)
+  const ruleSet = getRuleSetForMonth(context.ruleSets, month - 1, year)
+  const categoryRules = ruleSet.categories[worker.gender] || Object.values(ruleSet.categories)[0]
+  const shift = getRosteredShift(context.schedule, worker.id, date)
+  const rules = getShiftRules(categoryRules, shift)
+
+  const checkInTime = punches[0]
+  const lastPunch = punches[punches.length - 1]
+  const minutesWorked = (toMinutes(lastPunch) - toMinutes(checkInTime) + 24 * 60) % (24 * 60)
+  const checkOutTime = punches.length > 1 && minutesWorked >= MIN_MINUTES_BEFORE_CHECK_OUT ? lastPunch : undefined
+
+  // Leaving before half the working hours is a half day
+  const workingHours = shift ? getShiftWorkingHours(shift) : categoryRules.shiftHours
+  const isHalfDay = !!checkOutTime && minutesWorked < (workingHours * 60) / 2
+  const overtimeHours = checkOutTime ? calculateOvertimeHours(checkInTime, checkOutTime, rules) : undefined
+
+  return {
+    id: existing?.id || '',
+    workerId: worker.id,
+    workerName: worker.name,
+    date,
+    status: isHalfDay ? AttendanceStatus.HALF_DAY : AttendanceStatus.PRESENT,
+    overtime: overtimeHours !== undefined
+      ? (overtimeHours > 0 ? 'yes' : 'no')
+      : existing?.overtime || (context.defaultOvertime[worker.id] ? 'yes' : 'no'),
+    lateMinutes: calculateLateMinutes(checkInTime, rules),
+    checkInTime,
+    checkOutTime,
+    overtimeHours,
+    notes: existing?.notes,
+    createdAt: existing?.createdAt || new Date().toISOString()
+  }
+}
+
+/**
+ * Turn punches into attendance records per worker and day and compare them with the attendance
+ * already recorded. With `markMissingAbsent`, workers who punched on some day of the file but not
+ * on another are absent that day, unless it is their weekly off day, a holiday or approved leave.
+ */
+export function buildImportPreview(punches: DevicePunch[], context: ImportContext): ImportPreview {
+  const punchesByWorkerDay = new Map<string, { worker: Worker; date: string; times: Set<string> }>()
+  const unmatchedUserIds = new Set<string>()
+
+  // In time order, so a night shift's check-in is grouped before the punches after midnight
+  const punchesInOrder = [...punches].sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
+  punchesInOrder.forEach(punch => {
+    const worker = findWorkerForDeviceUser(punch.deviceUserId, context.workers, context.deviceUsers)
+    if (!worker) {
+      unmatchedUserIds.add(punch.deviceUserId)
+      return
+    }
+
+    // The day before while the night shift rostered that day is still on
+    const previousDate = addDays(punch.date, -1)
+    const previousTimes = punchesByWorkerDay.get(`${worker.id}|${previousDate}`)?.times
+    const date = isPreviousNightShiftScan(
+      getRosteredShift(context.schedule, worker.id, previousDate),
+      previousTimes ? { checkInTime: Array.from(previousTimes)[0] } : undefined,
+      punch.time
+    ) ? previousDate : punch.date
+
+    const key = `${worker.id}|${date}`
+    const entry = punchesByWorkerDay.get(key) || { worker, date, times: new Set<string>() }
+    entry.times.add(punch.time)
+    punchesByWorkerDay.set(key, entry)
+  })
+
+  const days: Omit<ImportDay, 'existing' | 'change' | 'differences' | 'locked'>[] = []
+  punchesByWorkerDay.forEach(({ worker, date, times }) => {
+    const orderedTimes = Array.from(times)
+    const existing = context.existingRecords.find(r => r.workerId === worker.id && r.date === date)
+    days.push({ worker, date, punches: orderedTimes, record: buildPunchRecord(worker, date, orderedTimes, existing, context) })
+  })
+
+  if (context.markMissingAbsent) {
+    const dates = Array.from(new Set(punches.map(punch => punch.date)))
+    const matchedWorkers = Array.from(new Map(days.map(day => [day.worker.id, day.worker])).values())
+
+    matchedWorkers.forEach(worker => {
+      dates.forEach(date => {
+        if (punchesByWorkerDay.has(`${worker.id}|${date}`)) return
+
+        const [year, month] = date.split('-').map(Number)
+        const weeklyOffDay = getRosteredShift(context.schedule, worker.id, date)?.weeklyOffDay
+          ?? getRuleSetForMonth(context.ruleSets, month - 1, year).weeklyOffDay
+        if (
+          new Date(`${date}T00:00:00Z`).getUTCDay() === weeklyOffDay ||
+          isRosteredOff(context.schedule, worker.id, date) ||
+          getLeaveDay(context.leaveCalendar, worker.id, date)
+        ) {
+          return
+        }
+
+        const existing = context.existingRecords.find(r => r.workerId === worker.id && r.date === date)
+        days.push({
+          worker,
+          date,
+          punches: [],
+          record: {
+            id: existing?.id || '',
+            workerId: worker.id,
+            workerName: worker.name,
+            date,
+            status: AttendanceStatus.ABSENT,
+            overtime: 'no',
+            lateMinutes: 0,
+            notes: existing?.notes,
+            createdAt: existing?.createdAt || new Date().toISOString()
+          }
+        })
+      })
+    })
+  }
+
+  return {
+    days: days
+      .map(day => {
+        const existing = context.existingRecords.find(r => r.workerId === day.worker.id && r.date === day.date)
+        const differences = existing ? getDifferences(existing, day.record) : []
+        return {
+          ...day,
+          existing,
+          change: (!existing ? 'new' : differences.length > 0 ? 'conflict' : 'unchanged') as ImportChange,
+          differences,
+          locked: context.lockedMonths.has(day.date.substring(0, 7))
+        }
+      })
+      .sort((a, b) => a.date.localeCompare(b.date) || a.worker.name.localeCompare(b.worker.name)),
+    unmatchedUserIds: Array.from(unmatchedUserIds).sort()
+  }
+}
+
+/**
+ * Save imported days as one batch. Payroll locks are checked for every day first, with a fresh
+ * list of locked months: if any day falls in a locked month nothing is saved and those months
+ * are returned. The batch is kept on this device so it can be undone.
+ */
+export async function commitAttendanceImport(
+  days: ImportDay[],
+  importedBy?: string,
+  fileName?: string
+): Promise<{ batch: AttendanceImportBatch; failed: ImportDay[]; lockedMonths: string[] }> {
+  const batch: AttendanceImportBatch = { importedAt: new Date().toISOString(), importedBy, fileName, entries: [] }
+  const failed: ImportDay[] = []
+
+  const lockedMonths = await getLockedPayrollMonths(true)
+  const importLockedMonths = Array.from(new Set(days.map(day => day.date.substring(0, 7))))
+    .filter(month => lockedMonths.has(month))
+    .sort()
+  if (importLockedMonths.length > 0) {
+    return { batch, failed: days, lockedMonths: importLockedMonths }
+  }
+
+  for (const day of days) {
+    const saved = await saveAttendance(day.record)
+    if (saved) {
+      batch.entries.push({ workerId: day.worker.id, workerName: day.worker.name, date: day.date, previous: day.existing })
+    } else {
+      failed.push(day)
+    }
+  }
+
+  if (batch.entries.length > 0) {
+    localStorage.setItem(LAST_IMPORT_STORAGE_KEY, JSON.stringify(batch))
+  }
+
+  return { batch, failed, lockedMonths: [] }
+}
+
+/**
+ * The last import made on this device, if it hasn't been undone
+ */
+export function getLastAttendanceImport(): AttendanceImportBatch | null {
+  try {
+    const storedData = localStorage.getItem(LAST_IMPORT_STORAGE_KEY)
+    return storedData ? JSON.parse(storedData) : null
+  } catch (error) {
+    console.error('Error reading last attendance import:', error)
+    return null
+  }
+}
+
+/**
+ * Undo an import: imported records are removed and the records they replaced are put back.
+ * Entries that couldn't be undone (for example after payroll was locked) stay in the batch.
+ */
+export async function undoAttendanceImport(batch: AttendanceImportBatch): Promise<{ restored: number; failed: number }> {
+  const remaining: AttendanceImportBatch['entries'] = []
+
+  for (const entry of batch.entries) {
+    // The replaced record is written over the imported one in place, so a failed save leaves the
+    // import rather than no record at all. An empty check-in clears the times the import added.
+    const undone = entry.previous
+      ? await saveAttendance({ ...entry.previous, checkInTime: entry.previous.checkInTime || '' })
+      : await deleteAttendance(entry.workerId, entry.date)
+    if (!undone) {
+      remaining.push(entry)
+    }
+  }
+
+  if (remaining.length > 0) {
+    localStorage.setItem(LAST_IMPORT_STORAGE_KEY, JSON.stringify({ ...batch, entries: remaining }))
+  } else {
+    localStorage.removeItem(LAST_IMPORT_STORAGE_KEY)
+  }
+
+  return { restored: batch.entries.length - remaining.length, failed: remaining.length }
+}
+
+/**
+ * Get saved device user ID -> worker mappings, from Supabase settings with localStorage fallback
+ */
+export async function getDeviceUserMap(): Promise<DeviceUserMap> {
+  const saved = await getSettingFromSupabase<DeviceUserMap>(DEVICE_USERS_SETTING_KEY)
+  if (saved) {
+    localStorage.setItem(DEVICE_USERS_STORAGE_KEY, JSON.stringify(saved))
+    return saved
+  }
+
+  try {
+    const storedData = localStorage.getItem(DEVICE_USERS_STORAGE_KEY)
+    return storedData ? JSON.parse(storedData) : {}
+  } catch (error) {
+    console.error('Error reading device user mappings from local storage:', error)
+    return {}
+  }
+}
+
+/**
+ * Save device user ID -> worker mappings. Returns false if they could only be saved on this device.
+ */
+export async function saveDeviceUserMap(deviceUsers: DeviceUserMap): Promise<boolean> {
+  localStorage.setItem(DEVICE_USERS_STORAGE_KEY, JSON.stringify(deviceUsers))
+  return saveSettingToSupabase(DEVICE_USERS_SETTING_KEY, deviceUsers)
+}
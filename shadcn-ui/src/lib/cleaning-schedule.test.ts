@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest'
+import { CleaningFrequency } from '@/types'
+import type { CleaningSchedule, HygieneRecord } from '@/types'
+import { getCleaningChecklist } from './cleaning-schedule'
+
+vi.mock('./supabase', () => ({ supabase: {} }))
+vi.mock('./hygiene-storage', () => ({ getHygieneRecordsByDate: vi.fn() }))
+
+const DATE = '2025-03-04'
+const NOW = new Date(2025, 2, 6, 12, 0)
+
+const SCHEDULE: CleaningSchedule = {
+  id: 's1',
+  area: 'KITCHEN',
+  frequency: CleaningFrequency.DAILY,
+  windowStart: '08:00',
+  windowEnd: '10:00',
+  cleanerIds: [],
+  isActive: true,
+  createdAt: '2025-01-01T00:00:00.000Z'
+}
+
+function hygieneRecord(createdAt: string, outsideDate: boolean = false): HygieneRecord {
+  return {
+    id: createdAt,
+    workerId: 'w1',
+    workerName: 'Meena',
+    date: DATE,
+    area: SCHEDULE.area,
+    photoUrl: '',
+    outsideDate,
+    createdAt
+  }
+}
+
+describe('getCleaningChecklist', () => {
+  it('counts a record made in the window as done', () => {
+    const [slot] = getCleaningChecklist([SCHEDULE], [hygieneRecord(`${DATE}T09:00:00.000Z`)], DATE, NOW)
+    expect(slot.status).toBe('done')
+  })
+
+  it('counts a record entered on a later day as late', () => {
+    const [slot] = getCleaningChecklist([SCHEDULE], [hygieneRecord('2025-03-05T09:00:00.000Z', true)], DATE, NOW)
+    expect(slot.status).toBe('late')
+  })
+
+  it('counts a record flagged as entered outside its date as late', () => {
+    const [slot] = getCleaningChecklist([SCHEDULE], [hygieneRecord(`${DATE}T09:00:00.000Z`, true)], DATE, NOW)
+    expect(slot.status).toBe('late')
+  })
+})
@@ -0,0 +1,256 @@
+/**
+ * Cleaning schedule: which hygiene area must be cleaned when, and by which cleaners.
+ * A schedule entry gives a cleaning slot on every day it applies to; a slot is done by a
+ * hygiene record for its area on that date, and missed when its time window passes without one.
+ */
+import { supabase } from './supabase'
+import { getHygieneRecordsByDate } from './hygiene-storage'
+import { addDays, getWeekStart } from './roster'
+import { CleaningFrequency } from '@/types'
+import type { CleaningSchedule, HygieneRecord } from '@/types'
+
+const CLEANING_SCHEDULE_TABLE = 'app_070c516bb6_cleaning_schedule'
+
+export interface SupabaseCleaningSchedule {
+    id: string
+    area: string
+    frequency: string
+    weekday?: number | null
+    window_start: string
+    window_end: string
+    cleaner_ids?: string[] | null
+    is_active: boolean
+    created_at: string
+}
+
+// done: cleaned in the window; late: cleaned after it, or recorded on another day; due: window open now;
+// upcoming: window not started yet; missed: window passed without a record
+export type CleaningSlotStatus = 'done' | 'late' | 'due' | 'upcoming' | 'missed'
+
+export interface CleaningSlot {
+    schedule: CleaningSchedule
+    date: string // YYYY-MM-DD
+    status: CleaningSlotStatus
+    record?: HygieneRecord
+}
+
+export interface WeeklyCleaningCompliance {
+    weekStart: string // YYYY-MM-DD, Monday
+    slots: CleaningSlot[]
+    total: number
+    done: number
+    late: number
+    missed: number
+    missedByArea: Record<string, number>
+    missedByCleaner: Record<string, number> // Worker ID -> missed slots they were assigned to
+}
+
+// Convert Supabase row to CleaningSchedule type (TIME columns come back as HH:MM:SS)
+function convertToCleaningSchedule(row: SupabaseCleaningSchedule): CleaningSchedule {
+    return {
+        id: row.id,
+        area: row.area,
+        frequency: (row.frequency as CleaningFrequency) || CleaningFrequency.DAILY,
+        weekday: row.weekday === null || row.weekday === undefined ? undefined : Number(row.weekday),
+        windowStart: row.window_start.substring(0, 5),
+        windowEnd: row.window_end.substring(0, 5),
+        cleanerIds: row.cleaner_ids || [],
+        isActive: row.is_active,
+        createdAt: row.created_at
+    }
+}
+
+function formatDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+function formatTime(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+/**
+ * Schedule entries with a cleaning slot on a date (YYYY-MM-DD), in window order
+ */
+export function getSchedulesForDate(schedules: CleaningSchedule[], date: string): CleaningSchedule[] {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+    return schedules
+        .filter(schedule => schedule.isActive)
+        .filter(schedule => schedule.frequency === CleaningFrequency.DAILY || schedule.weekday === weekday)
+        .sort((a, b) => a.windowStart.localeCompare(b.windowStart))
+}
+
+/**
+ * The cleaning slots of a date with whether each was done, from the hygiene records of that date.
+ * Each record fills one slot of its area: the one whose window it was made in, else the earliest one
+ * already started (cleaned late), else the next one. Records entered on another day (backfilled)
+ * count as late, since nothing shows the cleaning was done in the window.
+ */
+export function getCleaningChecklist(
+    schedules: CleaningSchedule[],
+    records: HygieneRecord[],
+    date: string,
+    now: Date = new Date()
+): CleaningSlot[] {
+    const daySchedules = getSchedulesForDate(schedules, date)
+    const filled = new Map<string, HygieneRecord>()
+
+    const dateRecords = records
+        .filter(record => record.date === date)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+
+    dateRecords.forEach(record => {
+        const createdAt = new Date(record.createdAt)
+        const recordTime = formatDate(createdAt) === date ? formatTime(createdAt) : '00:00'
+        const open = daySchedules.filter(schedule => schedule.area === record.area && !filled.has(schedule.id))
+        const slot = open.find(schedule => schedule.windowStart <= recordTime && schedule.windowEnd >= recordTime)
+            || open.find(schedule => schedule.windowStart <= recordTime)
+            || open[0]
+        if (slot) {
+            filled.set(slot.id, record)
+        }
+    })
+
+    const today = formatDate(now)
+    const currentTime = formatTime(now)
+
+    return daySchedules.map(schedule => {
+        const record = filled.get(schedule.id)
+        let status: CleaningSlotStatus
+
+        if (record) {
+            const createdAt = new Date(record.createdAt)
+            const late = record.outsideDate || formatDate(createdAt) !== date || formatTime(createdAt) > schedule.windowEnd
+            status = late ? 'late' : 'done'
+        } else if (date < today || (date === today && currentTime > schedule.windowEnd)) {
+            status = 'missed'
+        } else if (date === today && currentTime >= schedule.windowStart) {
+            status = 'due'
+        } else {
+            status = 'upcoming'
+        }
+
+        return { schedule, date, status, record }
+    })
+}
+
+/**
+ * Cleaning compliance for the week (Monday to Sunday) of a date: every slot with its status
+ * and the missed slots per area and per assigned cleaner
+ */
+export async function getWeeklyCleaningCompliance(
+    schedules: CleaningSchedule[],
+    date: string,
+    now: Date = new Date()
+): Promise<WeeklyCleaningCompliance> {
+    const weekStart = getWeekStart(date)
+    const dates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+    const recordsByDate = await Promise.all(dates.map(day => getHygieneRecordsByDate(day)))
+
+    const slots = dates.flatMap((day, i) => getCleaningChecklist(schedules, recordsByDate[i], day, now))
+    const missedSlots = slots.filter(slot => slot.status === 'missed')
+
+    const missedByArea: Record<string, number> = {}
+    const missedByCleaner: Record<string, number> = {}
+    missedSlots.forEach(slot => {
+        missedByArea[slot.schedule.area] = (missedByArea[slot.schedule.area] || 0) + 1
+        slot.schedule.cleanerIds.forEach(cleanerId => {
+            missedByCleaner[cleanerId] = (missedByCleaner[cleanerId] || 0) + 1
+        })
+    })
+
+    // Slots still ahead don't count towards compliance yet
+    const counted = slots.filter(slot => slot.status !== 'upcoming' && slot.status !== 'due')
+
+    return {
+        weekStart,
+        slots,
+        total: counted.length,
+        done: counted.filter(slot => slot.status === 'done').length,
+        late: counted.filter(slot => slot.status === 'late').length,
+        missed: missedSlots.length,
+        missedByArea,
+        missedByCleaner
+    }
+}
+
+/**
+ * Check a schedule entry before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validateCleaningSchedule(
+    schedule: Pick<CleaningSchedule, 'area' | 'frequency' | 'weekday' | 'windowStart' | 'windowEnd' | 'cleanerIds'>
+): string[] {
+    const errors: string[] = []
+
+    if (!schedule.area) {
+        errors.push('Area is required')
+    }
+    if (schedule.frequency === CleaningFrequency.WEEKLY && schedule.weekday === undefined) {
+        errors.push('Day of the week is required for weekly cleaning')
+    }
+    if (!/^\d{2}:\d{2}$/.test(schedule.windowStart) || !/^\d{2}:\d{2}$/.test(schedule.windowEnd)) {
+        errors.push('Start and end of the time window are required')
+    } else if (schedule.windowEnd <= schedule.windowStart) {
+        errors.push('The time window must end after it starts')
+    }
+    if (schedule.cleanerIds.length === 0) {
+        errors.push('Assign at least one cleaner')
+    }
+
+    return errors
+}
+
+/**
+ * Get all cleaning schedule entries, including inactive ones
+ */
+export async function getCleaningSchedules(): Promise<CleaningSchedule[]> {
+    try {
+        const { data, error } = await supabase
+            .from(CLEANING_SCHEDULE_TABLE)
+            .select('*')
+            .order('window_start', { ascending: true })
+
+        if (error) {
+            console.error('Error fetching cleaning schedule:', error)
+            return []
+        }
+
+        return (data || []).map(convertToCleaningSchedule)
+    } catch (error) {
+        console.error('Error in getCleaningSchedules:', error)
+        return []
+    }
+}
+
+/**
+ * Create or update a cleaning schedule entry
+ */
+export async function saveCleaningSchedule(
+    schedule: Omit<CleaningSchedule, 'id' | 'createdAt'> & { id?: string }
+): Promise<CleaningSchedule | null> {
+    try {
+        const row = {
+            area: schedule.area,
+            frequency: schedule.frequency,
+            weekday: schedule.frequency === CleaningFrequency.WEEKLY ? schedule.weekday : null,
+            window_start: schedule.windowStart,
+            window_end: schedule.windowEnd,
+            cleaner_ids: schedule.cleanerIds,
+            is_active: schedule.isActive
+        }
+        const query = schedule.id
+            ? supabase.from(CLEANING_SCHEDULE_TABLE).update(row).eq('id', schedule.id)
+            : supabase.from(CLEANING_SCHEDULE_TABLE).insert(row)
+
+        const { data, error } = await query.select().single()
+
+        if (error) {
+            console.error('Error saving cleaning schedule:', error)
+            return null
+        }
+
+        return convertToCleaningSchedule(data)
+    } catch (error) {
+        console.error('Error in saveCleaningSchedule:', error)
+        return null
+    }
+}
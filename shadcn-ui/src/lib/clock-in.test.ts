@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { AttendanceStatus, Gender } from '@/types'
+import type { AttendanceRecord, Shift, Worker } from '@/types'
+import { DEFAULT_PAYROLL_RULE_SET } from './payroll-rules'
+import { calculateLateMinutes, recordClockScan } from './clock-in'
+import { getAttendanceByDate, saveAttendance } from './attendance-utils'
+import { getRosterSchedule } from './roster'
+
+vi.mock('./supabase', () => ({ supabase: {} }))
+vi.mock('./attendance-utils', () => ({ getAttendanceByDate: vi.fn(), saveAttendance: vi.fn() }))
+vi.mock('./supabase-service', () => ({ getWorkerDefaultOvertimeSetting: vi.fn().mockResolvedValue(false) }))
+vi.mock('./roster', async importOriginal => ({
+  ...await importOriginal<typeof import('./roster')>(),
+  getRosterSchedule: vi.fn()
+}))
+
+const RULES = DEFAULT_PAYROLL_RULE_SET.categories[Gender.MALE]
+
+const WORKER: Worker = {
+  id: 'w1',
+  name: 'Ravi',
+  employeeId: 'E001',
+  isPacker: true,
+  gender: Gender.MALE,
+  createdAt: '2025-01-01T00:00:00.000Z'
+}
+
+const NIGHT_SHIFT: Shift = {
+  id: 'night',
+  name: 'Night',
+  startTime: '22:00',
+  endTime: '06:00',
+  breakMinutes: 30,
+  weeklyOffDay: 0,
+  isActive: true,
+  createdAt: '2025-01-01T00:00:00.000Z'
+}
+
+function checkedIn(date: string, checkInTime: string): AttendanceRecord {
+  return {
+    id: `${WORKER.id}-${date}`,
+    workerId: WORKER.id,
+    workerName: WORKER.name,
+    date,
+    status: AttendanceStatus.PRESENT,
+    overtime: 'no',
+    lateMinutes: 0,
+    checkInTime,
+    createdAt: `${date}T${checkInTime}:00.000Z`
+  }
+}
+
+describe('calculateLateMinutes', () => {
+  it('counts the whole delay once past the grace period', () => {
+    const rules = { ...RULES, lateGraceMinutes: 10 }
+    expect(calculateLateMinutes('09:05', rules)).toBe(0)
+    expect(calculateLateMinutes('09:25', rules)).toBe(25)
+  })
+
+  it('counts a check-in after midnight as late for a start before it', () => {
+    expect(calculateLateMinutes('00:30', { ...RULES, shiftStartTime: '22:00' })).toBe(150)
+  })
+
+  it('treats a check-in before the start as early, across midnight too', () => {
+    expect(calculateLateMinutes('08:45', RULES)).toBe(0)
+    expect(calculateLateMinutes('23:50', { ...RULES, shiftStartTime: '00:10' })).toBe(0)
+  })
+})
+
+describe('recordClockScan on a night shift', () => {
+  // Rostered on the night shift from Monday 2025-03-03
+  const schedule = {
+    shifts: [NIGHT_SHIFT],
+    assignments: [{ id: 'a1', workerId: WORKER.id, weekStart: '2025-03-03', shiftId: NIGHT_SHIFT.id, updatedAt: '' }]
+  }
+  let recordsByDate: Record<string, AttendanceRecord[]>
+
+  beforeEach(() => {
+    recordsByDate = {}
+    vi.mocked(getRosterSchedule).mockResolvedValue(schedule)
+    vi.mocked(getAttendanceByDate).mockImplementation(async date => recordsByDate[date] || [])
+    vi.mocked(saveAttendance).mockReset().mockResolvedValue(true)
+  })
+
+  it('checks out of the previous day after midnight', async () => {
+    recordsByDate['2025-03-04'] = [checkedIn('2025-03-04', '22:00')]
+
+    const result = await recordClockScan(WORKER, [DEFAULT_PAYROLL_RULE_SET], new Date(2025, 2, 5, 7, 0))
+
+    expect(result?.action).toBe('check-out')
+    expect(result?.record).toMatchObject({ date: '2025-03-04', checkInTime: '22:00', checkOutTime: '07:00', overtimeHours: 1 })
+  })
+
+  it('books a check-in after midnight on the day the shift started, late against its start', async () => {
+    const result = await recordClockScan(WORKER, [DEFAULT_PAYROLL_RULE_SET], new Date(2025, 2, 5, 0, 30))
+
+    expect(result?.action).toBe('check-in')
+    expect(result?.record).toMatchObject({ date: '2025-03-04', checkInTime: '00:30', lateMinutes: 150 })
+  })
+
+  it('starts a new day when the previous check-in was left open too long', async () => {
+    recordsByDate['2025-03-04'] = [checkedIn('2025-03-04', '22:00')]
+
+    const result = await recordClockScan(WORKER, [DEFAULT_PAYROLL_RULE_SET], new Date(2025, 2, 5, 21, 55))
+
+    expect(result?.action).toBe('check-in')
+    expect(result?.record).toMatchObject({ date: '2025-03-05', checkInTime: '21:55', lateMinutes: 0 })
+  })
+})
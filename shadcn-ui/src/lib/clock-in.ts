@@ -0,0 +1,236 @@
+/**
+ * Clock-in kiosk: a worker scans their ID badge once when arriving and once when leaving.
+ * The first scan of the day stamps the check-in time and late minutes (against the start of the
+ * worker's rostered shift, or the shift start in the payroll rules for workers not on the roster),
+ * the second stamps the check-out time and the overtime actually worked. Scans after midnight on a
+ * night shift belong to the day the shift started.
+ */
+import { AttendanceStatus } from '@/types'
+import type { AttendanceRecord, PayrollCategoryRules, PayrollRuleSet, Shift, Worker } from '@/types'
+import { getAttendanceByDate, saveAttendance } from './attendance-utils'
+import { getWorkerDefaultOvertimeSetting } from './supabase-service'
+import { getRuleSetForMonth } from './payroll-rules'
+import { isWorkerBadgeToken, verifyWorkerBadge } from './worker-badges'
+import { addDays, getRosterSchedule, getRosteredShift, getShiftRules, isOvernightShift } from './roster'
+import type { RosterSchedule } from './roster'
+
+// A second scan this soon after checking in is a double scan, not a check-out
+const MIN_MINUTES_BEFORE_CHECK_OUT = 5
+
+// A night shift check-in still open this long after it was made is a missed check-out;
+// the next scan starts a new day instead of closing it
+const MAX_OPEN_CHECK_IN_HOURS = 16
+
+// Overtime is paid in steps of this many minutes, rounded down
+const OVERTIME_STEP_MINUTES = 30
+
+export type ClockScanAction = 'check-in' | 'check-out' | 'ignored'
+
+export interface ClockScanResult {
+  action: ClockScanAction
+  worker: Worker
+  record: AttendanceRecord
+  message: string
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * Time of day as HH:MM
+ */
+export function getTimeOfDay(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+/**
+ * Minutes a check-in is after the shift start. Check-ins within the grace period are on time,
+ * but once past it the whole delay counts. Times are compared on a 24 hour clock, so a check-in
+ * after midnight is late against a start before it; up to 12 hours after the start is late,
+ * anything further is early for the next start.
+ */
+export function calculateLateMinutes(checkInTime: string, rules: PayrollCategoryRules): number {
+  const day = 24 * 60
+  const late = ((toMinutes(checkInTime) - toMinutes(rules.shiftStartTime) + day + day / 2) % day) - day / 2
+  return late > rules.lateGraceMinutes ? late : 0
+}
+
+/**
+ * Overtime hours worked past the end of the shift (shift start + shift hours), in half-hour steps.
+ * A check-out earlier in the day than the check-in is taken to be after midnight.
+ */
+export function calculateOvertimeHours(checkInTime: string, checkOutTime: string, rules: PayrollCategoryRules): number {
+  let checkOut = toMinutes(checkOutTime)
+  if (checkOut < toMinutes(checkInTime)) {
+    checkOut += 24 * 60
+  }
+
+  const shiftEnd = toMinutes(rules.shiftStartTime) + rules.shiftHours * 60
+  const overtimeMinutes = Math.max(0, checkOut - shiftEnd)
+  return (Math.floor(overtimeMinutes / OVERTIME_STEP_MINUTES) * OVERTIME_STEP_MINUTES) / 60
+}
+
+/**
+ * Find the worker a scanned badge belongs to. Badges are checked against their signature; a typed
+ * employee ID is only accepted when `allowEmployeeId` is set (manual entry at an attended kiosk).
+ * Inactive workers can't clock in.
+ */
+export async function findWorkerByBadge(code: string, workers: Worker[], allowEmployeeId: boolean = false): Promise<Worker | undefined> {
+  const value = code.trim()
+  const activeWorkers = workers.filter(worker => worker.isActive !== false)
+
+  if (isWorkerBadgeToken(value)) {
+    const workerId = await verifyWorkerBadge(value)
+    return workerId ? activeWorkers.find(worker => worker.id === workerId) : undefined
+  }
+
+  if (!allowEmployeeId) {
+    return undefined
+  }
+  return activeWorkers.find(worker => worker.employeeId.toLowerCase() === value.toLowerCase())
+}
+
+/**
+ * Work out what a badge scan does to the worker's attendance for the day. The first scan checks
+ * in (marking the worker present), the next one checks out; later scans change nothing.
+ * `date` is the day the shift started, which is the day before `now` after midnight on a night shift.
+ */
+export function applyClockScan(
+  worker: Worker,
+  existing: AttendanceRecord | undefined,
+  rules: PayrollCategoryRules,
+  now: Date,
+  defaultOvertime: boolean,
+  date: string = formatDate(now)
+): ClockScanResult {
+  const time = getTimeOfDay(now)
+
+  if (!existing?.checkInTime) {
+    const lateMinutes = calculateLateMinutes(time, rules)
+    const record: AttendanceRecord = {
+      id: existing?.id || '',
+      workerId: worker.id,
+      workerName: worker.name,
+      date,
+      // A worker marked absent who turns up is present; a planned half day stays a half day
+      status: existing?.status === AttendanceStatus.HALF_DAY ? AttendanceStatus.HALF_DAY : AttendanceStatus.PRESENT,
+      overtime: existing?.overtime || (defaultOvertime ? 'yes' : 'no'),
+      lateMinutes,
+      checkInTime: time,
+      notes: existing?.notes,
+      createdAt: existing?.createdAt || now.toISOString()
+    }
+    return {
+      action: 'check-in',
+      worker,
+      record,
+      message: lateMinutes > 0 ? `Checked in at ${time} (${lateMinutes} min late)` : `Checked in at ${time}`
+    }
+  }
+
+  if (existing.checkOutTime) {
+    return { action: 'ignored', worker, record: existing, message: `Already checked out at ${existing.checkOutTime}` }
+  }
+
+  const minutesSinceCheckIn = (toMinutes(time) - toMinutes(existing.checkInTime) + 24 * 60) % (24 * 60)
+  if (minutesSinceCheckIn < MIN_MINUTES_BEFORE_CHECK_OUT) {
+    return { action: 'ignored', worker, record: existing, message: `Already checked in at ${existing.checkInTime}` }
+  }
+
+  const overtimeHours = calculateOvertimeHours(existing.checkInTime, time, rules)
+  return {
+    action: 'check-out',
+    worker,
+    record: {
+      ...existing,
+      checkOutTime: time,
+      overtimeHours,
+      overtime: overtimeHours > 0 ? 'yes' : 'no'
+    },
+    message: overtimeHours > 0 ? `Checked out at ${time} (${overtimeHours} h overtime)` : `Checked out at ${time}`
+  }
+}
+
+/**
+ * Whether a scan at `time` belongs to the night shift the worker was rostered on the day before,
+ * given that day's attendance: it does while a recent check-in is still open, or when there was no
+ * check-in and the shift hasn't ended yet
+ */
+export function isPreviousNightShiftScan(
+  previousShift: Shift | undefined,
+  previous: Pick<AttendanceRecord, 'checkInTime' | 'checkOutTime'> | undefined,
+  time: string
+): boolean {
+  if (!previousShift || !isOvernightShift(previousShift)) {
+    return false
+  }
+
+  const isOpen = !!previous?.checkInTime && !previous.checkOutTime &&
+    (toMinutes(time) - toMinutes(previous.checkInTime) + 24 * 60) % (24 * 60) <= MAX_OPEN_CHECK_IN_HOURS * 60
+  const isLateCheckIn = !previous?.checkInTime && toMinutes(time) < toMinutes(previousShift.endTime)
+  return isOpen || isLateCheckIn
+}
+
+/**
+ * The day a scan at `time` on `today` belongs to: the day before when it belongs to the night
+ * shift the worker was rostered on that day (see isPreviousNightShiftScan). Otherwise today.
+ */
+async function getShiftDate(
+  worker: Worker,
+  schedule: RosterSchedule,
+  today: string,
+  time: string
+): Promise<{ date: string; records: AttendanceRecord[] }> {
+  const yesterday = addDays(today, -1)
+  const previousShift = getRosteredShift(schedule, worker.id, yesterday)
+  if (previousShift && isOvernightShift(previousShift)) {
+    const previousRecords = await getAttendanceByDate(yesterday)
+    const previous = previousRecords.find(record => record.workerId === worker.id)
+    if (isPreviousNightShiftScan(previousShift, previous, time)) {
+      return { date: yesterday, records: previousRecords }
+    }
+  }
+
+  return { date: today, records: await getAttendanceByDate(today) }
+}
+
+/**
+ * Record a badge scan for a worker now and save the attendance. Returns null if it couldn't be saved
+ * (for example when the month's payroll is already locked).
+ */
+export async function recordClockScan(worker: Worker, ruleSets: PayrollRuleSet[], now: Date = new Date()): Promise<ClockScanResult | null> {
+  try {
+    const [defaultOvertime, schedule] = await Promise.all([
+      getWorkerDefaultOvertimeSetting(worker.id),
+      getRosterSchedule()
+    ])
+    const { date, records } = await getShiftDate(worker, schedule, formatDate(now), getTimeOfDay(now))
+    const shiftDay = new Date(`${date}T00:00:00`)
+    const ruleSet = getRuleSetForMonth(ruleSets, shiftDay.getMonth(), shiftDay.getFullYear())
+    const categoryRules = ruleSet.categories[worker.gender] || Object.values(ruleSet.categories)[0]
+    const rules = getShiftRules(categoryRules, getRosteredShift(schedule, worker.id, date))
+    const existing = records.find(record => record.workerId === worker.id)
+
+    const result = applyClockScan(worker, existing, rules, now, defaultOvertime, date)
+    if (result.action === 'ignored') {
+      return result
+    }
+
+    const saved = await saveAttendance(result.record)
+    if (!saved) {
+      console.error('❌ Could not save clock scan for', worker.employeeId)
+      return null
+    }
+
+    return result
+  } catch (error) {
+    console.error('❌ Error in recordClockScan:', error)
+    return null
+  }
+}
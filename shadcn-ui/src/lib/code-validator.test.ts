@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CodeTemplate, computeCheckDigit, formatCode } from './barcode-generator';
+import { validateScannedCode } from './code-validator';
+
+// Validation never reaches the database; keep the Supabase clients from being created
+vi.mock('./supabase', () => ({ supabase: {} }));
+vi.mock('./supabase-client', () => ({ supabase: {} }));
+
+const TEMPLATE: CodeTemplate = { prefix: 'PKG', dateFormat: 'YYMM', serialWidth: 4, checkDigit: true };
+const CODE = formatCode(TEMPLATE, new Date(2025, 0, 15), 1); // PKG25010001 plus check digit
+
+// Same code with the check digit changed
+function misread(code: string): string {
+  return `${code.slice(0, -1)}${(parseInt(code.slice(-1), 10) + 1) % 10}`;
+}
+
+describe('validateScannedCode', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value)
+    });
+  });
+
+  it('accepts a code with the template shape and a correct check digit', () => {
+    expect(validateScannedCode(CODE, { template: TEMPLATE })).toMatchObject({ valid: true, code: CODE, legacy: false });
+  });
+
+  it('rejects a code with the template shape and a wrong check digit', () => {
+    expect(validateScannedCode(misread(CODE), { template: TEMPLATE })).toMatchObject({ valid: false, reason: 'checksum' });
+  });
+
+  it('rejects codes outside the template even when their check digit happens to be valid', () => {
+    const foreign = `SUPPLIER123${computeCheckDigit('SUPPLIER123')}`;
+    expect(validateScannedCode(foreign, { template: TEMPLATE })).toMatchObject({ valid: false, reason: 'malformed' });
+
+    const otherPrefix = `XYZ25010001${computeCheckDigit('XYZ25010001')}`;
+    expect(validateScannedCode(otherPrefix, { template: TEMPLATE })).toMatchObject({ valid: false, reason: 'malformed' });
+
+    const wrongSerialWidth = `PKG250100001${computeCheckDigit('PKG250100001')}`;
+    expect(validateScannedCode(wrongSerialWidth, { template: TEMPLATE })).toMatchObject({ valid: false, reason: 'malformed' });
+  });
+
+  it('accepts legacy codes generated without a check digit', () => {
+    expect(validateScannedCode('PKG25010001', { template: TEMPLATE })).toMatchObject({ valid: true, legacy: true });
+    expect(validateScannedCode('25011500001', { template: TEMPLATE })).toMatchObject({ valid: true, legacy: true });
+  });
+
+  it('treats historical codes as legacy under the default template', () => {
+    const template: CodeTemplate = { prefix: '', dateFormat: 'YYMMDD', serialWidth: 5, checkDigit: true };
+    const code = formatCode(template, new Date(2025, 0, 15), 7);
+    expect(validateScannedCode(code, { template })).toMatchObject({ valid: true, legacy: false });
+    expect(validateScannedCode(code.slice(0, -1), { template })).toMatchObject({ valid: true, legacy: true });
+  });
+
+  it('still accepts codes printed with an earlier template', () => {
+    const earlier: CodeTemplate = { prefix: '', dateFormat: 'YYMMDD', serialWidth: 5, checkDigit: true };
+    const printed = formatCode(earlier, new Date(2024, 11, 31), 42);
+
+    expect(validateScannedCode(printed, { template: TEMPLATE })).toMatchObject({ valid: false });
+    expect(validateScannedCode(printed, { template: TEMPLATE, history: [earlier] })).toMatchObject({ valid: true, legacy: false });
+    expect(validateScannedCode(misread(printed), { template: TEMPLATE, history: [earlier] })).toMatchObject({ valid: false, reason: 'checksum' });
+  });
+
+  it('accepts codes from the bulk generator with its own prefix', () => {
+    const bulk = formatCode({ ...TEMPLATE, prefix: 'BULK' }, new Date(2025, 0, 15), 3);
+
+    expect(validateScannedCode(bulk, { template: TEMPLATE })).toMatchObject({ valid: false, reason: 'malformed' });
+    expect(validateScannedCode(bulk, { template: TEMPLATE, prefixes: ['BULK'] })).toMatchObject({ valid: true, code: bulk });
+    expect(validateScannedCode(bulk.toLowerCase(), { template: TEMPLATE, prefixes: ['BULK'] })).toMatchObject({ valid: true });
+  });
+
+  it('rejects empty scans and other text', () => {
+    expect(validateScannedCode('  ', { template: TEMPLATE })).toMatchObject({ valid: false, reason: 'empty' });
+    expect(validateScannedCode('https://example.com/item', { template: TEMPLATE })).toMatchObject({ valid: false, reason: 'malformed' });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  CodeTemplate,
+  computeCheckDigit,
+  formatCodeDate,
+  getCachedCodePrefixes,
+  getCachedCodeTemplate,
+  getCachedCodeTemplateHistory
+} from './barcode-generator';
+import { getScannedCodeCandidates, parseScannedGs1 } from './barcode-symbologies';
+import { Gs1Data } from '@/types';
+
+export type CodeValidationError = 'empty' | 'malformed' | 'checksum';
+
+export interface CodeValidationResult {
+  valid: boolean;
+  code: string; // Package code read from the scanned text
+  legacy: boolean; // Valid code generated before check digits were added
+  reason?: CodeValidationError;
+  message?: string;
+  gs1?: Gs1Data; // GS1 data scanned along with the code (GS1-128 or Digital Link)
+}
+
+// Codes generated before the code template existed: YYMMDD#####
+const HISTORICAL_CODE_PATTERN = /^\d{11}$/;
+
+// Anything outside this can't be one of our codes (other suppliers' QR codes, URLs, misreads)
+const CODE_CHARACTERS_PATTERN = /^[A-Za-z0-9]{6,32}$/;
+
+/**
+ * Check that the code's last character is a valid check digit for the rest of the code
+ */
+export function hasValidCheckDigit(code: string): boolean {
+  if (code.length < 2 || !/\d$/.test(code)) {
+    return false;
+  }
+  return computeCheckDigit(code.slice(0, -1)) === code.slice(-1);
+}
+
+// Regex for codes laid out by the template, with or without the trailing check digit
+function templatePattern(template: CodeTemplate, withCheckDigit: boolean): RegExp {
+  const periodLength = formatCodeDate(new Date(), template.dateFormat).length;
+  const digits = periodLength + template.serialWidth + (withCheckDigit ? 1 : 0);
+  return new RegExp(`^${template.prefix}\\d{${digits}}$`, 'i');
+}
+
+/**
+ * Every code layout in circulation: each prefix known from the templates or from generated codes
+ * (the bulk generator takes any prefix), combined with the date format and serial width of the
+ * current and every earlier template
+ */
+export function getKnownCodeTemplates(templates: CodeTemplate[], prefixes: string[] = []): CodeTemplate[] {
+  const knownPrefixes = Array.from(new Set([...templates.map(t => t.prefix), ...prefixes].map(p => p.toUpperCase())))
+    .filter(prefix => /^[A-Z0-9]*$/.test(prefix));
+  const known = new Map<string, CodeTemplate>();
+
+  templates.forEach(({ dateFormat, serialWidth, checkDigit }) => {
+    knownPrefixes.forEach(prefix => {
+      const template = { prefix, dateFormat, serialWidth, checkDigit };
+      known.set(JSON.stringify(template), template);
+    });
+  });
+  return Array.from(known.values());
+}
+
+// Validate a single candidate code against the known templates
+function validateCode(code: string, templates: CodeTemplate[]): CodeValidationResult {
+  if (!code) {
+    return { valid: false, code, legacy: false, reason: 'empty', message: 'Empty scan' };
+  }
+
+  if (!CODE_CHARACTERS_PATTERN.test(code)) {
+    return { valid: false, code, legacy: false, reason: 'malformed', message: `Not a package code: ${code}` };
+  }
+
+  // The check digit only means something once the code has a known template's shape:
+  // about 1 in 10 arbitrary strings pass the Luhn check on their own
+  const hasTemplateShape = templates.some(template => templatePattern(template, true).test(code));
+  if (hasTemplateShape && hasValidCheckDigit(code)) {
+    return { valid: true, code, legacy: false };
+  }
+
+  if (HISTORICAL_CODE_PATTERN.test(code) || templates.some(template => templatePattern(template, false).test(code))) {
+    return { valid: true, code, legacy: true };
+  }
+
+  if (hasTemplateShape) {
+    return {
+      valid: false,
+      code,
+      legacy: false,
+      reason: 'checksum',
+      message: `Check digit mismatch - code misread, please scan again: ${code}`
+    };
+  }
+
+  return { valid: false, code, legacy: false, reason: 'malformed', message: `Not a package code: ${code}` };
+}
+
+/**
+ * Validate scanned text before it is looked up.
+ * Codes laid out by a known template (prefix, period, serial) with a correct check digit are accepted,
+ * as are legacy codes that were generated without one. Known templates are the current one and the
+ * ones it replaced, with any prefix codes were generated with; they default to the ones cached on
+ * this device. Anything else is rejected without touching the database.
+ * `format` is the decoder's format name (e.g. "EAN_13") so 1D scans can be mapped back to the package code.
+ * GS1 scans are returned with their structured data (GTIN, batch, dates, net weight).
+ */
+export function validateScannedCode(
+  rawCode: string,
+  options: { template?: CodeTemplate; history?: CodeTemplate[]; prefixes?: string[]; format?: string } = {}
+): CodeValidationResult {
+  const templates = getKnownCodeTemplates(
+    [options.template || getCachedCodeTemplate(), ...(options.history || getCachedCodeTemplateHistory())],
+    options.prefixes || getCachedCodePrefixes()
+  );
+  const code = (rawCode || '').trim();
+
+  for (const candidate of getScannedCodeCandidates(code, options.format)) {
+    const result = validateCode(candidate, templates);
+    if (result.valid) {
+      const parsed = parseScannedGs1(code, options.format);
+      if (parsed && parsed.serial === result.code) {
+        const { gtin, sscc, batch, productionDate, bestBefore, netWeightKg } = parsed;
+        result.gs1 = { gtin, sscc, batch, productionDate, bestBefore, netWeightKg };
+      }
+      return result;
+    }
+  }
+
+  return validateCode(code, templates);
+}
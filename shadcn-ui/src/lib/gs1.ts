@@ -0,0 +1,314 @@
+/**
+ * GS1 Application Identifier (AI) encoding and parsing: element strings for GS1-128
+ * and GS1 Digital Link URIs for QR codes. Our package code travels as the serial number (AI 21).
+ */
+import { Gs1Data } from '@/types';
+
+export interface Gs1Element {
+  ai: string;
+  value: string;
+}
+
+export interface ParsedGs1 extends Gs1Data {
+  serial?: string; // AI 21 - our package code
+  elements: Gs1Element[]; // Every AI found, including ones we don't map
+}
+
+export const GS1_DIGITAL_LINK_BASE_URL = 'https://id.gs1.org';
+
+// ASCII group separator (FNC1 in transmitted data) ending variable-length fields
+export const GS1_GROUP_SEPARATOR = String.fromCharCode(0x1d);
+
+// Total length (AI + data) of fixed-length AIs, keyed by the first two digits
+const PREDEFINED_LENGTHS: Record<string, number> = {
+  '00': 20, '01': 16, '02': 16, '03': 16, '04': 18,
+  '11': 8, '12': 8, '13': 8, '14': 8, '15': 8, '16': 8, '17': 8, '18': 8, '19': 8,
+  '20': 4,
+  '31': 10, '32': 10, '33': 10, '34': 10, '35': 10, '36': 10,
+  '41': 16
+};
+
+/**
+ * GS1 mod-10 check digit (weights 3 and 1 from the right), used by GTIN and SSCC
+ */
+export function computeGs1CheckDigit(digits: string): string {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = parseInt(digits[digits.length - 1 - i], 10);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return ((10 - (sum % 10)) % 10).toString();
+}
+
+function hasValidGs1CheckDigit(digits: string): boolean {
+  return computeGs1CheckDigit(digits.slice(0, -1)) === digits.slice(-1);
+}
+
+/**
+ * Normalize a GTIN-8/12/13/14 to 14 digits. Returns null if it isn't a valid GTIN.
+ */
+export function normalizeGtin(gtin: string): string | null {
+  const digits = gtin.trim();
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(digits) || !hasValidGs1CheckDigit(digits)) {
+    return null;
+  }
+  return digits.padStart(14, '0');
+}
+
+/**
+ * Build an SSCC from a GS1 company prefix and a serial reference
+ */
+export function buildSscc(companyPrefix: string, serialReference: number, extensionDigit: string = '0'): string {
+  const referenceLength = 16 - companyPrefix.length;
+  const reference = serialReference.toString();
+  if (!/^\d{6,12}$/.test(companyPrefix) || reference.length > referenceLength) {
+    throw new Error(`SSCC serial reference ${reference} does not fit with company prefix ${companyPrefix}`);
+  }
+
+  const body = `${extensionDigit}${companyPrefix}${reference.padStart(referenceLength, '0')}`;
+  return `${body}${computeGs1CheckDigit(body)}`;
+}
+
+/**
+ * Check GS1 data before it is encoded. Returns a list of problems (empty when valid).
+ */
+export function validateGs1Data(data: Gs1Data): string[] {
+  const errors: string[] = [];
+
+  if (data.gtin && !normalizeGtin(data.gtin)) {
+    errors.push('GTIN must be 8, 12, 13 or 14 digits with a valid check digit');
+  }
+  if (data.sscc && (!/^\d{18}$/.test(data.sscc) || !hasValidGs1CheckDigit(data.sscc))) {
+    errors.push('SSCC must be 18 digits with a valid check digit');
+  }
+  if (data.batch && !/^[A-Za-z0-9\-./]{1,20}$/.test(data.batch)) {
+    errors.push('Batch/lot may have up to 20 letters, digits, "-", "." or "/"');
+  }
+  if (data.netWeightKg !== undefined && (isNaN(data.netWeightKg) || data.netWeightKg <= 0 || data.netWeightKg > 999.999)) {
+    errors.push('Net weight must be between 0.001 and 999.999 kg');
+  }
+  if (data.productionDate && data.bestBefore && data.bestBefore < data.productionDate) {
+    errors.push('Best before date must be after the production date');
+  }
+
+  return errors;
+}
+
+export function hasGs1Data(data?: Gs1Data): boolean {
+  return !!data && Object.values(data).some(value => value !== undefined && value !== '');
+}
+
+// YYYY-MM-DD -> YYMMDD
+function toGs1Date(date: string): string {
+  return date.replace(/-/g, '').slice(2, 8);
+}
+
+// YYMMDD -> YYYY-MM-DD. Day 00 means "any day in the month" and is read as the last day.
+function fromGs1Date(value: string): string | undefined {
+  if (!/^\d{6}$/.test(value)) return undefined;
+  const year = 2000 + parseInt(value.slice(0, 2), 10);
+  const month = value.slice(2, 4);
+  let day = value.slice(4, 6);
+  if (day === '00') {
+    day = new Date(year, parseInt(month, 10), 0).getDate().toString().padStart(2, '0');
+  }
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Ordered GS1 elements for a package: fixed-length AIs first, serial (our code) last
+ */
+export function getGs1Elements(data: Gs1Data, serial?: string): Gs1Element[] {
+  const elements: Gs1Element[] = [];
+  const gtin = data.gtin ? normalizeGtin(data.gtin) : null;
+
+  if (data.sscc) elements.push({ ai: '00', value: data.sscc });
+  if (gtin) elements.push({ ai: '01', value: gtin });
+  if (data.productionDate) elements.push({ ai: '11', value: toGs1Date(data.productionDate) });
+  if (data.bestBefore) elements.push({ ai: '15', value: toGs1Date(data.bestBefore) });
+  if (data.netWeightKg) elements.push({ ai: '3103', value: Math.round(data.netWeightKg * 1000).toString().padStart(6, '0') });
+  if (data.batch) elements.push({ ai: '10', value: data.batch });
+  if (serial) elements.push({ ai: '21', value: serial });
+
+  return elements;
+}
+
+function isFixedLength(ai: string): boolean {
+  return PREDEFINED_LENGTHS[ai.slice(0, 2)] !== undefined;
+}
+
+/**
+ * Human readable element string, e.g. "(01)09501101020917(10)ABC123(21)25011500001"
+ */
+export function formatGs1HumanReadable(elements: Gs1Element[]): string {
+  return elements.map(e => `(${e.ai})${e.value}`).join('');
+}
+
+/**
+ * Element string as encoded in the symbol: `separator` (FNC1) ends every variable-length field except the last
+ */
+export function formatGs1ElementString(elements: Gs1Element[], separator: string = GS1_GROUP_SEPARATOR): string {
+  return elements
+    .map((e, index) => {
+      const needsSeparator = !isFixedLength(e.ai) && index < elements.length - 1;
+      return `${e.ai}${e.value}${needsSeparator ? separator : ''}`;
+    })
+    .join('');
+}
+
+/**
+ * GS1 Digital Link URI for a QR code. Needs a GTIN or SSCC as primary key, otherwise returns null.
+ */
+export function buildGs1DigitalLink(data: Gs1Data, serial?: string, baseUrl: string = GS1_DIGITAL_LINK_BASE_URL): string | null {
+  const gtin = data.gtin ? normalizeGtin(data.gtin) : null;
+  let path: string;
+
+  if (gtin) {
+    path = `/01/${gtin}`;
+    if (data.batch) path += `/10/${encodeURIComponent(data.batch)}`;
+    if (serial) path += `/21/${encodeURIComponent(serial)}`;
+  } else if (data.sscc) {
+    path = `/00/${data.sscc}`;
+  } else {
+    return null;
+  }
+
+  const query = new URLSearchParams();
+  // With an SSCC primary key, serial and batch become attributes
+  if (!gtin && data.batch) query.set('10', data.batch);
+  if (!gtin && serial) query.set('21', serial);
+  if (data.productionDate) query.set('11', toGs1Date(data.productionDate));
+  if (data.bestBefore) query.set('15', toGs1Date(data.bestBefore));
+  if (data.netWeightKg) query.set('3103', Math.round(data.netWeightKg * 1000).toString().padStart(6, '0'));
+
+  const queryString = query.toString();
+  return `${baseUrl.replace(/\/$/, '')}${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+// Number of digits in an AI, based on its leading digits
+function getAiLength(text: string): number {
+  const first = text[0];
+  const firstTwo = text.slice(0, 2);
+  if (first === '3') return firstTwo === '30' || firstTwo === '37' ? 2 : 4;
+  if (first === '4') return 3;
+  if (first === '7' || first === '8') return 4;
+  if (first === '2' && firstTwo >= '23') return 3;
+  return 2;
+}
+
+// Parse an unbracketed element string (as transmitted by a scanner)
+function parseRawElementString(text: string): Gs1Element[] | null {
+  const elements: Gs1Element[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    if (text[position] === GS1_GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+
+    const aiLength = getAiLength(text.slice(position));
+    const ai = text.slice(position, position + aiLength);
+    if (!/^\d+$/.test(ai) || ai.length !== aiLength) {
+      return null;
+    }
+
+    const fixedLength = PREDEFINED_LENGTHS[ai.slice(0, 2)];
+    let end: number;
+    if (fixedLength !== undefined) {
+      end = position + fixedLength;
+      if (end > text.length) return null;
+    } else {
+      const separatorIndex = text.indexOf(GS1_GROUP_SEPARATOR, position);
+      end = separatorIndex === -1 ? text.length : separatorIndex;
+    }
+
+    elements.push({ ai, value: text.slice(position + aiLength, end) });
+    position = end;
+  }
+
+  return elements.length > 0 ? elements : null;
+}
+
+// Parse a GS1 Digital Link URI
+function parseDigitalLink(text: string): Gs1Element[] | null {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  // The primary key (01 or 00) may come after a custom path prefix
+  const start = segments.findIndex(segment => segment === '01' || segment === '00');
+  if (start === -1) {
+    return null;
+  }
+
+  const elements: Gs1Element[] = [];
+  for (let i = start; i + 1 < segments.length; i += 2) {
+    elements.push({ ai: segments[i], value: segments[i + 1] });
+  }
+  url.searchParams.forEach((value, key) => {
+    if (/^\d{2,4}$/.test(key)) {
+      elements.push({ ai: key, value });
+    }
+  });
+
+  return elements;
+}
+
+function toParsedGs1(elements: Gs1Element[]): ParsedGs1 {
+  const parsed: ParsedGs1 = { elements };
+
+  elements.forEach(({ ai, value }) => {
+    switch (ai) {
+      case '00': parsed.sscc = value; break;
+      case '01': parsed.gtin = value; break;
+      case '10': parsed.batch = value; break;
+      case '11': parsed.productionDate = fromGs1Date(value); break;
+      case '15': parsed.bestBefore = fromGs1Date(value); break;
+      case '21': parsed.serial = value; break;
+      default:
+        // 310n: net weight in kg with n decimals
+        if (/^310\d$/.test(ai) && /^\d{6}$/.test(value)) {
+          parsed.netWeightKg = parseInt(value, 10) / Math.pow(10, parseInt(ai[3], 10));
+        }
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Parse scanned text as GS1 data: a Digital Link URI, a bracketed element string or a raw
+ * element string with a symbology identifier (]C1, ]d2, ]Q3) or FNC1 separators.
+ * Returns null when the text isn't GS1 data.
+ */
+export function parseGs1(text: string): ParsedGs1 | null {
+  const trimmed = (text || '').trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (/^https?:\/\//i.test(trimmed)) {
+    const elements = parseDigitalLink(trimmed);
+    return elements ? toParsedGs1(elements) : null;
+  }
+
+  if (trimmed.startsWith('(')) {
+    const elements = Array.from(trimmed.matchAll(/\((\d{2,4})\)([^(]*)/g)).map(match => ({ ai: match[1], value: match[2] }));
+    return elements.length > 0 ? toParsedGs1(elements) : null;
+  }
+
+  // Raw element strings are only recognized with a GS1 symbology identifier or separator,
+  // otherwise any digit string would parse as "some AI"
+  const identifier = trimmed.match(/^\](C1|d2|Q3|e0)/);
+  if (!identifier && !trimmed.includes(GS1_GROUP_SEPARATOR)) {
+    return null;
+  }
+
+  const elements = parseRawElementString(identifier ? trimmed.slice(3) : trimmed);
+  return elements ? toParsedGs1(elements) : null;
+}
@@ -0,0 +1,174 @@
+/**
+ * Hygiene areas: the parts of the factory cleaners keep hygiene records for. Records and cleaning
+ * schedules point at an area by its code, so areas can be renamed or retired without touching them.
+ */
+import { supabase } from './supabase'
+import { getWeekStart } from './roster'
+import { CleaningFrequency } from '@/types'
+import type { HygieneArea, HygieneRecord } from '@/types'
+
+const HYGIENE_AREAS_TABLE = 'app_070c516bb6_hygiene_areas'
+
+export interface SupabaseHygieneArea {
+    id: string
+    code: string
+    name: string
+    zone?: string | null
+    required_frequency: string
+    checklist_items?: string[] | null
+    is_active: boolean
+    created_at: string
+}
+
+// Areas from before they were managed in the database, used until CREATE_HYGIENE_AREAS_TABLE.sql is run
+export const LEGACY_HYGIENE_AREAS: HygieneArea[] = [
+    { code: 'toilets', name: 'Toilets' },
+    { code: 'storage_area', name: 'Storage Area' },
+    { code: 'packaging_area', name: 'Packaging Area' },
+    { code: 'processing_area', name: 'Processing Area' },
+    { code: 'office_area', name: 'Office Area' }
+].map(area => ({
+    ...area,
+    id: area.code,
+    requiredFrequency: CleaningFrequency.DAILY,
+    checklistItems: [],
+    isActive: true,
+    createdAt: ''
+}))
+
+export interface AreaCompletion {
+    area: HygieneArea
+    completed: boolean
+    record?: HygieneRecord // Latest record that counts for the area
+}
+
+// Convert Supabase row to HygieneArea type
+function convertToHygieneArea(row: SupabaseHygieneArea): HygieneArea {
+    return {
+        id: row.id,
+        code: row.code,
+        name: row.name,
+        zone: row.zone || undefined,
+        requiredFrequency: (row.required_frequency as CleaningFrequency) || CleaningFrequency.DAILY,
+        checklistItems: row.checklist_items || [],
+        isActive: row.is_active,
+        createdAt: row.created_at
+    }
+}
+
+/**
+ * Code for a new area, made from its name (e.g. "Cold Room" -> "cold_room")
+ */
+export function toHygieneAreaCode(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+}
+
+/**
+ * Display name of an area code; unknown codes are shown as they are
+ */
+export function getHygieneAreaName(areas: HygieneArea[], code: string): string {
+    return areas.find(area => area.code === code)?.name || code
+}
+
+/**
+ * Whether each active area has been cleaned as often as it must be by a date: daily areas on
+ * that date, weekly areas at any time from the Monday of its week. Records must cover that range.
+ */
+export function getAreaCompletion(areas: HygieneArea[], records: HygieneRecord[], date: string): AreaCompletion[] {
+    const weekStart = getWeekStart(date)
+
+    return areas
+        .filter(area => area.isActive)
+        .map(area => {
+            const from = area.requiredFrequency === CleaningFrequency.WEEKLY ? weekStart : date
+            const record = records
+                .filter(r => r.area === area.code && r.date >= from && r.date <= date)
+                .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]
+            return { area, completed: !!record, record }
+        })
+}
+
+/**
+ * Check an area before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validateHygieneArea(
+    area: Pick<HygieneArea, 'id' | 'code' | 'name' | 'checklistItems'>,
+    existing: HygieneArea[]
+): string[] {
+    const errors: string[] = []
+
+    if (!area.name.trim()) {
+        errors.push('Area name is required')
+    } else if (!area.code) {
+        errors.push('Area name must contain letters or digits')
+    }
+    if (existing.some(other => other.id !== area.id && other.name.trim().toLowerCase() === area.name.trim().toLowerCase())) {
+        errors.push(`An area named "${area.name.trim()}" already exists`)
+    } else if (!area.id && existing.some(other => other.code === area.code)) {
+        errors.push(`An area with the code "${area.code}" already exists`)
+    }
+    if (area.checklistItems.some(item => !item.trim())) {
+        errors.push('Checklist items cannot be empty')
+    }
+
+    return errors
+}
+
+/**
+ * Get all hygiene areas, including inactive ones
+ */
+export async function getHygieneAreas(): Promise<HygieneArea[]> {
+    try {
+        const { data, error } = await supabase
+            .from(HYGIENE_AREAS_TABLE)
+            .select('*')
+            .order('zone', { ascending: true, nullsFirst: false })
+            .order('name', { ascending: true })
+
+        if (error) {
+            console.error('Error fetching hygiene areas:', error)
+            return LEGACY_HYGIENE_AREAS
+        }
+
+        return (data || []).map(convertToHygieneArea)
+    } catch (error) {
+        console.error('Error in getHygieneAreas:', error)
+        return LEGACY_HYGIENE_AREAS
+    }
+}
+
+/**
+ * Create or update a hygiene area. The code is only set when the area is created.
+ */
+export async function saveHygieneArea(
+    area: Omit<HygieneArea, 'id' | 'createdAt'> & { id?: string }
+): Promise<HygieneArea | null> {
+    try {
+        const row = {
+            name: area.name.trim(),
+            zone: area.zone?.trim() || null,
+            required_frequency: area.requiredFrequency,
+            checklist_items: area.checklistItems.map(item => item.trim()),
+            is_active: area.isActive
+        }
+        const query = area.id
+            ? supabase.from(HYGIENE_AREAS_TABLE).update(row).eq('id', area.id)
+            : supabase.from(HYGIENE_AREAS_TABLE).insert({ ...row, code: area.code })
+
+        const { data, error } = await query.select().single()
+
+        if (error) {
+            console.error('Error saving hygiene area:', error)
+            return null
+        }
+
+        return convertToHygieneArea(data)
+    } catch (error) {
+        console.error('Error in saveHygieneArea:', error)
+        return null
+    }
+}
@@ -0,0 +1,132 @@
+/**
+ * Evidence for hygiene photos. Photos only come from the in-app camera: a frame is grabbed from
+ * the live video and hashed on the spot, so the record can later prove its photo wasn't swapped
+ * (SHA-256 of the uploaded file) and reveal a photo reused for another day (perceptual hash).
+ */
+import type { HygieneRecord } from '@/types'
+
+// Perceptual hashes this many bits apart or closer count as the same picture
+// (keep in sync with ADD_HYGIENE_PHOTO_EVIDENCE.sql)
+export const DUPLICATE_PHASH_DISTANCE = 6
+
+const JPEG_QUALITY = 0.9
+
+// A photo taken with the in-app camera, ready to upload
+export interface CapturedHygienePhoto {
+    blob: Blob
+    previewUrl: string // Data URL for showing the photo before it is saved
+    sha256: string
+    phash: string
+}
+
+export type PhotoVerification = 'verified' | 'mismatch' | 'unavailable'
+
+/**
+ * Hex SHA-256 of some bytes
+ */
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data)
+    return Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('')
+}
+
+/**
+ * 64-bit difference hash of an image: shrink to 9x8 grey pixels and record whether each pixel
+ * is brighter than its right neighbour. Re-encoding, resizing and small edits barely change it.
+ */
+export function computePerceptualHash(source: CanvasImageSource): string {
+    const canvas = document.createElement('canvas')
+    canvas.width = 9
+    canvas.height = 8
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+        throw new Error('Canvas is not available')
+    }
+
+    ctx.drawImage(source, 0, 0, 9, 8)
+    const pixels = ctx.getImageData(0, 0, 9, 8).data
+    const grey = (x: number, y: number) => {
+        const i = (y * 9 + x) * 4
+        return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114
+    }
+
+    let hash = ''
+    for (let y = 0; y < 8; y++) {
+        let nibble = 0
+        for (let x = 0; x < 8; x++) {
+            nibble = (nibble << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0)
+            if (x % 4 === 3) {
+                hash += nibble.toString(16)
+                nibble = 0
+            }
+        }
+    }
+    return hash
+}
+
+/**
+ * Number of bits two perceptual hashes differ in
+ */
+export function getPhashDistance(a: string, b: string): number {
+    let distance = 0
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+        while (diff) {
+            distance += diff & 1
+            diff >>= 1
+        }
+    }
+    return distance
+}
+
+/**
+ * Grab the current frame of the camera video as a hashed JPEG photo
+ */
+export async function captureHygienePhoto(video: HTMLVideoElement): Promise<CapturedHygienePhoto> {
+    if (!video.srcObject || video.videoWidth === 0) {
+        throw new Error('Camera is not ready')
+    }
+
+    const canvas = document.createElement('canvas')
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+        throw new Error('Canvas is not available')
+    }
+    ctx.drawImage(video, 0, 0)
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY))
+    if (!blob) {
+        throw new Error('Failed to capture photo')
+    }
+
+    return {
+        blob,
+        previewUrl: canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+        sha256: await sha256Hex(await blob.arrayBuffer()),
+        phash: computePerceptualHash(canvas)
+    }
+}
+
+/**
+ * Download a record's photo and check it still matches the hash saved with the record
+ */
+export async function verifyHygienePhoto(record: HygieneRecord): Promise<PhotoVerification> {
+    if (!record.photoSha256) {
+        return 'unavailable'
+    }
+
+    try {
+        const response = await fetch(record.photoUrl, { cache: 'no-store' })
+        if (!response.ok) {
+            return 'unavailable'
+        }
+        const hash = await sha256Hex(await response.arrayBuffer())
+        return hash === record.photoSha256 ? 'verified' : 'mismatch'
+    } catch (error) {
+        console.error('Error verifying hygiene photo:', error)
+        return 'unavailable'
+    }
+}
@@ -0,0 +1,248 @@
+/**
+ * Hygiene inspections: the checklist of an area filled in alongside its hygiene photo, scored as
+ * the share of applicable checks passed. The database raises a corrective action for every failed
+ * check (see CREATE_HYGIENE_INSPECTIONS_TABLE.sql); they stay open until the fix is recorded.
+ */
+import { supabase } from './supabase'
+import { addDays } from './roster'
+import { CorrectiveActionStatus, InspectionResult } from '@/types'
+import type { CorrectiveAction, HygieneArea, HygieneInspection, HygieneInspectionItem } from '@/types'
+
+const INSPECTIONS_TABLE = 'app_070c516bb6_hygiene_inspections'
+const CORRECTIVE_ACTIONS_TABLE = 'app_070c516bb6_corrective_actions'
+
+export interface SupabaseHygieneInspection {
+    id: string
+    record_id: string
+    area: string
+    date: string
+    items?: HygieneInspectionItem[] | null
+    score?: number | string | null
+    inspected_by?: string | null
+    created_at: string
+}
+
+export interface SupabaseCorrectiveAction {
+    id: string
+    inspection_id: string
+    area: string
+    date: string
+    item: string
+    description: string
+    due_date: string
+    status: string
+    resolved_by?: string | null
+    resolved_at?: string | null
+    resolution_note?: string | null
+    created_at: string
+}
+
+// One point of the score trend: the date and the average score of each area inspected that day
+export type InspectionTrendPoint = { date: string } & Record<string, number | string>
+
+// Convert Supabase row to HygieneInspection type
+function convertToHygieneInspection(row: SupabaseHygieneInspection): HygieneInspection {
+    return {
+        id: row.id,
+        recordId: row.record_id,
+        area: row.area,
+        date: row.date,
+        items: row.items || [],
+        score: row.score === null || row.score === undefined ? undefined : Number(row.score),
+        inspectedBy: row.inspected_by || undefined,
+        createdAt: row.created_at
+    }
+}
+
+// Convert Supabase row to CorrectiveAction type
+function convertToCorrectiveAction(row: SupabaseCorrectiveAction): CorrectiveAction {
+    return {
+        id: row.id,
+        inspectionId: row.inspection_id,
+        area: row.area,
+        date: row.date,
+        item: row.item,
+        description: row.description,
+        dueDate: row.due_date,
+        status: (row.status as CorrectiveActionStatus) || CorrectiveActionStatus.OPEN,
+        resolvedBy: row.resolved_by || undefined,
+        resolvedAt: row.resolved_at || undefined,
+        resolutionNote: row.resolution_note || undefined,
+        createdAt: row.created_at
+    }
+}
+
+/**
+ * Percentage (0-100, rounded) of applicable items that passed; undefined when no item applied
+ */
+export function getInspectionScore(items: HygieneInspectionItem[]): number | undefined {
+    const applicable = items.filter(item => item.result !== InspectionResult.NOT_APPLICABLE)
+    if (applicable.length === 0) {
+        return undefined
+    }
+    const passed = applicable.filter(item => item.result === InspectionResult.PASS).length
+    return Math.round((passed / applicable.length) * 100)
+}
+
+/**
+ * Check an inspection before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validateInspection(items: Partial<HygieneInspectionItem>[], checklistItems: string[]): string[] {
+    const errors: string[] = []
+
+    const unanswered = checklistItems.filter(item => !items.find(i => i.item === item)?.result)
+    if (unanswered.length > 0) {
+        errors.push(`Mark every check: ${unanswered.join(', ')}`)
+    }
+    const undescribed = items.filter(item => item.result === InspectionResult.FAIL && !item.comment?.trim())
+    if (undescribed.length > 0) {
+        errors.push(`Describe what is wrong for failed checks: ${undescribed.map(item => item.item).join(', ')}`)
+    }
+
+    return errors
+}
+
+/**
+ * Average inspection score of each area per date, oldest first, for charting.
+ * Areas are keyed by their code; dates without inspections are left out.
+ */
+export function getInspectionTrend(inspections: HygieneInspection[], areas: HygieneArea[]): InspectionTrendPoint[] {
+    const byDate = new Map<string, Map<string, number[]>>()
+
+    inspections
+        .filter(inspection => inspection.score !== undefined)
+        .forEach(inspection => {
+            const dateScores = byDate.get(inspection.date) || new Map<string, number[]>()
+            const scores = dateScores.get(inspection.area) || []
+            scores.push(inspection.score as number)
+            dateScores.set(inspection.area, scores)
+            byDate.set(inspection.date, dateScores)
+        })
+
+    return Array.from(byDate.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, dateScores]) => {
+            const point: InspectionTrendPoint = { date }
+            areas.forEach(area => {
+                const scores = dateScores.get(area.code)
+                if (scores) {
+                    point[area.code] = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+                }
+            })
+            return point
+        })
+}
+
+/**
+ * Get inspections dated within the given number of days up to a date (YYYY-MM-DD)
+ */
+export async function getHygieneInspections(endDate: string, days: number): Promise<HygieneInspection[]> {
+    try {
+        const { data, error } = await supabase
+            .from(INSPECTIONS_TABLE)
+            .select('*')
+            .gte('date', addDays(endDate, -(days - 1)))
+            .lte('date', endDate)
+            .order('date', { ascending: true })
+            .order('created_at', { ascending: true })
+
+        if (error) {
+            console.error('Error fetching hygiene inspections:', error)
+            return []
+        }
+
+        return (data || []).map(convertToHygieneInspection)
+    } catch (error) {
+        console.error('Error in getHygieneInspections:', error)
+        return []
+    }
+}
+
+/**
+ * Save the inspection made with a hygiene record. Corrective actions for its failed
+ * checks are created by the database.
+ */
+export async function saveHygieneInspection(
+    inspection: Omit<HygieneInspection, 'id' | 'score' | 'createdAt'>
+): Promise<HygieneInspection | null> {
+    try {
+        const { data, error } = await supabase
+            .from(INSPECTIONS_TABLE)
+            .insert({
+                record_id: inspection.recordId,
+                area: inspection.area,
+                date: inspection.date,
+                items: inspection.items.map(item => ({ ...item, comment: item.comment?.trim() || undefined })),
+                score: getInspectionScore(inspection.items) ?? null,
+                inspected_by: inspection.inspectedBy
+            })
+            .select()
+            .single()
+
+        if (error) {
+            console.error('Error saving hygiene inspection:', error)
+            return null
+        }
+
+        return convertToHygieneInspection(data)
+    } catch (error) {
+        console.error('Error in saveHygieneInspection:', error)
+        return null
+    }
+}
+
+/**
+ * Get corrective actions, oldest due first; only open ones unless all are asked for
+ */
+export async function getCorrectiveActions(includeResolved = false): Promise<CorrectiveAction[]> {
+    try {
+        let query = supabase
+            .from(CORRECTIVE_ACTIONS_TABLE)
+            .select('*')
+            .order('due_date', { ascending: true })
+            .order('created_at', { ascending: true })
+
+        if (!includeResolved) {
+            query = query.eq('status', CorrectiveActionStatus.OPEN)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+            console.error('Error fetching corrective actions:', error)
+            return []
+        }
+
+        return (data || []).map(convertToCorrectiveAction)
+    } catch (error) {
+        console.error('Error in getCorrectiveActions:', error)
+        return []
+    }
+}
+
+/**
+ * Record how a corrective action was fixed and close it
+ */
+export async function resolveCorrectiveAction(id: string, resolutionNote: string, resolvedBy?: string): Promise<boolean> {
+    try {
+        const { error } = await supabase
+            .from(CORRECTIVE_ACTIONS_TABLE)
+            .update({
+                status: CorrectiveActionStatus.RESOLVED,
+                resolution_note: resolutionNote.trim(),
+                resolved_by: resolvedBy,
+                resolved_at: new Date().toISOString()
+            })
+            .eq('id', id)
+
+        if (error) {
+            console.error('Error resolving corrective action:', error)
+            return false
+        }
+
+        return true
+    } catch (error) {
+        console.error('Error in resolveCorrectiveAction:', error)
+        return false
+    }
+}
@@ -1,5 +1,7 @@
 import { supabase } from './supabase'
-import type { HygieneRecord, HygieneArea } from '@/types'
+import { DUPLICATE_PHASH_DISTANCE, getPhashDistance } from './hygiene-evidence'
+import type { CapturedHygienePhoto } from './hygiene-evidence'
+import type { HygieneRecord } from '@/types'
 
 const HYGIENE_TABLE = 'app_f79f105891_hygiene_records'
 
@@ -11,10 +13,18 @@ export interface SupabaseHygieneRecord {
     date: string
     area: string
     photo_url: string
+    photo_sha256?: string | null
+    photo_phash?: string | null
     notes?: string
+    captured_at?: string | null
+    duplicate_of?: string | null
+    outside_date?: boolean | null
     created_at: string
 }
 
+// Fields the database stamps itself when a record is saved
+type NewHygieneRecord = Omit<HygieneRecord, 'id' | 'createdAt' | 'capturedAt' | 'duplicateOf' | 'outsideDate'>
+
 // Convert Supabase hygiene record row to HygieneRecord type
 function convertToHygieneRecord(row: SupabaseHygieneRecord): HygieneRecord {
     return {
@@ -22,21 +32,30 @@ function convertToHygieneRecord(row: SupabaseHygieneRecord): HygieneRecord {
         workerId: row.worker_id,
         workerName: row.worker_name,
         date: row.date,
-        area: row.area as HygieneArea,
+        area: row.area,
         photoUrl: row.photo_url,
+        photoSha256: row.photo_sha256 || undefined,
+        photoPhash: row.photo_phash || undefined,
         notes: row.notes,
+        capturedAt: row.captured_at || undefined,
+        duplicateOf: row.duplicate_of || undefined,
+        outsideDate: row.outside_date === true,
         createdAt: row.created_at
     }
 }
 
 // Convert HygieneRecord to Supabase row
-function convertToSupabaseHygieneRow(record: Omit<HygieneRecord, 'id' | 'createdAt'>): Omit<SupabaseHygieneRecord, 'id' | 'user_id' | 'created_at'> {
+function convertToSupabaseHygieneRow(
+    record: NewHygieneRecord
+): Omit<SupabaseHygieneRecord, 'id' | 'user_id' | 'created_at' | 'captured_at' | 'duplicate_of' | 'outside_date'> {
     return {
         worker_id: record.workerId,
         worker_name: record.workerName,
         date: record.date,
         area: record.area,
         photo_url: record.photoUrl,
+        photo_sha256: record.photoSha256,
+        photo_phash: record.photoPhash,
         notes: record.notes
     }
 }
@@ -87,6 +106,31 @@ export async function getHygieneRecordsByDate(date: string): Promise<HygieneReco
     }
 }
 
+/**
+ * Get hygiene records dated between two dates (YYYY-MM-DD, both included)
+ */
+export async function getHygieneRecordsByDateRange(startDate: string, endDate: string): Promise<HygieneRecord[]> {
+    try {
+        const { data, error } = await supabase
+            .from(HYGIENE_TABLE)
+            .select('*')
+            .gte('date', startDate)
+            .lte('date', endDate)
+            .order('date', { ascending: false })
+            .order('created_at', { ascending: false })
+
+        if (error) {
+            console.error('Error fetching hygiene records by date range:', error)
+            return []
+        }
+
+        return (data || []).map(convertToHygieneRecord)
+    } catch (error) {
+        console.error('Error in getHygieneRecordsByDateRange:', error)
+        return []
+    }
+}
+
 /**
  * Get hygiene records for a specific worker
  */
@@ -112,9 +156,38 @@ export async function getHygieneRecordsByWorker(workerId: string): Promise<Hygie
 }
 
 /**
- * Save a hygiene record to Supabase
+ * Latest earlier record of an area whose photo looks the same as a newly captured one, if any
+ */
+export async function findDuplicateHygienePhoto(area: string, photo: CapturedHygienePhoto): Promise<HygieneRecord | null> {
+    try {
+        const { data, error } = await supabase
+            .from(HYGIENE_TABLE)
+            .select('*')
+            .eq('area', area)
+            .not('photo_phash', 'is', null)
+            .order('created_at', { ascending: false })
+
+        if (error) {
+            console.error('Error checking for duplicate hygiene photos:', error)
+            return null
+        }
+
+        const match = (data || []).find((row: SupabaseHygieneRecord) =>
+            row.photo_sha256 === photo.sha256
+            || getPhashDistance(row.photo_phash || '', photo.phash) <= DUPLICATE_PHASH_DISTANCE
+        )
+        return match ? convertToHygieneRecord(match) : null
+    } catch (error) {
+        console.error('Error in findDuplicateHygienePhoto:', error)
+        return null
+    }
+}
+
+/**
+ * Save a hygiene record to Supabase. Capture time, the outside-date flag and the duplicate
+ * link are set by the database.
  */
-export async function saveHygieneRecord(record: Omit<HygieneRecord, 'id' | 'createdAt'>): Promise<HygieneRecord | null> {
+export async function saveHygieneRecord(record: NewHygieneRecord): Promise<HygieneRecord | null> {
     try {
         const row = convertToSupabaseHygieneRow(record)
 
@@ -137,17 +210,18 @@ export async function saveHygieneRecord(record: Omit<HygieneRecord, 'id' | 'crea
 }
 
 /**
- * Upload photo to Supabase Storage
+ * Upload a photo taken with the in-app camera to Supabase Storage
  */
-export async function uploadHygienePhoto(file: File, workerId: string, area: string, date: string): Promise<string | null> {
+export async function uploadHygienePhoto(photo: CapturedHygienePhoto, workerId: string, area: string, date: string): Promise<string | null> {
     try {
-        const fileName = `${workerId}_${area}_${date}_${Date.now()}.${file.name.split('.').pop()}`
+        const fileName = `${workerId}_${area}_${date}_${Date.now()}.jpg`
         const filePath = `hygiene/${fileName}`
 
-        const { data, error } = await supabase.storage
+        const { error } = await supabase.storage
             .from('hygiene-photos')
-            .upload(filePath, file, {
+            .upload(filePath, photo.blob, {
                 cacheControl: '3600',
+                contentType: 'image/jpeg',
                 upsert: false
             })
 
@@ -0,0 +1,204 @@
+/**
+ * Lab test parameters: what is measured for each product or material (Brix, TDS, pH...) and the
+ * specification limits a result must fall within. Results keep a copy of the limits they were
+ * judged against, so changing a specification doesn't change past pass/fail outcomes.
+ */
+import { supabase } from './supabase'
+import type { LabTestCategory, LabTestParameter, LabTestRecord, LabTestResult } from '@/types'
+
+const LAB_TEST_PARAMETERS_TABLE = 'app_070c516bb6_lab_test_parameters'
+
+export interface SupabaseLabTestParameter {
+    id: string
+    category: string
+    name: string
+    unit?: string | null
+    min_value?: number | string | null
+    max_value?: number | string | null
+    is_active: boolean
+    created_at: string
+}
+
+// One month of a parameter's trend
+export interface LabTestTrendPoint {
+    month: string // YYYY-MM format
+    value: number
+    passed: boolean
+}
+
+function toOptionalNumber(value: number | string | null | undefined): number | undefined {
+    return value === null || value === undefined || value === '' ? undefined : Number(value)
+}
+
+// Convert Supabase row to LabTestParameter type
+function convertToLabTestParameter(row: SupabaseLabTestParameter): LabTestParameter {
+    return {
+        id: row.id,
+        category: row.category as LabTestCategory,
+        name: row.name,
+        unit: row.unit || undefined,
+        minValue: toOptionalNumber(row.min_value),
+        maxValue: toOptionalNumber(row.max_value),
+        isActive: row.is_active,
+        createdAt: row.created_at
+    }
+}
+
+/**
+ * Whether a value is within the limits (both inclusive; a missing limit doesn't apply)
+ */
+export function isWithinSpec(value: number, minValue?: number, maxValue?: number): boolean {
+    return (minValue === undefined || value >= minValue) && (maxValue === undefined || value <= maxValue)
+}
+
+/**
+ * Specification as text, e.g. "6.5 - 8.5 pH", "≤ 500 ppm", "≥ 65 °Bx"
+ */
+export function formatSpec(spec: Pick<LabTestParameter, 'unit' | 'minValue' | 'maxValue'>): string {
+    const unit = spec.unit ? ` ${spec.unit}` : ''
+    if (spec.minValue !== undefined && spec.maxValue !== undefined) {
+        return `${spec.minValue} - ${spec.maxValue}${unit}`
+    }
+    if (spec.minValue !== undefined) {
+        return `≥ ${spec.minValue}${unit}`
+    }
+    if (spec.maxValue !== undefined) {
+        return `≤ ${spec.maxValue}${unit}`
+    }
+    return 'No limit'
+}
+
+/**
+ * Judge a measured value against a parameter's current specification
+ */
+export function evaluateLabResult(parameter: LabTestParameter, value: number): LabTestResult {
+    return {
+        parameterId: parameter.id,
+        name: parameter.name,
+        unit: parameter.unit,
+        minValue: parameter.minValue,
+        maxValue: parameter.maxValue,
+        value,
+        passed: isWithinSpec(value, parameter.minValue, parameter.maxValue)
+    }
+}
+
+/**
+ * Whether all results passed; undefined when there are no results
+ */
+export function getLabTestOutcome(results: LabTestResult[]): boolean | undefined {
+    return results.length === 0 ? undefined : results.every(result => result.passed)
+}
+
+/**
+ * A parameter's results over the months, oldest first. When a month has several reports,
+ * the latest one counts.
+ */
+export function getLabTestTrend(records: LabTestRecord[], parameterId: string): LabTestTrendPoint[] {
+    const byMonth = new Map<string, { createdAt: string; point: LabTestTrendPoint }>()
+
+    records.forEach(record => {
+        const result = record.results?.find(r => r.parameterId === parameterId)
+        if (!result) return
+
+        const existing = byMonth.get(record.month)
+        if (!existing || existing.createdAt < record.createdAt) {
+            byMonth.set(record.month, {
+                createdAt: record.createdAt,
+                point: { month: record.month, value: result.value, passed: result.passed }
+            })
+        }
+    })
+
+    return Array.from(byMonth.values())
+        .map(entry => entry.point)
+        .sort((a, b) => a.month.localeCompare(b.month))
+}
+
+/**
+ * Check a parameter before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validateLabTestParameter(
+    parameter: Pick<LabTestParameter, 'id' | 'category' | 'name' | 'minValue' | 'maxValue'>,
+    existing: LabTestParameter[]
+): string[] {
+    const errors: string[] = []
+
+    if (!parameter.category) {
+        errors.push('Product/material is required')
+    }
+    if (!parameter.name.trim()) {
+        errors.push('Parameter name is required')
+    } else if (existing.some(other =>
+        other.id !== parameter.id
+        && other.category === parameter.category
+        && other.name.trim().toLowerCase() === parameter.name.trim().toLowerCase()
+    )) {
+        errors.push(`"${parameter.name.trim()}" is already a parameter of this product/material`)
+    }
+    if ([parameter.minValue, parameter.maxValue].some(limit => limit !== undefined && isNaN(limit))) {
+        errors.push('Limits must be numbers')
+    } else if (parameter.minValue === undefined && parameter.maxValue === undefined) {
+        errors.push('Set a minimum, a maximum or both')
+    } else if (parameter.minValue !== undefined && parameter.maxValue !== undefined && parameter.minValue > parameter.maxValue) {
+        errors.push('Minimum cannot be above maximum')
+    }
+
+    return errors
+}
+
+/**
+ * Get all lab test parameters, including inactive ones
+ */
+export async function getLabTestParameters(): Promise<LabTestParameter[]> {
+    try {
+        const { data, error } = await supabase
+            .from(LAB_TEST_PARAMETERS_TABLE)
+            .select('*')
+            .order('category', { ascending: true })
+            .order('name', { ascending: true })
+
+        if (error) {
+            console.error('Error fetching lab test parameters:', error)
+            return []
+        }
+
+        return (data || []).map(convertToLabTestParameter)
+    } catch (error) {
+        console.error('Error in getLabTestParameters:', error)
+        return []
+    }
+}
+
+/**
+ * Create or update a lab test parameter
+ */
+export async function saveLabTestParameter(
+    parameter: Omit<LabTestParameter, 'id' | 'createdAt'> & { id?: string }
+): Promise<LabTestParameter | null> {
+    try {
+        const row = {
+            category: parameter.category,
+            name: parameter.name.trim(),
+            unit: parameter.unit?.trim() || null,
+            min_value: parameter.minValue ?? null,
+            max_value: parameter.maxValue ?? null,
+            is_active: parameter.isActive
+        }
+        const query = parameter.id
+            ? supabase.from(LAB_TEST_PARAMETERS_TABLE).update(row).eq('id', parameter.id)
+            : supabase.from(LAB_TEST_PARAMETERS_TABLE).insert(row)
+
+        const { data, error } = await query.select().single()
+
+        if (error) {
+            console.error('Error saving lab test parameter:', error)
+            return null
+        }
+
+        return convertToLabTestParameter(data)
+    } catch (error) {
+        console.error('Error in saveLabTestParameter:', error)
+        return null
+    }
+}
@@ -1,5 +1,5 @@
 import { supabase } from './supabase'
-import type { LabTestRecord, LabTestType, LabTestCategory } from '@/types'
+import type { LabTestRecord, LabTestResult, LabTestType, LabTestCategory } from '@/types'
 
 const LAB_TESTS_TABLE = 'app_f79f105891_lab_tests'
 
@@ -11,6 +11,8 @@ export interface SupabaseLabTestRecord {
     product_name: string
     month: string // YYYY-MM format
     file_url: string
+    results?: LabTestResult[] | null
+    passed?: boolean | null
     notes?: string
     created_at: string
 }
@@ -24,6 +26,8 @@ function convertToLabTestRecord(row: SupabaseLabTestRecord): LabTestRecord {
         productName: row.product_name,
         month: row.month,
         fileUrl: row.file_url,
+        results: row.results || undefined,
+        passed: row.passed ?? undefined,
         notes: row.notes,
         createdAt: row.created_at
     }
@@ -37,6 +41,8 @@ function convertToSupabaseLabTestRow(record: Omit<LabTestRecord, 'id' | 'created
         product_name: record.productName,
         month: record.month,
         file_url: record.fileUrl,
+        results: record.results && record.results.length > 0 ? record.results : null,
+        passed: record.passed ?? null,
         notes: record.notes
     }
 }
@@ -0,0 +1,305 @@
+/**
+ * Label templates for QR code printing: page/label size, grid layout, fields and fonts.
+ * Templates are stored in Supabase settings with localStorage fallback.
+ */
+import { Barcode, BarcodeSymbology, Gs1Data, LabelField, LabelTemplate } from '@/types';
+import { generateBarcodeDataURL } from './barcode-symbologies';
+import { getSettingFromSupabase, saveSettingToSupabase } from './supabase-service';
+
+const LABEL_TEMPLATES_SETTING_KEY = 'label_templates';
+const LABEL_TEMPLATES_STORAGE_KEY = 'label-templates';
+
+export interface LabelData {
+  code: string;
+  symbology?: BarcodeSymbology; // QR when not set
+  qrCodeImage?: string; // Symbol image (QR or 1D) as a data URL
+  description?: string;
+  weight?: string;
+  worker?: string;
+  date?: string;
+  product?: string;
+  batch?: string;
+  gs1?: Gs1Data; // Encoded in GS1-128 symbols and as a Digital Link in QR codes
+}
+
+export const LABEL_FIELD_LABELS: Record<LabelField, string> = {
+  [LabelField.CODE]: 'Code',
+  [LabelField.DESCRIPTION]: 'Description',
+  [LabelField.WEIGHT]: 'Weight',
+  [LabelField.WORKER]: 'Worker',
+  [LabelField.DATE]: 'Date',
+  [LabelField.PRODUCT]: 'Product',
+  [LabelField.BATCH]: 'Batch'
+};
+
+export const DEFAULT_LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: 'thermal-50x25',
+    name: 'Thermal roll 50x25mm',
+    pageWidthMm: 50,
+    pageHeightMm: 25,
+    labelWidthMm: 50,
+    labelHeightMm: 25,
+    columns: 1,
+    rows: 1,
+    marginTopMm: 0,
+    marginLeftMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+    qrSizeMm: 21,
+    fontFamily: 'Arial, sans-serif',
+    fontSizePt: 7,
+    fields: [LabelField.CODE, LabelField.DESCRIPTION, LabelField.DATE],
+    showBorder: false
+  },
+  {
+    id: 'a4-24',
+    name: 'A4 sheet, 24 labels (3x8)',
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    labelWidthMm: 70,
+    labelHeightMm: 37,
+    columns: 3,
+    rows: 8,
+    marginTopMm: 0.5,
+    marginLeftMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+    qrSizeMm: 30,
+    fontFamily: 'Arial, sans-serif',
+    fontSizePt: 9,
+    fields: [LabelField.CODE, LabelField.DESCRIPTION, LabelField.WORKER, LabelField.DATE],
+    showBorder: false
+  }
+];
+
+/**
+ * Get all label templates, from Supabase settings with localStorage fallback
+ */
+export async function getLabelTemplates(): Promise<LabelTemplate[]> {
+  const saved = await getSettingFromSupabase<LabelTemplate[]>(LABEL_TEMPLATES_SETTING_KEY);
+  if (saved && saved.length > 0) {
+    localStorage.setItem(LABEL_TEMPLATES_STORAGE_KEY, JSON.stringify(saved));
+    return saved;
+  }
+
+  try {
+    const storedData = localStorage.getItem(LABEL_TEMPLATES_STORAGE_KEY);
+    const templates: LabelTemplate[] = storedData ? JSON.parse(storedData) : [];
+    return templates.length > 0 ? templates : DEFAULT_LABEL_TEMPLATES;
+  } catch (error) {
+    console.error('Error reading label templates from local storage:', error);
+    return DEFAULT_LABEL_TEMPLATES;
+  }
+}
+
+/**
+ * Save all label templates. Returns false if they could only be saved on this device.
+ */
+export async function saveLabelTemplates(templates: LabelTemplate[]): Promise<boolean> {
+  localStorage.setItem(LABEL_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  return saveSettingToSupabase(LABEL_TEMPLATES_SETTING_KEY, templates);
+}
+
+/**
+ * Pick the template assigned to a product, falling back to the first template
+ */
+export function findTemplateForProduct(templates: LabelTemplate[], product?: string): LabelTemplate | undefined {
+  const normalized = (product || '').trim().toLowerCase();
+  if (normalized) {
+    const match = templates.find(t => (t.product || '').trim().toLowerCase() === normalized);
+    if (match) {
+      return match;
+    }
+  }
+  return templates[0];
+}
+
+/**
+ * Build label data for a barcode. `extras` supplies print-time values such as product and batch.
+ */
+export function barcodeToLabelData(barcode: Barcode, extras: Partial<LabelData> = {}): LabelData {
+  return {
+    code: barcode.code,
+    symbology: barcode.symbology,
+    gs1: barcode.gs1,
+    // Stored images are plain QR codes, so 1D and GS1 symbols are rendered at print time
+    qrCodeImage: (!barcode.symbology || barcode.symbology === BarcodeSymbology.QR) && !barcode.gs1 ? barcode.qrCodeImage || undefined : undefined,
+    description: barcode.description,
+    weight: barcode.weight || (barcode.gs1?.netWeightKg ? `${barcode.gs1.netWeightKg}kg` : undefined),
+    worker: barcode.assignedWorker || barcode.packerName,
+    date: new Date(barcode.createdAt).toLocaleDateString(),
+    batch: barcode.gs1?.batch,
+    ...extras
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function isLinear(label: LabelData): boolean {
+  return !!label.symbology && label.symbology !== BarcodeSymbology.QR;
+}
+
+function renderLabel(template: LabelTemplate, label: LabelData): string {
+  const lines = template.fields
+    .map(field => {
+      const value = label[field];
+      if (!value) return '';
+      const text = field === LabelField.CODE ? value : `${LABEL_FIELD_LABELS[field]}: ${value}`;
+      return `<div class="field field-${field}">${escapeHtml(text)}</div>`;
+    })
+    .join('');
+
+  return `
+    <div class="label">
+      ${label.qrCodeImage ? `<img class="${isLinear(label) ? 'linear' : 'qr'}" src="${label.qrCodeImage}" alt="Barcode: ${escapeHtml(label.code)}" />` : ''}
+      <div class="fields">${lines}</div>
+    </div>
+  `;
+}
+
+/**
+ * Render labels as a printable HTML document laid out according to the template
+ */
+export function renderLabelSheetHtml(template: LabelTemplate, labels: LabelData[], showPrintButton: boolean = true): string {
+  const perPage = Math.max(1, template.columns * template.rows);
+  const pages: LabelData[][] = [];
+  for (let i = 0; i < labels.length; i += perPage) {
+    pages.push(labels.slice(i, i + perPage));
+  }
+
+  const pagesHtml = pages
+    .map(page => `<div class="page">${page.map(label => renderLabel(template, label)).join('')}</div>`)
+    .join('');
+
+  return `
+    <html>
+    <head>
+      <title>Print Labels</title>
+      <style>
+        @page {
+          size: ${template.pageWidthMm}mm ${template.pageHeightMm}mm;
+          margin: 0;
+        }
+        body {
+          margin: 0;
+          font-family: ${template.fontFamily};
+          font-size: ${template.fontSizePt}pt;
+          color: #000;
+        }
+        .page {
+          width: ${template.pageWidthMm}mm;
+          height: ${template.pageHeightMm}mm;
+          box-sizing: border-box;
+          padding: ${template.marginTopMm}mm 0 0 ${template.marginLeftMm}mm;
+          display: grid;
+          grid-template-columns: repeat(${template.columns}, ${template.labelWidthMm}mm);
+          grid-auto-rows: ${template.labelHeightMm}mm;
+          column-gap: ${template.gapXMm}mm;
+          row-gap: ${template.gapYMm}mm;
+          overflow: hidden;
+          page-break-after: always;
+        }
+        .page:last-child {
+          page-break-after: auto;
+        }
+        .label {
+          box-sizing: border-box;
+          display: flex;
+          align-items: center;
+          gap: 1.5mm;
+          padding: 1mm;
+          overflow: hidden;
+          ${template.showBorder ? 'border: 0.2mm solid #000;' : ''}
+        }
+        .qr {
+          width: ${template.qrSizeMm}mm;
+          height: ${template.qrSizeMm}mm;
+          flex-shrink: 0;
+        }
+        .linear {
+          height: ${template.qrSizeMm}mm;
+          max-width: 60%;
+          flex-shrink: 0;
+        }
+        .fields {
+          min-width: 0;
+          line-height: 1.2;
+        }
+        .field {
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+        .field-code {
+          font-weight: bold;
+          font-family: monospace;
+        }
+        @media screen {
+          body {
+            background: #eee;
+            padding: 10px;
+          }
+          .page {
+            background: #fff;
+            margin: 0 auto 10px;
+            box-shadow: 0 0 3px rgba(0, 0, 0, 0.3);
+          }
+          .label {
+            outline: 1px dashed #ccc;
+          }
+        }
+        @media print {
+          .no-print {
+            display: none;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      ${showPrintButton ? `
+      <div class="no-print" style="margin-bottom: 10px; text-align: center;">
+        <button onclick="window.print();" style="padding: 10px 20px; font-size: 16px;">Print ${labels.length} Labels</button>
+      </div>` : ''}
+      ${pagesHtml}
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Open a print window with the labels laid out using the given template.
+ * Symbol images missing from the label data are generated on the fly.
+ */
+export async function printLabels(template: LabelTemplate, labels: LabelData[]): Promise<boolean> {
+  // Open the window first so pop-up blockers treat it as part of the click
+  const printWindow = window.open('', '_blank');
+
+  if (!printWindow) {
+    alert("Could not open print window. Please check if pop-ups are blocked.");
+    return false;
+  }
+
+  try {
+    const labelsWithImages = await Promise.all(labels.map(async label => ({
+      ...label,
+      qrCodeImage: label.qrCodeImage || await generateBarcodeDataURL(label.code, label.symbology, label.gs1)
+    })));
+
+    printWindow.document.open();
+    printWindow.document.write(renderLabelSheetHtml(template, labelsWithImages));
+    printWindow.document.close();
+    printWindow.focus();
+    return true;
+  } catch (error) {
+    console.error('Error rendering labels for printing:', error);
+    printWindow.close();
+    return false;
+  }
+}
@@ -0,0 +1,491 @@
+/**
+ * Leave management: leave types with their pay rules, leave requests approved by HR, yearly
+ * leave balances per worker and the public holiday calendar. Approved leave and holidays are
+ * applied by the salary calculator; pending, rejected and cancelled requests change nothing.
+ */
+import { supabase } from './supabase'
+import { getRuleSetForMonth } from './payroll-rules'
+import { LeaveRequestStatus } from '@/types'
+import type { Holiday, LeaveEntitlement, LeaveRequest, LeaveType, PayrollRuleSet } from '@/types'
+
+const LEAVE_TYPES_TABLE = 'app_070c516bb6_leave_types'
+const LEAVE_REQUESTS_TABLE = 'app_070c516bb6_leave_requests'
+const LEAVE_ENTITLEMENTS_TABLE = 'app_070c516bb6_leave_entitlements'
+const HOLIDAYS_TABLE = 'app_070c516bb6_holidays'
+
+export interface SupabaseLeaveType {
+  id: string
+  name: string
+  paid: boolean
+  counts_as_absence: boolean
+  annual_days?: number | null
+  is_active: boolean
+  created_at: string
+}
+
+export interface SupabaseLeaveRequest {
+  id: string
+  worker_id: string
+  leave_type_id: string
+  start_date: string
+  end_date: string
+  days: number
+  reason?: string | null
+  status: string
+  requested_by?: string | null
+  decided_by?: string | null
+  decided_at?: string | null
+  decision_note?: string | null
+  created_at: string
+}
+
+export interface SupabaseLeaveEntitlement {
+  id: string
+  worker_id: string
+  leave_type_id: string
+  year: number
+  days: number
+}
+
+export interface SupabaseHoliday {
+  id: string
+  date: string
+  name: string
+  paid: boolean
+  created_at: string
+}
+
+export interface LeaveCalendar {
+  leaveTypes: LeaveType[]
+  requests: LeaveRequest[]
+  entitlements: LeaveEntitlement[]
+  holidays: Holiday[]
+}
+
+// How a day off counts for pay
+export interface LeaveDay {
+  kind: 'holiday' | 'leave'
+  name: string // Holiday or leave type name
+  paid: boolean
+  countsAsAbsence: boolean
+}
+
+export interface LeaveBalance {
+  entitlement?: number // Days allowed this year; no limit when not set
+  used: number // Approved days
+  pending: number // Days waiting for approval
+  remaining?: number // entitlement - used - pending
+}
+
+export const EMPTY_LEAVE_CALENDAR: LeaveCalendar = { leaveTypes: [], requests: [], entitlements: [], holidays: [] }
+
+// Convert Supabase row to LeaveType type
+function convertToLeaveType(row: SupabaseLeaveType): LeaveType {
+  return {
+    id: row.id,
+    name: row.name,
+    paid: row.paid,
+    countsAsAbsence: row.counts_as_absence,
+    annualDays: row.annual_days === null || row.annual_days === undefined ? undefined : Number(row.annual_days),
+    isActive: row.is_active,
+    createdAt: row.created_at
+  }
+}
+
+// Convert Supabase row to LeaveRequest type (numeric columns can come back as strings)
+function convertToLeaveRequest(row: SupabaseLeaveRequest): LeaveRequest {
+  return {
+    id: row.id,
+    workerId: row.worker_id,
+    leaveTypeId: row.leave_type_id,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    days: Number(row.days),
+    reason: row.reason || undefined,
+    status: (row.status as LeaveRequestStatus) || LeaveRequestStatus.PENDING,
+    requestedBy: row.requested_by || undefined,
+    decidedBy: row.decided_by || undefined,
+    decidedAt: row.decided_at || undefined,
+    decisionNote: row.decision_note || undefined,
+    createdAt: row.created_at
+  }
+}
+
+// Convert Supabase row to LeaveEntitlement type
+function convertToEntitlement(row: SupabaseLeaveEntitlement): LeaveEntitlement {
+  return {
+    id: row.id,
+    workerId: row.worker_id,
+    leaveTypeId: row.leave_type_id,
+    year: Number(row.year),
+    days: Number(row.days)
+  }
+}
+
+// Convert Supabase row to Holiday type
+function convertToHoliday(row: SupabaseHoliday): Holiday {
+  return {
+    id: row.id,
+    date: row.date,
+    name: row.name,
+    paid: row.paid,
+    createdAt: row.created_at
+  }
+}
+
+// Every date (YYYY-MM-DD) from start to end, inclusive
+function getDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = []
+  const current = new Date(`${startDate}T00:00:00Z`)
+  const end = new Date(`${endDate}T00:00:00Z`)
+
+  while (current <= end) {
+    dates.push(current.toISOString().split('T')[0])
+    current.setUTCDate(current.getUTCDate() + 1)
+  }
+
+  return dates
+}
+
+/**
+ * Public holiday on a date (YYYY-MM-DD), if any
+ */
+export function getHoliday(calendar: LeaveCalendar, date: string): Holiday | undefined {
+  return calendar.holidays.find(holiday => holiday.date === date)
+}
+
+/**
+ * How a worker's day counts when they are not working it: a public holiday, or approved leave.
+ * Holidays come first, so leave spanning a holiday doesn't use up balance for it.
+ */
+export function getLeaveDay(calendar: LeaveCalendar, workerId: string, date: string): LeaveDay | null {
+  const holiday = getHoliday(calendar, date)
+  if (holiday) {
+    return { kind: 'holiday', name: holiday.name, paid: holiday.paid, countsAsAbsence: false }
+  }
+
+  const request = calendar.requests.find(r =>
+    r.workerId === workerId &&
+    r.status === LeaveRequestStatus.APPROVED &&
+    r.startDate <= date &&
+    r.endDate >= date
+  )
+  const leaveType = request && calendar.leaveTypes.find(type => type.id === request.leaveTypeId)
+  if (!leaveType) {
+    return null
+  }
+
+  return { kind: 'leave', name: leaveType.name, paid: leaveType.paid, countsAsAbsence: leaveType.countsAsAbsence }
+}
+
+/**
+ * Working days between two dates (inclusive) that leave would take from the balance:
+ * weekly off days (from the rule set of each month) and public holidays are not counted
+ */
+export function countLeaveDays(calendar: LeaveCalendar, startDate: string, endDate: string, ruleSets: PayrollRuleSet[]): number {
+  return getDatesInRange(startDate, endDate).filter(date => {
+    const [year, month] = date.split('-').map(Number)
+    const weeklyOffDay = getRuleSetForMonth(ruleSets, month - 1, year).weeklyOffDay
+    return new Date(`${date}T00:00:00Z`).getUTCDay() !== weeklyOffDay && !getHoliday(calendar, date)
+  }).length
+}
+
+/**
+ * A worker's balance of a leave type for a year. A worker-specific entitlement replaces the
+ * leave type's annual days.
+ */
+export function getLeaveBalance(calendar: LeaveCalendar, workerId: string, leaveType: LeaveType, year: number): LeaveBalance {
+  const workerEntitlement = calendar.entitlements.find(e =>
+    e.workerId === workerId && e.leaveTypeId === leaveType.id && e.year === year
+  )
+  const entitlement = workerEntitlement ? workerEntitlement.days : leaveType.annualDays
+
+  const yearRequests = calendar.requests.filter(r =>
+    r.workerId === workerId && r.leaveTypeId === leaveType.id && r.startDate.startsWith(`${year}-`)
+  )
+  const used = yearRequests
+    .filter(r => r.status === LeaveRequestStatus.APPROVED)
+    .reduce((sum, r) => sum + r.days, 0)
+  const pending = yearRequests
+    .filter(r => r.status === LeaveRequestStatus.PENDING)
+    .reduce((sum, r) => sum + r.days, 0)
+
+  return {
+    entitlement,
+    used,
+    pending,
+    remaining: entitlement === undefined ? undefined : entitlement - used - pending
+  }
+}
+
+/**
+ * Check a leave request before it is saved or approved. Returns a list of problems (empty when valid).
+ * The request itself (by ID) is left out of overlap and balance checks, so it can be re-checked on approval.
+ */
+export function validateLeaveRequest(
+  calendar: LeaveCalendar,
+  request: Pick<LeaveRequest, 'workerId' | 'leaveTypeId' | 'startDate' | 'endDate' | 'days'> & { id?: string }
+): string[] {
+  const errors: string[] = []
+  const others: LeaveCalendar = { ...calendar, requests: calendar.requests.filter(r => r.id !== request.id) }
+
+  if (!request.workerId) {
+    errors.push('Worker is required')
+  }
+  const leaveType = calendar.leaveTypes.find(type => type.id === request.leaveTypeId)
+  if (!leaveType) {
+    errors.push('Leave type is required')
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(request.startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(request.endDate)) {
+    errors.push('Start and end dates are required')
+    return errors
+  }
+  if (request.endDate < request.startDate) {
+    errors.push('End date cannot be before the start date')
+    return errors
+  }
+  if (request.startDate.substring(0, 4) !== request.endDate.substring(0, 4)) {
+    errors.push('Leave across the new year must be requested as two requests, one per year')
+  }
+  if (!(request.days > 0)) {
+    errors.push('The selected dates are all weekly off days or holidays')
+  }
+
+  const overlapping = others.requests.find(r =>
+    r.workerId === request.workerId &&
+    (r.status === LeaveRequestStatus.PENDING || r.status === LeaveRequestStatus.APPROVED) &&
+    r.startDate <= request.endDate &&
+    r.endDate >= request.startDate
+  )
+  if (overlapping) {
+    errors.push(`Overlaps ${overlapping.status} leave from ${overlapping.startDate} to ${overlapping.endDate}`)
+  }
+
+  if (leaveType && request.workerId) {
+    const balance = getLeaveBalance(others, request.workerId, leaveType, Number(request.startDate.substring(0, 4)))
+    if (balance.remaining !== undefined && request.days > balance.remaining) {
+      errors.push(`Only ${Math.max(0, balance.remaining)} day(s) of ${leaveType.name} left this year`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Check a leave type before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validateLeaveType(leaveType: Pick<LeaveType, 'name' | 'annualDays'>): string[] {
+  const errors: string[] = []
+
+  if (!leaveType.name.trim()) {
+    errors.push('Name is required')
+  }
+  if (leaveType.annualDays !== undefined && !(leaveType.annualDays >= 0)) {
+    errors.push('Days per year cannot be negative')
+  }
+
+  return errors
+}
+
+/**
+ * Get leave types, leave requests, worker entitlements and holidays
+ */
+export async function getLeaveCalendar(): Promise<LeaveCalendar> {
+  try {
+    const [typesResult, requestsResult, entitlementsResult, holidaysResult] = await Promise.all([
+      supabase.from(LEAVE_TYPES_TABLE).select('*').order('name', { ascending: true }),
+      supabase.from(LEAVE_REQUESTS_TABLE).select('*').order('start_date', { ascending: false }),
+      supabase.from(LEAVE_ENTITLEMENTS_TABLE).select('*'),
+      supabase.from(HOLIDAYS_TABLE).select('*').order('date', { ascending: true })
+    ])
+
+    if (typesResult.error) {
+      console.error('❌ Error fetching leave types:', typesResult.error)
+    }
+    if (requestsResult.error) {
+      console.error('❌ Error fetching leave requests:', requestsResult.error)
+    }
+    if (entitlementsResult.error) {
+      console.error('❌ Error fetching leave entitlements:', entitlementsResult.error)
+    }
+    if (holidaysResult.error) {
+      console.error('❌ Error fetching holidays:', holidaysResult.error)
+    }
+
+    return {
+      leaveTypes: (typesResult.data || []).map(convertToLeaveType),
+      requests: (requestsResult.data || []).map(convertToLeaveRequest),
+      entitlements: (entitlementsResult.data || []).map(convertToEntitlement),
+      holidays: (holidaysResult.data || []).map(convertToHoliday)
+    }
+  } catch (error) {
+    console.error('❌ Error in getLeaveCalendar:', error)
+    return EMPTY_LEAVE_CALENDAR
+  }
+}
+
+/**
+ * Create or update a leave type
+ */
+export async function saveLeaveType(leaveType: Omit<LeaveType, 'id' | 'createdAt'> & { id?: string }): Promise<LeaveType | null> {
+  try {
+    const row = {
+      name: leaveType.name.trim(),
+      paid: leaveType.paid,
+      counts_as_absence: leaveType.countsAsAbsence,
+      annual_days: leaveType.annualDays ?? null,
+      is_active: leaveType.isActive
+    }
+    const query = leaveType.id
+      ? supabase.from(LEAVE_TYPES_TABLE).update(row).eq('id', leaveType.id)
+      : supabase.from(LEAVE_TYPES_TABLE).insert(row)
+
+    const { data, error } = await query.select().single()
+
+    if (error) {
+      console.error('❌ Error saving leave type:', error)
+      return null
+    }
+
+    return convertToLeaveType(data)
+  } catch (error) {
+    console.error('❌ Error in saveLeaveType:', error)
+    return null
+  }
+}
+
+/**
+ * Submit a leave request for approval
+ */
+export async function saveLeaveRequest(
+  request: Pick<LeaveRequest, 'workerId' | 'leaveTypeId' | 'startDate' | 'endDate' | 'days' | 'reason' | 'requestedBy'>
+): Promise<LeaveRequest | null> {
+  try {
+    const { data, error } = await supabase
+      .from(LEAVE_REQUESTS_TABLE)
+      .insert({
+        worker_id: request.workerId,
+        leave_type_id: request.leaveTypeId,
+        start_date: request.startDate,
+        end_date: request.endDate,
+        days: request.days,
+        reason: request.reason || null,
+        status: LeaveRequestStatus.PENDING,
+        requested_by: request.requestedBy || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('❌ Error saving leave request:', error)
+      return null
+    }
+
+    return convertToLeaveRequest(data)
+  } catch (error) {
+    console.error('❌ Error in saveLeaveRequest:', error)
+    return null
+  }
+}
+
+/**
+ * Approve, reject or cancel a leave request. Only HR (the payroll section) can approve or reject,
+ * and leave in a month with locked payroll can't be approved or cancelled (enforced by the database).
+ */
+export async function decideLeaveRequest(
+  requestId: string,
+  status: LeaveRequestStatus.APPROVED | LeaveRequestStatus.REJECTED | LeaveRequestStatus.CANCELLED,
+  decidedBy?: string,
+  decisionNote?: string
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(LEAVE_REQUESTS_TABLE)
+      .update({
+        status,
+        decided_by: decidedBy || null,
+        decided_at: new Date().toISOString(),
+        decision_note: decisionNote || null
+      })
+      .eq('id', requestId)
+
+    if (error) {
+      console.error('❌ Error updating leave request:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in decideLeaveRequest:', error)
+    return false
+  }
+}
+
+/**
+ * Set a worker's allowance of a leave type for a year, replacing the leave type's annual days
+ */
+export async function saveLeaveEntitlement(workerId: string, leaveTypeId: string, year: number, days: number): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(LEAVE_ENTITLEMENTS_TABLE)
+      .upsert(
+        { worker_id: workerId, leave_type_id: leaveTypeId, year, days },
+        { onConflict: 'worker_id,leave_type_id,year' }
+      )
+
+    if (error) {
+      console.error('❌ Error saving leave entitlement:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in saveLeaveEntitlement:', error)
+    return false
+  }
+}
+
+/**
+ * Add a public holiday
+ */
+export async function saveHoliday(holiday: Pick<Holiday, 'date' | 'name' | 'paid'>): Promise<Holiday | null> {
+  try {
+    const { data, error } = await supabase
+      .from(HOLIDAYS_TABLE)
+      .insert({ date: holiday.date, name: holiday.name.trim(), paid: holiday.paid })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('❌ Error saving holiday:', error)
+      return null
+    }
+
+    return convertToHoliday(data)
+  } catch (error) {
+    console.error('❌ Error in saveHoliday:', error)
+    return null
+  }
+}
+
+/**
+ * Remove a public holiday
+ */
+export async function deleteHoliday(holidayId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(HOLIDAYS_TABLE)
+      .delete()
+      .eq('id', holidayId)
+
+    if (error) {
+      console.error('❌ Error deleting holiday:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in deleteHoliday:', error)
+    return false
+  }
+}
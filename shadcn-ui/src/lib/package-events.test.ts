@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { PackageEventType } from '@/types'
+import { supabase } from './supabase'
+import { logPackageEvent, syncPackageEvents } from './package-events'
+
+vi.mock('./supabase', () => ({ supabase: { from: vi.fn() } }))
+
+const insert = vi.fn()
+
+describe('syncPackageEvents', () => {
+  let store: Map<string, string>
+
+  beforeEach(() => {
+    store = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value)
+    })
+    insert.mockReset()
+    vi.mocked(supabase.from).mockReturnValue({ insert } as unknown as ReturnType<typeof supabase.from>)
+  })
+
+  it('uploads the events kept on this device and removes them once stored', async () => {
+    insert.mockResolvedValueOnce({ error: { message: 'Failed to fetch' } })
+    await logPackageEvent({ code: 'PKG2501001', eventType: PackageEventType.DELETED })
+    expect(JSON.parse(store.get('package-events') || '[]')).toHaveLength(1)
+
+    insert.mockResolvedValueOnce({ error: null })
+    expect(await syncPackageEvents()).toBe(1)
+
+    expect(insert).toHaveBeenLastCalledWith([expect.objectContaining({ code: 'PKG2501001', event_type: PackageEventType.DELETED })])
+    expect(JSON.parse(store.get('package-events') || '[]')).toEqual([])
+  })
+
+  it('keeps the events when the upload fails', async () => {
+    insert.mockResolvedValue({ error: { message: 'Failed to fetch' } })
+    await logPackageEvent({ code: 'PKG2501001', eventType: PackageEventType.DELETED })
+
+    expect(await syncPackageEvents()).toBe(0)
+    expect(JSON.parse(store.get('package-events') || '[]')).toHaveLength(1)
+  })
+})
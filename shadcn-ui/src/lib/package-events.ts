@@ -0,0 +1,200 @@
+import { supabase } from './supabase'
+import type { PackageEvent } from '@/types'
+import { PackageEventType, PackingStatus } from '@/types'
+
+const EVENTS_TABLE = 'app_070c516bb6_package_events'
+const LOCAL_EVENTS_KEY = 'package-events'
+const DEVICE_ID_KEY = 'package-device-id'
+
+export interface SupabasePackageEvent {
+  id: string
+  user_id: string
+  code: string
+  event_type: string
+  from_status?: string | null
+  to_status?: string | null
+  actor?: string | null
+  device_id?: string | null
+  details?: Record<string, unknown> | null
+  occurred_at: string
+  created_at: string
+}
+
+export interface PackageEventInput {
+  code: string
+  eventType: PackageEventType
+  fromStatus?: PackingStatus
+  toStatus?: PackingStatus
+  actor?: string
+  details?: Record<string, unknown>
+  occurredAt?: string
+}
+
+let activeSync: Promise<number> | null = null
+
+// Convert Supabase row to PackageEvent type
+function convertToPackageEvent(row: SupabasePackageEvent): PackageEvent {
+  return {
+    id: row.id,
+    code: row.code,
+    eventType: row.event_type as PackageEventType,
+    fromStatus: (row.from_status as PackingStatus) || undefined,
+    toStatus: (row.to_status as PackingStatus) || undefined,
+    actor: row.actor || undefined,
+    deviceId: row.device_id || undefined,
+    details: row.details || undefined,
+    occurredAt: row.occurred_at || row.created_at
+  }
+}
+
+/**
+ * Get a stable identifier for this browser/device, created on first use
+ */
+export function getDeviceId(): string {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+    if (!deviceId) {
+      deviceId = `device-${crypto.randomUUID().slice(0, 8)}`
+      localStorage.setItem(DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+  } catch {
+    return 'unknown-device'
+  }
+}
+
+// Row inserted for an event; the id and created_at are assigned by the database
+function convertToInsertRow(event: PackageEvent): Omit<SupabasePackageEvent, 'id' | 'user_id' | 'created_at'> {
+  return {
+    code: event.code,
+    event_type: event.eventType,
+    from_status: event.fromStatus || null,
+    to_status: event.toStatus || null,
+    actor: event.actor || null,
+    device_id: event.deviceId || null,
+    details: event.details || null,
+    occurred_at: event.occurredAt
+  }
+}
+
+function readLocalEvents(): PackageEvent[] {
+  try {
+    const storedData = localStorage.getItem(LOCAL_EVENTS_KEY)
+    return storedData ? JSON.parse(storedData) : []
+  } catch (error) {
+    console.error('Error reading package events from local storage:', error)
+    return []
+  }
+}
+
+/**
+ * Append an event to the package audit trail.
+ * Never throws - a failed audit write must not block packing or shipping.
+ */
+export async function logPackageEvent(input: PackageEventInput): Promise<void> {
+  const event: PackageEvent = {
+    id: crypto.randomUUID(),
+    code: input.code,
+    eventType: input.eventType,
+    fromStatus: input.fromStatus,
+    toStatus: input.toStatus,
+    actor: input.actor || undefined,
+    deviceId: getDeviceId(),
+    details: input.details,
+    occurredAt: input.occurredAt || new Date().toISOString()
+  }
+
+  try {
+    const { error } = await supabase
+      .from(EVENTS_TABLE)
+      .insert([convertToInsertRow(event)])
+
+    if (!error) {
+      return
+    }
+    console.warn('⚠️ Failed to write package event to Supabase, keeping it in localStorage:', error.message)
+  } catch (error) {
+    console.warn('⚠️ Error writing package event to Supabase, keeping it in localStorage:', error)
+  }
+
+  try {
+    const events = readLocalEvents()
+    events.push(event)
+    localStorage.setItem(LOCAL_EVENTS_KEY, JSON.stringify(events))
+  } catch (error) {
+    console.error('Error saving package event to local storage:', error)
+  }
+}
+
+async function uploadLocalEvents(): Promise<number> {
+  const events = readLocalEvents()
+  if (events.length === 0) {
+    return 0
+  }
+
+  try {
+    const { error } = await supabase
+      .from(EVENTS_TABLE)
+      .insert(events.map(convertToInsertRow))
+
+    if (error) {
+      console.warn('⚠️ Failed to upload package events kept in localStorage:', error.message)
+      return 0
+    }
+  } catch (error) {
+    console.warn('⚠️ Error uploading package events kept in localStorage:', error)
+    return 0
+  }
+
+  // Keep events logged while the upload was running
+  try {
+    const uploadedIds = new Set(events.map(event => event.id))
+    localStorage.setItem(LOCAL_EVENTS_KEY, JSON.stringify(readLocalEvents().filter(event => !uploadedIds.has(event.id))))
+  } catch (error) {
+    console.error('Error removing uploaded package events from local storage:', error)
+  }
+  return events.length
+}
+
+/**
+ * Upload the events kept in localStorage when they couldn't be written to Supabase, and remove
+ * them from this device once they are stored. Returns the number uploaded.
+ * Concurrent calls share the upload that is already running.
+ */
+export async function syncPackageEvents(): Promise<number> {
+  if (activeSync) {
+    return activeSync
+  }
+
+  activeSync = uploadLocalEvents().finally(() => {
+    activeSync = null
+  })
+  return activeSync
+}
+
+/**
+ * Get the full event history for a package code, oldest first
+ */
+export async function getPackageEvents(code: string): Promise<PackageEvent[]> {
+  let events: PackageEvent[] = []
+
+  try {
+    const { data, error } = await supabase
+      .from(EVENTS_TABLE)
+      .select('*')
+      .eq('code', code)
+      .order('occurred_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching package events:', error)
+    } else {
+      events = (data || []).map(convertToPackageEvent)
+    }
+  } catch (error) {
+    console.error('Error in getPackageEvents:', error)
+  }
+
+  // Include events that have only been recorded on this device
+  const localEvents = readLocalEvents().filter(e => e.code === code)
+  return [...events, ...localEvents].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt))
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { PayrollRuleSet } from '@/types'
+import { DEFAULT_PAYROLL_RULE_SET, getAttendanceBonus, getRuleSetForMonth } from './payroll-rules'
+
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+function ruleSet(id: string, effectiveFrom: string, version: number): PayrollRuleSet {
+  return { ...DEFAULT_PAYROLL_RULE_SET, id, effectiveFrom, version }
+}
+
+describe('getRuleSetForMonth', () => {
+  const ruleSets = [
+    ruleSet('old', '2024-06-01', 5),
+    ruleSet('jan-v1', '2025-01-01', 1),
+    ruleSet('jan-v2', '2025-01-01', 2),
+    ruleSet('apr', '2025-04-01', 3)
+  ]
+
+  it('uses the latest effective date on or before the month', () => {
+    expect(getRuleSetForMonth(ruleSets, 2, 2025).id).toBe('jan-v2') // March 2025
+    expect(getRuleSetForMonth(ruleSets, 3, 2025).id).toBe('apr') // April 2025
+    expect(getRuleSetForMonth(ruleSets, 11, 2024).id).toBe('old') // December 2024
+  })
+
+  it('uses the highest version among sets with the same effective date', () => {
+    expect(getRuleSetForMonth([ruleSets[2], ruleSets[1]], 0, 2025).id).toBe('jan-v2')
+  })
+
+  it('does not let a higher version with an earlier date win', () => {
+    expect(getRuleSetForMonth([ruleSets[0], ruleSets[1]], 0, 2025).id).toBe('jan-v1')
+  })
+
+  it('falls back to the default rules before the first rule set', () => {
+    expect(getRuleSetForMonth(ruleSets, 4, 2024)).toBe(DEFAULT_PAYROLL_RULE_SET)
+    expect(getRuleSetForMonth([], 0, 2025)).toBe(DEFAULT_PAYROLL_RULE_SET)
+  })
+})
+
+describe('getAttendanceBonus', () => {
+  const tiers = [
+    { maxAbsences: 1, amount: 500 },
+    { maxAbsences: 0, amount: 1000 }
+  ]
+
+  it('pays the tier with the fewest allowed absences that still applies', () => {
+    expect(getAttendanceBonus(tiers, 0)).toBe(1000)
+    expect(getAttendanceBonus(tiers, 1)).toBe(500)
+  })
+
+  it('pays nothing past the last tier', () => {
+    expect(getAttendanceBonus(tiers, 2)).toBe(0)
+    expect(getAttendanceBonus([], 0)).toBe(0)
+  })
+})
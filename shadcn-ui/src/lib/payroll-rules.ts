@@ -0,0 +1,253 @@
+/**
+ * Versioned, effective-dated payroll rule sets used by the salary calculator.
+ * Rule sets are append-only in Supabase: every edit saves a new version, so the
+ * salary of a past month is always computed with the rules that were in force then.
+ */
+import { supabase } from './supabase'
+import { Gender } from '@/types'
+import type { AttendanceBonusTier, PayrollCategoryRules, PayrollRuleSet } from '@/types'
+
+const RULE_SETS_TABLE = 'app_070c516bb6_payroll_rule_sets'
+const RULE_SETS_STORAGE_KEY = 'payroll-rule-sets'
+
+export interface SupabasePayrollRuleSet {
+  id: string
+  version: number
+  name: string
+  effective_from: string
+  weekly_off_day: number
+  categories: Record<Gender, PayrollCategoryRules>
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+}
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export const WORKER_CATEGORY_LABELS: Record<Gender, string> = {
+  [Gender.MALE]: 'Men',
+  [Gender.FEMALE]: 'Women'
+}
+
+// The rules that used to be hard-coded in the salary calculator
+export const DEFAULT_PAYROLL_RULE_SET: PayrollRuleSet = {
+  id: 'default',
+  version: 0,
+  name: 'Standard rules',
+  effectiveFrom: '2000-01-01',
+  weeklyOffDay: 2, // Tuesday
+  categories: {
+    [Gender.MALE]: {
+      payBasis: 'monthly',
+      shiftHours: 10,
+      shiftStartTime: '09:00',
+      lateGraceMinutes: 0,
+      paidWeeklyOff: true,
+      overtimeOnWeeklyOff: false,
+      overtimeHoursPerDay: 1,
+      overtimeMultiplier: 2,
+      halfDayPayFraction: 0.5,
+      halfDaysPerAbsence: 2,
+      bonusTiers: [
+        { maxAbsences: 0, amount: 1000 },
+        { maxAbsences: 1, amount: 500 }
+      ]
+    },
+    [Gender.FEMALE]: {
+      payBasis: 'daily',
+      shiftHours: 9,
+      shiftStartTime: '09:00',
+      lateGraceMinutes: 0,
+      paidWeeklyOff: false,
+      overtimeOnWeeklyOff: false,
+      overtimeHoursPerDay: 1,
+      overtimeMultiplier: 2,
+      halfDayPayFraction: 0.5,
+      halfDaysPerAbsence: 2,
+      bonusTiers: [
+        { maxAbsences: 0, amount: 500 },
+        { maxAbsences: 1, amount: 250 }
+      ]
+    }
+  },
+  createdAt: '2000-01-01T00:00:00.000Z'
+}
+
+// Rule sets saved before a rule existed get its default value
+function withDefaultRules(categories: Record<Gender, PayrollCategoryRules>): Record<Gender, PayrollCategoryRules> {
+  return Object.fromEntries(
+    Object.values(Gender).map(category => [
+      category,
+      { ...DEFAULT_PAYROLL_RULE_SET.categories[category], ...categories[category] }
+    ])
+  ) as Record<Gender, PayrollCategoryRules>
+}
+
+// Convert Supabase row to PayrollRuleSet type
+function convertToRuleSet(row: SupabasePayrollRuleSet): PayrollRuleSet {
+  return {
+    id: row.id,
+    version: row.version,
+    name: row.name,
+    effectiveFrom: row.effective_from,
+    weeklyOffDay: row.weekly_off_day,
+    categories: withDefaultRules(row.categories),
+    notes: row.notes || undefined,
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at
+  }
+}
+
+/**
+ * Pick the rule set in force for a month: the latest effective date on or before the
+ * first day of the month, and the highest version among sets with that date.
+ */
+export function getRuleSetForMonth(ruleSets: PayrollRuleSet[], month: number, year: number): PayrollRuleSet {
+  const monthStart = `${year}-${String(month + 1).padStart(2, '0')}-01`
+
+  return ruleSets
+    .filter(ruleSet => ruleSet.effectiveFrom <= monthStart)
+    .reduce<PayrollRuleSet | null>((current, ruleSet) => {
+      if (!current) return ruleSet
+      if (ruleSet.effectiveFrom !== current.effectiveFrom) {
+        return ruleSet.effectiveFrom > current.effectiveFrom ? ruleSet : current
+      }
+      return ruleSet.version > current.version ? ruleSet : current
+    }, null) || DEFAULT_PAYROLL_RULE_SET
+}
+
+/**
+ * Attendance bonus for a number of absences: the first tier (by fewest allowed absences) that still applies
+ */
+export function getAttendanceBonus(tiers: AttendanceBonusTier[], absences: number): number {
+  const tier = [...tiers]
+    .sort((a, b) => a.maxAbsences - b.maxAbsences)
+    .find(t => absences <= t.maxAbsences)
+  return tier ? tier.amount : 0
+}
+
+/**
+ * Check a rule set before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validatePayrollRuleSet(ruleSet: Pick<PayrollRuleSet, 'name' | 'effectiveFrom' | 'weeklyOffDay' | 'categories'>): string[] {
+  const errors: string[] = []
+
+  if (!ruleSet.name.trim()) {
+    errors.push('Name is required')
+  }
+  if (!/^\d{4}-\d{2}-01$/.test(ruleSet.effectiveFrom)) {
+    errors.push('Rules must take effect on the first day of a month')
+  }
+  if (!Number.isInteger(ruleSet.weeklyOffDay) || ruleSet.weeklyOffDay < 0 || ruleSet.weeklyOffDay > 6) {
+    errors.push('Weekly off day must be a day of the week')
+  }
+
+  Object.values(Gender).forEach(category => {
+    const rules = ruleSet.categories[category]
+    const label = WORKER_CATEGORY_LABELS[category]
+    if (!rules) {
+      errors.push(`${label}: rules are missing`)
+      return
+    }
+    if (!(rules.shiftHours > 0 && rules.shiftHours <= 24)) {
+      errors.push(`${label}: shift hours must be between 0 and 24`)
+    }
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(rules.shiftStartTime)) {
+      errors.push(`${label}: shift start must be a time (HH:MM)`)
+    }
+    if (!Number.isInteger(rules.lateGraceMinutes) || rules.lateGraceMinutes < 0) {
+      errors.push(`${label}: late grace must be a whole number of minutes`)
+    }
+    if (!(rules.overtimeHoursPerDay >= 0 && rules.overtimeHoursPerDay <= 24)) {
+      errors.push(`${label}: overtime hours per day must be between 0 and 24`)
+    }
+    if (!(rules.overtimeMultiplier >= 1)) {
+      errors.push(`${label}: overtime multiplier must be at least 1`)
+    }
+    if (!(rules.halfDayPayFraction >= 0 && rules.halfDayPayFraction <= 1)) {
+      errors.push(`${label}: half day pay must be between 0 and 1 of a day`)
+    }
+    if (!Number.isInteger(rules.halfDaysPerAbsence) || rules.halfDaysPerAbsence < 1) {
+      errors.push(`${label}: half days per absence must be a whole number of at least 1`)
+    }
+    const tierLimits = rules.bonusTiers.map(t => t.maxAbsences)
+    if (rules.bonusTiers.some(t => !Number.isInteger(t.maxAbsences) || t.maxAbsences < 0 || !(t.amount >= 0))) {
+      errors.push(`${label}: bonus tiers need a whole number of absences and a non-negative amount`)
+    } else if (new Set(tierLimits).size !== tierLimits.length) {
+      errors.push(`${label}: two bonus tiers have the same number of absences`)
+    }
+  })
+
+  return errors
+}
+
+function getCachedRuleSets(): PayrollRuleSet[] {
+  try {
+    const storedData = localStorage.getItem(RULE_SETS_STORAGE_KEY)
+    const ruleSets: PayrollRuleSet[] = storedData ? JSON.parse(storedData) : []
+    return ruleSets.map(ruleSet => ({ ...ruleSet, categories: withDefaultRules(ruleSet.categories) }))
+  } catch (error) {
+    console.error('Error reading payroll rule sets from local storage:', error)
+    return []
+  }
+}
+
+/**
+ * Get all payroll rule set versions, newest first. Falls back to the last copy seen on this
+ * device, and to the default rules when none were ever saved.
+ */
+export async function getPayrollRuleSets(): Promise<PayrollRuleSet[]> {
+  try {
+    const { data, error } = await supabase
+      .from(RULE_SETS_TABLE)
+      .select('*')
+      .order('effective_from', { ascending: false })
+      .order('version', { ascending: false })
+
+    if (error) {
+      console.warn('⚠️ Could not load payroll rule sets, using cached rules:', error.message)
+      const cached = getCachedRuleSets()
+      return cached.length > 0 ? cached : [DEFAULT_PAYROLL_RULE_SET]
+    }
+
+    const ruleSets = (data || []).map(convertToRuleSet)
+    localStorage.setItem(RULE_SETS_STORAGE_KEY, JSON.stringify(ruleSets))
+    return ruleSets.length > 0 ? ruleSets : [DEFAULT_PAYROLL_RULE_SET]
+  } catch (error) {
+    console.error('❌ Error in getPayrollRuleSets:', error)
+    const cached = getCachedRuleSets()
+    return cached.length > 0 ? cached : [DEFAULT_PAYROLL_RULE_SET]
+  }
+}
+
+/**
+ * Save rules as a new version. Existing versions are never changed.
+ */
+export async function savePayrollRuleSet(
+  ruleSet: Pick<PayrollRuleSet, 'name' | 'effectiveFrom' | 'weeklyOffDay' | 'categories' | 'notes' | 'createdBy'>
+): Promise<PayrollRuleSet | null> {
+  try {
+    const { data, error } = await supabase
+      .from(RULE_SETS_TABLE)
+      .insert({
+        name: ruleSet.name.trim(),
+        effective_from: ruleSet.effectiveFrom,
+        weekly_off_day: ruleSet.weeklyOffDay,
+        categories: ruleSet.categories,
+        notes: ruleSet.notes || null,
+        created_by: ruleSet.createdBy || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('❌ Error saving payroll rule set:', error)
+      return null
+    }
+
+    return convertToRuleSet(data)
+  } catch (error) {
+    console.error('❌ Error in savePayrollRuleSet:', error)
+    return null
+  }
+}
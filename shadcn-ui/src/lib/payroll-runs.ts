@@ -0,0 +1,443 @@
+/**
+ * Monthly payroll runs. A run snapshots every worker's salary for a month as payslips,
+ * including advance deductions. Draft runs can be regenerated; once approved a run is locked,
+ * its payslips never change and attendance in that month can no longer be edited.
+ */
+import { supabase } from './supabase'
+import { calculateMonthlySalary, type SalaryCalculationResult } from './salary-calculator'
+import { AdvanceLedger, getWorkerAdvanceSummary, recordAdvanceRecoveries } from './advances'
+import type { LeaveCalendar } from './leave'
+import type { RosterSchedule } from './roster'
+import { PayrollRunStatus } from '@/types'
+import type { AttendanceRecord, Gender, PayrollRuleSet, PayrollRun, Payslip, Worker } from '@/types'
+
+const RUNS_TABLE = 'app_070c516bb6_payroll_runs'
+const PAYSLIPS_TABLE = 'app_070c516bb6_payslips'
+const LOCKED_MONTHS_STORAGE_KEY = 'payroll-locked-months'
+// Attendance is saved one record at a time, so lock checks reuse a recent lookup
+const LOCKED_MONTHS_CACHE_MS = 60 * 1000
+
+export type PayslipDraft = Omit<Payslip, 'id' | 'runId'>
+
+export interface SupabasePayrollRun {
+  id: string
+  month: string
+  status: string
+  total_net_pay: number
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+  approved_by?: string | null
+  approved_at?: string | null
+  payslips?: SupabasePayslip[]
+}
+
+export interface SupabasePayslip {
+  id: string
+  run_id: string
+  worker_id: string
+  worker_name: string
+  employee_id: string
+  gender: string
+  salary_rate: number
+  rule_set_id: string
+  rule_set_version: number
+  base_salary: number
+  bonus: number
+  overtime_compensation: number
+  late_minutes_deduction: number
+  total_late_minutes: number
+  total_salary: number
+  advance_current_month: number
+  advance_last_month: number
+  advance_deduction: number
+  advance_balance: number
+  net_pay: number
+}
+
+let lockedMonthsCache: { months: Set<string>; loadedAt: number } | null = null
+
+// Convert Supabase row to Payslip type (numeric columns can come back as strings)
+function convertToPayslip(row: SupabasePayslip): Payslip {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    workerId: row.worker_id,
+    workerName: row.worker_name,
+    employeeId: row.employee_id,
+    gender: row.gender as Gender,
+    salaryRate: Number(row.salary_rate),
+    ruleSetId: row.rule_set_id,
+    ruleSetVersion: Number(row.rule_set_version),
+    baseSalary: Number(row.base_salary),
+    bonus: Number(row.bonus),
+    overtimeCompensation: Number(row.overtime_compensation),
+    lateMinutesDeduction: Number(row.late_minutes_deduction),
+    totalLateMinutes: Number(row.total_late_minutes),
+    totalSalary: Number(row.total_salary),
+    advanceCurrentMonth: Number(row.advance_current_month),
+    advanceLastMonth: Number(row.advance_last_month),
+    advanceDeduction: Number(row.advance_deduction),
+    advanceBalance: Number(row.advance_balance),
+    netPay: Number(row.net_pay)
+  }
+}
+
+// Convert Supabase row to PayrollRun type
+function convertToPayrollRun(row: SupabasePayrollRun): PayrollRun {
+  return {
+    id: row.id,
+    month: row.month,
+    status: row.status as PayrollRunStatus,
+    payslips: (row.payslips || [])
+      .map(convertToPayslip)
+      .sort((a, b) => a.employeeId.localeCompare(b.employeeId)),
+    totalNetPay: Number(row.total_net_pay),
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    approvedBy: row.approved_by || undefined,
+    approvedAt: row.approved_at || undefined
+  }
+}
+
+function convertToSupabasePayslip(payslip: PayslipDraft, runId: string): Omit<SupabasePayslip, 'id'> {
+  return {
+    run_id: runId,
+    worker_id: payslip.workerId,
+    worker_name: payslip.workerName,
+    employee_id: payslip.employeeId,
+    gender: payslip.gender,
+    salary_rate: payslip.salaryRate,
+    rule_set_id: payslip.ruleSetId,
+    rule_set_version: payslip.ruleSetVersion,
+    base_salary: payslip.baseSalary,
+    bonus: payslip.bonus,
+    overtime_compensation: payslip.overtimeCompensation,
+    late_minutes_deduction: payslip.lateMinutesDeduction,
+    total_late_minutes: payslip.totalLateMinutes,
+    total_salary: payslip.totalSalary,
+    advance_current_month: payslip.advanceCurrentMonth,
+    advance_last_month: payslip.advanceLastMonth,
+    advance_deduction: payslip.advanceDeduction,
+    advance_balance: payslip.advanceBalance,
+    net_pay: payslip.netPay
+  }
+}
+
+/**
+ * Month key used by payroll runs (YYYY-MM). Month is 0-based like Date.getMonth().
+ */
+export function getPayrollMonthKey(month: number, year: number): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}`
+}
+
+/**
+ * Human readable month for a YYYY-MM key, e.g. "March 2025"
+ */
+export function formatPayrollMonth(monthKey: string): string {
+  const [year, month] = monthKey.split('-').map(Number)
+  return new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+}
+
+/**
+ * Whether a worker is on the payroll for a month: has a salary and was still active
+ * on or after the first day of the month
+ */
+export function isWorkerInPayrollMonth(worker: Worker, month: number, year: number): boolean {
+  if (!worker.baseSalary || worker.baseSalary <= 0) {
+    return false
+  }
+  if (worker.isActive === false && worker.inactiveDate) {
+    return worker.inactiveDate >= `${getPayrollMonthKey(month, year)}-01`
+  }
+  return worker.isActive !== false
+}
+
+/**
+ * Calculate payslips for every worker on the payroll for a month.
+ * Net pay is the total salary less the advance installments due that month.
+ */
+export function buildPayslips(
+  workers: Worker[],
+  attendanceRecords: AttendanceRecord[],
+  month: number,
+  year: number,
+  workerDefaultOvertime: Record<string, boolean>,
+  ruleSets: PayrollRuleSet[],
+  advanceLedger: AdvanceLedger,
+  leaveCalendar: LeaveCalendar,
+  rosterSchedule: RosterSchedule
+): PayslipDraft[] {
+  const monthKey = getPayrollMonthKey(month, year)
+
+  return workers
+    .filter(worker => isWorkerInPayrollMonth(worker, month, year))
+    .map(worker => {
+      const salary = calculateMonthlySalary(
+        worker,
+        attendanceRecords,
+        month,
+        year,
+        workerDefaultOvertime[worker.id] || false,
+        ruleSets,
+        advanceLedger,
+        leaveCalendar,
+        rosterSchedule
+      )
+      const advances = getWorkerAdvanceSummary(advanceLedger, worker.id, monthKey, salary.totalSalary)
+
+      return {
+        workerId: worker.id,
+        workerName: worker.name,
+        employeeId: worker.employeeId,
+        gender: worker.gender,
+        salaryRate: worker.baseSalary || 0,
+        ruleSetId: salary.ruleSetId,
+        ruleSetVersion: salary.ruleSetVersion,
+        baseSalary: salary.baseSalary,
+        bonus: salary.bonus,
+        overtimeCompensation: salary.overtimeCompensation,
+        lateMinutesDeduction: salary.lateMinutesDeduction,
+        totalLateMinutes: salary.totalLateMinutes,
+        totalSalary: salary.totalSalary,
+        advanceCurrentMonth: advances.issuedThisMonth,
+        advanceLastMonth: advances.issuedLastMonth,
+        advanceDeduction: salary.advanceDeduction,
+        advanceBalance: advances.balanceAfterDeduction,
+        netPay: salary.netSalary
+      }
+    })
+    .sort((a, b) => a.employeeId.localeCompare(b.employeeId))
+}
+
+/**
+ * Salary breakdown stored on a payslip, in the shape returned by calculateMonthlySalary
+ */
+export function payslipToSalaryResult(payslip: Payslip): SalaryCalculationResult {
+  return {
+    baseSalary: payslip.baseSalary,
+    bonus: payslip.bonus,
+    overtimeCompensation: payslip.overtimeCompensation,
+    lateMinutesDeduction: payslip.lateMinutesDeduction,
+    totalLateMinutes: payslip.totalLateMinutes,
+    totalSalary: payslip.totalSalary,
+    hasBonus: payslip.bonus > 0,
+    advanceDeduction: payslip.advanceDeduction,
+    netSalary: payslip.netPay,
+    ruleSetId: payslip.ruleSetId,
+    ruleSetVersion: payslip.ruleSetVersion
+  }
+}
+
+/**
+ * Get all payroll runs with their payslips, newest month first
+ */
+export async function getPayrollRuns(): Promise<PayrollRun[]> {
+  try {
+    const { data, error } = await supabase
+      .from(RUNS_TABLE)
+      .select(`*, payslips:${PAYSLIPS_TABLE}(*)`)
+      .order('month', { ascending: false })
+
+    if (error) {
+      console.error('❌ Error fetching payroll runs:', error)
+      return []
+    }
+
+    return (data || []).map(convertToPayrollRun)
+  } catch (error) {
+    console.error('❌ Error in getPayrollRuns:', error)
+    return []
+  }
+}
+
+/**
+ * Get the payroll run for a month (YYYY-MM), or null if none was generated
+ */
+export async function getPayrollRunForMonth(monthKey: string): Promise<PayrollRun | null> {
+  try {
+    const { data, error } = await supabase
+      .from(RUNS_TABLE)
+      .select(`*, payslips:${PAYSLIPS_TABLE}(*)`)
+      .eq('month', monthKey)
+      .maybeSingle()
+
+    if (error) {
+      console.error('❌ Error fetching payroll run:', error)
+      return null
+    }
+
+    return data ? convertToPayrollRun(data) : null
+  } catch (error) {
+    console.error('❌ Error in getPayrollRunForMonth:', error)
+    return null
+  }
+}
+
+/**
+ * Create or regenerate the draft run for a month with freshly calculated payslips.
+ * Returns null if the month is already locked or saving fails.
+ */
+export async function savePayrollRunDraft(
+  monthKey: string,
+  payslips: PayslipDraft[],
+  createdBy?: string
+): Promise<PayrollRun | null> {
+  try {
+    const existing = await getPayrollRunForMonth(monthKey)
+    if (existing?.status === PayrollRunStatus.LOCKED) {
+      console.warn('⚠️ Payroll for', monthKey, 'is locked and cannot be regenerated')
+      return null
+    }
+
+    const totalNetPay = Math.round(payslips.reduce((sum, p) => sum + p.netPay, 0) * 100) / 100
+    const now = new Date().toISOString()
+
+    const { data: run, error: runError } = existing
+      ? await supabase
+          .from(RUNS_TABLE)
+          .update({ total_net_pay: totalNetPay, created_by: createdBy || null, updated_at: now })
+          .eq('id', existing.id)
+          .eq('status', PayrollRunStatus.DRAFT)
+          .select()
+          .single()
+      : await supabase
+          .from(RUNS_TABLE)
+          .insert({ month: monthKey, status: PayrollRunStatus.DRAFT, total_net_pay: totalNetPay, created_by: createdBy || null })
+          .select()
+          .single()
+
+    if (runError || !run) {
+      console.error('❌ Error saving payroll run:', runError)
+      return null
+    }
+
+    // Replace the draft's payslips
+    const { error: deleteError } = await supabase
+      .from(PAYSLIPS_TABLE)
+      .delete()
+      .eq('run_id', run.id)
+
+    if (deleteError) {
+      console.error('❌ Error clearing draft payslips:', deleteError)
+      return null
+    }
+
+    if (payslips.length > 0) {
+      const { error: insertError } = await supabase
+        .from(PAYSLIPS_TABLE)
+        .insert(payslips.map(p => convertToSupabasePayslip(p, run.id)))
+
+      if (insertError) {
+        console.error('❌ Error saving payslips:', insertError)
+        return null
+      }
+    }
+
+    return getPayrollRunForMonth(monthKey)
+  } catch (error) {
+    console.error('❌ Error in savePayrollRunDraft:', error)
+    return null
+  }
+}
+
+/**
+ * Approve a draft run. This locks it: payslips are final, the month's attendance is frozen and
+ * the advance installments on its payslips are recorded as recovered.
+ */
+export async function approvePayrollRun(runId: string, approvedBy?: string): Promise<boolean> {
+  try {
+    const now = new Date().toISOString()
+    const { data, error } = await supabase
+      .from(RUNS_TABLE)
+      .update({
+        status: PayrollRunStatus.LOCKED,
+        approved_by: approvedBy || null,
+        approved_at: now,
+        updated_at: now
+      })
+      .eq('id', runId)
+      .eq('status', PayrollRunStatus.DRAFT)
+      .select(`month, payslips:${PAYSLIPS_TABLE}(worker_id, advance_deduction)`)
+
+    if (error) {
+      console.error('❌ Error approving payroll run:', error)
+      return false
+    }
+
+    if (!data || data.length === 0) {
+      console.warn('⚠️ Payroll run not found or already locked:', runId)
+      return false
+    }
+
+    lockedMonthsCache = null
+
+    const payslips = (data[0].payslips as Pick<SupabasePayslip, 'worker_id' | 'advance_deduction'>[] | null) || []
+    const recorded = await recordAdvanceRecoveries(
+      runId,
+      data[0].month,
+      payslips.map(p => ({ workerId: p.worker_id, advanceDeduction: Number(p.advance_deduction) }))
+    )
+    if (!recorded) {
+      console.warn('⚠️ Payroll approved but advance recoveries were not recorded; record them from the payroll screen')
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in approvePayrollRun:', error)
+    return false
+  }
+}
+
+/**
+ * Record the advance installments of a locked run. Approval does this already; use it to retry
+ * when recording failed. Installments already recorded for the month are left alone.
+ */
+export async function recordPayrollRunAdvanceRecoveries(run: PayrollRun): Promise<boolean> {
+  if (run.status !== PayrollRunStatus.LOCKED) {
+    return false
+  }
+  return recordAdvanceRecoveries(run.id, run.month, run.payslips)
+}
+
+/**
+ * Months (YYYY-MM) whose payroll is locked. Falls back to the last list seen on this device.
+ */
+export async function getLockedPayrollMonths(forceRefresh = false): Promise<Set<string>> {
+  if (!forceRefresh && lockedMonthsCache && Date.now() - lockedMonthsCache.loadedAt < LOCKED_MONTHS_CACHE_MS) {
+    return lockedMonthsCache.months
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from(RUNS_TABLE)
+      .select('month')
+      .eq('status', PayrollRunStatus.LOCKED)
+
+    if (error) {
+      throw error
+    }
+
+    const months = new Set<string>((data || []).map(row => row.month as string))
+    localStorage.setItem(LOCKED_MONTHS_STORAGE_KEY, JSON.stringify(Array.from(months)))
+    lockedMonthsCache = { months, loadedAt: Date.now() }
+    return months
+  } catch (error) {
+    console.warn('⚠️ Could not load locked payroll months, using cached list:', error)
+    try {
+      const storedData = localStorage.getItem(LOCKED_MONTHS_STORAGE_KEY)
+      return new Set<string>(storedData ? JSON.parse(storedData) : [])
+    } catch {
+      return new Set<string>()
+    }
+  }
+}
+
+/**
+ * Whether attendance on a date (YYYY-MM-DD) falls in a month with locked payroll
+ */
+export async function isPayrollLockedForDate(date: string): Promise<boolean> {
+  const lockedMonths = await getLockedPayrollMonths()
+  return lockedMonths.has(date.substring(0, 7))
+}
@@ -0,0 +1,332 @@
+/**
+ * Printable payslips rendered as PDF in the browser (jsPDF, no server involved).
+ * One A4 page per worker: salary breakdown, advance deduction, net pay and attendance summary.
+ */
+import { jsPDF } from 'jspdf';
+import { AttendanceRecord, AttendanceStatus, PayrollRuleSet, Payslip, Worker } from '@/types';
+import { calculateMonthlySalary, type SalaryCalculationResult } from './salary-calculator';
+import { getRuleSetForMonth, WEEKDAY_LABELS } from './payroll-rules';
+import { formatPayrollMonth, getPayrollMonthKey, payslipToSalaryResult } from './payroll-runs';
+import { AdvanceLedger, getWorkerAdvanceSummary } from './advances';
+import { EMPTY_LEAVE_CALENDAR, LeaveCalendar, getLeaveDay } from './leave';
+import { EMPTY_ROSTER_SCHEDULE, RosterSchedule, getRosteredShift } from './roster';
+
+const COMPANY_NAME = 'KETAKI COMPLIANCE';
+
+export interface PayslipAttendanceSummary {
+  presentDays: number; // Includes days without a record (present by default)
+  halfDays: number;
+  absentDays: number;
+  paidLeaveDays: number;
+  unpaidLeaveDays: number;
+  holidays: number;
+  weeklyOffDays: number;
+  weeklyOffDay: number; // 0 = Sunday ... 6 = Saturday, as of the first of the month
+  weeklyOffPaid: boolean;
+}
+
+export interface PayslipDocument {
+  workerName: string;
+  employeeId: string;
+  department?: string;
+  position?: string;
+  month: string; // YYYY-MM format
+  salaryRate: number;
+  payBasis: 'monthly' | 'daily';
+  salary: SalaryCalculationResult;
+  advanceDeduction: number;
+  advanceBalance: number; // Outstanding advances after this month's deduction
+  netPay: number;
+  attendance: PayslipAttendanceSummary;
+  approved: boolean; // Taken from a locked payroll run rather than calculated live
+}
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Count present, half and absent days for a worker in a month, up to today for the current
+ * month and up to the inactive date for workers who left. Weekly off days, approved leave and
+ * holidays (unless worked) are counted separately, the same way the salary calculator treats them.
+ */
+export function getPayslipAttendanceSummary(
+  worker: Worker,
+  attendanceRecords: AttendanceRecord[],
+  month: number,
+  year: number,
+  ruleSet: PayrollRuleSet,
+  leaveCalendar: LeaveCalendar = EMPTY_LEAVE_CALENDAR,
+  rosterSchedule: RosterSchedule = EMPTY_ROSTER_SCHEDULE
+): PayslipAttendanceSummary {
+  const rules = ruleSet.categories[worker.gender] || Object.values(ruleSet.categories)[0];
+  // Rostered days take the weekly off of the worker's shift
+  const getWeeklyOffDay = (date: string) =>
+    getRosteredShift(rosterSchedule, worker.id, date)?.weeklyOffDay ?? ruleSet.weeklyOffDay;
+  const summary: PayslipAttendanceSummary = {
+    presentDays: 0,
+    halfDays: 0,
+    absentDays: 0,
+    paidLeaveDays: 0,
+    unpaidLeaveDays: 0,
+    holidays: 0,
+    weeklyOffDays: 0,
+    weeklyOffDay: getWeeklyOffDay(formatDate(new Date(year, month, 1))),
+    weeklyOffPaid: rules.paidWeeklyOff
+  };
+
+  const recordsByDate = new Map<string, AttendanceRecord>();
+  attendanceRecords
+    .filter(record => record.workerId === worker.id)
+    .forEach(record => recordsByDate.set(record.date, record));
+
+  const today = formatDate(new Date());
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    const date = new Date(year, month, day);
+    const dateStr = formatDate(date);
+
+    if (dateStr > today) break;
+    if (worker.isActive === false && worker.inactiveDate && dateStr > worker.inactiveDate) break;
+
+    if (date.getDay() === getWeeklyOffDay(dateStr)) {
+      summary.weeklyOffDays++;
+      continue;
+    }
+
+    const status = recordsByDate.get(dateStr)?.status;
+    const leaveDay = getLeaveDay(leaveCalendar, worker.id, dateStr);
+    const worked = status === AttendanceStatus.PRESENT || status === AttendanceStatus.HALF_DAY;
+    if (leaveDay?.kind === 'holiday' && !worked) {
+      summary.holidays++;
+      continue;
+    }
+    if (leaveDay?.kind === 'leave') {
+      if (leaveDay.paid) {
+        summary.paidLeaveDays++;
+      } else {
+        summary.unpaidLeaveDays++;
+      }
+      continue;
+    }
+
+    if (status === AttendanceStatus.ABSENT) {
+      summary.absentDays++;
+    } else if (status === AttendanceStatus.HALF_DAY) {
+      summary.halfDays++;
+    } else {
+      summary.presentDays++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Build the payslip for a worker and month. When the month's payroll is approved, pass the
+ * locked payslip so the document shows what was actually paid instead of a live calculation.
+ */
+export function buildPayslipDocument(
+  worker: Worker,
+  attendanceRecords: AttendanceRecord[],
+  month: number,
+  year: number,
+  defaultOvertime: boolean,
+  ruleSets: PayrollRuleSet[],
+  advanceLedger: AdvanceLedger,
+  leaveCalendar: LeaveCalendar,
+  rosterSchedule: RosterSchedule,
+  lockedPayslip?: Payslip
+): PayslipDocument {
+  // A locked payslip keeps the rule set it was calculated with
+  const ruleSet = ruleSets.find(r => r.id === lockedPayslip?.ruleSetId) || getRuleSetForMonth(ruleSets, month, year);
+  const rules = ruleSet.categories[worker.gender] || Object.values(ruleSet.categories)[0];
+  const attendance = getPayslipAttendanceSummary(worker, attendanceRecords, month, year, ruleSet, leaveCalendar, rosterSchedule);
+
+  const base = {
+    workerName: worker.name,
+    employeeId: worker.employeeId,
+    department: worker.department,
+    position: worker.position,
+    month: getPayrollMonthKey(month, year),
+    payBasis: rules.payBasis,
+    attendance
+  };
+
+  if (lockedPayslip) {
+    return {
+      ...base,
+      salaryRate: lockedPayslip.salaryRate,
+      salary: payslipToSalaryResult(lockedPayslip),
+      advanceDeduction: lockedPayslip.advanceDeduction,
+      advanceBalance: lockedPayslip.advanceBalance,
+      netPay: lockedPayslip.netPay,
+      approved: true
+    };
+  }
+
+  const salary = calculateMonthlySalary(worker, attendanceRecords, month, year, defaultOvertime, ruleSets, advanceLedger, leaveCalendar, rosterSchedule);
+  const advances = getWorkerAdvanceSummary(advanceLedger, worker.id, base.month, salary.totalSalary);
+
+  return {
+    ...base,
+    salaryRate: worker.baseSalary || 0,
+    salary,
+    advanceDeduction: salary.advanceDeduction,
+    advanceBalance: advances.balanceAfterDeduction,
+    netPay: salary.netSalary,
+    approved: false
+  };
+}
+
+// The built-in PDF fonts have no rupee sign
+function formatAmount(amount: number): string {
+  return `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function renderPayslipPage(doc: jsPDF, payslip: PayslipDocument): void {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const left = 20;
+  const right = pageWidth - 20;
+  let y = 22;
+
+  const row = (label: string, value: string, options: { bold?: boolean; color?: [number, number, number] } = {}) => {
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setTextColor(...(options.color || [0, 0, 0]));
+    doc.text(label, left + 2, y);
+    doc.text(value, right - 2, y, { align: 'right' });
+    doc.setTextColor(0, 0, 0);
+    y += 7;
+  };
+
+  const section = (title: string) => {
+    y += 3;
+    doc.setFillColor(240, 240, 240);
+    doc.rect(left, y - 5, right - left, 7, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text(title, left + 2, y);
+    doc.setFontSize(10);
+    y += 8;
+  };
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(COMPANY_NAME, pageWidth / 2, y, { align: 'center' });
+  y += 8;
+  doc.setFontSize(12);
+  doc.text(`Payslip for ${formatPayrollMonth(payslip.month)}`, pageWidth / 2, y, { align: 'center' });
+  y += 5;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(100, 100, 100);
+  doc.text(
+    payslip.approved ? 'Approved payroll' : `Calculated ${new Date().toLocaleDateString('en-IN')} - not yet approved`,
+    pageWidth / 2,
+    y,
+    { align: 'center' }
+  );
+  doc.setTextColor(0, 0, 0);
+  y += 4;
+  doc.line(left, y, right, y);
+  y += 8;
+
+  // Employee details
+  doc.setFontSize(10);
+  row('Employee', payslip.workerName);
+  row('Employee ID', payslip.employeeId);
+  if (payslip.department) row('Department', payslip.department);
+  if (payslip.position) row('Position', payslip.position);
+  row(
+    payslip.payBasis === 'monthly' ? 'Monthly salary' : 'Daily wage',
+    formatAmount(payslip.salaryRate)
+  );
+
+  section('Attendance');
+  row('Present days', String(payslip.attendance.presentDays));
+  row('Half days', String(payslip.attendance.halfDays));
+  row('Absent days', String(payslip.attendance.absentDays));
+  if (payslip.attendance.paidLeaveDays > 0) row('Paid leave days', String(payslip.attendance.paidLeaveDays));
+  if (payslip.attendance.unpaidLeaveDays > 0) row('Unpaid leave days', String(payslip.attendance.unpaidLeaveDays));
+  if (payslip.attendance.holidays > 0) row('Holidays', String(payslip.attendance.holidays));
+  row(
+    `Weekly off days (${payslip.attendance.weeklyOffPaid ? 'paid' : 'unpaid'})`,
+    String(payslip.attendance.weeklyOffDays)
+  );
+  if (payslip.salary.totalLateMinutes > 0) {
+    row('Late minutes', String(payslip.salary.totalLateMinutes));
+  }
+
+  section('Earnings');
+  row('Base pay', formatAmount(payslip.salary.baseSalary));
+  row('Overtime compensation', formatAmount(payslip.salary.overtimeCompensation));
+  if (payslip.salary.lateMinutesDeduction > 0) {
+    row('   Late minutes deducted from overtime', `- ${formatAmount(payslip.salary.lateMinutesDeduction)}`, { color: [120, 120, 120] });
+  }
+  row('Attendance bonus', formatAmount(payslip.salary.bonus));
+  doc.line(left, y - 4, right, y - 4);
+  row('Total salary', formatAmount(payslip.salary.totalSalary), { bold: true });
+
+  section('Deductions');
+  row('Advance deduction', `- ${formatAmount(payslip.advanceDeduction)}`, { color: [180, 0, 0] });
+  if (payslip.advanceBalance > 0) {
+    row('   Advance balance still to recover', formatAmount(payslip.advanceBalance), { color: [120, 120, 120] });
+  }
+
+  y += 2;
+  doc.line(left, y - 4, right, y - 4);
+  doc.setFontSize(12);
+  row('Net pay', formatAmount(payslip.netPay), { bold: true });
+  doc.setFontSize(10);
+
+  // Signatures
+  y += 25;
+  doc.line(left, y, left + 60, y);
+  doc.line(right - 60, y, right, y);
+  y += 5;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text('Employee signature', left, y);
+  doc.text('Authorised signatory', right, y, { align: 'right' });
+
+  doc.setTextColor(120, 120, 120);
+  doc.setFontSize(8);
+  doc.text(
+    `Pay rules version ${payslip.salary.ruleSetVersion}. Weekly off: ${WEEKDAY_LABELS[payslip.attendance.weeklyOffDay]}.`,
+    left,
+    doc.internal.pageSize.getHeight() - 12
+  );
+  doc.setTextColor(0, 0, 0);
+}
+
+/**
+ * Render payslips into one PDF, one page each
+ */
+export function createPayslipPdf(payslips: PayslipDocument[]): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  payslips.forEach((payslip, index) => {
+    if (index > 0) {
+      doc.addPage();
+    }
+    renderPayslipPage(doc, payslip);
+  });
+
+  return doc;
+}
+
+/**
+ * Download a single worker's payslip as PDF
+ */
+export function downloadPayslipPdf(payslip: PayslipDocument): void {
+  createPayslipPdf([payslip]).save(`payslip-${payslip.employeeId}-${payslip.month}.pdf`);
+}
+
+/**
+ * Download payslips for many workers as one PDF
+ */
+export function downloadBulkPayslipPdf(payslips: PayslipDocument[], month: string): void {
+  createPayslipPdf(payslips).save(`payslips-${month}.pdf`);
+}
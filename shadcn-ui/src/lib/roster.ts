@@ -0,0 +1,289 @@
+/**
+ * Shifts and the weekly roster. A worker's roster assignment for a week carries over to the
+ * following weeks until they are rostered again, so the roster only needs editing when it changes.
+ * The rostered shift sets when a worker is expected in (late minutes and overtime at the clock-in
+ * kiosk) and their day off (attendance defaults and the packers offered at the scanner).
+ */
+import { supabase } from './supabase'
+import type { PayrollCategoryRules, RosterAssignment, Shift } from '@/types'
+
+const SHIFTS_TABLE = 'app_070c516bb6_shifts'
+const ROSTER_TABLE = 'app_070c516bb6_roster'
+
+export interface SupabaseShift {
+  id: string
+  name: string
+  start_time: string
+  end_time: string
+  break_minutes: number
+  weekly_off_day: number
+  is_active: boolean
+  created_at: string
+}
+
+export interface SupabaseRosterAssignment {
+  id: string
+  worker_id: string
+  week_start: string
+  shift_id?: string | null
+  updated_by?: string | null
+  updated_at: string
+}
+
+export interface RosterSchedule {
+  shifts: Shift[]
+  assignments: RosterAssignment[]
+}
+
+export const EMPTY_ROSTER_SCHEDULE: RosterSchedule = { shifts: [], assignments: [] }
+
+// Postgres TIME columns come back as HH:MM:SS
+function toTimeOfDay(time: string): string {
+  return time.substring(0, 5)
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Convert Supabase row to Shift type
+function convertToShift(row: SupabaseShift): Shift {
+  return {
+    id: row.id,
+    name: row.name,
+    startTime: toTimeOfDay(row.start_time),
+    endTime: toTimeOfDay(row.end_time),
+    breakMinutes: Number(row.break_minutes) || 0,
+    weeklyOffDay: Number(row.weekly_off_day),
+    isActive: row.is_active,
+    createdAt: row.created_at
+  }
+}
+
+// Convert Supabase row to RosterAssignment type
+function convertToRosterAssignment(row: SupabaseRosterAssignment): RosterAssignment {
+  return {
+    id: row.id,
+    workerId: row.worker_id,
+    weekStart: row.week_start,
+    shiftId: row.shift_id || undefined,
+    updatedBy: row.updated_by || undefined,
+    updatedAt: row.updated_at
+  }
+}
+
+/**
+ * The Monday (YYYY-MM-DD) of the week a date (YYYY-MM-DD) falls in
+ */
+export function getWeekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+  return day.toISOString().split('T')[0]
+}
+
+/**
+ * Add days to a date (YYYY-MM-DD)
+ */
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() + days)
+  return day.toISOString().split('T')[0]
+}
+
+/**
+ * Minutes from the start to the end of a shift, break included. An end time earlier than
+ * the start time is on the next day.
+ */
+export function getShiftLengthMinutes(shift: Pick<Shift, 'startTime' | 'endTime'>): number {
+  const length = toMinutes(shift.endTime) - toMinutes(shift.startTime)
+  return length > 0 ? length : length + 24 * 60
+}
+
+/**
+ * Whether a shift ends on the day after it starts (a night shift)
+ */
+export function isOvernightShift(shift: Pick<Shift, 'startTime' | 'endTime'>): boolean {
+  return toMinutes(shift.endTime) <= toMinutes(shift.startTime)
+}
+
+/**
+ * Hours worked in a shift, without the break
+ */
+export function getShiftWorkingHours(shift: Pick<Shift, 'startTime' | 'endTime' | 'breakMinutes'>): number {
+  return (getShiftLengthMinutes(shift) - shift.breakMinutes) / 60
+}
+
+/**
+ * The roster assignment in force for a worker in the week of a date: the latest one made
+ * for that week or an earlier one
+ */
+export function getRosterAssignment(schedule: RosterSchedule, workerId: string, date: string): RosterAssignment | undefined {
+  const weekStart = getWeekStart(date)
+  return schedule.assignments
+    .filter(assignment => assignment.workerId === workerId && assignment.weekStart <= weekStart)
+    .reduce<RosterAssignment | undefined>(
+      (latest, assignment) => (!latest || assignment.weekStart > latest.weekStart ? assignment : latest),
+      undefined
+    )
+}
+
+/**
+ * The shift a worker is rostered on for a date, if any
+ */
+export function getRosteredShift(schedule: RosterSchedule, workerId: string, date: string): Shift | undefined {
+  const shiftId = getRosterAssignment(schedule, workerId, date)?.shiftId
+  return shiftId ? schedule.shifts.find(shift => shift.id === shiftId) : undefined
+}
+
+/**
+ * Whether a date is the weekly off day of the worker's rostered shift. Workers who aren't
+ * rostered are never off by the roster.
+ */
+export function isRosteredOff(schedule: RosterSchedule, workerId: string, date: string): boolean {
+  const shift = getRosteredShift(schedule, workerId, date)
+  return !!shift && new Date(`${date}T00:00:00Z`).getUTCDay() === shift.weeklyOffDay
+}
+
+/**
+ * Payroll rules with the shift start and length of a rostered shift, for clocking in and out:
+ * check-ins are late against the shift start, and overtime starts at the shift end.
+ */
+export function getShiftRules(rules: PayrollCategoryRules, shift: Shift | undefined): PayrollCategoryRules {
+  if (!shift) {
+    return rules
+  }
+
+  return {
+    ...rules,
+    shiftStartTime: shift.startTime,
+    shiftHours: getShiftLengthMinutes(shift) / 60
+  }
+}
+
+/**
+ * Check a shift before it is saved. Returns a list of problems (empty when valid).
+ */
+export function validateShift(shift: Pick<Shift, 'name' | 'startTime' | 'endTime' | 'breakMinutes' | 'weeklyOffDay'>): string[] {
+  const errors: string[] = []
+
+  if (!shift.name.trim()) {
+    errors.push('Name is required')
+  }
+  if (!/^\d{2}:\d{2}$/.test(shift.startTime) || !/^\d{2}:\d{2}$/.test(shift.endTime)) {
+    errors.push('Start and end times are required')
+    return errors
+  }
+  if (shift.startTime === shift.endTime) {
+    errors.push('End time must be different from the start time')
+  }
+  if (!(shift.breakMinutes >= 0)) {
+    errors.push('Break cannot be negative')
+  } else if (shift.breakMinutes >= getShiftLengthMinutes(shift)) {
+    errors.push('Break must be shorter than the shift')
+  }
+  if (!Number.isInteger(shift.weeklyOffDay) || shift.weeklyOffDay < 0 || shift.weeklyOffDay > 6) {
+    errors.push('Weekly off day is required')
+  }
+
+  return errors
+}
+
+/**
+ * Get all shifts and roster assignments
+ */
+export async function getRosterSchedule(): Promise<RosterSchedule> {
+  try {
+    const [shiftsResult, rosterResult] = await Promise.all([
+      supabase.from(SHIFTS_TABLE).select('*').order('start_time', { ascending: true }),
+      supabase.from(ROSTER_TABLE).select('*').order('week_start', { ascending: true })
+    ])
+
+    if (shiftsResult.error) {
+      console.error('❌ Error fetching shifts:', shiftsResult.error)
+    }
+    if (rosterResult.error) {
+      console.error('❌ Error fetching roster:', rosterResult.error)
+    }
+
+    return {
+      shifts: (shiftsResult.data || []).map(convertToShift),
+      assignments: (rosterResult.data || []).map(convertToRosterAssignment)
+    }
+  } catch (error) {
+    console.error('❌ Error in getRosterSchedule:', error)
+    return EMPTY_ROSTER_SCHEDULE
+  }
+}
+
+/**
+ * Create or update a shift
+ */
+export async function saveShift(shift: Omit<Shift, 'id' | 'createdAt'> & { id?: string }): Promise<Shift | null> {
+  try {
+    const row = {
+      name: shift.name.trim(),
+      start_time: shift.startTime,
+      end_time: shift.endTime,
+      break_minutes: shift.breakMinutes,
+      weekly_off_day: shift.weeklyOffDay,
+      is_active: shift.isActive
+    }
+    const query = shift.id
+      ? supabase.from(SHIFTS_TABLE).update(row).eq('id', shift.id)
+      : supabase.from(SHIFTS_TABLE).insert(row)
+
+    const { data, error } = await query.select().single()
+
+    if (error) {
+      console.error('❌ Error saving shift:', error)
+      return null
+    }
+
+    return convertToShift(data)
+  } catch (error) {
+    console.error('❌ Error in saveShift:', error)
+    return null
+  }
+}
+
+/**
+ * Roster workers on a shift from a week on (or take them off the roster with no shift).
+ * The week start is moved to its Monday.
+ */
+export async function saveRosterAssignments(
+  workerIds: string[],
+  weekStart: string,
+  shiftId: string | undefined,
+  updatedBy?: string
+): Promise<boolean> {
+  if (workerIds.length === 0) {
+    return true
+  }
+
+  try {
+    const monday = getWeekStart(weekStart)
+    const { error } = await supabase
+      .from(ROSTER_TABLE)
+      .upsert(
+        workerIds.map(workerId => ({
+          worker_id: workerId,
+          week_start: monday,
+          shift_id: shiftId || null,
+          updated_by: updatedBy || null,
+          updated_at: new Date().toISOString()
+        })),
+        { onConflict: 'worker_id,week_start' }
+      )
+
+    if (error) {
+      console.error('❌ Error saving roster:', error)
+      return false
+    }
+
+    return true
+  } catch (error) {
+    console.error('❌ Error in saveRosterAssignments:', error)
+    return false
+  }
+}
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AttendanceRecord, AttendanceStatus, Gender, PayrollCategoryRules, PayrollRuleSet, Shift, Worker } from "@/types";
+import { DEFAULT_PAYROLL_RULE_SET } from "./payroll-rules";
+import { calculateMonthlySalary } from "./salary-calculator";
+import type { RosterSchedule } from "./roster";
+
+vi.mock("./supabase", () => ({ supabase: {} }));
+
+// March 2025: 31 days, Tuesdays (the default weekly off) are the 4th, 11th, 18th and 25th
+const MONTH = 2;
+const YEAR = 2025;
+const MONDAY = "2025-03-03";
+const TUESDAY = "2025-03-04";
+
+const MAN: Worker = {
+  id: "w1",
+  name: "Ravi",
+  employeeId: "E001",
+  isPacker: true,
+  gender: Gender.MALE,
+  baseSalary: 31000, // Rs. 1000 a day over 31 paid days, Rs. 100 an hour over 10 hour shifts
+  createdAt: "2025-01-01T00:00:00.000Z"
+};
+
+const WOMAN: Worker = {
+  ...MAN,
+  id: "w2",
+  name: "Anita",
+  employeeId: "E002",
+  gender: Gender.FEMALE,
+  baseSalary: 450 // Daily wage, Rs. 50 an hour over 9 hour shifts
+};
+
+function record(worker: Worker, date: string, status: AttendanceStatus, overtime: "yes" | "no" = "no"): AttendanceRecord {
+  return {
+    id: `${worker.id}-${date}`,
+    workerId: worker.id,
+    workerName: worker.name,
+    date,
+    status,
+    overtime,
+    createdAt: `${date}T09:00:00.000Z`
+  };
+}
+
+// Both workers rostered for all of March on a shift with Sunday off
+function rosteredOn(shift: Pick<Shift, "startTime" | "endTime">): RosterSchedule {
+  return {
+    shifts: [{ id: "s1", name: "Day", breakMinutes: 60, weeklyOffDay: 0, isActive: true, createdAt: "", ...shift }],
+    assignments: [MAN, WOMAN].map(worker => ({ id: worker.id, workerId: worker.id, weekStart: "2025-02-24", shiftId: "s1", updatedAt: "" }))
+  };
+}
+
+// The default rules with some of the men's rules changed
+function withMenRules(rules: Partial<PayrollCategoryRules>): PayrollRuleSet[] {
+  return [{
+    ...DEFAULT_PAYROLL_RULE_SET,
+    categories: {
+      ...DEFAULT_PAYROLL_RULE_SET.categories,
+      [Gender.MALE]: { ...DEFAULT_PAYROLL_RULE_SET.categories[Gender.MALE], ...rules }
+    }
+  }];
+}
+
+describe("calculateMonthlySalary", () => {
+  describe("weekly off day", () => {
+    it("pays the weekly off when it is paid", () => {
+      const salary = calculateMonthlySalary(MAN, [], MONTH, YEAR);
+      expect(salary.baseSalary).toBe(31000);
+    });
+
+    it("skips the weekly off when it is unpaid, even if the worker came in", () => {
+      const salary = calculateMonthlySalary(WOMAN, [record(WOMAN, TUESDAY, AttendanceStatus.PRESENT)], MONTH, YEAR);
+      expect(salary.baseSalary).toBe(27 * 450);
+    });
+
+    it("spreads a monthly salary over the working days when the weekly off is unpaid", () => {
+      const salary = calculateMonthlySalary({ ...MAN, baseSalary: 27000 }, [], MONTH, YEAR, false, withMenRules({ paidWeeklyOff: false }));
+      expect(salary.baseSalary).toBe(27000);
+    });
+  });
+
+  describe("overtime", () => {
+    const overtimeDay = [record(MAN, MONDAY, AttendanceStatus.PRESENT, "yes")];
+
+    it("pays overtime hours at the hourly rate from the shift hours, times the multiplier", () => {
+      expect(calculateMonthlySalary(MAN, overtimeDay, MONTH, YEAR).overtimeCompensation).toBe(1 * 100 * 2);
+      expect(calculateMonthlySalary(WOMAN, [record(WOMAN, MONDAY, AttendanceStatus.PRESENT, "yes")], MONTH, YEAR).overtimeCompensation).toBe(1 * 50 * 2);
+    });
+
+    it("derives the hourly rate from the category's shift hours", () => {
+      const salary = calculateMonthlySalary(MAN, overtimeDay, MONTH, YEAR, false, withMenRules({ shiftHours: 8 }));
+      expect(salary.overtimeCompensation).toBe(1 * 125 * 2);
+    });
+
+    it("applies the category's overtime multiplier", () => {
+      const salary = calculateMonthlySalary(MAN, overtimeDay, MONTH, YEAR, false, withMenRules({ overtimeMultiplier: 1.5 }));
+      expect(salary.overtimeCompensation).toBe(1 * 100 * 1.5);
+    });
+
+    it("pays no overtime on the weekly off unless the rules allow it", () => {
+      const weeklyOffOvertime = [record(MAN, TUESDAY, AttendanceStatus.PRESENT, "yes")];
+      expect(calculateMonthlySalary(MAN, weeklyOffOvertime, MONTH, YEAR).overtimeCompensation).toBe(0);
+      expect(calculateMonthlySalary(MAN, weeklyOffOvertime, MONTH, YEAR, false, withMenRules({ overtimeOnWeeklyOff: true })).overtimeCompensation).toBe(200);
+    });
+
+    it("uses the stamped overtime hours over the per-day credit", () => {
+      const salary = calculateMonthlySalary(MAN, [{ ...overtimeDay[0], overtimeHours: 2.5 }], MONTH, YEAR);
+      expect(salary.overtimeCompensation).toBe(2.5 * 100 * 2);
+    });
+  });
+
+  describe("attendance bonus", () => {
+    it("pays the tier for the number of absences", () => {
+      const absent = (dates: string[]) => dates.map(date => record(MAN, date, AttendanceStatus.ABSENT));
+      expect(calculateMonthlySalary(MAN, [], MONTH, YEAR).bonus).toBe(1000);
+      expect(calculateMonthlySalary(MAN, absent(["2025-03-03"]), MONTH, YEAR).bonus).toBe(500);
+      expect(calculateMonthlySalary(MAN, absent(["2025-03-03", "2025-03-05"]), MONTH, YEAR).bonus).toBe(0);
+      expect(calculateMonthlySalary(WOMAN, [], MONTH, YEAR).bonus).toBe(500);
+    });
+
+    it("uses the rule set's tiers", () => {
+      const rules = withMenRules({ bonusTiers: [{ maxAbsences: 2, amount: 300 }] });
+      const absent = [record(MAN, "2025-03-03", AttendanceStatus.ABSENT), record(MAN, "2025-03-05", AttendanceStatus.ABSENT)];
+      expect(calculateMonthlySalary(MAN, absent, MONTH, YEAR, false, rules).bonus).toBe(300);
+    });
+  });
+
+  describe("half days", () => {
+    const halfDays = (count: number) => ["2025-03-03", "2025-03-05", "2025-03-06", "2025-03-07"]
+      .slice(0, count)
+      .map(date => record(MAN, date, AttendanceStatus.HALF_DAY));
+
+    it("pays the half day fraction of the daily rate", () => {
+      expect(calculateMonthlySalary(MAN, halfDays(2), MONTH, YEAR).baseSalary).toBe(31000 - 2 * 500);
+    });
+
+    it("converts half days to absences for the bonus", () => {
+      expect(calculateMonthlySalary(MAN, halfDays(1), MONTH, YEAR).bonus).toBe(1000);
+      expect(calculateMonthlySalary(MAN, halfDays(2), MONTH, YEAR).bonus).toBe(500);
+      expect(calculateMonthlySalary(MAN, halfDays(4), MONTH, YEAR).bonus).toBe(0);
+    });
+
+    it("uses the rule set's half days per absence", () => {
+      const salary = calculateMonthlySalary(MAN, halfDays(2), MONTH, YEAR, false, withMenRules({ halfDaysPerAbsence: 3 }));
+      expect(salary.bonus).toBe(1000);
+    });
+  });
+
+  describe("roster", () => {
+    it("takes the weekly off from the rostered shift", () => {
+      const salary = calculateMonthlySalary(WOMAN, [record(WOMAN, TUESDAY, AttendanceStatus.PRESENT)], MONTH, YEAR,
+        false, undefined, undefined, undefined, rosteredOn({ startTime: "09:00", endTime: "18:00" }));
+      // Five Sundays in March 2025 go unpaid, the Tuesdays are working days
+      expect(salary.baseSalary).toBe(26 * 450);
+    });
+
+    it("adds no default overtime on a rostered day off", () => {
+      const schedule = rosteredOn({ startTime: "08:00", endTime: "18:00" });
+      expect(calculateMonthlySalary(MAN, [], MONTH, YEAR, true).overtimeCompensation).toBe(27 * 200);
+      expect(calculateMonthlySalary(MAN, [], MONTH, YEAR, true, undefined, undefined, undefined, schedule).overtimeCompensation).toBe(26 * 200);
+    });
+
+    it("derives the hourly rate from the rostered shift's hours", () => {
+      const salary = calculateMonthlySalary(MAN, [record(MAN, MONDAY, AttendanceStatus.PRESENT, "yes")], MONTH, YEAR,
+        false, undefined, undefined, undefined, rosteredOn({ startTime: "08:00", endTime: "16:00" }));
+      expect(salary.overtimeCompensation).toBe(1 * 125 * 2);
+    });
+  });
+
+  describe("east of UTC", () => {
+    const zone = process.env.TZ;
+    beforeEach(() => {
+      process.env.TZ = "Asia/Kolkata";
+    });
+    afterEach(() => {
+      process.env.TZ = zone;
+    });
+
+    it("matches records to the local calendar day", () => {
+      const salary = calculateMonthlySalary(MAN, [record(MAN, "2025-03-31", AttendanceStatus.ABSENT)], MONTH, YEAR);
+      expect(salary.baseSalary).toBe(30000);
+      expect(salary.bonus).toBe(500);
+    });
+  });
+
+  it("records the rule set version used", () => {
+    const salary = calculateMonthlySalary(MAN, [], MONTH, YEAR);
+    expect(salary.ruleSetId).toBe(DEFAULT_PAYROLL_RULE_SET.id);
+    expect(salary.ruleSetVersion).toBe(DEFAULT_PAYROLL_RULE_SET.version);
+  });
+});
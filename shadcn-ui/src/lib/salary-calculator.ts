@@ -1,4 +1,8 @@
-import { Worker, AttendanceRecord, Gender, AttendanceStatus } from "@/types";
+import { Worker, AttendanceRecord, Gender, AttendanceStatus, PayrollRuleSet } from "@/types";
+import { DEFAULT_PAYROLL_RULE_SET, getAttendanceBonus, getRuleSetForMonth } from "./payroll-rules";
+import { AdvanceLedger, EMPTY_ADVANCE_LEDGER, getAdvanceDeductionsForMonth } from "./advances";
+import { EMPTY_LEAVE_CALENDAR, LeaveCalendar, getLeaveDay } from "./leave";
+import { EMPTY_ROSTER_SCHEDULE, RosterSchedule, getRosteredShift, getShiftRules } from "./roster";
 
 export interface SalaryCalculationResult {
   baseSalary: number;
@@ -8,27 +12,52 @@ export interface SalaryCalculationResult {
   totalLateMinutes: number; // Total late minutes for the month
   totalSalary: number;
   hasBonus: boolean;
+  advanceDeduction: number; // Advance installments recovered from this salary
+  netSalary: number; // totalSalary - advanceDeduction
+  ruleSetId: string; // Payroll rule set the salary was calculated with
+  ruleSetVersion: number;
+}
+
+// Local calendar date (YYYY-MM-DD); toISOString() would give the previous day east of UTC
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 }
 
 /**
- * Calculate salary for a worker based on attendance records for the current month
- * 
- * Rules:
+ * Calculate salary for a worker based on attendance records for the given month
+ *
+ * The pay rules come from the payroll rule set in force for the month (see payroll-rules.ts),
+ * chosen per worker category (gender). The standard rules are:
  * - Men: Monthly base salary, 10 hours daily, paid for Tuesday off, overtime is double hourly rate (1 hour extra)
  * - Women: Daily wage (base salary is daily), 9 hours daily, NOT paid for Tuesday off, overtime is double hourly rate (1 hour extra)
- * 
+ *
  * Attendance Bonus:
  * - Male: Rs. 1000 if all present, Rs. 500 if 1 absent, Rs. 0 if 2+ absent
  * - Female: Rs. 500 if all present, Rs. 250 if 1 absent, Rs. 0 if 2+ absent
  * - Half day logic: 1 half day = no deduction, 2 half days = 1 full day absent (half bonus), 4 half days = 2 full days absent (no bonus)
+ *
+ * Leave (see leave.ts): approved leave replaces the day's attendance and is paid and counted
+ * against the bonus as its leave type says. Public holidays are paid if the holiday is, never
+ * count as absences, and give way to attendance when the worker was marked present.
+ *
+ * Roster (see roster.ts): on days a worker is rostered, the weekly off and the shift hours behind
+ * the hourly rate come from their shift; the rule set's apply to days they are not rostered.
+ *
+ * Advance installments due for the month (see advances.ts) are deducted from the total to give the net salary.
  */
 export function calculateMonthlySalary(
   worker: Worker,
   attendanceRecords: AttendanceRecord[],
   month: number,
   year: number,
-  defaultOvertime?: boolean // Optional: worker's default OT setting
+  defaultOvertime?: boolean, // Optional: worker's default OT setting
+  ruleSets: PayrollRuleSet[] = [DEFAULT_PAYROLL_RULE_SET],
+  advanceLedger: AdvanceLedger = EMPTY_ADVANCE_LEDGER,
+  leaveCalendar: LeaveCalendar = EMPTY_LEAVE_CALENDAR,
+  rosterSchedule: RosterSchedule = EMPTY_ROSTER_SCHEDULE
 ): SalaryCalculationResult {
+  const ruleSet = getRuleSetForMonth(ruleSets, month, year);
+
   if (!worker.baseSalary || worker.baseSalary <= 0) {
     return {
       baseSalary: 0,
@@ -37,13 +66,17 @@ export function calculateMonthlySalary(
       lateMinutesDeduction: 0,
       totalLateMinutes: 0,
       totalSalary: 0,
-      hasBonus: false
+      hasBonus: false,
+      advanceDeduction: 0,
+      netSalary: 0,
+      ruleSetId: ruleSet.id,
+      ruleSetVersion: ruleSet.version
     };
   }
 
   // Get date range for the month
-  const startDate = new Date(year, month, 1).toISOString().split('T')[0];
-  const endDate = new Date(year, month + 1, 0).toISOString().split('T')[0];
+  const startDate = formatDate(new Date(year, month, 1));
+  const endDate = formatDate(new Date(year, month + 1, 0));
 
   // If worker is inactive, stop calculations from inactive date
   let effectiveEndDate = endDate;
@@ -59,95 +92,75 @@ export function calculateMonthlySalary(
       record.workerId === worker.id;
   });
 
-  if (worker.gender === Gender.MALE) {
-    return calculateMaleSalary(worker, monthRecords, month, year, defaultOvertime);
-  } else {
-    return calculateFemaleSalary(worker, monthRecords, month, year, defaultOvertime);
-  }
+  const salary = calculateSalaryWithRules(worker, monthRecords, month, year, ruleSet, defaultOvertime, leaveCalendar, rosterSchedule);
+
+  // Installments can't take more than the salary earned; the rest is recovered later
+  const monthKey = `${year}-${String(month + 1).padStart(2, '0')}`;
+  const advanceDeduction = getAdvanceDeductionsForMonth(advanceLedger, worker.id, monthKey, salary.totalSalary)
+    .reduce((sum, deduction) => sum + deduction.amount, 0);
+
+  return {
+    ...salary,
+    advanceDeduction: Math.round(advanceDeduction * 100) / 100,
+    netSalary: Math.round((salary.totalSalary - advanceDeduction) * 100) / 100
+  };
 }
 
-/**
- * Calculate attendance bonus based on absent days and half days
- * 
- * Rules:
- * - 1 half day = no deduction
- * - 2 half days = 1 full day absent (half bonus)
- * - 4 half days = 2 full days absent (no bonus)
- */
-function calculateAttendanceBonus(
-  absentDays: number,
-  halfDays: number,
-  isMale: boolean
-): number {
-  // Convert half days to absent days: 2 half days = 1 absent day
-  const halfDaysAsAbsent = Math.floor(halfDays / 2);
-  const totalAbsentDays = absentDays + halfDaysAsAbsent;
-
-  if (isMale) {
-    // Male: Rs. 1000 if all present, Rs. 500 if 1 absent, Rs. 0 if 2+ absent
-    if (totalAbsentDays === 0) {
-      return 1000;
-    } else if (totalAbsentDays === 1) {
-      return 500;
-    } else {
-      return 0;
-    }
-  } else {
-    // Female: Rs. 500 if all present, Rs. 250 if 1 absent, Rs. 0 if 2+ absent
-    if (totalAbsentDays === 0) {
-      return 500;
-    } else if (totalAbsentDays === 1) {
-      return 250;
-    } else {
-      return 0;
-    }
-  }
+// Late minutes may come back from the database as strings
+function getLateMinutes(record: AttendanceRecord): number {
+  return typeof record.lateMinutes === 'number' ? record.lateMinutes : (record.lateMinutes ? parseInt(String(record.lateMinutes)) : 0);
 }
 
 /**
- * Calculate salary for male workers
- * - Monthly base salary
- * - 10 hours daily schedule
- * - Paid for Tuesday off
- * - Overtime: double hourly rate, 1 hour extra
- * - Attendance bonus: Rs. 1000 if all present, Rs. 500 if 1 absent, Rs. 0 if 2+ absent
+ * Calculate salary with the rules of the worker's category
+ * - Daily rate: the base salary for daily pay, otherwise the monthly salary spread over the
+ *   paid days of the month (all days when the weekly off is paid, working days otherwise)
+ * - Weekly off day: the rostered shift's, or the rule set's when unrostered; skipped when unpaid,
+ *   otherwise paid like any day; overtime only if allowed
+ * - Holidays and approved leave: daily rate when paid, an absence when the leave type says so
+ * - Overtime: hours per marked day x the day's hourly rate x multiplier, less late minutes
+ * - Attendance bonus: tier for absent days plus half days converted to absences
  */
-function calculateMaleSalary(
+function calculateSalaryWithRules(
   worker: Worker,
   records: AttendanceRecord[],
   month: number,
   year: number,
-  defaultOvertime?: boolean
-): SalaryCalculationResult {
-  const monthlySalary = worker.baseSalary || 0;
+  ruleSet: PayrollRuleSet,
+  defaultOvertime?: boolean,
+  leaveCalendar: LeaveCalendar = EMPTY_LEAVE_CALENDAR,
+  rosterSchedule: RosterSchedule = EMPTY_ROSTER_SCHEDULE
+): Omit<SalaryCalculationResult, 'advanceDeduction' | 'netSalary'> {
+  const rules = ruleSet.categories[worker.gender] || ruleSet.categories[Gender.MALE];
+  const salary = worker.baseSalary || 0;
+
+  // The weekly off and shift hours for a day: the rostered shift's, or the rule set's when unrostered
+  const getDayRules = (date: Date) => {
+    const shift = getRosteredShift(rosterSchedule, worker.id, formatDate(date));
+    return {
+      isWeeklyOff: date.getDay() === (shift ? shift.weeklyOffDay : ruleSet.weeklyOffDay),
+      shiftHours: getShiftRules(rules, shift).shiftHours
+    };
+  };
 
-  // Calculate working days in the month (excluding Tuesdays)
+  // Count days in the month and weekly off days
   const totalDays = new Date(year, month + 1, 0).getDate();
-  let workingDays = 0;
-  let tuesdays = 0;
-
+  let weeklyOffDays = 0;
   for (let day = 1; day <= totalDays; day++) {
-    const date = new Date(year, month, day);
-    const dayOfWeek = date.getDay();
-    if (dayOfWeek === 2) { // Tuesday
-      tuesdays++;
-    } else {
-      workingDays++;
+    if (getDayRules(new Date(year, month, day)).isWeeklyOff) {
+      weeklyOffDays++;
     }
   }
 
-  // Daily rate = monthly salary / (working days + tuesdays) since men get paid for Tuesday
-  const dailyRate = monthlySalary / (workingDays + tuesdays);
-
-  // Hourly rate = daily rate / 10 hours
-  const hourlyRate = dailyRate / 10;
+  const paidDaysInMonth = rules.paidWeeklyOff ? totalDays : totalDays - weeklyOffDays;
+  const dailyRate = rules.payBasis === 'daily' ? salary : salary / paidDaysInMonth;
 
   let baseSalary = 0;
-  let presentDays = 0;
   let absentDays = 0;
   let halfDays = 0;
-  let overtimeHours = 0;
+  let grossOvertimePay = 0;
   let totalLateMinutes = 0; // Track total late minutes for overtime deduction
+  let lateMinutesDeductionAmount = 0;
 
   // Create a map of records by date for quick lookup
   const recordsByDate = new Map<string, AttendanceRecord>();
@@ -158,9 +171,9 @@ function calculateMaleSalary(
   // Get today's date to only process days up to today (including today)
   // But if worker is inactive, stop at inactive date
   const today = new Date();
-  const todayStr = today.toISOString().split('T')[0];
+  const todayStr = formatDate(today);
   const isCurrentMonth = today.getMonth() === month && today.getFullYear() === year;
-  const endDate = new Date(year, month + 1, 0).toISOString().split('T')[0];
+  const endDate = formatDate(new Date(year, month + 1, 0));
 
   // Determine the last day to process
   let lastProcessDate = isCurrentMonth ? todayStr : endDate;
@@ -174,201 +187,62 @@ function calculateMaleSalary(
 
   const daysToProcess = isCurrentMonth && lastProcessDate === todayStr
     ? today.getDate()
-    : new Date(lastProcessDate).getDate();
+    : parseInt(lastProcessDate.substring(8, 10), 10);
 
   // Process each day up to today (including today)
   for (let day = 1; day <= daysToProcess; day++) {
     const date = new Date(year, month, day);
-    const dateStr = date.toISOString().split('T')[0];
-    const dayOfWeek = date.getDay();
-    const isTuesday = dayOfWeek === 2;
+    const dateStr = formatDate(date);
+    const { isWeeklyOff, shiftHours } = getDayRules(date);
+    const overtimeRate = dailyRate / shiftHours * rules.overtimeMultiplier;
 
     // Skip days after inactive date for inactive workers
     if (worker.isActive === false && worker.inactiveDate && dateStr > worker.inactiveDate) {
       continue; // Don't process days after inactive date
     }
 
+    // Unpaid weekly off: no attendance pay, no OT
+    if (isWeeklyOff && !rules.paidWeeklyOff) {
+      continue;
+    }
+
+    const overtimeAllowed = !isWeeklyOff || rules.overtimeOnWeeklyOff;
     const record = recordsByDate.get(dateStr);
 
-    if (record) {
-      // Record exists - use explicit status
-      if (record.status === AttendanceStatus.PRESENT) {
-        presentDays++;
-        // Men get paid for Tuesday
+    // Holidays and approved leave on working days (a worker marked present on a holiday is paid as present)
+    const leaveDay = isWeeklyOff ? null : getLeaveDay(leaveCalendar, worker.id, dateStr);
+    const workedHoliday = leaveDay?.kind === 'holiday' &&
+      (record?.status === AttendanceStatus.PRESENT || record?.status === AttendanceStatus.HALF_DAY);
+    if (leaveDay && !workedHoliday) {
+      if (leaveDay.paid) {
         baseSalary += dailyRate;
-
-        // Check for overtime (explicit record overwrites default)
-        // Men don't get OT on Tuesday
-        if (record.overtime === 'yes' && !isTuesday) {
-          overtimeHours += 1; // 1 hour extra
-          // Deduct late minutes from overtime
-          const lateMins = typeof record.lateMinutes === 'number' ? record.lateMinutes : (record.lateMinutes ? parseInt(String(record.lateMinutes)) : 0);
-          if (lateMins > 0) {
-            totalLateMinutes += lateMins;
-          }
-        }
-      } else if (record.status === AttendanceStatus.HALF_DAY) {
-        halfDays++;
-        // Half day = half of daily rate
-        baseSalary += dailyRate * 0.5;
-
-        // Check for overtime (can still have overtime on half day, but not on Tuesday)
-        if (record.overtime === 'yes' && !isTuesday) {
-          overtimeHours += 1;
-          // Deduct late minutes from overtime
-          const lateMins = typeof record.lateMinutes === 'number' ? record.lateMinutes : (record.lateMinutes ? parseInt(String(record.lateMinutes)) : 0);
-          if (lateMins > 0) {
-            totalLateMinutes += lateMins;
-          }
-        }
-      } else if (record.status === AttendanceStatus.ABSENT) {
-        absentDays++;
       }
-    } else {
-      // No record exists - default to present and check default OT
-      // BUT: For inactive workers, don't default to present after inactive date
-      // (This case is already handled by the continue statement above, but keeping for safety)
-      if (worker.isActive === false && worker.inactiveDate && dateStr > worker.inactiveDate) {
-        continue; // Don't count days after inactive date
-      }
-      
-      presentDays++;
-      baseSalary += dailyRate;
-
-      // If default OT is enabled, count overtime (but not on Tuesday for men)
-      if (defaultOvertime === true && !isTuesday) {
-        overtimeHours += 1;
+      if (leaveDay.countsAsAbsence) {
+        absentDays++;
       }
+      continue;
     }
-  }
-
-  // Calculate overtime pay (double hourly rate)
-  // Deduct late minutes from overtime hours (convert minutes to hours)
-  const lateHoursDeduction = totalLateMinutes / 60;
-  const effectiveOvertimeHours = Math.max(0, overtimeHours - lateHoursDeduction);
-  const overtimePay = effectiveOvertimeHours * hourlyRate * 2;
-
-  // Calculate the deduction amount (what would have been paid if not for late minutes)
-  const lateMinutesDeductionAmount = (lateHoursDeduction * hourlyRate * 2);
-
-  const baseSalaryWithoutOT = baseSalary;
-  baseSalary += overtimePay;
-  baseSalary = Math.round(baseSalary * 100) / 100; // Round to 2 decimal places
-
-  // Calculate attendance bonus
-  const bonus = calculateAttendanceBonus(absentDays, halfDays, true);
-  const totalSalary = baseSalary + bonus;
-
-  return {
-    baseSalary: Math.round(baseSalaryWithoutOT * 100) / 100,
-    bonus,
-    overtimeCompensation: Math.round(overtimePay * 100) / 100,
-    lateMinutesDeduction: Math.round(lateMinutesDeductionAmount * 100) / 100,
-    totalLateMinutes: totalLateMinutes,
-    totalSalary: Math.round(totalSalary * 100) / 100,
-    hasBonus: bonus > 0
-  };
-}
-
-/**
- * Calculate salary for female workers
- * - Daily wage (base salary is daily)
- * - 9 hours daily schedule
- * - NOT paid for Tuesday off
- * - Overtime: double hourly rate, 1 hour extra
- * - Attendance bonus: Rs. 500 if all present, Rs. 250 if 1 absent, Rs. 0 if 2+ absent
- */
-function calculateFemaleSalary(
-  worker: Worker,
-  records: AttendanceRecord[],
-  month: number,
-  year: number,
-  defaultOvertime?: boolean
-): SalaryCalculationResult {
-  const dailyWage = worker.baseSalary || 0;
-
-  // Hourly rate = daily wage / 9 hours
-  const hourlyRate = dailyWage / 9;
-
-  let baseSalary = 0;
-  let absentDays = 0;
-  let halfDays = 0;
-  let overtimeHours = 0;
-  let totalLateMinutes = 0; // Track total late minutes for overtime deduction
-
-  // Create a map of records by date for quick lookup
-  const recordsByDate = new Map<string, AttendanceRecord>();
-  records.forEach(record => {
-    recordsByDate.set(record.date, record);
-  });
-
-  // Get today's date to only process days up to today (including today)
-  // But if worker is inactive, stop at inactive date
-  const today = new Date();
-  const todayStr = today.toISOString().split('T')[0];
-  const isCurrentMonth = today.getMonth() === month && today.getFullYear() === year;
-  const totalDays = new Date(year, month + 1, 0).getDate();
-  const endDate = new Date(year, month + 1, 0).toISOString().split('T')[0];
-
-  // Determine the last day to process
-  let lastProcessDate = isCurrentMonth ? todayStr : endDate;
-  if (worker.isActive === false && worker.inactiveDate) {
-    // Use the earlier of: inactive date, today, or end of month
-    const inactiveDateStr = worker.inactiveDate;
-    if (inactiveDateStr < lastProcessDate) {
-      lastProcessDate = inactiveDateStr;
-    }
-  }
-
-  const daysToProcess = isCurrentMonth && lastProcessDate === todayStr
-    ? today.getDate()
-    : new Date(lastProcessDate).getDate();
-
-  // Process each day up to today (including today)
-  for (let day = 1; day <= daysToProcess; day++) {
-    const date = new Date(year, month, day);
-    const dateStr = date.toISOString().split('T')[0];
-    const dayOfWeek = date.getDay();
-    const isTuesday = dayOfWeek === 2;
-
-    // Skip days after inactive date for inactive workers
-    if (worker.isActive === false && worker.inactiveDate && dateStr > worker.inactiveDate) {
-      continue; // Don't process days after inactive date
-    }
-
-    // Women don't get paid for Tuesday off (no attendance pay, no OT)
-    if (isTuesday) {
-      continue; // Skip Tuesday completely for women
-    }
-
-    const record = recordsByDate.get(dateStr);
 
     if (record) {
       // Record exists - use explicit status
-      if (record.status === AttendanceStatus.PRESENT) {
-        baseSalary += dailyWage;
-
-        // Check for overtime (explicit record overwrites default)
-        if (record.overtime === 'yes') {
-          overtimeHours += 1; // 1 hour extra
-          // Deduct late minutes from overtime
-          const lateMins = typeof record.lateMinutes === 'number' ? record.lateMinutes : (record.lateMinutes ? parseInt(String(record.lateMinutes)) : 0);
-          if (lateMins > 0) {
-            totalLateMinutes += lateMins;
-          }
+      if (record.status === AttendanceStatus.PRESENT || record.status === AttendanceStatus.HALF_DAY) {
+        if (record.status === AttendanceStatus.HALF_DAY) {
+          halfDays++;
+          baseSalary += dailyRate * rules.halfDayPayFraction;
+        } else {
+          baseSalary += dailyRate;
         }
-      } else if (record.status === AttendanceStatus.HALF_DAY) {
-        halfDays++;
-        // Half day = half of daily wage
-        baseSalary += dailyWage * 0.5;
-
-        // Check for overtime
-        if (record.overtime === 'yes') {
-          overtimeHours += 1;
+
+        // Check for overtime (explicit record overwrites default; half days can have overtime too)
+        if (record.overtime === 'yes' && overtimeAllowed) {
+          // Hours from the kiosk check-out when stamped, otherwise the standard credit
+          const hours = typeof record.overtimeHours === 'number' ? record.overtimeHours : rules.overtimeHoursPerDay;
+          grossOvertimePay += hours * overtimeRate;
           // Deduct late minutes from overtime
-          const lateMins = typeof record.lateMinutes === 'number' ? record.lateMinutes : (record.lateMinutes ? parseInt(String(record.lateMinutes)) : 0);
+          const lateMins = getLateMinutes(record);
           if (lateMins > 0) {
             totalLateMinutes += lateMins;
+            lateMinutesDeductionAmount += lateMins / 60 * overtimeRate;
           }
         }
       } else if (record.status === AttendanceStatus.ABSENT) {
@@ -376,36 +250,24 @@ function calculateFemaleSalary(
       }
     } else {
       // No record exists - default to present and check default OT
-      // BUT: For inactive workers, don't default to present after inactive date
-      // (This case is already handled by the continue statement above, but keeping for safety)
-      if (worker.isActive === false && worker.inactiveDate && dateStr > worker.inactiveDate) {
-        continue; // Don't count days after inactive date
-      }
-      
-      baseSalary += dailyWage;
+      baseSalary += dailyRate;
 
-      // If default OT is enabled, count overtime
-      if (defaultOvertime === true) {
-        overtimeHours += 1;
+      if (defaultOvertime === true && overtimeAllowed) {
+        grossOvertimePay += rules.overtimeHoursPerDay * overtimeRate;
       }
     }
   }
 
-  // Calculate overtime pay (double hourly rate)
-  // Deduct late minutes from overtime hours (convert minutes to hours)
-  const lateHoursDeduction = totalLateMinutes / 60;
-  const effectiveOvertimeHours = Math.max(0, overtimeHours - lateHoursDeduction);
-  const overtimePay = effectiveOvertimeHours * hourlyRate * 2;
-
-  // Calculate the deduction amount (what would have been paid if not for late minutes)
-  const lateMinutesDeductionAmount = (lateHoursDeduction * hourlyRate * 2);
+  // Calculate overtime pay, less what the late minutes would have been paid at the same rate
+  const overtimePay = Math.max(0, grossOvertimePay - lateMinutesDeductionAmount);
 
   const baseSalaryWithoutOT = baseSalary;
   baseSalary += overtimePay;
   baseSalary = Math.round(baseSalary * 100) / 100; // Round to 2 decimal places
 
-  // Calculate attendance bonus
-  const bonus = calculateAttendanceBonus(absentDays, halfDays, false);
+  // Calculate attendance bonus: half days are converted to absences
+  const absences = absentDays + Math.floor(halfDays / rules.halfDaysPerAbsence);
+  const bonus = getAttendanceBonus(rules.bonusTiers, absences);
   const totalSalary = baseSalary + bonus;
 
   return {
@@ -415,7 +277,9 @@ function calculateFemaleSalary(
     lateMinutesDeduction: Math.round(lateMinutesDeductionAmount * 100) / 100,
     totalLateMinutes: totalLateMinutes,
     totalSalary: Math.round(totalSalary * 100) / 100,
-    hasBonus: bonus > 0
+    hasBonus: bonus > 0,
+    ruleSetId: ruleSet.id,
+    ruleSetVersion: ruleSet.version
   };
 }
 
@@ -0,0 +1,278 @@
+import { PackingStatus } from "@/types";
+import { findQRCodeByCodeInSupabase, isQRCodeMissingInSupabase, updateQRCodeStatusInSupabase } from './supabase-storage';
+import { syncPackageEvents } from './package-events';
+
+const DB_NAME = 'package-scan-queue';
+const DB_VERSION = 1;
+const STORE_NAME = 'scans';
+
+// Network failures are retried automatically this many times before the scan is marked failed
+const MAX_AUTO_ATTEMPTS = 5;
+
+export type QueuedScanState = 'pending' | 'failed' | 'conflict';
+
+export interface QueuedScan {
+  id: string;
+  code: string;
+  status: PackingStatus; // Target status of the scan
+  weight?: string;
+  packerName?: string;
+  shippingLocation?: string;
+  scannedAt: string;
+  state: QueuedScanState;
+  attempts: number;
+  lastError?: string;
+  currentStatus?: PackingStatus; // Status found on the server when a conflict was detected
+}
+
+export interface ScanQueueCounts {
+  pending: number;
+  failed: number;
+  conflict: number;
+}
+
+export interface ScanQueueSyncResult {
+  synced: number;
+  failed: number;
+  conflicts: number;
+}
+
+// Status a package must be in for a queued scan to still apply
+const EXPECTED_PREVIOUS_STATUS: Partial<Record<PackingStatus, PackingStatus>> = {
+  [PackingStatus.PACKED]: PackingStatus.PENDING,
+  [PackingStatus.DISPATCHED]: PackingStatus.PACKED
+};
+
+const listeners = new Set<() => void>();
+let activeSync: Promise<ScanQueueSyncResult> | null = null;
+
+function openQueueDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runInStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueueDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+function notifyListeners(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to queue changes. Returns an unsubscribe function.
+ */
+export function subscribeToScanQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Record a scan in the offline outbox so it can be replayed later
+ */
+export async function enqueueScan(
+  code: string,
+  status: PackingStatus,
+  updateData?: { weight?: string; packerName?: string; shippingLocation?: string }
+): Promise<QueuedScan> {
+  const entry: QueuedScan = {
+    id: crypto.randomUUID(),
+    code,
+    status,
+    weight: updateData?.weight,
+    packerName: updateData?.packerName,
+    shippingLocation: updateData?.shippingLocation,
+    scannedAt: new Date().toISOString(),
+    state: 'pending',
+    attempts: 0
+  };
+
+  await runInStore('readwrite', store => store.put(entry));
+  notifyListeners();
+  return entry;
+}
+
+/**
+ * Get every scan currently held in the outbox, oldest first
+ */
+export async function getQueuedScans(): Promise<QueuedScan[]> {
+  try {
+    const entries = await runInStore<QueuedScan[]>('readonly', store => store.getAll());
+    return entries.sort((a, b) => a.scannedAt.localeCompare(b.scannedAt));
+  } catch (error) {
+    console.error('Error reading scan queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Count queued scans by state
+ */
+export async function getScanQueueCounts(): Promise<ScanQueueCounts> {
+  const entries = await getQueuedScans();
+  return {
+    pending: entries.filter(e => e.state === 'pending').length,
+    failed: entries.filter(e => e.state === 'failed').length,
+    conflict: entries.filter(e => e.state === 'conflict').length
+  };
+}
+
+async function saveQueuedScan(entry: QueuedScan): Promise<void> {
+  await runInStore('readwrite', store => store.put(entry));
+}
+
+/**
+ * Remove a scan from the outbox (used to dismiss conflicts and failures)
+ */
+export async function removeQueuedScan(id: string): Promise<void> {
+  await runInStore('readwrite', store => store.delete(id));
+  notifyListeners();
+}
+
+/**
+ * Move failed scans back to pending and replay the queue
+ */
+export async function retryFailedScans(): Promise<ScanQueueSyncResult> {
+  const entries = await getQueuedScans();
+  for (const entry of entries.filter(e => e.state === 'failed')) {
+    await saveQueuedScan({ ...entry, state: 'pending', attempts: 0, lastError: undefined });
+  }
+  notifyListeners();
+  return syncScanQueue();
+}
+
+async function replayScan(entry: QueuedScan): Promise<QueuedScanState | 'synced' | 'unreachable'> {
+  // Only the server counts: the local fallbacks would mark the scan synced without it reaching Supabase
+  const barcode = await findQRCodeByCodeInSupabase(entry.code);
+
+  // The lookup also comes back empty when Supabase can't be reached; only a code the server
+  // confirms is missing fails the scan
+  if (!barcode) {
+    return (await isQRCodeMissingInSupabase(entry.code)) ? 'failed' : 'unreachable';
+  }
+
+  // Another device may have moved the package on while this scan was waiting
+  const expectedStatus = EXPECTED_PREVIOUS_STATUS[entry.status];
+  if (expectedStatus && barcode.status !== expectedStatus) {
+    await saveQueuedScan({
+      ...entry,
+      state: 'conflict',
+      currentStatus: barcode.status,
+      lastError: `Package is already ${barcode.status}, expected ${expectedStatus}`
+    });
+    return 'conflict';
+  }
+
+  const updated = await updateQRCodeStatusInSupabase(entry.code, entry.status, {
+    weight: entry.weight,
+    packerName: entry.packerName,
+    shippingLocation: entry.shippingLocation,
+    scannedAt: entry.scannedAt
+  });
+
+  return updated ? 'synced' : 'pending';
+}
+
+async function runSync(): Promise<ScanQueueSyncResult> {
+  const result: ScanQueueSyncResult = { synced: 0, failed: 0, conflicts: 0 };
+  const entries = (await getQueuedScans()).filter(e => e.state === 'pending');
+
+  for (const entry of entries) {
+    if (!navigator.onLine) {
+      console.warn('Still offline, stopping scan queue sync');
+      break;
+    }
+
+    try {
+      const outcome = await replayScan(entry);
+
+      if (outcome === 'synced') {
+        await runInStore('readwrite', store => store.delete(entry.id));
+        result.synced++;
+      } else if (outcome === 'unreachable') {
+        // Leave the scan pending, without using up an attempt, until the server answers
+        await saveQueuedScan({ ...entry, lastError: 'Could not reach the server' });
+        console.warn('Server unreachable, stopping scan queue sync');
+        break;
+      } else if (outcome === 'conflict') {
+        result.conflicts++;
+      } else {
+        const attempts = entry.attempts + 1;
+        const state: QueuedScanState = outcome === 'failed' || attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'pending';
+        await saveQueuedScan({
+          ...entry,
+          state,
+          attempts,
+          lastError: outcome === 'failed' ? `QR code not found: ${entry.code}` : 'Failed to update package status'
+        });
+        if (state === 'failed') {
+          result.failed++;
+        }
+      }
+    } catch (error) {
+      console.error(`Error replaying queued scan ${entry.code}:`, error);
+      const attempts = entry.attempts + 1;
+      const state: QueuedScanState = attempts >= MAX_AUTO_ATTEMPTS ? 'failed' : 'pending';
+      await saveQueuedScan({
+        ...entry,
+        state,
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+      if (state === 'failed') {
+        result.failed++;
+      }
+    }
+  }
+
+  // Package events that couldn't be written at the time go up with the scans
+  await syncPackageEvents();
+
+  return result;
+}
+
+/**
+ * Replay pending scans against Supabase, then upload the package events kept on this device.
+ * Concurrent calls share the sync that is already running.
+ */
+export async function syncScanQueue(): Promise<ScanQueueSyncResult> {
+  if (activeSync) {
+    return activeSync;
+  }
+
+  activeSync = runSync().finally(() => {
+    activeSync = null;
+    notifyListeners();
+  });
+
+  return activeSync;
+}
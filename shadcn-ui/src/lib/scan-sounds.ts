@@ -0,0 +1,52 @@
+/**
+ * Audible scan feedback generated with the Web Audio API (no sound files needed)
+ */
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  try {
+    if (!audioContext) {
+      const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+      if (!AudioContextClass) {
+        return null;
+      }
+      audioContext = new AudioContextClass();
+    }
+    return audioContext;
+  } catch (error) {
+    console.warn('Audio feedback unavailable:', error);
+    return null;
+  }
+}
+
+function playTones(tones: { frequency: number; duration: number }[], type: OscillatorType): void {
+  const context = getAudioContext();
+  if (!context) {
+    return;
+  }
+
+  let startAt = context.currentTime;
+  tones.forEach(({ frequency, duration }) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = type;
+    oscillator.frequency.value = frequency;
+    gain.gain.value = 0.2;
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + duration);
+    startAt += duration + 0.05;
+  });
+}
+
+/**
+ * Low double buzz for codes rejected by validation - distinct from "not found" so
+ * operators know to rescan rather than look for the package record
+ */
+export function playInvalidCodeSound(): void {
+  playTones([
+    { frequency: 180, duration: 0.15 },
+    { frequency: 180, duration: 0.15 }
+  ], 'square');
+}
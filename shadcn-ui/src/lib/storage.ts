@@ -1,4 +1,4 @@
-import { Barcode, PackingStatus } from "@/types";
+import { Barcode, PackingStatus, PackageEventType } from "@/types";
 import { 
   saveQRCodeToSupabase, 
   getAllQRCodesFromSupabase, 
@@ -7,6 +7,7 @@ import {
   deleteQRCodeFromSupabase,
   getQRCodesByDateRange
 } from './supabase-storage';
+import { logPackageEvent } from './package-events';
 
 const STORAGE_KEY = "package-qr-codes";
 
@@ -74,6 +75,21 @@ export async function getRecentBarcodes(days: number = 10): Promise<Barcode[]> {
  * Save a new barcode to Supabase and local storage
  */
 export async function saveBarcode(barcode: Barcode): Promise<Barcode> {
+  const saved = await persistBarcode(barcode);
+  await logPackageEvent({
+    code: barcode.code,
+    eventType: PackageEventType.CREATED,
+    toStatus: barcode.status,
+    actor: barcode.assignedWorker,
+    details: barcode.description ? { description: barcode.description } : undefined
+  });
+  return saved;
+}
+
+/**
+ * Write a barcode to Supabase, falling back to local storage (no audit event)
+ */
+async function persistBarcode(barcode: Barcode): Promise<Barcode> {
   try {
     // Try to save to Supabase first
     const supabaseSuccess = await saveQRCodeToSupabase(barcode);
@@ -175,6 +191,7 @@ export async function deleteBarcode(code: string): Promise<boolean> {
   
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(newBarcodes));
+    await logPackageEvent({ code, eventType: PackageEventType.DELETED });
     return true;
   } catch (error) {
     console.error("Error deleting barcode from local storage:", error);
@@ -186,16 +203,16 @@ export async function deleteBarcode(code: string): Promise<boolean> {
  * Delete multiple barcodes by their codes
  */
 export async function deleteMultipleBarcodes(codes: string[]): Promise<boolean> {
+  // Codes deleted in Supabase already have their DELETED event
+  const deletedRemotely = new Set<string>();
   try {
     // Try to delete from Supabase first
-    let allSucceeded = true;
     for (const code of codes) {
-      const success = await deleteQRCodeFromSupabase(code);
-      if (!success) {
-        allSucceeded = false;
+      if (await deleteQRCodeFromSupabase(code)) {
+        deletedRemotely.add(code);
       }
     }
-    if (allSucceeded) {
+    if (deletedRemotely.size === codes.length) {
       return true;
     }
   } catch (error) {
@@ -208,6 +225,9 @@ export async function deleteMultipleBarcodes(codes: string[]): Promise<boolean>
   
   try {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(newBarcodes));
+    for (const code of codes.filter(c => !deletedRemotely.has(c))) {
+      await logPackageEvent({ code, eventType: PackageEventType.DELETED });
+    }
     return true;
   } catch (error) {
     console.error("Error deleting multiple barcodes from local storage:", error);
@@ -221,7 +241,7 @@ export async function deleteMultipleBarcodes(codes: string[]): Promise<boolean>
 export async function updateBarcodeStatus(
   code: string, 
   status: PackingStatus, 
-  updateData?: { weight?: string; packerName?: string; shippingLocation?: string }
+  updateData?: { weight?: string; packerName?: string; shippingLocation?: string; scannedAt?: string }
 ): Promise<Barcode | null> {
   console.log("Starting updateBarcodeStatus with code:", code, "status:", status);
   console.log("Update data received:", updateData);
@@ -260,13 +280,22 @@ export async function updateBarcodeStatus(
       weight: updateData?.weight || '',
       packerName: updateData?.packerName || '',
       shippingLocation: updateData?.shippingLocation || '',
-      shippedAt: status === PackingStatus.DISPATCHED ? new Date().toISOString() : undefined,
+      packedAt: status === PackingStatus.PACKED ? (updateData?.scannedAt || new Date().toISOString()) : undefined,
+      shippedAt: status === PackingStatus.DISPATCHED ? (updateData?.scannedAt || new Date().toISOString()) : undefined,
       updatedAt: new Date().toISOString(),
       qrCodeImage: ''
     };
     
     // Save the new barcode first
-    await saveBarcode(newBarcode);
+    await persistBarcode(newBarcode);
+    await logPackageEvent({
+      code,
+      eventType: PackageEventType.CREATED,
+      toStatus: status,
+      actor: updateData?.packerName,
+      details: { reason: 'Auto-created during status update', shippingLocation: updateData?.shippingLocation },
+      occurredAt: updateData?.scannedAt
+    });
     console.log("Created new barcode:", newBarcode);
     return newBarcode;
   }
@@ -284,14 +313,26 @@ export async function updateBarcodeStatus(
     weight: updateData?.weight || barcode.weight || '',
     packerName: updateData?.packerName || barcode.packerName || '',
     shippingLocation: updateData?.shippingLocation || barcode.shippingLocation || '',
-    // Set shippedAt when status is DISPATCHED
-    shippedAt: status === PackingStatus.DISPATCHED ? new Date().toISOString() : barcode.shippedAt,
+    // Set packedAt / shippedAt when the package reaches that status (queued offline scans keep their original scan time)
+    packedAt: status === PackingStatus.PACKED ? (updateData?.scannedAt || new Date().toISOString()) : barcode.packedAt,
+    shippedAt: status === PackingStatus.DISPATCHED ? (updateData?.scannedAt || new Date().toISOString()) : barcode.shippedAt,
     updatedAt: new Date().toISOString()
   };
   
   try {
-    const result = await saveBarcode(updatedBarcode);
+    await persistBarcode(updatedBarcode);
     console.log("Successfully saved updated barcode to local storage:", updatedBarcode);
+    if (barcode.status !== status) {
+      await logPackageEvent({
+        code,
+        eventType: PackageEventType.STATUS_CHANGED,
+        fromStatus: barcode.status,
+        toStatus: status,
+        actor: updateData?.packerName,
+        details: updateData?.shippingLocation ? { shippingLocation: updateData.shippingLocation } : undefined,
+        occurredAt: updateData?.scannedAt
+      });
+    }
     return updatedBarcode;
   } catch (error) {
     console.error("Error saving updated barcode to local storage:", error);
@@ -5,6 +5,64 @@ import { Worker, AttendanceRecord, AttendanceStatus } from '@/types';
 
 const FIXED_USER_ID = '00000000-0000-0000-0000-000000000000';
 const SETTINGS_TABLE = 'app_070c516bb6_settings';
+// Workers without their pay, for sections that may not read the workers table (see CREATE_ROLE_BASED_ACCESS.sql)
+const WORKER_DIRECTORY_VIEW = 'app_worker_directory';
+
+/**
+ * Get a JSON setting value by key from Supabase. Returns null if the setting doesn't exist.
+ */
+export async function getSettingFromSupabase<T>(key: string): Promise<T | null> {
+  try {
+    const { data, error } = await supabase
+      .from(SETTINGS_TABLE)
+      .select('value')
+      .eq('user_id', FIXED_USER_ID)
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error fetching setting ${key}:`, error);
+      return null;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    // The value column is TEXT, so JSON settings are stored serialized
+    return typeof data.value === 'string' ? JSON.parse(data.value) : data.value;
+  } catch (error) {
+    console.error(`Error in getSettingFromSupabase (${key}):`, error);
+    return null;
+  }
+}
+
+/**
+ * Save a JSON setting value by key to Supabase
+ */
+export async function saveSettingToSupabase<T>(key: string, value: T): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from(SETTINGS_TABLE)
+      .upsert({
+        user_id: FIXED_USER_ID,
+        key,
+        value: JSON.stringify(value)
+      }, {
+        onConflict: 'user_id,key'
+      });
+
+    if (error) {
+      console.error(`❌ Error saving setting ${key}:`, error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`❌ UNEXPECTED ERROR in saveSettingToSupabase (${key}):`, error);
+    return false;
+  }
+}
 
 /**
  * Get default overtime setting for a specific worker from Supabase
@@ -202,16 +260,25 @@ export async function getAllWorkerDefaultOvertimeSettings(): Promise<Record<stri
  */
 export async function getAllWorkersFromSupabase(includeInactive: boolean = true): Promise<Worker[]> {
   try {
-    let query = supabase
-      .from('workers')
-      .select('*');
+    const selectWorkers = (source: string) => {
+      let query = supabase
+        .from(source)
+        .select('*');
+
+      // If includeInactive is false, filter to only active workers
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
 
-    // If includeInactive is false, filter to only active workers
-    if (!includeInactive) {
-      query = query.eq('is_active', true);
-    }
+      return query.order('created_at', { ascending: false });
+    };
+
+    let { data, error } = await selectWorkers('workers');
 
-    const { data, error } = await query.order('created_at', { ascending: false });
+    // The workers table shows no rows outside attendance and payroll; list them without pay instead
+    if (!error && data.length === 0) {
+      ({ data, error } = await selectWorkers(WORKER_DIRECTORY_VIEW));
+    }
 
     if (error) {
       console.error('Error fetching workers from Supabase:', error);
@@ -228,9 +295,6 @@ export async function getAllWorkersFromSupabase(includeInactive: boolean = true)
       isCleaner: worker.is_cleaner || false,
       gender: worker.gender || 'male', // Default to male for backward compatibility
       baseSalary: worker.base_salary || undefined,
-      advanceCurrentMonth: worker.advance_current_month || undefined,
-      advanceLastMonth: worker.advance_last_month || undefined,
-      advanceDeduction: worker.advance_deduction || undefined,
       isActive: worker.is_active !== undefined ? worker.is_active : true, // Default to true for backward compatibility
       inactiveDate: worker.inactive_date || undefined,
       createdAt: worker.created_at
@@ -270,9 +334,6 @@ export async function saveWorkerToSupabase(worker: Worker): Promise<boolean> {
       is_cleaner: worker.isCleaner || false,
       gender: worker.gender || 'male',
       base_salary: worker.baseSalary || null,
-      advance_current_month: worker.advanceCurrentMonth || null,
-      advance_last_month: worker.advanceLastMonth || null,
-      advance_deduction: worker.advanceDeduction || null,
       is_active: worker.isActive !== undefined ? worker.isActive : true,
       inactive_date: worker.inactiveDate || null,
     };
@@ -408,9 +469,6 @@ export async function getWorkerByIdFromSupabase(workerId: string): Promise<Worke
       isCleaner: data.is_cleaner || false,
       gender: data.gender || 'male',
       baseSalary: data.base_salary || undefined,
-      advanceCurrentMonth: data.advance_current_month || undefined,
-      advanceLastMonth: data.advance_last_month || undefined,
-      advanceDeduction: data.advance_deduction || undefined,
       isActive: data.is_active !== undefined ? data.is_active : true,
       createdAt: data.created_at
     };
@@ -445,6 +503,9 @@ export async function getAllAttendanceFromSupabase(): Promise<AttendanceRecord[]
       status: record.status as AttendanceStatus,
       overtime: record.overtime,
       lateMinutes: record.late_minutes !== null && record.late_minutes !== undefined ? record.late_minutes : 0,
+      checkInTime: record.check_in_time ? record.check_in_time.substring(0, 5) : undefined,
+      checkOutTime: record.check_out_time ? record.check_out_time.substring(0, 5) : undefined,
+      overtimeHours: record.overtime_hours !== null && record.overtime_hours !== undefined ? Number(record.overtime_hours) : undefined,
       notes: record.notes || undefined,
       createdAt: record.created_at,
       updatedAt: record.updated_at || undefined
@@ -510,6 +571,14 @@ export async function saveAttendanceToSupabase(attendance: AttendanceRecord): Pr
       notes: attendance.notes || null,
     };
 
+    // Kiosk columns are only sent when stamped, so manual saves work before ADD_CLOCK_IN_COLUMNS.sql is run.
+    // An empty check-in time clears them.
+    if (attendance.checkInTime !== undefined) {
+      attendanceData.check_in_time = attendance.checkInTime || null;
+      attendanceData.check_out_time = attendance.checkOutTime || null;
+      attendanceData.overtime_hours = attendance.overtimeHours ?? null;
+    }
+
     // Only include ID if it's a valid UUID
     if (isValidAttendanceUUID) {
       attendanceData.id = attendance.id;
@@ -608,6 +677,29 @@ export async function saveAttendanceToSupabase(attendance: AttendanceRecord): Pr
   }
 }
 
+/**
+ * Delete a worker's attendance record for a date from Supabase
+ */
+export async function deleteAttendanceFromSupabase(workerId: string, date: string): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from('attendance_records')
+      .delete()
+      .eq('worker_id', workerId)
+      .eq('date', date);
+
+    if (error) {
+      console.error('Error deleting attendance from Supabase:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteAttendanceFromSupabase:', error);
+    return false;
+  }
+}
+
 /**
  * Get attendance records by date from Supabase
  */
@@ -631,6 +723,10 @@ export async function getAttendanceByDateFromSupabase(date: string): Promise<Att
       date: record.date,
       status: record.status as AttendanceStatus,
       overtime: record.overtime,
+      lateMinutes: record.late_minutes !== null && record.late_minutes !== undefined ? record.late_minutes : 0,
+      checkInTime: record.check_in_time ? record.check_in_time.substring(0, 5) : undefined,
+      checkOutTime: record.check_out_time ? record.check_out_time.substring(0, 5) : undefined,
+      overtimeHours: record.overtime_hours !== null && record.overtime_hours !== undefined ? Number(record.overtime_hours) : undefined,
       notes: record.notes || undefined,
       createdAt: record.created_at,
       updatedAt: record.updated_at || undefined
@@ -646,12 +742,17 @@ export async function getAttendanceByDateFromSupabase(date: string): Promise<Att
  */
 export async function getPresentPackersFromSupabase(date: string): Promise<Worker[]> {
   try {
-    // Get all packers
-    const { data: packers, error: packersError } = await supabase
-      .from('workers')
+    // Get all packers (from the directory when the workers table shows no rows to this user)
+    const selectPackers = (source: string) => supabase
+      .from(source)
       .select('*')
       .eq('is_packer', true);
 
+    let { data: packers, error: packersError } = await selectPackers('workers');
+    if (!packersError && packers.length === 0) {
+      ({ data: packers, error: packersError } = await selectPackers(WORKER_DIRECTORY_VIEW));
+    }
+
     if (packersError) {
       console.error('Error fetching packers from Supabase:', packersError);
       return [];
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { supabase } from './supabase'
+import { allocateCodeSerialsInSupabase } from './supabase-storage'
+
+vi.mock('./supabase', () => ({ supabase: { rpc: vi.fn() } }))
+
+const rpc = vi.mocked(supabase.rpc)
+
+function rpcResult(data: unknown, error: { code?: string; message: string } | null = null) {
+  return { data, error } as unknown as Awaited<ReturnType<typeof supabase.rpc>>
+}
+
+describe('allocateCodeSerialsInSupabase', () => {
+  beforeEach(() => {
+    rpc.mockReset()
+  })
+
+  it('returns the last serial of the reserved block', async () => {
+    rpc.mockResolvedValue(rpcResult(42))
+
+    expect(await allocateCodeSerialsInSupabase('PKG', '2501', 3, 4)).toBe(42)
+    expect(rpc).toHaveBeenCalledWith('next_code_serial', { p_prefix: 'PKG', p_period: '2501', p_count: 3, p_serial_width: 4 })
+  })
+
+  it('returns null only when Supabase cannot be reached', async () => {
+    rpc.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    expect(await allocateCodeSerialsInSupabase('PKG', '2501', 1, 4)).toBeNull()
+
+    rpc.mockResolvedValueOnce(rpcResult(null, { message: 'TypeError: Failed to fetch' }))
+    expect(await allocateCodeSerialsInSupabase('PKG', '2501', 1, 4)).toBeNull()
+  })
+
+  it('throws on every other error so no device falls back to its own sequence', async () => {
+    rpc.mockResolvedValueOnce(rpcResult(null, { code: '22003', message: 'Serial range exhausted for prefix "PKG" and period "2501"' }))
+    await expect(allocateCodeSerialsInSupabase('PKG', '2501', 1, 4)).rejects.toThrow(/^Serial range exhausted/)
+
+    rpc.mockResolvedValueOnce(rpcResult(null, { code: '42501', message: 'permission denied for function next_code_serial' }))
+    await expect(allocateCodeSerialsInSupabase('PKG', '2501', 1, 4)).rejects.toThrow('permission denied')
+
+    rpc.mockResolvedValueOnce(rpcResult(null, { code: 'PGRST202', message: 'Could not find the function public.next_code_serial' }))
+    await expect(allocateCodeSerialsInSupabase('PKG', '2501', 1, 4)).rejects.toThrow('Could not find the function')
+  })
+})
@@ -1,8 +1,16 @@
 import { supabase } from './supabase'
-import type { Barcode } from '@/types'
-import { PackingStatus } from '@/types'
+import type { Barcode, Gs1Data } from '@/types'
+import { PackingStatus, PackageEventType, BarcodeSymbology } from '@/types'
+import { logPackageEvent } from './package-events'
 
 const TABLE_NAME = 'app_070c516bb6_qr_codes'
+const CODE_SEQUENCES_TABLE = 'app_070c516bb6_code_sequences'
+
+// Period SSCC serial references are allocated under; they never reset
+const SSCC_SEQUENCE_PERIOD = 'all'
+
+// SQLSTATE next_code_serial raises when a prefix/period has no serials left (numeric_value_out_of_range)
+const SERIAL_RANGE_EXHAUSTED_CODE = '22003'
 
 export interface SupabaseBarcode {
   id: string
@@ -14,6 +22,8 @@ export interface SupabaseBarcode {
   shipping_location?: string
   packed_at?: string
   shipped_at?: string
+  symbology?: string | null
+  gs1_data?: Gs1Data | null
   created_at: string
   updated_at: string
 }
@@ -30,10 +40,12 @@ function convertToBarcode(row: SupabaseBarcode): Barcode {
     status: (row.status as PackingStatus) || PackingStatus.PENDING,
     qrCodeImage: '', // qr_code_image column doesn't exist in Supabase table
     shippingLocation: row.shipping_location || '',
+    packedAt: row.packed_at,
     shippedAt: row.shipped_at,
-    updatedAt: row.updated_at
+    updatedAt: row.updated_at,
+    symbology: (row.symbology as BarcodeSymbology) || BarcodeSymbology.QR,
+    gs1: row.gs1_data || undefined
     // assignedWorker is stored in barcode_assignments table, not in qr_codes table
-    // packedAt is not in Barcode type, so we omit it
   }
 }
 
@@ -45,7 +57,12 @@ function convertToSupabaseRow(barcode: Barcode): Omit<SupabaseBarcode, 'id' | 'c
     packer_name: barcode.packerName || '',
     weight: barcode.weight || '',
     status: barcode.status || 'pending',
-    shipping_location: barcode.shippingLocation || ''
+    shipping_location: barcode.shippingLocation || '',
+    // symbology column comes from ADD_SYMBOLOGY_COLUMN.sql - only sent for 1D codes so QR saves
+    // keep working on databases where the migration hasn't been run yet
+    ...(barcode.symbology && barcode.symbology !== BarcodeSymbology.QR ? { symbology: barcode.symbology } : {}),
+    // gs1_data column comes from ADD_GS1_DATA_COLUMN.sql - only sent for codes with GS1 data
+    ...(barcode.gs1 ? { gs1_data: barcode.gs1 } : {})
     // qr_code_image column doesn't exist in Supabase table, so we omit it
     // assignedWorker is stored in barcode_assignments table, not in qr_codes table
   }
@@ -129,6 +146,30 @@ export async function getAllQRCodesFromSupabase(): Promise<Barcode[]> {
   }
 }
 
+/**
+ * Whether Supabase confirms that no QR code with this code exists. False when it does exist
+ * or when the lookup fails, so an unreachable server is never taken for a missing code.
+ */
+export async function isQRCodeMissingInSupabase(code: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('id')
+      .eq('code', code)
+      .limit(1)
+
+    if (error) {
+      console.warn('⚠️ Could not check QR code in Supabase:', error)
+      return false
+    }
+
+    return data.length === 0
+  } catch (error) {
+    console.warn('⚠️ Error checking QR code in Supabase:', error)
+    return false
+  }
+}
+
 export async function findQRCodeByCodeInSupabase(code: string): Promise<Barcode | null> {
   try {
     const tenDaysAgo = getTenDaysAgo();
@@ -193,7 +234,7 @@ export async function findQRCodeByCodeInSupabase(code: string): Promise<Barcode
 export async function updateQRCodeStatusInSupabase(
   code: string,
   status: PackingStatus,
-  updateData?: { weight?: string; packerName?: string; shippingLocation?: string }
+  updateData?: { weight?: string; packerName?: string; shippingLocation?: string; scannedAt?: string }
 ): Promise<Barcode | null> {
   try {
     // Check if the record exists first (with date filter for performance)
@@ -257,8 +298,9 @@ export async function updateQRCodeStatusInSupabase(
         ...(updateData?.packerName && { packer_name: updateData.packerName }),
         // Always include shippingLocation if provided (even if empty string, to clear it)
         ...(updateData?.shippingLocation !== undefined && { shipping_location: updateData.shippingLocation }),
-        // Set shipped_at when status is DISPATCHED
-        ...(status === PackingStatus.DISPATCHED && { shipped_at: new Date().toISOString() })
+        // Set packed_at / shipped_at when the package reaches that status
+        ...(status === PackingStatus.PACKED && { packed_at: updateData?.scannedAt || new Date().toISOString() }),
+        ...(status === PackingStatus.DISPATCHED && { shipped_at: updateData?.scannedAt || new Date().toISOString() })
       };
 
       console.log('[updateQRCodeStatusInSupabase] Creating new record with shipping location:', newRecord.shipping_location);
@@ -277,6 +319,15 @@ export async function updateQRCodeStatusInSupabase(
         return null;
       }
 
+      await logPackageEvent({
+        code,
+        eventType: PackageEventType.CREATED,
+        toStatus: status,
+        actor: updateData?.packerName,
+        details: { reason: 'Auto-created during status update', shippingLocation: updateData?.shippingLocation },
+        occurredAt: updateData?.scannedAt
+      });
+
 
       return insertData ? convertToBarcode(insertData) : null;
     }
@@ -289,8 +340,9 @@ export async function updateQRCodeStatusInSupabase(
       ...(updateData?.packerName && { packer_name: updateData.packerName }),
       // Always include shippingLocation if provided (even if empty string, to clear it)
       ...(updateData?.shippingLocation !== undefined && { shipping_location: updateData.shippingLocation }),
-      // Set shipped_at when status is DISPATCHED
-      ...(status === PackingStatus.DISPATCHED && { shipped_at: new Date().toISOString() })
+      // Set packed_at / shipped_at when the package reaches that status
+      ...(status === PackingStatus.PACKED && { packed_at: updateData?.scannedAt || new Date().toISOString() }),
+      ...(status === PackingStatus.DISPATCHED && { shipped_at: updateData?.scannedAt || new Date().toISOString() })
     };
 
     console.log('[updateQRCodeStatusInSupabase] Update payload:', JSON.stringify(updatePayload, null, 2));
@@ -311,6 +363,18 @@ export async function updateQRCodeStatusInSupabase(
       return null;
     }
 
+    if (existingData?.status !== status) {
+      await logPackageEvent({
+        code,
+        eventType: PackageEventType.STATUS_CHANGED,
+        fromStatus: existingData?.status as PackingStatus,
+        toStatus: status,
+        actor: updateData?.packerName,
+        details: updateData?.shippingLocation ? { shippingLocation: updateData.shippingLocation } : undefined,
+        occurredAt: updateData?.scannedAt
+      });
+    }
+
     console.log('[updateQRCodeStatusInSupabase] Updated data from Supabase:', data);
     console.log('[updateQRCodeStatusInSupabase] Shipping location in returned data:', data?.shipping_location);
 
@@ -342,6 +406,7 @@ export async function deleteQRCodeFromSupabase(code: string): Promise<boolean> {
       return false
     }
 
+    await logPackageEvent({ code, eventType: PackageEventType.DELETED })
     return true
   } catch (error: any) {
     // Catch CORS and network errors
@@ -394,4 +459,73 @@ export async function getQRCodesByDateRange(
     console.error('Unexpected error fetching QR codes by date range:', error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Prefixes codes have been allocated serials for (SSCC sequences excluded).
+ * Returns null if they couldn't be read.
+ */
+export async function getCodeSequencePrefixesFromSupabase(): Promise<string[] | null> {
+  try {
+    const { data, error } = await supabase
+      .from(CODE_SEQUENCES_TABLE)
+      .select('prefix')
+      .neq('period', SSCC_SEQUENCE_PERIOD)
+
+    if (error) {
+      console.warn('⚠️ Could not read code prefixes from Supabase:', error)
+      return null
+    }
+
+    return Array.from(new Set((data || []).map(row => row.prefix as string)))
+  } catch (error) {
+    console.warn('⚠️ Error reading code prefixes from Supabase:', error)
+    return null
+  }
+}
+
+/**
+ * Atomically reserve `count` serial numbers for a prefix/period via the next_code_serial RPC.
+ * Returns the last serial of the reserved block, or null if Supabase can't be reached.
+ * Any other failure throws (serial range exhausted, missing function, permission denied...):
+ * falling back to a per-device sequence then would hand out serials other devices also get.
+ */
+export async function allocateCodeSerialsInSupabase(
+  prefix: string,
+  period: string,
+  count: number,
+  serialWidth: number
+): Promise<number | null> {
+  let response
+  try {
+    response = await supabase.rpc('next_code_serial', {
+      p_prefix: prefix,
+      p_period: period,
+      p_count: count,
+      p_serial_width: serialWidth
+    })
+  } catch (error: unknown) {
+    if (error instanceof TypeError || (error instanceof Error && (error.message.includes('Failed to fetch') || error.message.includes('CORS')))) {
+      console.warn('⚠️ CORS/Network error calling next_code_serial, will use local sequence:', error)
+      return null
+    }
+    throw error
+  }
+
+  const { data, error } = response
+  if (error) {
+    if (error.message?.includes('Failed to fetch') || error.message?.includes('CORS')) {
+      console.warn('⚠️ CORS/Network error allocating code serials, will use local sequence')
+      return null
+    }
+    console.error('Error allocating code serials in Supabase:', error)
+    // The exhausted message is shown as is; other errors are for whoever runs the database
+    throw new Error(error.code === SERIAL_RANGE_EXHAUSTED_CODE ? error.message : `Could not allocate code serials: ${error.message}`)
+  }
+
+  const lastSerial = typeof data === 'number' ? data : parseInt(String(data), 10)
+  if (isNaN(lastSerial)) {
+    throw new Error(`Could not allocate code serials: unexpected response ${JSON.stringify(data)}`)
+  }
+  return lastSerial
+}
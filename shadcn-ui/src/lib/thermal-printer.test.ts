@@ -0,0 +1,210 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BarcodeSymbology, LabelField, LabelTemplate } from '@/types';
+import { LabelData } from './label-templates';
+import { renderEscPos, renderTspl, renderZpl } from './thermal-printer';
+
+// Rendering doesn't touch settings; keep the Supabase client from being created
+vi.mock('./supabase-service', () => ({
+  getSettingFromSupabase: vi.fn(),
+  saveSettingToSupabase: vi.fn()
+}));
+
+// 50x25mm roll, one label across: at 203 dpi the QR code is 168 dots and text starts at x=188
+const ROLL_TEMPLATE: LabelTemplate = {
+  id: 'roll',
+  name: 'Roll',
+  pageWidthMm: 50,
+  pageHeightMm: 25,
+  labelWidthMm: 50,
+  labelHeightMm: 25,
+  columns: 1,
+  rows: 1,
+  marginTopMm: 0,
+  marginLeftMm: 0,
+  gapXMm: 0,
+  gapYMm: 0,
+  qrSizeMm: 21,
+  fontFamily: 'Arial, sans-serif',
+  fontSizePt: 7,
+  fields: [LabelField.CODE, LabelField.DESCRIPTION, LabelField.DATE],
+  showBorder: false
+};
+
+// 100x30mm roll, two 48mm labels across with a 2mm gap
+const TWO_UP_TEMPLATE: LabelTemplate = {
+  ...ROLL_TEMPLATE,
+  id: 'two-up',
+  name: 'Two up',
+  pageWidthMm: 100,
+  pageHeightMm: 30,
+  labelWidthMm: 48,
+  labelHeightMm: 30,
+  columns: 2,
+  gapXMm: 2,
+  gapYMm: 3,
+  qrSizeMm: 20,
+  fontSizePt: 12,
+  fields: [LabelField.CODE, LabelField.WORKER]
+};
+
+const LABEL: LabelData = {
+  code: 'ABC-2401-0001',
+  description: 'Mango Jelly',
+  date: '2026-10-18'
+};
+
+const BATCH: LabelData[] = [
+  { code: 'ABC-2401-0001', worker: 'Ravi' },
+  { code: 'ABC-2401-0002', worker: 'Anita', symbology: BarcodeSymbology.CODE128 },
+  { code: 'ABC-2401-0003' }
+];
+
+describe('renderZpl', () => {
+  it('renders a single label', () => {
+    expect(renderZpl(ROLL_TEMPLATE, [LABEL]).split('\n')).toEqual([
+      '^XA',
+      '^CI0',
+      '^PW400',
+      '^LL200',
+      '^LH0,0',
+      '^FO8,8^BQN,2,5^FDMA,ABC-2401-0001^FS',
+      '^FO188,8^A0N,20,20^FDABC-2401-0001^FS',
+      '^FO188,32^A0N,20,20^FDDescription: Mango Jelly^FS',
+      '^FO188,56^A0N,20,20^FDDate: 2026-10-18^FS',
+      '^PQ1',
+      '^XZ'
+    ]);
+  });
+
+  it('renders a multi-column batch as one format per row', () => {
+    expect(renderZpl(TWO_UP_TEMPLATE, BATCH).split('\n')).toEqual([
+      '^XA',
+      '^CI0',
+      '^PW799',
+      '^LL240',
+      '^LH0,0',
+      '^FO8,8^BQN,2,4^FDMA,ABC-2401-0001^FS',
+      '^FO180,8^A0N,34,34^FDABC-2401-0001^FS',
+      '^FO180,49^A0N,34,34^FDWorker: Ravi^FS',
+      '^FO408,8^BY2^BCN,160,Y,N,N^FDABC-2401-0002^FS',
+      '^FO580,8^A0N,34,34^FDABC-2401-0002^FS',
+      '^FO580,49^A0N,34,34^FDWorker: Anita^FS',
+      '^PQ1',
+      '^XZ',
+      '^XA',
+      '^CI0',
+      '^PW799',
+      '^LL240',
+      '^LH0,0',
+      '^FO8,8^BQN,2,4^FDMA,ABC-2401-0003^FS',
+      '^FO180,8^A0N,34,34^FDABC-2401-0003^FS',
+      '^PQ1',
+      '^XZ'
+    ]);
+  });
+
+  it('keeps command prefixes out of field data', () => {
+    expect(renderZpl(ROLL_TEMPLATE, [{ code: 'A^B~C' }])).toContain('^FDMA,A B C^FS');
+  });
+
+  it('encodes the batch of a GS1-128 label as AI (10) before the code', () => {
+    const label = { code: 'ABC-2401-0001', symbology: BarcodeSymbology.GS1_128, gs1: { batch: 'L42' } };
+    expect(renderZpl(ROLL_TEMPLATE, [label])).toContain('^BCN,168,Y,N,N,D^FD(10)L42(21)ABC-2401-0001^FS');
+  });
+});
+
+describe('renderTspl', () => {
+  it('renders a single label', () => {
+    expect(renderTspl(ROLL_TEMPLATE, [LABEL]).split('\n')).toEqual([
+      'SIZE 50 mm,25 mm',
+      'GAP 0 mm,0 mm',
+      'DIRECTION 1',
+      'REFERENCE 0,0',
+      'CLS',
+      'QRCODE 8,8,M,5,A,0,"ABC-2401-0001"',
+      'TEXT 188,8,"0",0,7,7,"ABC-2401-0001"',
+      'TEXT 188,32,"0",0,7,7,"Description: Mango Jelly"',
+      'TEXT 188,56,"0",0,7,7,"Date: 2026-10-18"',
+      'PRINT 1,1'
+    ]);
+  });
+
+  it('renders a multi-column batch as one print job per row', () => {
+    expect(renderTspl(TWO_UP_TEMPLATE, BATCH).split('\n')).toEqual([
+      'SIZE 100 mm,30 mm',
+      'GAP 3 mm,0 mm',
+      'DIRECTION 1',
+      'REFERENCE 0,0',
+      'CLS',
+      'QRCODE 8,8,M,4,A,0,"ABC-2401-0001"',
+      'TEXT 180,8,"0",0,12,12,"ABC-2401-0001"',
+      'TEXT 180,49,"0",0,12,12,"Worker: Ravi"',
+      'BARCODE 408,8,"128",160,1,0,2,2,"ABC-2401-0002"',
+      'TEXT 580,8,"0",0,12,12,"ABC-2401-0002"',
+      'TEXT 580,49,"0",0,12,12,"Worker: Anita"',
+      'PRINT 1,1',
+      'CLS',
+      'QRCODE 8,8,M,4,A,0,"ABC-2401-0003"',
+      'TEXT 180,8,"0",0,12,12,"ABC-2401-0003"',
+      'PRINT 1,1'
+    ]);
+  });
+
+  it('escapes double quotes in strings', () => {
+    expect(renderTspl(ROLL_TEMPLATE, [{ code: 'A"B' }])).toContain('QRCODE 8,8,M,5,A,0,"A\\["]B"');
+  });
+});
+
+describe('renderEscPos', () => {
+  const ESC = '\x1b';
+  const GS = '\x1d';
+  const QR_SETUP = [
+    `${GS}(k\x04\x001A2\x00`, // Model 2
+    `${GS}(k\x03\x001C\x05`, // Module size 5
+    `${GS}(k\x03\x001E1` // Error correction M
+  ].join('');
+  const QR_PRINT = `${GS}(k\x03\x001Q0`;
+
+  it('renders a single label', () => {
+    expect(renderEscPos(ROLL_TEMPLATE, [LABEL])).toBe([
+      `${ESC}@`,
+      `${ESC}a\x01`,
+      QR_SETUP,
+      `${GS}(k\x10\x001P0ABC-2401-0001`,
+      QR_PRINT,
+      '\n',
+      `${GS}!\x00`,
+      'ABC-2401-0001\n',
+      'Description: Mango Jelly\n',
+      'Date: 2026-10-18\n',
+      `${GS}!\x00`,
+      `${GS}V\x42\x03`
+    ].join(''));
+  });
+
+  it('renders a multi-column batch one label per cut', () => {
+    const twoUp = { ...TWO_UP_TEMPLATE, qrSizeMm: 21 };
+    expect(renderEscPos(twoUp, BATCH.slice(0, 2))).toBe([
+      `${ESC}@`,
+      `${ESC}a\x01`,
+      QR_SETUP,
+      `${GS}(k\x10\x001P0ABC-2401-0001`,
+      QR_PRINT,
+      '\n',
+      `${GS}!\x01`,
+      'ABC-2401-0001\n',
+      'Worker: Ravi\n',
+      `${GS}!\x00`,
+      `${GS}V\x42\x03`,
+      `${ESC}a\x01`,
+      `${GS}h\x50${GS}w\x02${GS}H\x02`,
+      `${GS}k\x49\x0f{BABC-2401-0002`,
+      '\n',
+      `${GS}!\x01`,
+      'ABC-2401-0002\n',
+      'Worker: Anita\n',
+      `${GS}!\x00`,
+      `${GS}V\x42\x03`
+    ].join(''));
+  });
+});
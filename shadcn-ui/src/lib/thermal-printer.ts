@@ -0,0 +1,348 @@
+/**
+ * Native command output (ZPL, TSPL, ESC/POS) for thermal label printers.
+ * Labels are laid out from the same label templates used for browser printing,
+ * but the QR code and text are drawn by the printer itself so they scale exactly.
+ */
+import { BarcodeSymbology, LabelField, LabelTemplate } from '@/types';
+import { LABEL_FIELD_LABELS, LabelData } from './label-templates';
+import { getQRCodeContent } from './barcode-symbologies';
+import { formatGs1ElementString, formatGs1HumanReadable, getGs1Elements } from './gs1';
+import { getSettingFromSupabase, saveSettingToSupabase } from './supabase-service';
+
+export type PrinterLanguage = 'zpl' | 'tspl' | 'escpos';
+
+export interface ThermalPrinterSettings {
+  language: PrinterLanguage;
+  dpi: number; // 203 for most Zebra/TSC desktop printers, 300 for high resolution models
+  agentUrl: string; // Local print agent that accepts raw command streams via HTTP POST
+}
+
+export const DEFAULT_THERMAL_PRINTER_SETTINGS: ThermalPrinterSettings = {
+  language: 'zpl',
+  dpi: 203,
+  agentUrl: 'http://localhost:9100/print'
+};
+
+export const PRINTER_LANGUAGE_LABELS: Record<PrinterLanguage, string> = {
+  zpl: 'ZPL (Zebra)',
+  tspl: 'TSPL (TSC)',
+  escpos: 'ESC/POS (receipt)'
+};
+
+const PRINTER_SETTINGS_KEY = 'thermal_printer_settings';
+const PRINTER_SETTINGS_STORAGE_KEY = 'thermal-printer-settings';
+
+// Gap between the QR code and the text block, in mm
+const TEXT_GAP_MM = 1.5;
+// Inner padding of each label, in mm
+const LABEL_PADDING_MM = 1;
+// Modules in a version 2 QR code plus the 4-module quiet zone on each side
+const QR_MODULES = 25 + 8;
+
+function mmToDots(mm: number, dpi: number): number {
+  return Math.round((mm * dpi) / 25.4);
+}
+
+function ptToDots(pt: number, dpi: number): number {
+  return Math.max(10, Math.round((pt * dpi) / 72));
+}
+
+// Printers only handle plain ASCII reliably
+function toAscii(value: string): string {
+  return value.replace(/[^\x20-\x7E]/g, '?');
+}
+
+// Text lines printed next to the QR code, in template field order
+function getTextLines(template: LabelTemplate, label: LabelData): string[] {
+  return template.fields
+    .map(field => {
+      const value = label[field];
+      if (!value) return '';
+      return field === LabelField.CODE ? value : `${LABEL_FIELD_LABELS[field]}: ${value}`;
+    })
+    .filter(Boolean)
+    .map(toAscii);
+}
+
+// GS1 elements of a GS1-128 label, with the package code as serial (AI 21)
+function gs1Elements(label: LabelData) {
+  return getGs1Elements(label.gs1 || {}, toAscii(label.code));
+}
+
+// Group labels into printed rows, one label per column across the roll
+function toRows(template: LabelTemplate, labels: LabelData[]): LabelData[][] {
+  const columns = Math.max(1, template.columns);
+  const rows: LabelData[][] = [];
+  for (let i = 0; i < labels.length; i += columns) {
+    rows.push(labels.slice(i, i + columns));
+  }
+  return rows;
+}
+
+/**
+ * Render labels as ZPL II. Each printed row of labels is one ^XA...^XZ format.
+ */
+export function renderZpl(template: LabelTemplate, labels: LabelData[], dpi: number = DEFAULT_THERMAL_PRINTER_SETTINGS.dpi): string {
+  const pageWidth = mmToDots(template.pageWidthMm, dpi);
+  const labelHeight = mmToDots(template.labelHeightMm, dpi);
+  const padding = mmToDots(LABEL_PADDING_MM, dpi);
+  const qrSize = mmToDots(template.qrSizeMm, dpi);
+  const magnification = Math.min(10, Math.max(1, Math.floor(qrSize / QR_MODULES)));
+  const fontHeight = ptToDots(template.fontSizePt, dpi);
+  // ZPL uses ^ and ~ as command prefixes, so they can't appear in field data
+  const escape = (value: string) => value.replace(/[\^~]/g, ' ');
+
+  return toRows(template, labels)
+    .map(row => {
+      const commands = ['^XA', '^CI0', `^PW${pageWidth}`, `^LL${labelHeight}`, '^LH0,0'];
+
+      row.forEach((label, column) => {
+        const left = mmToDots(template.marginLeftMm + column * (template.labelWidthMm + template.gapXMm), dpi) + padding;
+        const textLeft = left + qrSize + mmToDots(TEXT_GAP_MM, dpi);
+
+        const data = escape(toAscii(label.code));
+        switch (label.symbology) {
+          case BarcodeSymbology.CODE128:
+            commands.push(`^FO${left},${padding}^BY2^BCN,${qrSize},Y,N,N^FD${data}^FS`);
+            break;
+          case BarcodeSymbology.GS1_128:
+            // Mode D inserts FNC1 and parses the bracketed application identifiers
+            commands.push(`^FO${left},${padding}^BY2^BCN,${qrSize},Y,N,N,D^FD${escape(formatGs1HumanReadable(gs1Elements(label)))}^FS`);
+            break;
+          case BarcodeSymbology.EAN13:
+            commands.push(`^FO${left},${padding}^BY2^BEN,${qrSize},Y,N^FD${data}^FS`);
+            break;
+          default:
+            commands.push(`^FO${left},${padding}^BQN,2,${magnification}^FDMA,${escape(toAscii(getQRCodeContent(label.code, label.gs1)))}^FS`);
+        }
+        getTextLines(template, label).forEach((line, index) => {
+          const top = padding + index * Math.round(fontHeight * 1.2);
+          commands.push(`^FO${textLeft},${top}^A0N,${fontHeight},${fontHeight}^FD${escape(line)}^FS`);
+        });
+      });
+
+      commands.push('^PQ1', '^XZ');
+      return commands.join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Render labels as TSPL/TSPL2 for TSC printers. Each printed row of labels is one PRINT job.
+ */
+export function renderTspl(template: LabelTemplate, labels: LabelData[], dpi: number = DEFAULT_THERMAL_PRINTER_SETTINGS.dpi): string {
+  const padding = mmToDots(LABEL_PADDING_MM, dpi);
+  const qrSize = mmToDots(template.qrSizeMm, dpi);
+  const cellWidth = Math.min(10, Math.max(1, Math.floor(qrSize / QR_MODULES)));
+  const lineHeight = Math.round(ptToDots(template.fontSizePt, dpi) * 1.2);
+  const fontSize = Math.max(1, Math.round(template.fontSizePt));
+  // Double quotes inside TSPL strings are written as \["]
+  const escape = (value: string) => value.replace(/"/g, '\\["]');
+
+  const header = [
+    `SIZE ${template.pageWidthMm} mm,${template.labelHeightMm} mm`,
+    `GAP ${template.gapYMm} mm,0 mm`,
+    'DIRECTION 1',
+    'REFERENCE 0,0'
+  ];
+
+  const jobs = toRows(template, labels).map(row => {
+    const commands = ['CLS'];
+
+    row.forEach((label, column) => {
+      const left = mmToDots(template.marginLeftMm + column * (template.labelWidthMm + template.gapXMm), dpi) + padding;
+      const textLeft = left + qrSize + mmToDots(TEXT_GAP_MM, dpi);
+
+      const data = escape(toAscii(label.code));
+      switch (label.symbology) {
+        case BarcodeSymbology.CODE128:
+          commands.push(`BARCODE ${left},${padding},"128",${qrSize},1,0,2,2,"${data}"`);
+          break;
+        case BarcodeSymbology.GS1_128:
+          // "!102" is FNC1, ending variable-length fields
+          commands.push(`BARCODE ${left},${padding},"EAN128",${qrSize},1,0,2,2,"${escape(formatGs1ElementString(gs1Elements(label), '!102'))}"`);
+          break;
+        case BarcodeSymbology.EAN13:
+          commands.push(`BARCODE ${left},${padding},"EAN13",${qrSize},1,0,2,2,"${data}"`);
+          break;
+        default:
+          commands.push(`QRCODE ${left},${padding},M,${cellWidth},A,0,"${escape(toAscii(getQRCodeContent(label.code, label.gs1)))}"`);
+      }
+      getTextLines(template, label).forEach((line, index) => {
+        // Font "0" is the built-in scalable font; multipliers are the point size
+        commands.push(`TEXT ${textLeft},${padding + index * lineHeight},"0",0,${fontSize},${fontSize},"${escape(line)}"`);
+      });
+    });
+
+    commands.push('PRINT 1,1');
+    return commands.join('\n');
+  });
+
+  return [...header, ...jobs].join('\n');
+}
+
+// ESC/POS "GS ( k" function for the QR code symbol
+function escPosQrFunction(fn: number, ...params: number[]): string {
+  const length = params.length + 2;
+  return String.fromCharCode(0x1d, 0x28, 0x6b, length % 256, Math.floor(length / 256), 0x31, fn, ...params);
+}
+
+// ESC/POS commands printing the label's symbol
+function escPosSymbol(label: LabelData, moduleSize: number): string {
+  const GS = '\x1d';
+  const data = toAscii(label.code);
+  // Barcode height in dots, human readable text below
+  const linearSetup = `${GS}h\x50${GS}w\x02${GS}H\x02`;
+
+  switch (label.symbology) {
+    case BarcodeSymbology.CODE128: {
+      const content = `{B${data}`; // Code set B
+      return `${linearSetup}${GS}k\x49${String.fromCharCode(content.length)}${content}`;
+    }
+    case BarcodeSymbology.GS1_128: {
+      const content = `{B{1${formatGs1ElementString(gs1Elements(label), '{1')}`; // Code set B, FNC1, element string
+      return `${linearSetup}${GS}k\x49${String.fromCharCode(content.length)}${content}`;
+    }
+    case BarcodeSymbology.EAN13:
+      return `${linearSetup}${GS}k\x43\x0c${data.slice(0, 12)}`;
+    default: {
+      const qrData = toAscii(getQRCodeContent(label.code, label.gs1));
+      const storeLength = qrData.length + 3;
+      return [
+        escPosQrFunction(0x41, 0x32, 0x00), // Model 2
+        escPosQrFunction(0x43, moduleSize), // Module size
+        escPosQrFunction(0x45, 0x31), // Error correction M
+        String.fromCharCode(0x1d, 0x28, 0x6b, storeLength % 256, Math.floor(storeLength / 256), 0x31, 0x50, 0x30) + qrData,
+        escPosQrFunction(0x51, 0x30) // Print stored symbol
+      ].join('');
+    }
+  }
+}
+
+/**
+ * Render labels as ESC/POS for receipt-style printers: centered symbol followed by the text lines,
+ * one label per paper cut. Layout sizes are ignored apart from the QR size and font size.
+ */
+export function renderEscPos(template: LabelTemplate, labels: LabelData[], dpi: number = DEFAULT_THERMAL_PRINTER_SETTINGS.dpi): string {
+  const ESC = '\x1b';
+  const GS = '\x1d';
+  const moduleSize = Math.min(16, Math.max(1, Math.floor(mmToDots(template.qrSizeMm, dpi) / QR_MODULES)));
+  // Double-height text for large template fonts
+  const textSize = template.fontSizePt >= 12 ? '\x01' : '\x00';
+
+  const commands = [`${ESC}@`];
+
+  labels.forEach(label => {
+    commands.push(
+      `${ESC}a\x01`,
+      escPosSymbol(label, moduleSize),
+      '\n',
+      `${GS}!${textSize}`,
+      ...getTextLines(template, label).map(line => `${line}\n`),
+      `${GS}!\x00`,
+      `${GS}V\x42\x03` // Feed and partial cut
+    );
+  });
+
+  return commands.join('');
+}
+
+/**
+ * Render labels in the given printer language
+ */
+export function renderPrinterCommands(
+  language: PrinterLanguage,
+  template: LabelTemplate,
+  labels: LabelData[],
+  dpi: number = DEFAULT_THERMAL_PRINTER_SETTINGS.dpi
+): string {
+  switch (language) {
+    case 'tspl':
+      return renderTspl(template, labels, dpi);
+    case 'escpos':
+      return renderEscPos(template, labels, dpi);
+    case 'zpl':
+    default:
+      return renderZpl(template, labels, dpi);
+  }
+}
+
+// Command streams are single-byte; ESC/POS contains control bytes that must not be UTF-8 encoded
+function toBytes(commands: string) {
+  const bytes = new Uint8Array(commands.length);
+  for (let i = 0; i < commands.length; i++) {
+    bytes[i] = commands.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Download a command stream as a .zpl or .prn file for sending to the printer manually
+ */
+export function downloadPrinterCommands(language: PrinterLanguage, commands: string, baseName: string = 'labels'): void {
+  const extension = language === 'zpl' ? 'zpl' : 'prn';
+  const blob = new Blob([toBytes(commands)], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Send a command stream to the local print agent. Returns false if the agent could not be reached.
+ */
+export async function sendToPrintAgent(agentUrl: string, language: PrinterLanguage, commands: string): Promise<boolean> {
+  try {
+    const response = await fetch(agentUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Printer-Language': language
+      },
+      body: toBytes(commands)
+    });
+
+    if (!response.ok) {
+      console.error(`❌ Print agent responded with ${response.status}:`, await response.text());
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('❌ Could not reach print agent:', error);
+    return false;
+  }
+}
+
+/**
+ * Get thermal printer settings, from Supabase settings with localStorage fallback
+ */
+export async function getThermalPrinterSettings(): Promise<ThermalPrinterSettings> {
+  const saved = await getSettingFromSupabase<Partial<ThermalPrinterSettings>>(PRINTER_SETTINGS_KEY);
+  if (saved) {
+    const settings = { ...DEFAULT_THERMAL_PRINTER_SETTINGS, ...saved };
+    localStorage.setItem(PRINTER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    return settings;
+  }
+
+  try {
+    const storedData = localStorage.getItem(PRINTER_SETTINGS_STORAGE_KEY);
+    return storedData ? { ...DEFAULT_THERMAL_PRINTER_SETTINGS, ...JSON.parse(storedData) } : DEFAULT_THERMAL_PRINTER_SETTINGS;
+  } catch (error) {
+    console.error('Error reading printer settings from local storage:', error);
+    return DEFAULT_THERMAL_PRINTER_SETTINGS;
+  }
+}
+
+/**
+ * Save thermal printer settings to Supabase settings and localStorage
+ */
+export async function saveThermalPrinterSettings(settings: ThermalPrinterSettings): Promise<boolean> {
+  localStorage.setItem(PRINTER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  return saveSettingToSupabase(PRINTER_SETTINGS_KEY, settings);
+}
@@ -0,0 +1,120 @@
+/**
+ * Printable worker ID badges (jsPDF). Badges are credit-card size, ten to an A4 page,
+ * with the signed badge token as a QR code for the clock-in kiosk and the packing scanners.
+ */
+import { jsPDF } from 'jspdf';
+import { Worker } from '@/types';
+import { generateQRCodeDataURL } from './qr-generator';
+
+const COMPANY_NAME = 'KETAKI COMPLIANCE';
+
+// ISO/IEC 7810 ID-1 (credit card) size, in mm
+const BADGE_WIDTH = 85.6;
+const BADGE_HEIGHT = 54;
+const COLUMNS = 2;
+const ROWS = 5;
+const COLUMN_GAP = 8;
+const ROW_GAP = 2;
+
+export interface WorkerBadge {
+  worker: Worker;
+  token: string; // Signed badge token from getWorkerBadgeTokens
+}
+
+async function renderBadge(doc: jsPDF, badge: WorkerBadge, x: number, y: number): Promise<void> {
+  const { worker } = badge;
+
+  // Cut line and header band
+  doc.setDrawColor(160, 160, 160);
+  doc.roundedRect(x, y, BADGE_WIDTH, BADGE_HEIGHT, 3, 3, 'S');
+  doc.setFillColor(30, 41, 59);
+  doc.rect(x + 0.3, y + 3, BADGE_WIDTH - 0.6, 7, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.text(COMPANY_NAME, x + BADGE_WIDTH / 2, y + 8, { align: 'center' });
+  doc.setTextColor(0, 0, 0);
+
+  // Photo placeholder
+  const photoX = x + 4;
+  const photoY = y + 14;
+  doc.setDrawColor(180, 180, 180);
+  doc.rect(photoX, photoY, 18, 24);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(6);
+  doc.setTextColor(150, 150, 150);
+  doc.text('PHOTO', photoX + 9, photoY + 13, { align: 'center' });
+  doc.setTextColor(0, 0, 0);
+
+  // Details
+  const textX = x + 25;
+  const textWidth = 27;
+  let textY = y + 17;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  const nameLines = doc.splitTextToSize(worker.name, textWidth).slice(0, 2);
+  doc.text(nameLines, textX, textY);
+  textY += nameLines.length * 4 + 1;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.text(`ID: ${worker.employeeId}`, textX, textY);
+  textY += 4;
+  if (worker.department) {
+    doc.text(doc.splitTextToSize(worker.department, textWidth)[0], textX, textY);
+    textY += 4;
+  }
+  if (worker.position) {
+    doc.text(doc.splitTextToSize(worker.position, textWidth)[0], textX, textY);
+  }
+
+  // Signed QR
+  const qrSize = 29;
+  const qrDataUrl = await generateQRCodeDataURL(badge.token);
+  doc.addImage(qrDataUrl, 'PNG', x + BADGE_WIDTH - qrSize - 3, y + 13, qrSize, qrSize);
+
+  doc.setFontSize(6);
+  doc.setTextColor(120, 120, 120);
+  doc.text('Scan at the kiosk to clock in and out', x + 4, y + BADGE_HEIGHT - 4);
+  doc.setTextColor(0, 0, 0);
+}
+
+/**
+ * Render badges into one PDF, ten per A4 page
+ */
+export async function createWorkerBadgePdf(badges: WorkerBadge[]): Promise<jsPDF> {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const marginX = (pageWidth - COLUMNS * BADGE_WIDTH - (COLUMNS - 1) * COLUMN_GAP) / 2;
+  const marginY = (pageHeight - ROWS * BADGE_HEIGHT - (ROWS - 1) * ROW_GAP) / 2;
+  const perPage = COLUMNS * ROWS;
+
+  for (let index = 0; index < badges.length; index++) {
+    if (index > 0 && index % perPage === 0) {
+      doc.addPage();
+    }
+    const slot = index % perPage;
+    const column = slot % COLUMNS;
+    const row = Math.floor(slot / COLUMNS);
+    await renderBadge(
+      doc,
+      badges[index],
+      marginX + column * (BADGE_WIDTH + COLUMN_GAP),
+      marginY + row * (BADGE_HEIGHT + ROW_GAP)
+    );
+  }
+
+  return doc;
+}
+
+/**
+ * Download badges for the given workers as one printable PDF
+ */
+export async function downloadWorkerBadgesPdf(badges: WorkerBadge[]): Promise<void> {
+  const doc = await createWorkerBadgePdf(badges);
+  const fileName = badges.length === 1
+    ? `badge-${badges[0].worker.employeeId}.pdf`
+    : `worker-badges-${new Date().toISOString().split('T')[0]}.pdf`;
+  doc.save(fileName);
+}
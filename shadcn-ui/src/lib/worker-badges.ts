@@ -0,0 +1,97 @@
+/**
+ * Worker ID badges. A badge QR holds a token signed by the database (see CREATE_WORKER_BADGES.sql):
+ * KWB1.<worker id>.<badge version>.<signature>. Tokens are issued and verified through RPCs, so
+ * the signing secret never reaches the browser.
+ */
+import { supabase } from './supabase'
+
+const BADGE_TOKEN_PREFIX = 'KWB1.'
+
+// Verified tokens are remembered for a while so a kiosk doesn't call the database on every re-read
+const VERIFIED_CACHE_MS = 10 * 60 * 1000
+const verifiedBadges = new Map<string, { workerId: string; at: number }>()
+
+/**
+ * Whether scanned text looks like a worker badge (not whether it is genuine)
+ */
+export function isWorkerBadgeToken(text: string): boolean {
+  return text.trim().startsWith(BADGE_TOKEN_PREFIX)
+}
+
+/**
+ * Signed badge tokens for workers, keyed by worker ID. Workers the database doesn't know
+ * (e.g. only stored on this device) get no token.
+ */
+export async function getWorkerBadgeTokens(workerIds: string[]): Promise<Record<string, string>> {
+  try {
+    const { data, error } = await supabase.rpc('app_sign_worker_badges', { p_worker_ids: workerIds })
+
+    if (error) {
+      console.error('❌ Error issuing worker badges:', error)
+      return {}
+    }
+
+    return Object.fromEntries(
+      ((data || []) as { worker_id: string; token: string }[]).map(row => [row.worker_id, row.token])
+    )
+  } catch (error) {
+    console.error('❌ Error in getWorkerBadgeTokens:', error)
+    return {}
+  }
+}
+
+/**
+ * ID of the worker a scanned badge belongs to, or null when the badge is forged, has been
+ * reissued, belongs to a worker who left, or can't be checked right now.
+ */
+export async function verifyWorkerBadge(token: string): Promise<string | null> {
+  const value = token.trim()
+  if (!isWorkerBadgeToken(value)) {
+    return null
+  }
+
+  const cached = verifiedBadges.get(value)
+  if (cached && Date.now() - cached.at < VERIFIED_CACHE_MS) {
+    return cached.workerId
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('app_verify_worker_badge', { p_token: value })
+
+    if (error) {
+      console.error('❌ Error verifying worker badge:', error)
+      return null
+    }
+
+    if (!data) {
+      verifiedBadges.delete(value)
+      return null
+    }
+
+    verifiedBadges.set(value, { workerId: data as string, at: Date.now() })
+    return data as string
+  } catch (error) {
+    console.error('❌ Error in verifyWorkerBadge:', error)
+    return null
+  }
+}
+
+/**
+ * Replace a lost badge. The worker's old badges stop working; print a new one afterwards.
+ */
+export async function reissueWorkerBadge(workerId: string): Promise<boolean> {
+  try {
+    const { error } = await supabase.rpc('app_reissue_worker_badge', { p_worker_id: workerId })
+
+    if (error) {
+      console.error('❌ Error reissuing worker badge:', error)
+      return false
+    }
+
+    verifiedBadges.clear()
+    return true
+  } catch (error) {
+    console.error('❌ Error in reissueWorkerBadge:', error)
+    return false
+  }
+}
@@ -1,5 +1,10 @@
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { AuthProvider } from './contexts/AuthContext';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(<App />);
+createRoot(document.getElementById('root')!).render(
+  <AuthProvider>
+    <App />
+  </AuthProvider>
+);
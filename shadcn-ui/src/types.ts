@@ -9,8 +9,27 @@ export interface Barcode {
   packerName?: string;
   assignedWorker?: string;
   shippingLocation?: string;
+  packedAt?: string;
   shippedAt?: string;
   qrCodeImage: string;
+  symbology?: BarcodeSymbology; // Printed symbol type, QR when not set
+  gs1?: Gs1Data; // GS1 data carried in the symbol for retail cartons
+}
+
+export interface Gs1Data {
+  gtin?: string; // AI 01, 14 digits including check digit
+  sscc?: string; // AI 00, 18 digits including check digit
+  batch?: string; // AI 10
+  productionDate?: string; // AI 11, YYYY-MM-DD
+  bestBefore?: string; // AI 15, YYYY-MM-DD
+  netWeightKg?: number; // AI 3103, up to 3 decimals
+}
+
+export enum BarcodeSymbology {
+  QR = "qr",
+  CODE128 = "code128",
+  GS1_128 = "gs1-128",
+  EAN13 = "ean13"
 }
 
 export enum PackingStatus {
@@ -20,6 +39,57 @@ export enum PackingStatus {
   DELIVERED = "delivered"
 }
 
+export interface PackageEvent {
+  id: string;
+  code: string;
+  eventType: PackageEventType;
+  fromStatus?: PackingStatus;
+  toStatus?: PackingStatus;
+  actor?: string; // Packer / worker responsible for the change
+  deviceId?: string;
+  details?: Record<string, unknown>;
+  occurredAt: string;
+}
+
+export enum PackageEventType {
+  CREATED = "created",
+  STATUS_CHANGED = "status_changed",
+  DELETED = "deleted",
+  REASSIGNED = "reassigned"
+}
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  product?: string; // Product this template is used for by default (empty = any product)
+  pageWidthMm: number;
+  pageHeightMm: number;
+  labelWidthMm: number;
+  labelHeightMm: number;
+  columns: number;
+  rows: number;
+  marginTopMm: number;
+  marginLeftMm: number;
+  gapXMm: number; // Horizontal gap between labels
+  gapYMm: number; // Vertical gap between labels
+  qrSizeMm: number;
+  fontFamily: string;
+  fontSizePt: number;
+  fields: LabelField[]; // Text fields printed next to the QR code, in order
+  showBorder: boolean;
+  updatedAt?: string;
+}
+
+export enum LabelField {
+  CODE = "code",
+  DESCRIPTION = "description",
+  WEIGHT = "weight",
+  WORKER = "worker",
+  DATE = "date",
+  PRODUCT = "product",
+  BATCH = "batch"
+}
+
 export enum Gender {
   MALE = "male",
   FEMALE = "female"
@@ -35,31 +105,272 @@ export interface Worker {
   isCleaner?: boolean; // New field to designate if worker is a cleaner
   gender: Gender; // Male or Female
   baseSalary?: number; // Daily wage for women, monthly salary for men
-  advanceCurrentMonth?: number; // Advance payment for current month
-  advanceLastMonth?: number; // Advance payment for last month
-  advanceDeduction?: number; // Deduction for advance payment from salary
   isActive?: boolean; // Whether worker is still active (not left company). Defaults to true
   inactiveDate?: string; // Date when worker was marked inactive (YYYY-MM-DD format)
   createdAt: string;
 }
 
+// Effective-dated, versioned pay rules. A new version is saved on every edit; old versions stay for past months.
+export interface PayrollRuleSet {
+  id: string;
+  version: number;
+  name: string;
+  effectiveFrom: string; // YYYY-MM-DD, first day of the first month the rules apply to
+  weeklyOffDay: number; // 0 = Sunday ... 6 = Saturday
+  categories: Record<Gender, PayrollCategoryRules>; // Rules per worker category
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface PayrollCategoryRules {
+  payBasis: 'monthly' | 'daily'; // What Worker.baseSalary means for this category
+  shiftHours: number; // Hours in a regular day, used for the hourly rate
+  shiftStartTime: string; // HH:MM, check-ins after this (plus grace) count as late
+  lateGraceMinutes: number; // Minutes after shift start before a check-in counts as late
+  paidWeeklyOff: boolean; // Whether the weekly off day is paid
+  overtimeOnWeeklyOff: boolean; // Whether overtime counts on the weekly off day
+  overtimeHoursPerDay: number; // Hours credited when a day is marked as overtime
+  overtimeMultiplier: number; // Overtime hourly rate = hourly rate x multiplier
+  halfDayPayFraction: number; // Share of the daily rate paid for a half day
+  halfDaysPerAbsence: number; // Half days that count as one absence for the bonus
+  bonusTiers: AttendanceBonusTier[];
+}
+
+export interface AttendanceBonusTier {
+  maxAbsences: number; // Bonus applies when absences are at most this many
+  amount: number;
+}
+
+export enum PayrollRunStatus {
+  DRAFT = "draft", // Can be regenerated from attendance
+  LOCKED = "locked" // Approved; payslips and the month's attendance can no longer change
+}
+
+// A month's payroll: salaries snapshotted per worker so later edits don't change what was paid
+export interface PayrollRun {
+  id: string;
+  month: string; // YYYY-MM format
+  status: PayrollRunStatus;
+  payslips: Payslip[];
+  totalNetPay: number;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+  approvedBy?: string;
+  approvedAt?: string;
+}
+
+export interface Payslip {
+  id: string;
+  runId: string;
+  workerId: string;
+  workerName: string;
+  employeeId: string;
+  gender: Gender;
+  salaryRate: number; // Worker.baseSalary when the run was generated
+  ruleSetId: string;
+  ruleSetVersion: number;
+  baseSalary: number; // Same breakdown as SalaryCalculationResult
+  bonus: number;
+  overtimeCompensation: number;
+  lateMinutesDeduction: number;
+  totalLateMinutes: number;
+  totalSalary: number;
+  advanceCurrentMonth: number; // Advances issued in the payroll month
+  advanceLastMonth: number; // Advances issued in the month before
+  advanceDeduction: number; // Installments recovered from this salary
+  advanceBalance: number; // Outstanding advances after this deduction
+  netPay: number; // totalSalary - advanceDeduction
+}
+
+// Salary advance or loan given to a worker, recovered from salary in monthly installments
+export interface WorkerAdvance {
+  id: string;
+  workerId: string;
+  issueDate: string; // YYYY-MM-DD format
+  amount: number;
+  installmentAmount: number; // Recovered per month until repaid
+  recoveryStartMonth: string; // YYYY-MM, first month an installment is deducted
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Installment actually recovered, recorded when a month's payroll is approved
+export interface AdvanceRecovery {
+  id: string;
+  advanceId: string;
+  workerId: string;
+  month: string; // YYYY-MM format
+  amount: number;
+  payrollRunId?: string;
+  createdAt: string;
+}
+
+// Kind of leave, with how the salary calculator treats a day of it
+export interface LeaveType {
+  id: string;
+  name: string;
+  paid: boolean; // Paid leave days earn the daily rate, unpaid ones earn nothing
+  countsAsAbsence: boolean; // Whether a day of this leave reduces the attendance bonus like an absence
+  annualDays?: number; // Days each worker may take per calendar year; no limit when not set
+  isActive: boolean;
+  createdAt: string;
+}
+
+export enum LeaveRequestStatus {
+  PENDING = "pending",
+  APPROVED = "approved", // Only approved leave changes pay
+  REJECTED = "rejected",
+  CANCELLED = "cancelled"
+}
+
+export interface LeaveRequest {
+  id: string;
+  workerId: string;
+  leaveTypeId: string;
+  startDate: string; // YYYY-MM-DD format
+  endDate: string; // YYYY-MM-DD format, same calendar year as startDate
+  days: number; // Working days taken from the balance (weekly off days and holidays excluded)
+  reason?: string;
+  status: LeaveRequestStatus;
+  requestedBy?: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNote?: string;
+  createdAt: string;
+}
+
+// Worker-specific allowance for a leave type in a year, replacing the leave type's annual days
+export interface LeaveEntitlement {
+  id: string;
+  workerId: string;
+  leaveTypeId: string;
+  year: number;
+  days: number;
+}
+
+// Public holiday: nobody is expected to work, and it never counts as an absence
+export interface Holiday {
+  id: string;
+  date: string; // YYYY-MM-DD format
+  name: string;
+  paid: boolean;
+  createdAt: string;
+}
+
+// Working hours workers can be rostered on
+export interface Shift {
+  id: string;
+  name: string;
+  startTime: string; // HH:MM, check-ins after this (plus the grace minutes) count as late
+  endTime: string; // HH:MM, earlier than startTime for a shift that runs past midnight
+  breakMinutes: number; // Unpaid break within the shift
+  weeklyOffDay: number; // 0 = Sunday ... 6 = Saturday
+  isActive: boolean;
+  createdAt: string;
+}
+
+// A worker's shift from a week on; it carries over to later weeks until the next assignment
+export interface RosterAssignment {
+  id: string;
+  workerId: string;
+  weekStart: string; // YYYY-MM-DD, the Monday of the week
+  shiftId?: string; // Not set = not rostered from this week
+  updatedBy?: string;
+  updatedAt: string;
+}
+
 export interface HygieneRecord {
   id: string;
   workerId: string;
   workerName: string;
   date: string; // YYYY-MM-DD format
-  area: HygieneArea;
+  area: string; // HygieneArea.code
   photoUrl: string;
+  photoSha256?: string; // SHA-256 of the uploaded photo file, hex
+  photoPhash?: string; // Perceptual (difference) hash of the photo, 16 hex digits
   notes?: string;
+  capturedAt?: string; // Stamped by the database when the record is saved
+  duplicateOf?: string; // Earlier record of the same area whose photo looks the same
+  outsideDate: boolean; // Saved on a different day than its date (backfilled)
+  createdAt: string;
+}
+
+// Area of the factory that cleaners keep hygiene records for, managed from the hygiene section
+export interface HygieneArea {
+  id: string;
+  code: string; // Stable key saved on hygiene records and cleaning schedules; never changes
+  name: string;
+  zone?: string; // Part of the factory the area belongs to, for grouping
+  requiredFrequency: CleaningFrequency; // How often the area must be cleaned
+  checklistItems: string[]; // What cleaning the area covers, in order
+  isActive: boolean;
+  createdAt: string;
+}
+
+// Inspection filled in with a hygiene record: every checklist item of the area marked pass, fail or n/a
+export interface HygieneInspection {
+  id: string;
+  recordId: string; // HygieneRecord the inspection was made with
+  area: string; // HygieneArea.code
+  date: string; // YYYY-MM-DD format
+  items: HygieneInspectionItem[];
+  score?: number; // Percentage of applicable items passed; not set when nothing applied
+  inspectedBy?: string;
   createdAt: string;
 }
 
-export enum HygieneArea {
-  TOILETS = "toilets",
-  STORAGE_AREA = "storage_area",
-  PACKAGING_AREA = "packaging_area",
-  PROCESSING_AREA = "processing_area",
-  OFFICE_AREA = "office_area"
+export interface HygieneInspectionItem {
+  item: string; // Checklist item text at the time of the inspection
+  result: InspectionResult;
+  comment?: string; // What was wrong, required for failed items
+}
+
+export enum InspectionResult {
+  PASS = "pass",
+  FAIL = "fail",
+  NOT_APPLICABLE = "na"
+}
+
+// Follow-up raised for a failed inspection item, open until someone records the fix
+export interface CorrectiveAction {
+  id: string;
+  inspectionId: string;
+  area: string; // HygieneArea.code
+  date: string; // YYYY-MM-DD, date of the inspection
+  item: string;
+  description: string;
+  dueDate: string; // YYYY-MM-DD format
+  status: CorrectiveActionStatus;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  resolutionNote?: string;
+  createdAt: string;
+}
+
+export enum CorrectiveActionStatus {
+  OPEN = "open",
+  RESOLVED = "resolved"
+}
+
+// A cleaning task: an area that must be cleaned in a time window, daily or on one day a week
+export interface CleaningSchedule {
+  id: string;
+  area: string; // HygieneArea.code
+  frequency: CleaningFrequency;
+  weekday?: number; // 0 = Sunday ... 6 = Saturday, for weekly cleaning
+  windowStart: string; // HH:MM
+  windowEnd: string; // HH:MM, a hygiene record after this is late
+  cleanerIds: string[]; // Cleaners (Worker.isCleaner) responsible for the task
+  isActive: boolean;
+  createdAt: string;
+}
+
+export enum CleaningFrequency {
+  DAILY = "daily",
+  WEEKLY = "weekly"
 }
 
 export interface LabTestRecord {
@@ -69,10 +380,35 @@ export interface LabTestRecord {
   productName: string;
   month: string; // YYYY-MM format
   fileUrl: string;
+  results?: LabTestResult[]; // Measured values entered with the report
+  passed?: boolean; // Every result within its specification; not set when no results were entered
   notes?: string;
   createdAt: string;
 }
 
+// Quantity measured in the lab tests of a category, with the specification it must meet
+export interface LabTestParameter {
+  id: string;
+  category: LabTestCategory;
+  name: string; // e.g. "TDS", "Brix"
+  unit?: string; // e.g. "ppm", "°Bx"
+  minValue?: number; // Lowest value within spec; no lower limit when not set
+  maxValue?: number; // Highest value within spec; no upper limit when not set
+  isActive: boolean;
+  createdAt: string;
+}
+
+// A measured value, with the parameter's specification as it was when the result was entered
+export interface LabTestResult {
+  parameterId: string;
+  name: string;
+  unit?: string;
+  minValue?: number;
+  maxValue?: number;
+  value: number;
+  passed: boolean;
+}
+
 export enum LabTestType {
   FINISHED_GOOD = "finished_good",
   RAW_MATERIAL = "raw_material"
@@ -97,8 +433,9 @@ export interface AttendanceRecord {
   status: AttendanceStatus;
   overtime: 'yes' | 'no';
   lateMinutes?: number; // Minutes late - will be deducted from overtime
-  checkInTime?: string;
-  checkOutTime?: string;
+  checkInTime?: string; // HH:MM, stamped by the clock-in kiosk
+  checkOutTime?: string; // HH:MM, stamped by the clock-in kiosk
+  overtimeHours?: number; // Actual overtime worked (from check-out); replaces the per-day overtime credit
   notes?: string;
   createdAt: string;
   updatedAt?: string;
@@ -113,4 +450,34 @@ export enum AttendanceStatus {
 export enum OvertimeStatus {
   NO_OVERTIME = "no_overtime",
   OVERTIME = "overtime"
-}
\ No newline at end of file
+}
+export interface UserProfile {
+  id: string; // Supabase Auth user id
+  email: string;
+  fullName?: string;
+  role?: UserRole; // Not set until an admin grants one; no section can be opened until then
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export enum UserRole {
+  PACKER = "packer",
+  SUPERVISOR = "supervisor",
+  HR = "hr",
+  QA = "qa",
+  ADMIN = "admin"
+}
+
+// App sections that access is granted to per role
+export enum AppSection {
+  DASHBOARD = "dashboard",
+  GENERATOR = "generator",
+  LIST = "list",
+  SCANNER = "scanner",
+  ATTENDANCE = "attendance",
+  KIOSK = "kiosk",
+  HYGIENE = "hygiene",
+  LAB_TESTS = "lab-tests",
+  PAYROLL = "payroll",
+  USERS = "users"
+}
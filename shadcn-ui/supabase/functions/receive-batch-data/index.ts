@@ -1,19 +1,177 @@
 // Supabase Edge Function to receive batch counter data
 // This function will be accessible at: https://orsdqaeqqobltrmpvtmj.supabase.co/functions/v1/receive-batch-data
 // This URL is your PERMANENT IP/URL that you can configure in your batch counter
+//
+// Every request must identify the machine (X-Machine-Id) and authenticate with either its API key
+// (X-Api-Key) or an HMAC-SHA256 signature of "<X-Timestamp>.<raw body>" (X-Signature).
+// Readings are deduplicated per machine on their sequence number (or timestamp), so retries and
+// buffered re-sends never create duplicate rows. See BATCH_COUNTER_SETUP.md.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Batch counters don't need CORS; browsers are only allowed from explicitly listed origins
+const ALLOWED_ORIGINS = (Deno.env.get('ALLOWED_ORIGINS') ?? '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean)
+
+const MAX_READINGS_PER_REQUEST = 1000
+const MAX_BODY_BYTES = 1024 * 1024
+// Signed requests older or newer than this are rejected as replays
+const SIGNATURE_TOLERANCE_SECONDS = 300
+
+interface BatchReading {
+  machine_id?: unknown
+  batch_count?: unknown
+  production_rate?: unknown
+  status?: unknown
+  metadata?: unknown
+  timestamp?: unknown
+  sequence?: unknown
+}
+
+interface ValidationError {
+  index: number
+  field: string
+  message: string
+}
+
+function getCorsHeaders(req: Request): Record<string, string> {
+  const origin = req.headers.get('origin')
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) {
+    return {}
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-machine-id, x-api-key, x-signature, x-timestamp',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Vary': 'Origin'
+  }
+}
+
+function jsonResponse(req: Request, status: number, body: Record<string, unknown>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...getCorsHeaders(req), 'Content-Type': 'application/json' }
+  })
+}
+
+function errorResponse(req: Request, status: number, code: string, message: string, details?: unknown): Response {
+  return jsonResponse(req, status, { success: false, error: code, message, ...(details ? { details } : {}) })
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)))
+}
+
+async function hmacSha256Hex(secret: string, value: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(value)))
+}
+
+// Constant-time comparison so response timing doesn't leak how much of a key matched
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false
+  }
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+// Accepts a single reading, an array of readings, or { readings: [...] }
+function getReadings(body: unknown): BatchReading[] | null {
+  if (Array.isArray(body)) {
+    return body
+  }
+  if (body && typeof body === 'object') {
+    const readings = (body as { readings?: unknown }).readings
+    if (Array.isArray(readings)) {
+      return readings
+    }
+    return [body as BatchReading]
+  }
+  return null
+}
+
+function validateReading(reading: BatchReading, index: number, machineId: string): ValidationError[] {
+  const errors: ValidationError[] = []
+  const fail = (field: string, message: string) => errors.push({ index, field, message })
+
+  if (!reading || typeof reading !== 'object' || Array.isArray(reading)) {
+    fail('reading', 'must be a JSON object')
+    return errors
+  }
+
+  if (reading.machine_id !== undefined && reading.machine_id !== machineId) {
+    fail('machine_id', `must match the X-Machine-Id header (${machineId})`)
+  }
+  if (typeof reading.batch_count !== 'number' || !Number.isInteger(reading.batch_count) || reading.batch_count < 0) {
+    fail('batch_count', 'is required and must be a non-negative integer')
+  }
+  if (reading.production_rate !== undefined && reading.production_rate !== null &&
+      (typeof reading.production_rate !== 'number' || !isFinite(reading.production_rate) || reading.production_rate < 0)) {
+    fail('production_rate', 'must be a non-negative number')
+  }
+  if (reading.status !== undefined && (typeof reading.status !== 'string' || reading.status.length === 0 || reading.status.length > 50)) {
+    fail('status', 'must be a string of 1-50 characters')
+  }
+  if (reading.metadata !== undefined && (reading.metadata === null || typeof reading.metadata !== 'object' || Array.isArray(reading.metadata))) {
+    fail('metadata', 'must be a JSON object')
+  }
+  if (reading.sequence !== undefined && (typeof reading.sequence !== 'number' || !Number.isSafeInteger(reading.sequence) || reading.sequence < 0)) {
+    fail('sequence', 'must be a non-negative integer')
+  }
+  if (reading.timestamp !== undefined && (typeof reading.timestamp !== 'string' || isNaN(Date.parse(reading.timestamp)))) {
+    fail('timestamp', 'must be an ISO 8601 date-time string')
+  }
+  if (reading.sequence === undefined && reading.timestamp === undefined) {
+    fail('sequence', 'sequence or timestamp is required to deduplicate retries')
+  }
+
+  return errors
+}
+
+function toRow(reading: BatchReading, machineId: string) {
+  const timestamp = reading.timestamp !== undefined
+    ? new Date(reading.timestamp as string).toISOString()
+    : new Date().toISOString()
+
+  return {
+    machine_id: machineId,
+    batch_count: reading.batch_count as number,
+    production_rate: typeof reading.production_rate === 'number' ? reading.production_rate : null,
+    status: (reading.status as string | undefined) || 'running',
+    metadata: (reading.metadata as Record<string, unknown> | undefined) || {},
+    timestamp,
+    sequence: reading.sequence !== undefined ? reading.sequence as number : null,
+    idempotency_key: reading.sequence !== undefined ? `seq:${reading.sequence}` : `ts:${timestamp}`
+  }
 }
 
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
+    return new Response('ok', { headers: getCorsHeaders(req) })
+  }
+
+  if (req.method !== 'POST') {
+    return errorResponse(req, 405, 'method_not_allowed', 'Use POST')
   }
 
   try {
@@ -29,70 +187,113 @@ serve(async (req) => {
       }
     )
 
-    // Parse request body
-    const body = await req.json()
-    
-    // Validate required fields
-    if (!body.machine_id || body.batch_count === undefined) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields: machine_id and batch_count' }),
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      )
+    // Authenticate the machine before looking at the payload
+    const machineId = req.headers.get('x-machine-id')?.trim()
+    const apiKey = req.headers.get('x-api-key')
+    const signature = req.headers.get('x-signature')?.replace(/^sha256=/, '').toLowerCase()
+    const signedAt = req.headers.get('x-timestamp')
+
+    if (!machineId) {
+      return errorResponse(req, 401, 'missing_machine_id', 'X-Machine-Id header is required')
+    }
+    if (!apiKey && !signature) {
+      return errorResponse(req, 401, 'missing_credentials', 'Send X-Api-Key, or X-Signature with X-Timestamp')
     }
 
-    // Prepare data for insertion
-    const batchData = {
-      machine_id: body.machine_id,
-      batch_count: parseInt(body.batch_count),
-      production_rate: body.production_rate ? parseFloat(body.production_rate) : null,
-      status: body.status || 'running',
-      metadata: body.metadata || {},
-      timestamp: body.timestamp ? new Date(body.timestamp).toISOString() : new Date().toISOString()
+    const rawBody = await req.text()
+    if (rawBody.length > MAX_BODY_BYTES) {
+      return errorResponse(req, 413, 'payload_too_large', `Body must be under ${MAX_BODY_BYTES} bytes`)
     }
 
-    // Insert data into Supabase
+    const { data: machine, error: machineError } = await supabaseClient
+      .from('batch_counter_machines')
+      .select('machine_id, api_key_hash, hmac_secret, is_active')
+      .eq('machine_id', machineId)
+      .maybeSingle()
+
+    if (machineError) {
+      console.error('Error loading machine credentials:', machineError)
+      return errorResponse(req, 500, 'server_error', 'Could not verify machine credentials')
+    }
+
+    // Same response for unknown machines and wrong keys
+    const invalidCredentials = () => errorResponse(req, 401, 'invalid_credentials', 'Unknown machine or invalid credentials')
+
+    if (!machine || !machine.is_active) {
+      return invalidCredentials()
+    }
+
+    if (signature) {
+      const signedAtSeconds = Number(signedAt)
+      if (!machine.hmac_secret || !signedAt || !Number.isFinite(signedAtSeconds)) {
+        return invalidCredentials()
+      }
+      if (Math.abs(Date.now() / 1000 - signedAtSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+        return errorResponse(req, 401, 'stale_signature', `X-Timestamp must be within ${SIGNATURE_TOLERANCE_SECONDS} seconds of server time`)
+      }
+      const expected = await hmacSha256Hex(machine.hmac_secret, `${signedAt}.${rawBody}`)
+      if (!safeEqual(expected, signature)) {
+        return invalidCredentials()
+      }
+    } else if (!safeEqual(await sha256Hex(apiKey as string), machine.api_key_hash)) {
+      return invalidCredentials()
+    }
+
+    // Parse and validate the payload
+    let body: unknown
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return errorResponse(req, 400, 'invalid_json', 'Body must be valid JSON')
+    }
+
+    const readings = getReadings(body)
+    if (!readings || readings.length === 0) {
+      return errorResponse(req, 400, 'empty_payload', 'Send a reading object, an array of readings, or { "readings": [...] }')
+    }
+    if (readings.length > MAX_READINGS_PER_REQUEST) {
+      return errorResponse(req, 413, 'too_many_readings', `Send at most ${MAX_READINGS_PER_REQUEST} readings per request`)
+    }
+
+    const validationErrors = readings.flatMap((reading, index) => validateReading(reading, index, machineId))
+    if (validationErrors.length > 0) {
+      return errorResponse(req, 422, 'validation_failed', 'One or more readings are invalid; nothing was stored', validationErrors)
+    }
+
+    // Deduplicate within the request too, so a buffer with repeats doesn't fail the upsert
+    const rows = Array.from(
+      new Map(readings.map(reading => toRow(reading, machineId)).map(row => [row.idempotency_key, row])).values()
+    )
+
+    // Insert new readings; ones already stored (retries) are skipped
     const { data, error } = await supabaseClient
       .from('batch_counter_data')
-      .insert([batchData])
-      .select()
+      .upsert(rows, { onConflict: 'machine_id,idempotency_key', ignoreDuplicates: true })
+      .select('id, idempotency_key')
 
     if (error) {
       console.error('Error inserting batch data:', error)
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { 
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      )
+      return errorResponse(req, 500, 'server_error', error.message)
     }
 
+    await supabaseClient
+      .from('batch_counter_machines')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('machine_id', machineId)
+
+    const inserted = data?.length ?? 0
+
     // Return success response
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        message: 'Batch data received successfully',
-        data: data[0]
-      }),
-      { 
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    )
+    return jsonResponse(req, 200, {
+      success: true,
+      message: 'Batch data received successfully',
+      received: readings.length,
+      inserted,
+      duplicates: readings.length - inserted
+    })
 
   } catch (error) {
     console.error('Error processing request:', error)
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    )
+    return errorResponse(req, 500, 'server_error', error instanceof Error ? error.message : 'Unexpected error')
   }
 })
-
-